@@ -6,6 +6,10 @@ import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import HomePage from "@/pages/home-page";
 import DashboardPage from "@/pages/dashboard-page";
+import ScanDetailPage from "@/pages/scan-detail-page";
+import ConformanceReportPage from "@/pages/conformance-report-page";
+import ScanComparisonPage from "@/pages/scan-comparison-page";
+import ProjectPage from "@/pages/project-page";
 import { AuthProvider } from "@/hooks/use-auth";
 import { ProtectedRoute } from "./lib/protected-route";
 
@@ -15,6 +19,10 @@ function Router() {
       <Route path="/" component={HomePage} />
       <Route path="/auth" component={AuthPage} />
       <ProtectedRoute path="/dashboard" component={DashboardPage} />
+      <ProtectedRoute path="/projects/:id" component={ProjectPage} />
+      <ProtectedRoute path="/scans/:id" component={ScanDetailPage} />
+      <ProtectedRoute path="/scans/:id/acr" component={ConformanceReportPage} />
+      <ProtectedRoute path="/scans/:a/compare/:b" component={ScanComparisonPage} />
       <Route component={NotFound} />
     </Switch>
   );
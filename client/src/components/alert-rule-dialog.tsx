@@ -0,0 +1,275 @@
+import React from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SigningSecretField } from "@/components/signing-secret";
+import { alertRuleTypes, type AlertRule, type AlertRuleType, type InsertAlertRule, type RedactedAlertRule } from "@shared/schema";
+
+export const ALERT_RULE_LABELS: Record<AlertRuleType, string> = {
+  "new-critical": "A new critical issue appears",
+  "violations-increase": "Total violations increase",
+  "lighthouse-score-below": "Lighthouse score drops below",
+};
+
+// One-line summary of when a rule fires
+export function describeAlertRule(rule: Pick<AlertRule, "type" | "threshold">) {
+  switch (rule.type) {
+    case "violations-increase":
+      return `Total violations increase by ${rule.threshold} or more`;
+    case "lighthouse-score-below":
+      return `Lighthouse score drops below ${rule.threshold}`;
+    default:
+      return ALERT_RULE_LABELS[rule.type as AlertRuleType] ?? rule.type;
+  }
+}
+
+const parseEmails = (value?: string) => (value || "").split(/[\s,;]+/).map(email => email.trim()).filter(Boolean);
+
+const alertRuleFormSchema = z.object({
+  url: z.string().url("Invalid URL"),
+  type: z.enum(alertRuleTypes),
+  threshold: z.coerce.number().int().min(0).max(100000).optional(),
+  webhookUrl: z.string().url("Invalid URL").optional().or(z.literal("")),
+  emails: z.string().optional(),
+}).superRefine((values, ctx) => {
+  parseEmails(values.emails).forEach(email => {
+    if (!z.string().email().safeParse(email).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${email} is not a valid email address`, path: ["emails"] });
+    }
+  });
+  if (!values.webhookUrl && parseEmails(values.emails).length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Add a webhook URL or at least one email address", path: ["webhookUrl"] });
+  }
+});
+
+type AlertRuleFormValues = z.infer<typeof alertRuleFormSchema>;
+
+function toFormValues(rule?: RedactedAlertRule): AlertRuleFormValues {
+  return {
+    url: rule?.url ?? "",
+    type: (rule?.type as AlertRuleType) ?? "new-critical",
+    threshold: rule?.threshold ?? undefined,
+    webhookUrl: rule?.webhookUrl ?? "",
+    emails: ((rule?.emails ?? []) as string[]).join(", "),
+  };
+}
+
+// Creates an alert rule, showing its webhook signing secret once, or edits the given one
+export function AlertRuleDialog({ rule, trigger }: { rule?: RedactedAlertRule; trigger: React.ReactNode }) {
+  const { toast } = useToast();
+  const [open, setOpen] = React.useState(false);
+  const [created, setCreated] = React.useState<AlertRule | null>(null);
+
+  const form = useForm<AlertRuleFormValues>({
+    resolver: zodResolver(alertRuleFormSchema),
+    defaultValues: toFormValues(rule),
+  });
+  const type = form.watch("type");
+
+  React.useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(rule));
+    }
+  }, [open, rule, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: AlertRuleFormValues) => {
+      const data: InsertAlertRule = {
+        url: values.url,
+        type: values.type,
+        threshold: values.type === "new-critical" ? null : values.threshold ?? null,
+        webhookUrl: values.webhookUrl || null,
+        emails: parseEmails(values.emails),
+      };
+      const res = rule
+        ? await apiRequest("PUT", `/api/alert-rules/${rule.id}`, data)
+        : await apiRequest("POST", "/api/alert-rules", data);
+      return res.json() as Promise<AlertRule>;
+    },
+    onSuccess: (saved) => {
+      toast({ title: rule ? "Alert rule updated" : "Alert rule created" });
+      queryClient.invalidateQueries({ queryKey: ["/api/alert-rules"] });
+      // Only a new rule that posts to a webhook has a secret worth showing
+      if (!rule && saved.webhookUrl) {
+        setCreated(saved);
+      } else {
+        setOpen(false);
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: rule ? "Failed to update alert rule" : "Failed to create alert rule",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setCreated(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{created ? "Copy the signing secret" : rule ? "Edit alert rule" : "New alert rule"}</DialogTitle>
+          <DialogDescription>
+            {created
+              ? `Check the X-AccessScan-Signature header of each alert posted to ${created.webhookUrl} with this secret.`
+              : "Checked whenever a scan of the URL completes, against the previous scan of the same URL."}
+          </DialogDescription>
+        </DialogHeader>
+        {created ? (
+          <div className="space-y-4">
+            <SigningSecretField secret={created.webhookSecret} url={created.webhookUrl!} />
+            <DialogFooter>
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="url"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid gap-4 md:grid-cols-[1fr_140px]">
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Alert when</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {alertRuleTypes.map(option => (
+                            <SelectItem key={option} value={option}>{ALERT_RULE_LABELS[option]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {type !== "new-critical" && (
+                  <FormField
+                    control={form.control}
+                    name="threshold"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{type === "violations-increase" ? "By at least" : "Score"}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={type === "violations-increase" ? 1 : 0}
+                            max={type === "violations-increase" ? undefined : 100}
+                            {...field}
+                            value={field.value ?? ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              <FormField
+                control={form.control}
+                name="webhookUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Webhook URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://hooks.example.com/accessscan" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>
+                      Receives a JSON POST signed with the rule's secret in the X-AccessScan-Signature header
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="emails"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email addresses</FormLabel>
+                    <FormControl>
+                      <Input placeholder="team@example.com, client@example.com" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>
+                      Separate several addresses with commas
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {rule ? "Save Rule" : "Create Rule"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+import React from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Copy, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { insertApiKeySchema, type InsertApiKey, type NewApiKey } from "@shared/schema";
+
+// Creates an API key and shows it once; after closing, only its first characters are ever shown
+export function ApiKeyDialog({ trigger }: { trigger: React.ReactNode }) {
+  const { toast } = useToast();
+  const [open, setOpen] = React.useState(false);
+  const [created, setCreated] = React.useState<NewApiKey | null>(null);
+
+  const form = useForm<InsertApiKey>({
+    resolver: zodResolver(insertApiKeySchema),
+    defaultValues: { name: "" },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (values: InsertApiKey) => {
+      const res = await apiRequest("POST", "/api/api-keys", values);
+      return res.json() as Promise<NewApiKey>;
+    },
+    onSuccess: (apiKey) => {
+      setCreated(apiKey);
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create API key",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setCreated(null);
+      form.reset();
+    }
+  };
+
+  const copyKey = async () => {
+    try {
+      await navigator.clipboard.writeText(created!.key);
+      toast({ title: "API key copied" });
+    } catch {
+      toast({ title: "Failed to copy API key", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{created ? "Copy your API key" : "New API key"}</DialogTitle>
+          <DialogDescription>
+            {created
+              ? "This is the only time the full key is shown. Store it in your CI secrets now."
+              : "Keys act as your account on the /api/v1 API. Create one per script or pipeline so each can be revoked on its own."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {created ? (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input value={created.key} readOnly className="font-mono text-sm" aria-label={`API key ${created.name}`} />
+              <Button variant="outline" onClick={copyKey} aria-label="Copy API key">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Send it as <code>Authorization: Bearer &lt;key&gt;</code>.
+            </p>
+            <DialogFooter>
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(values => createMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="GitHub Actions" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Where the key will be used
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="submit" disabled={createMutation.isPending}>
+                  {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Create Key
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
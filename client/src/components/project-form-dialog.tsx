@@ -0,0 +1,254 @@
+import React from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { InsertProject, Project, ProjectBranding, ScanOptions } from "@shared/schema";
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a hex color such as #2563eb").optional().or(z.literal(""));
+
+const projectFormSchema = z.object({
+  name: z.string().trim().min(1, "Project name is required").max(100),
+  baseUrl: z.string().url("Invalid URL"),
+  renderMode: z.enum(["default", "browser", "static"]),
+  companyName: z.string().optional(),
+  companyLogo: z.string().url("Invalid URL").optional().or(z.literal("")),
+  contactEmail: z.string().email("Invalid email").optional().or(z.literal("")),
+  contactPhone: z.string().optional(),
+  websiteUrl: z.string().url("Invalid URL").optional().or(z.literal("")),
+  primaryColor: hexColor,
+  accentColor: hexColor,
+});
+
+type ProjectFormValues = z.infer<typeof projectFormSchema>;
+
+// Branding text fields; anything left empty falls back to the user's report settings
+const BRANDING_FIELDS = [
+  { name: "companyName", label: "Company Name", placeholder: "Acme Corporation" },
+  { name: "companyLogo", label: "Logo URL", placeholder: "https://example.com/logo.png" },
+  { name: "contactEmail", label: "Contact Email", placeholder: "contact@example.com" },
+  { name: "contactPhone", label: "Contact Phone", placeholder: "+1 (555) 123-4567" },
+  { name: "websiteUrl", label: "Website URL", placeholder: "https://example.com" },
+  { name: "primaryColor", label: "Primary Color", placeholder: "#2563eb" },
+  { name: "accentColor", label: "Accent Color", placeholder: "#1e40af" },
+] as const;
+
+function toFormValues(project?: Project): ProjectFormValues {
+  const options = (project?.defaultOptions ?? {}) as ScanOptions;
+  const branding = (project?.branding ?? {}) as ProjectBranding;
+  return {
+    name: project?.name ?? "",
+    baseUrl: project?.baseUrl ?? "",
+    renderMode: options.renderMode ?? "default",
+    companyName: branding.companyName ?? "",
+    companyLogo: branding.companyLogo ?? "",
+    contactEmail: branding.contactEmail ?? "",
+    contactPhone: branding.contactPhone ?? "",
+    websiteUrl: branding.websiteUrl ?? "",
+    primaryColor: branding.colors?.primary ?? "",
+    accentColor: branding.colors?.accent ?? "",
+  };
+}
+
+function toProject(values: ProjectFormValues): InsertProject {
+  const branding: ProjectBranding = {};
+  if (values.companyName?.trim()) branding.companyName = values.companyName.trim();
+  if (values.companyLogo) branding.companyLogo = values.companyLogo;
+  if (values.contactEmail) branding.contactEmail = values.contactEmail;
+  if (values.contactPhone?.trim()) branding.contactPhone = values.contactPhone.trim();
+  if (values.websiteUrl) branding.websiteUrl = values.websiteUrl;
+  if (values.primaryColor || values.accentColor) {
+    branding.colors = {
+      ...(values.primaryColor ? { primary: values.primaryColor } : {}),
+      ...(values.accentColor ? { accent: values.accentColor } : {}),
+    };
+  }
+
+  return {
+    name: values.name,
+    baseUrl: values.baseUrl,
+    defaultOptions: values.renderMode === "default" ? null : { renderMode: values.renderMode },
+    branding: Object.keys(branding).length > 0 ? branding : null,
+  };
+}
+
+// Creates a project, or edits the given one, with its default scan options and report branding
+export function ProjectFormDialog({
+  project,
+  trigger,
+  onSaved,
+}: {
+  project?: Project;
+  trigger: React.ReactNode;
+  onSaved?: (project: Project) => void;
+}) {
+  const { toast } = useToast();
+  const [open, setOpen] = React.useState(false);
+
+  const form = useForm<ProjectFormValues>({
+    resolver: zodResolver(projectFormSchema),
+    defaultValues: toFormValues(project),
+  });
+
+  React.useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(project));
+    }
+  }, [open, project, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: ProjectFormValues) => {
+      const res = project
+        ? await apiRequest("PUT", `/api/projects/${project.id}`, toProject(values))
+        : await apiRequest("POST", "/api/projects", toProject(values));
+      return (await res.json()) as Project;
+    },
+    onSuccess: (saved) => {
+      toast({ title: project ? "Project updated" : "Project created" });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${saved.id}`] });
+      setOpen(false);
+      onSaved?.(saved);
+    },
+    onError: (error) => {
+      toast({
+        title: project ? "Failed to update project" : "Failed to create project",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{project ? "Edit project" : "New project"}</DialogTitle>
+          <DialogDescription>
+            Scans filed under a project use its default options and carry its branding in their reports.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Marketing site" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="baseUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Base URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="renderMode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Default Rendering</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="default">Server default</SelectItem>
+                        <SelectItem value="browser">Headless browser</SelectItem>
+                        <SelectItem value="static">Static HTML</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      How pages of this project are loaded before auditing
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium">Report Branding</h3>
+              <p className="text-sm text-muted-foreground">
+                Leave a field empty to use your own report settings.
+              </p>
+              <div className="grid gap-4 md:grid-cols-2">
+                {BRANDING_FIELDS.map(({ name, label, placeholder }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <Input placeholder={placeholder} {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {project ? "Save Project" : "Create Project"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,275 @@
+import React from "react";
+import { useFieldArray, useFormContext } from "react-hook-form";
+import { z } from "zod";
+import { ChevronDown, ChevronRight, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { LoginStep, ScanAuth } from "@shared/schema";
+
+const LOGIN_ACTIONS: { value: LoginStep["action"]; label: string; target: string }[] = [
+  { value: "goto", label: "Go to", target: "https://example.com/login" },
+  { value: "fill", label: "Fill in", target: "#email" },
+  { value: "click", label: "Click", target: "button[type=submit]" },
+  { value: "waitFor", label: "Wait for", target: ".account-menu" },
+];
+
+// Lines that aren't blank and don't split on the separator, reported by line number
+function malformedLines(text: string, separator: string) {
+  return text
+    .split("\n")
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line && line.indexOf(separator) < 1)
+    .map(({ number }) => number);
+}
+
+function splitLines(text: string, separator: string) {
+  return text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const index = line.indexOf(separator);
+      return { name: line.slice(0, index).trim(), value: line.slice(index + 1).trim() };
+    });
+}
+
+// Credentials as typed into the form; toScanAuth turns them into the API's ScanAuth
+export const scanAuthFormSchema = z.object({
+  username: z.string(),
+  password: z.string(),
+  cookies: z.string(),
+  headers: z.string(),
+  login: z.array(z.object({
+    action: z.enum(["goto", "fill", "click", "waitFor"]),
+    target: z.string().trim().min(1, "Required"),
+    value: z.string(),
+  })),
+}).superRefine((auth, ctx) => {
+  if (auth.password && !auth.username) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter the user name the password belongs to", path: ["username"] });
+  }
+  const badCookies = malformedLines(auth.cookies, "=");
+  if (badCookies.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Line ${badCookies.join(", ")} isn't name=value`, path: ["cookies"] });
+  }
+  const badHeaders = malformedLines(auth.headers, ":");
+  if (badHeaders.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Line ${badHeaders.join(", ")} isn't Name: value`, path: ["headers"] });
+  }
+  auth.login.forEach((step, index) => {
+    if (step.action === "goto" && !z.string().url().safeParse(step.target).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a full URL", path: ["login", index, "target"] });
+    }
+  });
+});
+
+export type ScanAuthFormValues = z.infer<typeof scanAuthFormSchema>;
+
+export const emptyScanAuth: ScanAuthFormValues = { username: "", password: "", cookies: "", headers: "", login: [] };
+
+// Undefined when nothing was filled in, so scans of public pages carry no credentials
+export function toScanAuth(values: ScanAuthFormValues): ScanAuth | undefined {
+  const cookies = splitLines(values.cookies, "=");
+  const headers = splitLines(values.headers, ":");
+  const login: LoginStep[] = values.login.map(step => {
+    switch (step.action) {
+      case "goto":
+        return { action: "goto", url: step.target };
+      case "fill":
+        return { action: "fill", selector: step.target, value: step.value };
+      default:
+        return { action: step.action, selector: step.target };
+    }
+  });
+
+  if (!values.username && cookies.length === 0 && headers.length === 0 && login.length === 0) {
+    return undefined;
+  }
+  return {
+    basic: values.username ? { username: values.username, password: values.password } : undefined,
+    cookies,
+    headers,
+    login,
+  };
+}
+
+/**
+ * Sign-in settings for a scan, for use inside a form whose values have an auth field of
+ * ScanAuthFormValues. Secrets are sent once with the scan and are never shown again
+ */
+export function ScanAuthFields() {
+  const form = useFormContext<{ auth: ScanAuthFormValues }>();
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "auth.login" });
+  const [open, setOpen] = React.useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="space-y-4">
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="ghost" className="px-0">
+          {open ? <ChevronDown className="w-4 h-4 mr-2" /> : <ChevronRight className="w-4 h-4 mr-2" />}
+          Sign in before scanning
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          For pages behind a login. Credentials are stored encrypted and are never shown again or included in reports.
+        </p>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="auth.username"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>HTTP Basic User Name</FormLabel>
+                <FormControl>
+                  <Input autoComplete="off" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="auth.password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>HTTP Basic Password</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="auth.cookies"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Cookies</FormLabel>
+                <FormControl>
+                  <Textarea placeholder="session_id=abc123" className="font-mono text-sm" {...field} />
+                </FormControl>
+                <FormDescription>
+                  One name=value per line, set for the scanned site
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="auth.headers"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Request Headers</FormLabel>
+                <FormControl>
+                  <Textarea placeholder="X-Preview-Token: abc123" className="font-mono text-sm" {...field} />
+                </FormControl>
+                <FormDescription>
+                  One Name: value per line, only sent to the scanned site
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Login Steps</div>
+          <p className="text-sm text-muted-foreground">
+            Run in the browser before each page is scanned. Follow a click that submits the form with a wait for an element only shown when signed in.
+          </p>
+          {fields.map((step, index) => {
+            const action = form.watch(`auth.login.${index}.action`);
+            return (
+              <div key={step.id} className="grid gap-2 md:grid-cols-[140px_1fr_1fr_auto] items-start">
+                <FormField
+                  control={form.control}
+                  name={`auth.login.${index}.action`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger aria-label={`Step ${index + 1} action`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {LOGIN_ACTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`auth.login.${index}.target`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Input
+                          aria-label={`Step ${index + 1} ${action === "goto" ? "URL" : "selector"}`}
+                          placeholder={LOGIN_ACTIONS.find(option => option.value === action)?.target}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {action === "fill" ? (
+                  <FormField
+                    control={form.control}
+                    name={`auth.login.${index}.value`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" aria-label={`Step ${index + 1} value`} placeholder="Value" {...field} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <div />
+                )}
+                <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} aria-label={`Remove step ${index + 1}`}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => append({ action: fields.length === 0 ? "goto" : "fill", target: "", value: "" })}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Step
+          </Button>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,73 @@
+import { Loader2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import type { ScanPhase, ScanProgress } from "@shared/schema";
+
+export function isFinalPhase(phase: ScanPhase) {
+  return phase === "done" || phase === "failed" || phase === "cancelled";
+}
+
+const PHASE_LABELS: Record<ScanPhase, string> = {
+  queued: "Queued",
+  fetching: "Fetching page",
+  parsing: "Parsing page",
+  "running-axe": "Running axe",
+  "generating-report": "Generating PDF",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+// Rough share of a single-page scan completed when each phase starts
+const PHASE_PERCENT: Record<ScanPhase, number> = {
+  queued: 0,
+  fetching: 15,
+  parsing: 40,
+  "running-axe": 60,
+  "generating-report": 85,
+  done: 100,
+  failed: 100,
+  cancelled: 100,
+};
+
+function getPercent(progress: ScanProgress) {
+  if (progress.pagesTotal && progress.phase !== "generating-report" && !isFinalPhase(progress.phase)) {
+    return Math.round(((progress.pagesDone ?? 0) / progress.pagesTotal) * 100);
+  }
+  return PHASE_PERCENT[progress.phase];
+}
+
+export function ScanProgressIndicator({ progress }: { progress: ScanProgress | null }) {
+  if (!progress) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Connecting…
+      </div>
+    );
+  }
+
+  const pages = progress.pagesDone !== undefined
+    ? ` · ${progress.pagesDone}${progress.pagesTotal ? ` of ${progress.pagesTotal}` : ""} pages`
+    : "";
+
+  return (
+    <div className="grid gap-1 min-w-[10rem]" role="status" aria-live="polite">
+      <div className="flex items-center gap-2 text-sm">
+        {!isFinalPhase(progress.phase) && (
+          <Loader2 className="h-3 w-3 animate-spin" />
+        )}
+        <span>{PHASE_LABELS[progress.phase]}{pages}</span>
+      </div>
+      <Progress
+        value={getPercent(progress)}
+        className="h-2"
+        aria-label={`Scan progress: ${PHASE_LABELS[progress.phase]}`}
+      />
+      {progress.message && (
+        <span className="text-xs text-muted-foreground truncate max-w-xs" title={progress.message}>
+          {progress.message}
+        </span>
+      )}
+    </div>
+  );
+}
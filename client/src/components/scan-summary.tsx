@@ -0,0 +1,42 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import type { Scan, ScanResultMeta } from "@shared/schema";
+import { IMPACT_ORDER } from "@shared/wcag";
+
+const summaryOf = (scan: Scan | null) => (scan?.resultMeta as ScanResultMeta | null | undefined)?.summary;
+
+const getScoreColor = (score: number) => {
+  if (score >= 90) return "text-green-600";
+  if (score >= 50) return "text-amber-600";
+  return "text-destructive";
+};
+
+// Percentage of audited rules that passed, or a dash when the scan has no summary
+export function ScanScore({ scan }: { scan: Scan | null }) {
+  const score = summaryOf(scan)?.score;
+  if (score === undefined || score === null) {
+    return <span className="text-muted-foreground">–</span>;
+  }
+  return <span className={`font-semibold ${getScoreColor(score)}`}>{score}</span>;
+}
+
+// Violating elements of the scan per impact
+export function IssueCounts({ scan }: { scan: Scan | null }) {
+  const summary = summaryOf(scan);
+  if (!summary) {
+    return <span className="text-muted-foreground">–</span>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {IMPACT_ORDER.map(impact => (
+        <Badge
+          key={impact}
+          variant={summary.violations[impact] > 0 && (impact === "critical" || impact === "serious") ? "destructive" : "outline"}
+        >
+          {impact} {summary.violations[impact]}
+        </Badge>
+      ))}
+    </div>
+  );
+}
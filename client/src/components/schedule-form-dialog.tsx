@@ -0,0 +1,292 @@
+import React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeCron, validateCron, WEEKDAY_NAMES } from "@shared/cron";
+import type { InsertScanSchedule, ProjectSummary } from "@shared/schema";
+
+// Select value for schedules that don't belong to a project
+const NO_PROJECT = "none";
+
+const scheduleFormSchema = z.object({
+  url: z.string().url("Invalid URL"),
+  projectId: z.string(),
+  frequency: z.enum(["daily", "weekly", "monthly", "custom"]),
+  time: z.string().regex(/^\d{2}:\d{2}$/, "Choose a time"),
+  weekday: z.string(),
+  dayOfMonth: z.coerce.number().int().min(1).max(28),
+  cron: z.string().optional(),
+}).superRefine((values, ctx) => {
+  if (values.frequency !== "custom") return;
+  const problem = validateCron(values.cron ?? "");
+  if (problem) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem, path: ["cron"] });
+  }
+});
+
+type ScheduleFormValues = z.infer<typeof scheduleFormSchema>;
+
+// Presets become plain cron expressions so the server only deals with one format
+function toCron(values: ScheduleFormValues) {
+  const [hour, minute] = values.time.split(":").map(Number);
+  switch (values.frequency) {
+    case "daily":
+      return `${minute} ${hour} * * *`;
+    case "weekly":
+      return `${minute} ${hour} * * ${values.weekday}`;
+    case "monthly":
+      return `${minute} ${hour} ${values.dayOfMonth} * *`;
+    default:
+      return values.cron!.trim();
+  }
+}
+
+// Creates a recurring scan of a URL from a daily, weekly or monthly preset or a cron expression
+export function ScheduleFormDialog({ trigger }: { trigger: React.ReactNode }) {
+  const { toast } = useToast();
+  const [open, setOpen] = React.useState(false);
+
+  const { data: projects } = useQuery<ProjectSummary[]>({
+    queryKey: ["/api/projects"],
+    enabled: open,
+  });
+
+  const form = useForm<ScheduleFormValues>({
+    resolver: zodResolver(scheduleFormSchema),
+    defaultValues: {
+      url: "",
+      projectId: NO_PROJECT,
+      frequency: "weekly",
+      time: "09:00",
+      weekday: "1",
+      dayOfMonth: 1,
+      cron: "",
+    },
+  });
+  const frequency = form.watch("frequency");
+
+  const createMutation = useMutation({
+    mutationFn: async (values: ScheduleFormValues) => {
+      const schedule: InsertScanSchedule = {
+        url: values.url,
+        cron: toCron(values),
+        projectId: values.projectId === NO_PROJECT ? undefined : Number(values.projectId),
+      };
+      const res = await apiRequest("POST", "/api/schedules", schedule);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Schedule created", description: describeCron(toCron(form.getValues())) });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedules"] });
+      form.reset();
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create schedule",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Schedule a recurring scan</DialogTitle>
+          <DialogDescription>
+            Each run starts a normal single-page scan that appears in your scan history. Times are in UTC.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => createMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Website URL</FormLabel>
+                  <FormControl>
+                    <Input placeholder="https://example.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {projects && projects.length > 0 && (
+              <FormField
+                control={form.control}
+                name="projectId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Project</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                        {projects.map(project => (
+                          <SelectItem key={project.id} value={String(project.id)}>{project.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="frequency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Frequency</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="daily">Daily</SelectItem>
+                        <SelectItem value="weekly">Weekly</SelectItem>
+                        <SelectItem value="monthly">Monthly</SelectItem>
+                        <SelectItem value="custom">Cron expression</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {frequency !== "custom" && (
+                <FormField
+                  control={form.control}
+                  name="time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Time (UTC)</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {frequency === "weekly" && (
+                <FormField
+                  control={form.control}
+                  name="weekday"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Day</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {WEEKDAY_NAMES.map((name, index) => (
+                            <SelectItem key={name} value={String(index)}>{name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {frequency === "monthly" && (
+                <FormField
+                  control={form.control}
+                  name="dayOfMonth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Day of month</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={28} {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Up to the 28th so every month has a run
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {frequency === "custom" && (
+                <FormField
+                  control={form.control}
+                  name="cron"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cron expression</FormLabel>
+                      <FormControl>
+                        <Input placeholder="0 9 * * 1-5" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Minute, hour, day of month, month and day of week
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Schedule
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
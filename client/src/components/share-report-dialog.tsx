@@ -0,0 +1,177 @@
+import React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, Link2, Loader2, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ReportShareWithUrl, Scan } from "@shared/schema";
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+];
+
+// Creates, lists and revokes expiring links that let someone without an account open a scan's PDF report
+export function ShareReportDialog({ scan }: { scan: Scan }) {
+  const { toast } = useToast();
+  const [open, setOpen] = React.useState(false);
+  const [expiresInDays, setExpiresInDays] = React.useState("7");
+  const sharesKey = `/api/scans/${scan.id}/shares`;
+
+  const { data: shares, isLoading } = useQuery<ReportShareWithUrl[]>({
+    queryKey: [sharesKey],
+    enabled: open,
+  });
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied" });
+    } catch {
+      toast({
+        title: "Couldn't copy the link",
+        description: "Select the link and copy it manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", sharesKey, { expiresInDays: Number(expiresInDays) });
+      return (await res.json()) as ReportShareWithUrl;
+    },
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: [sharesKey] });
+      copyLink(share.url);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create share link",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (shareId: number) => {
+      await apiRequest("DELETE", `${sharesKey}/${shareId}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Share link revoked" });
+      queryClient.invalidateQueries({ queryKey: [sharesKey] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to revoke share link",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label={`Share report for ${scan.url}`}>
+          <Share2 className="w-4 h-4 mr-1" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Share report</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can open the PDF report for {scan.url} without signing in,
+            until the link expires or you revoke it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="grid gap-1 flex-1">
+            <label htmlFor={`share-expiry-${scan.id}`} className="text-sm font-medium">
+              Expires after
+            </label>
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger id={`share-expiry-${scan.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.days} value={String(option.days)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+            {createMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Link2 className="w-4 h-4 mr-2" />
+            )}
+            Create link
+          </Button>
+        </div>
+
+        <div className="grid gap-2">
+          <h3 className="text-sm font-medium">Active links</h3>
+          {isLoading ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : !shares?.length ? (
+            <p className="text-sm text-muted-foreground">No active links.</p>
+          ) : (
+            shares.map(share => (
+              <div key={share.id} className="grid gap-1 rounded-md border p-2">
+                <div className="flex gap-2">
+                  <Input value={share.url} readOnly aria-label="Share link" onFocus={(e) => e.target.select()} />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => copyLink(share.url)}
+                    aria-label="Copy link"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>Expires {format(new Date(share.expiresAt), "PPp")}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(share.id)}
+                    disabled={revokeMutation.isPending}
+                    className="text-destructive"
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+
+// A webhook signing secret with a copy button; it is only shown when created or rotated
+export function SigningSecretField({ secret, url }: { secret: string; url: string }) {
+  const { toast } = useToast();
+
+  const copySecret = async () => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast({ title: "Signing secret copied" });
+    } catch {
+      toast({ title: "Failed to copy signing secret", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input value={secret} readOnly className="font-mono text-sm" aria-label={`Signing secret for ${url}`} />
+        <Button variant="outline" onClick={copySecret} aria-label={`Copy the signing secret for ${url}`}>
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        This is the only time the secret is shown. If it is lost, rotate it to get a new one.
+      </p>
+    </div>
+  );
+}
+
+// Shows a secret that was just rotated, until the dialog is closed
+export function SigningSecretDialog({ secret, url, onClose }: { secret: string | null; url: string; onClose: () => void }) {
+  return (
+    <Dialog open={secret !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Copy the new signing secret</DialogTitle>
+          <DialogDescription>
+            Requests to {url} are now signed with this secret, and the old one no longer verifies.
+          </DialogDescription>
+        </DialogHeader>
+        {secret && <SigningSecretField secret={secret} url={url} />}
+        <DialogFooter>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
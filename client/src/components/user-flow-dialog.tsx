@@ -0,0 +1,383 @@
+import React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ScanAuthFields, emptyScanAuth, scanAuthFormSchema, toScanAuth } from "@/components/scan-auth-fields";
+import type { FlowStep, InsertUserFlow, ProjectSummary, StoredScanOptions, UserFlow } from "@shared/schema";
+
+// Select value for flows that don't belong to a project
+const NO_PROJECT = "none";
+
+const FLOW_ACTIONS: { value: FlowStep["action"]; label: string; target: string; placeholder: string }[] = [
+  { value: "navigate", label: "Go to", target: "URL", placeholder: "https://example.com/checkout" },
+  { value: "click", label: "Click", target: "Selector", placeholder: "button.open-menu" },
+  { value: "type", label: "Type", target: "Selector", placeholder: "#email" },
+  { value: "press", label: "Press key", target: "Key", placeholder: "Escape" },
+  { value: "wait", label: "Wait", target: "Selector (optional)", placeholder: "[role=dialog]" },
+  { value: "audit", label: "Audit", target: "Label (optional)", placeholder: "Menu open" },
+];
+
+const flowFormSchema = z.object({
+  name: z.string().trim().min(1, "Name the flow").max(100),
+  startUrl: z.string().url("Invalid URL"),
+  projectId: z.string(),
+  steps: z.array(z.object({
+    action: z.enum(["navigate", "click", "type", "press", "wait", "audit"]),
+    target: z.string(),
+    text: z.string(),
+    ms: z.string(),
+  })),
+  auth: scanAuthFormSchema,
+}).superRefine((values, ctx) => {
+  if (!values.steps.some(step => step.action === "audit")) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Add at least one audit step", path: ["steps", "root"] });
+  }
+  values.steps.forEach((step, index) => {
+    const target = step.target.trim();
+    if (step.action === "navigate" && !z.string().url().safeParse(target).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a full URL", path: ["steps", index, "target"] });
+    }
+    if ((step.action === "click" || step.action === "type" || step.action === "press") && !target) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Required", path: ["steps", index, "target"] });
+    }
+    if (step.action === "wait" && !target && !/^\d+$/.test(step.ms.trim())) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a selector or a time in ms", path: ["steps", index, "ms"] });
+    }
+  });
+});
+
+type FlowFormValues = z.infer<typeof flowFormSchema>;
+type FlowFormStep = FlowFormValues["steps"][number];
+
+function toFormStep(step: FlowStep): FlowFormStep {
+  const empty = { target: "", text: "", ms: "" };
+  switch (step.action) {
+    case "navigate":
+      return { ...empty, action: step.action, target: step.url };
+    case "click":
+      return { ...empty, action: step.action, target: step.selector };
+    case "type":
+      return { ...empty, action: step.action, target: step.selector, text: step.text };
+    case "press":
+      return { ...empty, action: step.action, target: step.key };
+    case "wait":
+      return { ...empty, action: step.action, target: step.selector ?? "", ms: step.ms?.toString() ?? "" };
+    case "audit":
+      return { ...empty, action: step.action, target: step.label ?? "" };
+  }
+}
+
+function toFlowStep(step: FlowFormStep): FlowStep {
+  const target = step.target.trim();
+  switch (step.action) {
+    case "navigate":
+      return { action: step.action, url: target };
+    case "click":
+      return { action: step.action, selector: target };
+    case "type":
+      return { action: step.action, selector: target, text: step.text };
+    case "press":
+      return { action: step.action, key: target };
+    case "wait":
+      return target
+        ? { action: step.action, selector: target }
+        : { action: step.action, ms: Number(step.ms.trim()) };
+    case "audit":
+      return { action: step.action, label: target || undefined };
+  }
+}
+
+function toFormValues(flow?: UserFlow): FlowFormValues {
+  return {
+    name: flow?.name ?? "",
+    startUrl: flow?.startUrl ?? "",
+    projectId: flow?.projectId ? String(flow.projectId) : NO_PROJECT,
+    steps: flow ? flow.steps.map(toFormStep) : [{ action: "audit", target: "Page loaded", text: "", ms: "" }],
+    // Saved credentials are never sent back, so the fields start empty
+    auth: emptyScanAuth,
+  };
+}
+
+// Creates a user flow, or edits the given one; steps run top to bottom from the start URL
+export function UserFlowDialog({ flow, trigger }: { flow?: UserFlow; trigger: React.ReactNode }) {
+  const { toast } = useToast();
+  const [open, setOpen] = React.useState(false);
+  const [forgetAuth, setForgetAuth] = React.useState(false);
+  const savedAuth = (flow?.options as StoredScanOptions | null | undefined)?.auth;
+
+  const { data: projects } = useQuery<ProjectSummary[]>({
+    queryKey: ["/api/projects"],
+    enabled: open,
+  });
+
+  const form = useForm<FlowFormValues>({
+    resolver: zodResolver(flowFormSchema),
+    defaultValues: toFormValues(flow),
+  });
+  const { fields, append, remove, move } = useFieldArray({ control: form.control, name: "steps" });
+  const steps = form.watch("steps");
+
+  React.useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(flow));
+      setForgetAuth(false);
+    }
+  }, [open, flow, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: FlowFormValues) => {
+      const auth = toScanAuth(values.auth);
+      const data: InsertUserFlow = {
+        name: values.name,
+        startUrl: values.startUrl,
+        projectId: values.projectId === NO_PROJECT ? null : Number(values.projectId),
+        steps: values.steps.map(toFlowStep),
+        // New credentials replace the saved ones; leaving the fields empty keeps them unless they were forgotten
+        options: auth ? { auth } : savedAuth && !forgetAuth ? undefined : null,
+      };
+      const res = flow
+        ? await apiRequest("PUT", `/api/flows/${flow.id}`, data)
+        : await apiRequest("POST", "/api/flows", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: flow ? "User flow updated" : "User flow created" });
+      queryClient.invalidateQueries({ queryKey: ["/api/flows"] });
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: flow ? "Failed to update user flow" : "Failed to create user flow",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{flow ? "Edit user flow" : "New user flow"}</DialogTitle>
+          <DialogDescription>
+            The steps are replayed in a browser from the start URL. Each audit step takes a screenshot and
+            checks the page as it is at that point, so menus, dialogs and error states are covered.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Checkout with an invalid card" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="startUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {projects && projects.length > 0 && (
+              <FormField
+                control={form.control}
+                name="projectId"
+                render={({ field }) => (
+                  <FormItem className="md:max-w-sm">
+                    <FormLabel>Project</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                        {projects.map(project => (
+                          <SelectItem key={project.id} value={String(project.id)}>{project.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Runs use the project's default options, and its sign-in settings unless the flow has its own
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="space-y-2">
+              <ScanAuthFields />
+              {savedAuth && !forgetAuth && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <span>
+                    Signs in with saved settings{savedAuth.username ? ` as ${savedAuth.username}` : ""}. Fill in the fields above to replace them.
+                  </span>
+                  <Button type="button" variant="link" size="sm" className="px-0" onClick={() => setForgetAuth(true)}>
+                    Forget them
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Steps</div>
+              <p className="text-sm text-muted-foreground">
+                Text typed by steps is saved as entered. Put passwords in the sign-in settings, which are stored encrypted.
+              </p>
+              {fields.map((step, index) => {
+                const action = steps[index]?.action ?? step.action;
+                const option = FLOW_ACTIONS.find(candidate => candidate.value === action)!;
+                return (
+                  <div key={step.id} className="grid gap-2 md:grid-cols-[24px_130px_1fr_1fr_auto] items-start">
+                    <span className="pt-2 text-sm text-muted-foreground">{index + 1}.</span>
+                    <FormField
+                      control={form.control}
+                      name={`steps.${index}.action`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger aria-label={`Step ${index + 1} action`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {FLOW_ACTIONS.map(candidate => (
+                                <SelectItem key={candidate.value} value={candidate.value}>{candidate.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`steps.${index}.target`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input aria-label={`Step ${index + 1} ${option.target}`} placeholder={option.placeholder} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {action === "type" ? (
+                      <FormField
+                        control={form.control}
+                        name={`steps.${index}.text`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input aria-label={`Step ${index + 1} text`} placeholder="Text to type" {...field} />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                    ) : action === "wait" ? (
+                      <FormField
+                        control={form.control}
+                        name={`steps.${index}.ms`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input type="number" min={0} max={30000} aria-label={`Step ${index + 1} milliseconds`} placeholder="or milliseconds" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ) : (
+                      <div />
+                    )}
+                    <div className="flex">
+                      <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => move(index, index - 1)} aria-label={`Move step ${index + 1} up`}>
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="icon" disabled={index === fields.length - 1} onClick={() => move(index, index + 1)} aria-label={`Move step ${index + 1} down`}>
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} aria-label={`Remove step ${index + 1}`}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+              {form.formState.errors.steps?.root?.message && (
+                <p className="text-sm font-medium text-destructive">{form.formState.errors.steps.root.message}</p>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => append({ action: "click", target: "", text: "", ms: "" })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Step
+              </Button>
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {flow ? "Save Flow" : "Create Flow"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
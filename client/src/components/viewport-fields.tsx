@@ -0,0 +1,76 @@
+import { useFormContext } from "react-hook-form";
+import { z } from "zod";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { VIEWPORT_NAMES, type ViewportName } from "@shared/schema";
+
+export const VIEWPORT_LABELS: Record<ViewportName, string> = {
+  desktop: "Desktop",
+  tablet: "Tablet",
+  mobile: "Mobile",
+};
+
+const VIEWPORT_DESCRIPTIONS: Record<ViewportName, string> = {
+  desktop: "1280×800",
+  tablet: "iPad, 810×1080 with touch",
+  mobile: "iPhone, 390×844 with touch",
+};
+
+export const viewportsFormSchema = z.array(z.enum(VIEWPORT_NAMES)).min(1, "Choose at least one viewport");
+
+// Undefined for a plain desktop scan, so it runs and is reported the way scans always have been
+export function toScanViewports(viewports: ViewportName[]): ViewportName[] | undefined {
+  return viewports.length === 1 && viewports[0] === "desktop" ? undefined : viewports;
+}
+
+/**
+ * Viewport checkboxes for a form whose values have a viewports field of ViewportName[].
+ * The page is audited once per checked viewport
+ */
+export function ViewportFields() {
+  const form = useFormContext<{ viewports: ViewportName[] }>();
+
+  return (
+    <FormField
+      control={form.control}
+      name="viewports"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Viewports</FormLabel>
+          <div className="flex flex-wrap gap-6">
+            {VIEWPORT_NAMES.map(viewport => (
+              <div key={viewport} className="flex items-start gap-3">
+                <FormControl>
+                  <Checkbox
+                    id={`viewport-${viewport}`}
+                    checked={field.value.includes(viewport)}
+                    onCheckedChange={(checked) => field.onChange(
+                      checked
+                        ? VIEWPORT_NAMES.filter(name => name === viewport || field.value.includes(name))
+                        : field.value.filter(name => name !== viewport)
+                    )}
+                  />
+                </FormControl>
+                <label htmlFor={`viewport-${viewport}`} className="grid gap-0.5 text-sm leading-none">
+                  <span className="font-medium">{VIEWPORT_LABELS[viewport]}</span>
+                  <span className="text-muted-foreground">{VIEWPORT_DESCRIPTIONS[viewport]}</span>
+                </label>
+              </div>
+            ))}
+          </div>
+          <FormDescription>
+            Choose more than one to see which issues only appear at some screen sizes. Needs the headless browser
+          </FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
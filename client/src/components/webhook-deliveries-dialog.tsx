@@ -0,0 +1,108 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { RedactedWebhookEndpoint, WebhookDelivery } from "@shared/schema";
+
+function DeliveryStatus({ delivery }: { delivery: WebhookDelivery }) {
+  switch (delivery.status) {
+    case "succeeded":
+      return <Badge>Delivered</Badge>;
+    case "failed":
+      return <Badge variant="destructive">Failed</Badge>;
+    default:
+      return <Badge variant="secondary">{delivery.attempts > 0 ? "Retrying" : "Pending"}</Badge>;
+  }
+}
+
+// Recent deliveries to one endpoint, refreshed while the dialog is open so retries show up
+export function WebhookDeliveriesDialog({ endpoint, trigger }: { endpoint: RedactedWebhookEndpoint; trigger: React.ReactNode }) {
+  const [open, setOpen] = React.useState(false);
+
+  const { data: deliveries, isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [`/api/webhooks/${endpoint.id}/deliveries`],
+    enabled: open,
+    refetchInterval: open ? 5000 : false,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Delivery log</DialogTitle>
+          <DialogDescription className="break-all">
+            The last 50 events sent to {endpoint.url}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !deliveries || deliveries.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Nothing has been sent yet. Send a test event to try the endpoint.
+          </div>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead>Attempts</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map(delivery => (
+                  <TableRow key={delivery.id}>
+                    <TableCell><code className="text-xs">{delivery.event}</code></TableCell>
+                    <TableCell>
+                      <span title={format(new Date(delivery.createdAt), "PPpp")}>
+                        {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <DeliveryStatus delivery={delivery} />
+                      {delivery.status === "pending" && delivery.nextAttemptAt && delivery.attempts > 0 && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Next attempt {formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div>{delivery.responseStatus ?? "No response"}</div>
+                      {delivery.lastError && delivery.status !== "succeeded" && (
+                        <div className="text-xs text-muted-foreground break-all">{delivery.lastError}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{delivery.attempts}/{delivery.maxAttempts}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,211 @@
+import React from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SigningSecretField } from "@/components/signing-secret";
+import {
+  insertWebhookEndpointSchema,
+  webhookEventTypes,
+  type InsertWebhookEndpoint,
+  type RedactedWebhookEndpoint,
+  type WebhookEndpoint,
+  type WebhookEventType,
+} from "@shared/schema";
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  "scan.created": "Scan created",
+  "scan.completed": "Scan completed",
+  "scan.failed": "Scan failed",
+};
+
+const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEventType, string> = {
+  "scan.created": "A scan, crawl or batch has been queued",
+  "scan.completed": "Results and reports are ready",
+  "scan.failed": "The scan gave up after its last retry",
+};
+
+type WebhookEndpointFormValues = z.infer<typeof insertWebhookEndpointSchema>;
+
+function toFormValues(endpoint?: RedactedWebhookEndpoint): WebhookEndpointFormValues {
+  return {
+    url: endpoint?.url ?? "",
+    description: endpoint?.description ?? "",
+    events: (endpoint?.events as WebhookEventType[] | undefined) ?? ["scan.completed", "scan.failed"],
+  };
+}
+
+// Adds a webhook endpoint and shows its signing secret once, or edits the URL and events of the given one
+export function WebhookEndpointDialog({ endpoint, trigger }: { endpoint?: RedactedWebhookEndpoint; trigger: React.ReactNode }) {
+  const { toast } = useToast();
+  const [open, setOpen] = React.useState(false);
+  const [created, setCreated] = React.useState<WebhookEndpoint | null>(null);
+
+  const form = useForm<WebhookEndpointFormValues>({
+    resolver: zodResolver(insertWebhookEndpointSchema),
+    defaultValues: toFormValues(endpoint),
+  });
+
+  React.useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(endpoint));
+    }
+  }, [open, endpoint, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: WebhookEndpointFormValues) => {
+      const data: InsertWebhookEndpoint = { ...values, description: values.description || null };
+      const res = endpoint
+        ? await apiRequest("PATCH", `/api/webhooks/${endpoint.id}`, data)
+        : await apiRequest("POST", "/api/webhooks", data);
+      return res.json() as Promise<WebhookEndpoint>;
+    },
+    onSuccess: (saved) => {
+      toast({ title: endpoint ? "Webhook updated" : "Webhook added" });
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      if (endpoint) {
+        setOpen(false);
+      } else {
+        setCreated(saved);
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: endpoint ? "Failed to update webhook" : "Failed to add webhook",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setCreated(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{created ? "Copy the signing secret" : endpoint ? "Edit webhook" : "Add webhook"}</DialogTitle>
+          <DialogDescription>
+            {created
+              ? `Check the X-AccessScan-Signature header of each request to ${created.url} with this secret.`
+              : "Each event is POSTed as JSON, signed with the endpoint's secret, and retried with backoff until the endpoint answers with a 2xx status."}
+          </DialogDescription>
+        </DialogHeader>
+        {created ? (
+          <div className="space-y-4">
+            <SigningSecretField secret={created.secret} url={created.url} />
+            <DialogFooter>
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="url"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Endpoint URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://ci.example.com/hooks/accessscan" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Deploy pipeline" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="events"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Events</FormLabel>
+                    <div className="space-y-3">
+                      {webhookEventTypes.map(event => (
+                        <div key={event} className="flex items-start gap-3">
+                          <FormControl>
+                            <Checkbox
+                              id={`webhook-event-${event}`}
+                              checked={field.value.includes(event)}
+                              onCheckedChange={(checked) => field.onChange(
+                                checked
+                                  ? webhookEventTypes.filter(type => type === event || field.value.includes(type))
+                                  : field.value.filter(type => type !== event)
+                              )}
+                            />
+                          </FormControl>
+                          <label htmlFor={`webhook-event-${event}`} className="grid gap-0.5 text-sm leading-none">
+                            <span className="font-medium">
+                              {WEBHOOK_EVENT_LABELS[event]} <code className="text-xs text-muted-foreground">{event}</code>
+                            </span>
+                            <span className="text-muted-foreground">{WEBHOOK_EVENT_DESCRIPTIONS[event]}</span>
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                    <FormDescription>
+                      Crawls and batches send one event for the whole scan, not one per page
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {endpoint ? "Save Webhook" : "Add Webhook"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
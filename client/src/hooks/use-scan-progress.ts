@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { isFinalPhase } from "@/components/scan-progress";
+import type { ScanProgress } from "@shared/schema";
+
+/**
+ * Follows a scan's progress over Server-Sent Events while it is pending or running.
+ * When the scan finishes the scan queries are refreshed so its final status and report show up.
+ */
+export function useScanProgress(scanId: number, enabled: boolean): ScanProgress | null {
+  const [progress, setProgress] = useState<ScanProgress | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const source = new EventSource(`/api/scans/${scanId}/events`);
+
+    source.onmessage = (event) => {
+      const update = JSON.parse(event.data) as ScanProgress;
+      setProgress(update);
+
+      if (isFinalPhase(update.phase)) {
+        source.close();
+        queryClient.invalidateQueries({ queryKey: ["/api/scans"] });
+        queryClient.invalidateQueries({ queryKey: [`/api/scans/${scanId}`] });
+      }
+    };
+
+    return () => source.close();
+  }, [scanId, enabled]);
+
+  return progress;
+}
@@ -29,5 +29,5 @@ export function ProtectedRoute({
     );
   }
 
-  return <Component />
+  return <Route path={path} component={Component} />
 }
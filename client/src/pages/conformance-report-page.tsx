@@ -0,0 +1,342 @@
+import React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, ArrowLeft, Download, Loader2, RotateCcw, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  conformanceLevels,
+  type ConformanceCriterion,
+  type ConformanceLevel,
+  type ConformanceOverride,
+  type ConformanceReport,
+  type InsertConformanceReport,
+} from "@shared/schema";
+
+// Select value meaning "use the level suggested by the automated results"
+const AUTOMATED = "automated";
+
+type DetailField = "productName" | "productVersion" | "productDescription" | "evaluationMethods" | "notes";
+
+const DETAIL_FIELDS: { name: DetailField; label: string; multiline?: boolean; placeholder?: string }[] = [
+  { name: "productName", label: "Product name", placeholder: "Defaults to the scanned URL" },
+  { name: "productVersion", label: "Product version" },
+  { name: "productDescription", label: "Product description", multiline: true },
+  { name: "evaluationMethods", label: "Evaluation methods used", multiline: true, placeholder: "Defaults to a description of the automated scan" },
+  { name: "notes", label: "Notes", multiline: true },
+];
+
+const getConformanceColor = (level: ConformanceLevel) => {
+  switch (level) {
+    case "Does Not Support":
+      return "destructive";
+    case "Partially Supports":
+      return "secondary";
+    default:
+      return "outline";
+  }
+};
+
+// Editable copy of the saved report: details plus overrides keyed by success criterion
+function toDraft(report: ConformanceReport): InsertConformanceReport {
+  const overrides: Record<string, ConformanceOverride> = {};
+  report.criteria.forEach(criterion => {
+    if (!criterion.overridden) return;
+    overrides[criterion.number] = {
+      ...(criterion.conformance !== criterion.automated.conformance ? { conformance: criterion.conformance } : {}),
+      ...(criterion.remarks !== criterion.automated.remarks ? { remarks: criterion.remarks } : {}),
+    };
+  });
+
+  return {
+    wcagVersion: report.wcagVersion,
+    productName: report.productName,
+    productVersion: report.productVersion,
+    productDescription: report.productDescription,
+    evaluationMethods: report.evaluationMethods,
+    notes: report.notes,
+    overrides,
+  };
+}
+
+function CriterionRow({
+  criterion,
+  override,
+  onChange,
+}: {
+  criterion: ConformanceCriterion;
+  override: ConformanceOverride;
+  onChange: (override: ConformanceOverride) => void;
+}) {
+  const level = override.conformance ?? criterion.automated.conformance;
+  const edited = Boolean(override.conformance || override.remarks);
+
+  return (
+    <TableRow>
+      <TableCell className="align-top w-1/4">
+        <div className="font-medium">{criterion.number} {criterion.name}</div>
+        {edited && <Badge variant="outline" className="mt-1">Edited</Badge>}
+      </TableCell>
+      <TableCell className="align-top w-1/5">
+        <Select
+          value={override.conformance ?? AUTOMATED}
+          onValueChange={(value) => onChange({
+            ...override,
+            conformance: value === AUTOMATED ? undefined : value as ConformanceLevel,
+          })}
+        >
+          <SelectTrigger aria-label={`Conformance level for ${criterion.number}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={AUTOMATED}>Automated: {criterion.automated.conformance}</SelectItem>
+            {conformanceLevels.map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Badge variant={getConformanceColor(level)} className="mt-2">{level}</Badge>
+      </TableCell>
+      <TableCell className="align-top">
+        <Textarea
+          value={override.remarks ?? ""}
+          placeholder={criterion.automated.remarks}
+          onChange={(event) => onChange({ ...override, remarks: event.target.value || undefined })}
+          aria-label={`Remarks for ${criterion.number}`}
+          rows={3}
+        />
+      </TableCell>
+      <TableCell className="align-top w-10">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({})}
+          disabled={!edited}
+          aria-label={`Reset ${criterion.number} to the automated result`}
+        >
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function ConformanceReportPage() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const reportKey = `/api/scans/${id}/acr`;
+
+  const { data: report, isLoading, error } = useQuery<ConformanceReport>({
+    queryKey: [reportKey],
+  });
+
+  const [draft, setDraft] = React.useState<InsertConformanceReport | null>(null);
+  const [dirty, setDirty] = React.useState(false);
+
+  React.useEffect(() => {
+    if (report) {
+      setDraft(toDraft(report));
+      setDirty(false);
+    }
+  }, [report]);
+
+  const update = (changes: Partial<InsertConformanceReport>) => {
+    setDraft(current => current && { ...current, ...changes });
+    setDirty(true);
+  };
+
+  const updateOverride = (number: string, override: ConformanceOverride) => {
+    if (!draft) return;
+    const overrides = { ...draft.overrides };
+    if (override.conformance || override.remarks) {
+      overrides[number] = override;
+    } else {
+      delete overrides[number];
+    }
+    update({ overrides });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertConformanceReport) => {
+      const res = await apiRequest("PUT", reportKey, data);
+      return (await res.json()) as ConformanceReport;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData([reportKey], saved);
+      toast({ title: "Conformance report saved" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save conformance report",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The criteria listed depend on the WCAG version, so changing it is saved straight away
+  const changeVersion = (wcagVersion: string) => {
+    if (!draft) return;
+    saveMutation.mutate({ ...draft, wcagVersion: wcagVersion as InsertConformanceReport["wcagVersion"] });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <h1 className="text-2xl font-bold">AccessScan</h1>
+          <Link href={`/scans/${id}`}>
+            <Button variant="outline">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Scan results
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 grid gap-8">
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : error || !report || !draft ? (
+          <Card>
+            <CardContent className="pt-6 flex items-center gap-2">
+              <AlertCircle className="h-5 w-5 text-destructive" />
+              {error instanceof Error ? error.message : "Conformance report not found."}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <CardTitle>Accessibility Conformance Report</CardTitle>
+                    <CardDescription className="break-all">
+                      VPAT 2.x, WCAG edition, for {report.url}.
+                      Conformance levels start from the automated results; override them and add remarks from manual testing.
+                    </CardDescription>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button onClick={() => saveMutation.mutate(draft)} disabled={!dirty || saveMutation.isPending}>
+                      {saveMutation.isPending ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Save className="w-4 h-4 mr-2" />
+                      )}
+                      Save
+                    </Button>
+                    {["pdf", "doc"].map(format => (
+                      <Button key={format} variant="outline" asChild={!dirty} disabled={dirty}>
+                        {dirty ? (
+                          <span>
+                            <Download className="w-4 h-4 mr-2" />
+                            {format === "pdf" ? "PDF" : "Word"}
+                          </span>
+                        ) : (
+                          <a href={`${reportKey}/export/${format}`} download>
+                            <Download className="w-4 h-4 mr-2" />
+                            {format === "pdf" ? "PDF" : "Word"}
+                          </a>
+                        )}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                {dirty && (
+                  <p className="text-sm text-muted-foreground">Save your changes to include them in exports.</p>
+                )}
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                <div className="grid gap-1">
+                  <label htmlFor="acr-wcag-version" className="text-sm font-medium">WCAG version</label>
+                  <Select value={draft.wcagVersion} onValueChange={changeVersion} disabled={saveMutation.isPending}>
+                    <SelectTrigger id="acr-wcag-version">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="2.1">WCAG 2.1</SelectItem>
+                      <SelectItem value="2.2">WCAG 2.2</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {DETAIL_FIELDS.map(field => {
+                  const Field = field.multiline ? Textarea : Input;
+                  return (
+                    <div key={field.name} className={`grid gap-1 ${field.multiline ? "md:col-span-2" : ""}`}>
+                      <label htmlFor={`acr-${field.name}`} className="text-sm font-medium">{field.label}</label>
+                      <Field
+                        id={`acr-${field.name}`}
+                        value={draft[field.name] ?? ""}
+                        placeholder={field.placeholder}
+                        onChange={(event: React.ChangeEvent<HTMLInputElement & HTMLTextAreaElement>) =>
+                          update({ [field.name]: event.target.value || null })}
+                      />
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            {(["A", "AA"] as const).map((level, index) => (
+              <Card key={level}>
+                <CardHeader>
+                  <CardTitle>Table {index + 1}: Success Criteria, Level {level}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Criteria</TableHead>
+                        <TableHead>Conformance Level</TableHead>
+                        <TableHead>Remarks and Explanations</TableHead>
+                        <TableHead><span className="sr-only">Reset</span></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.criteria.filter(criterion => criterion.level === level).map(criterion => (
+                        <CriterionRow
+                          key={criterion.number}
+                          criterion={criterion}
+                          override={draft.overrides[criterion.number] ?? {}}
+                          onChange={(override) => updateOverride(criterion.number, override)}
+                        />
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            ))}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,19 @@
 import React from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { useScanProgress } from "@/hooks/use-scan-progress";
+import { ScanProgressIndicator } from "@/components/scan-progress";
+import { ShareReportDialog } from "@/components/share-report-dialog";
+import { ProjectFormDialog } from "@/components/project-form-dialog";
+import { ScheduleFormDialog } from "@/components/schedule-form-dialog";
+import { UserFlowDialog } from "@/components/user-flow-dialog";
+import { AlertRuleDialog, describeAlertRule } from "@/components/alert-rule-dialog";
+import { WEBHOOK_EVENT_LABELS, WebhookEndpointDialog } from "@/components/webhook-endpoint-dialog";
+import { WebhookDeliveriesDialog } from "@/components/webhook-deliveries-dialog";
+import { SigningSecretDialog } from "@/components/signing-secret";
+import { ApiKeyDialog } from "@/components/api-key-dialog";
+import { ScanAuthFields, emptyScanAuth, scanAuthFormSchema, toScanAuth } from "@/components/scan-auth-fields";
+import { ViewportFields, toScanViewports, viewportsFormSchema } from "@/components/viewport-fields";
+import { IssueCounts, ScanScore } from "@/components/scan-summary";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import {
   Card,
@@ -19,9 +33,33 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { formatDistanceToNow } from "date-fns";
-import { Loader2, Save } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { BellPlus, CalendarClock, ChevronDown, ChevronRight, Download, ExternalLink, FolderPlus, History, KeyRound, Loader2, Pencil, Play, Save, Search, Send, Trash2, Webhook, Workflow, XCircle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { 
   Form, 
   FormControl, 
@@ -39,6 +77,329 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AlertDelivery, AlertRule, ApiKey, ProjectSummary, RedactedAlertRule, RedactedWebhookEndpoint, Scan, ScanSchedule, UserFlow, WebhookDelivery, WebhookEndpoint, WebhookEventType } from "@shared/schema";
+import { MAX_URL_LIST_BYTES } from "@shared/schema";
+import { describeCron } from "@shared/cron";
+
+// Validation schema for starting a scan; crawl limits mirror the server's crawlOptionsSchema
+const newScanSchema = z.object({
+  url: z.string(),
+  mode: z.enum(['single', 'crawl', 'sitemap', 'list']),
+  maxDepth: z.coerce.number().int().min(0).max(5),
+  maxPages: z.coerce.number().int().min(1).max(200),
+  include: z.string().optional(),
+  exclude: z.string().optional(),
+  projectId: z.string(),
+  auth: scanAuthFormSchema,
+  viewports: viewportsFormSchema,
+}).refine(values => values.mode === 'list' || values.url.trim().length > 0, {
+  message: 'URL is required',
+  path: ['url'],
+});
+
+type NewScanFormValues = z.infer<typeof newScanSchema>;
+
+// Select value for scans that don't belong to a project
+const NO_PROJECT = 'none';
+
+// One glob pattern per line, blank lines ignored
+function parsePatterns(value?: string): string[] {
+  return (value || '').split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+function NewScanForm() {
+  const { toast } = useToast();
+  
+  const { data: projects } = useQuery<ProjectSummary[]>({
+    queryKey: ['/api/projects'],
+  });
+  
+  const form = useForm<NewScanFormValues>({
+    resolver: zodResolver(newScanSchema),
+    defaultValues: {
+      url: '',
+      mode: 'single',
+      maxDepth: 2,
+      maxPages: 25,
+      include: '',
+      exclude: '',
+      projectId: NO_PROJECT,
+      auth: emptyScanAuth,
+      viewports: ['desktop'],
+    }
+  });
+  
+  const mode = form.watch('mode');
+  const [urlListFile, setUrlListFile] = React.useState<File | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  
+  const startScanMutation = useMutation({
+    mutationFn: async (values: NewScanFormValues) => {
+      const projectId = values.projectId === NO_PROJECT ? undefined : Number(values.projectId);
+      const auth = toScanAuth(values.auth);
+      const viewports = toScanViewports(values.viewports);
+      let response: Response;
+      switch (values.mode) {
+        case 'crawl':
+          response = await apiRequest('POST', '/api/crawl-scans', {
+            url: values.url,
+            projectId,
+            options: {
+              auth,
+              viewports,
+              crawl: {
+                maxDepth: values.maxDepth,
+                maxPages: values.maxPages,
+                include: parsePatterns(values.include),
+                exclude: parsePatterns(values.exclude),
+              }
+            }
+          });
+          break;
+        case 'sitemap':
+          response = await apiRequest('POST', '/api/batch-scans', { sitemapUrl: values.url, projectId, options: { auth, viewports } });
+          break;
+        case 'list':
+          if (!urlListFile) {
+            throw new Error('Choose a .txt or .csv file of URLs to scan');
+          }
+          if (urlListFile.size > MAX_URL_LIST_BYTES) {
+            throw new Error(`${urlListFile.name} is larger than ${MAX_URL_LIST_BYTES / 1024 / 1024} MB; split it or keep only the URL column`);
+          }
+          response = await apiRequest('POST', '/api/batch-scans', {
+            urlList: await urlListFile.text(),
+            fileName: urlListFile.name,
+            projectId,
+            options: { auth, viewports },
+          });
+          break;
+        default:
+          response = await apiRequest('POST', '/api/scans', { url: values.url, projectId, options: { auth, viewports } });
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Scan started',
+        description: 'Your scan has been queued and will appear in the history below',
+      });
+      form.reset();
+      setUrlListFile(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/scans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to start scan',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  });
+  
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(values => startScanMutation.mutate(values))} className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-[1fr_200px]">
+          {mode === 'list' ? (
+            <FormItem>
+              <FormLabel>URL List</FormLabel>
+              <FormControl>
+                <Input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".txt,.csv,text/plain,text/csv"
+                  onChange={event => setUrlListFile(event.target.files?.[0] ?? null)}
+                />
+              </FormControl>
+              <FormDescription>
+                A text file with one URL per line, or a CSV with a URL column
+              </FormDescription>
+            </FormItem>
+          ) : (
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{mode === 'sitemap' ? 'Sitemap URL' : 'Website URL'}</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder={mode === 'sitemap' ? 'https://example.com/sitemap.xml' : 'https://example.com'}
+                      {...field}
+                    />
+                  </FormControl>
+                  {mode === 'sitemap' && (
+                    <FormDescription>
+                      Sitemap indexes and gzipped sitemaps are supported
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          
+          <FormField
+            control={form.control}
+            name="mode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Scan Type</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="single">Single page</SelectItem>
+                    <SelectItem value="crawl">Site crawl</SelectItem>
+                    <SelectItem value="sitemap">Sitemap</SelectItem>
+                    <SelectItem value="list">URL list upload</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        
+        {projects && projects.length > 0 && (
+          <FormField
+            control={form.control}
+            name="projectId"
+            render={({ field }) => (
+              <FormItem className="md:max-w-sm">
+                <FormLabel>Project</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    // Start from the project's site unless a URL was already typed
+                    const project = projects.find(p => String(p.id) === value);
+                    if (project && !form.getValues('url').trim() && mode !== 'sitemap') {
+                      form.setValue('url', project.baseUrl);
+                    }
+                  }}
+                  value={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                    {projects.map(project => (
+                      <SelectItem key={project.id} value={String(project.id)}>{project.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  The scan uses the project's default options and report branding
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        
+        {mode === 'crawl' && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="maxDepth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Link Depth</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} max={5} {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    How many clicks away from the start page to follow
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="maxPages"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Page Limit</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={200} {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    The crawl stops after this many pages
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="include"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Include Patterns</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="/products/**" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    One glob per line; leave empty to include every page
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="exclude"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Exclude Patterns</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="/blog/**" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Matching pages are never scanned
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+        
+        <ViewportFields />
+        
+        <ScanAuthFields />
+        
+        <div className="flex justify-end">
+          <Button 
+            type="submit" 
+            disabled={startScanMutation.isPending}
+          >
+            {startScanMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Search className="w-4 h-4 mr-2" />
+            )}
+            Start Scan
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
 
 // Define validation schema for report settings
 const reportSettingsSchema = z.object({
@@ -59,6 +420,25 @@ const reportSettingsSchema = z.object({
 
 type ReportSettingsFormValues = z.infer<typeof reportSettingsSchema>;
 
+const DEFAULT_REPORT_COLORS = {
+  primary: '#2563eb',
+  secondary: '#6b7280',
+  accent: '#1e40af',
+  textPrimary: '#000000',
+  textSecondary: '#4b5563',
+  background: '#ffffff'
+};
+
+// Report colors users can pick for their PDF reports
+const BRAND_COLOR_FIELDS = [
+  { name: 'primary', label: 'Primary' },
+  { name: 'secondary', label: 'Secondary' },
+  { name: 'accent', label: 'Accent' },
+  { name: 'textPrimary', label: 'Heading Text' },
+  { name: 'textSecondary', label: 'Body Text' },
+  { name: 'background', label: 'Cover Background' },
+] as const;
+
 function ReportSettingsForm() {
   const { toast } = useToast();
   
@@ -76,21 +456,15 @@ function ReportSettingsForm() {
       contactEmail: '',
       contactPhone: '',
       websiteUrl: '',
-      colors: {
-        primary: '#2563eb',
-        secondary: '#6b7280',
-        accent: '#0ea5e9',
-        textPrimary: '#111827',
-        textSecondary: '#4b5563',
-        background: '#ffffff'
-      }
+      colors: DEFAULT_REPORT_COLORS
     }
   });
   
   // Update form when settings are loaded
   React.useEffect(() => {
     if (settings) {
-      form.reset(settings);
+      const saved = settings as ReportSettingsFormValues;
+      form.reset({ ...saved, colors: { ...DEFAULT_REPORT_COLORS, ...saved.colors } });
     }
   }, [settings, form]);
   
@@ -193,6 +567,41 @@ function ReportSettingsForm() {
           )}
         />
         
+        <FormField
+          control={form.control}
+          name="companyLogo"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Logo URL</FormLabel>
+              <FormControl>
+                <Input placeholder="https://example.com/logo.png" {...field} value={field.value ?? ''} />
+              </FormControl>
+              <FormDescription>
+                PNG or JPEG image shown on the report cover
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-3">
+          {BRAND_COLOR_FIELDS.map(({ name, label }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={`colors.${name}`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input type="color" className="h-10 p-1" {...field} value={field.value || DEFAULT_REPORT_COLORS[name]} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        
         <div className="flex justify-end">
           <Button 
             type="submit" 
@@ -210,25 +619,1213 @@ function ReportSettingsForm() {
   );
 }
 
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "completed":
+      return "default"; // success equivalent
+    case "pending":
+    case "running":
+      return "secondary"; // warning equivalent
+    case "failed":
+      return "destructive";
+    default:
+      return "outline";
+  }
+};
+
+// Cancel and delete buttons for a scan, each confirmed in a dialog
+function ScanActions({ scan, inProgress }: { scan: Scan; inProgress: boolean }) {
+  const { toast } = useToast();
+  const hasPages = scan.scanType === "crawl" || scan.scanType === "batch";
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/scans/${scan.id}/cancel`);
+    },
+    onSuccess: () => {
+      toast({ title: 'Scan cancelled' });
+      queryClient.invalidateQueries({ queryKey: ['/api/scans'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to cancel scan',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/scans/${scan.id}`);
+    },
+    onSuccess: () => {
+      toast({ title: 'Scan deleted' });
+      queryClient.invalidateQueries({ queryKey: ['/api/scans'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to delete scan',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <>
+      {inProgress && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" disabled={cancelMutation.isPending}>
+              <XCircle className="w-4 h-4 mr-1" />
+              Cancel
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Cancel this scan?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The scan of {scan.url} will stop{hasPages && ", including any pages not scanned yet"}.
+                Pages already scanned keep their results.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep scanning</AlertDialogCancel>
+              <AlertDialogAction onClick={() => cancelMutation.mutate()}>
+                Cancel scan
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={deleteMutation.isPending}
+            aria-label={`Delete scan of ${scan.url}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this scan?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The scan of {scan.url}, its results{hasPages && ", its page scans"} and its PDF report
+              will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep scan</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteMutation.mutate()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+const EXPORT_FORMATS = [
+  { format: "json", label: "JSON (axe)" },
+  { format: "csv", label: "CSV" },
+  { format: "sarif", label: "SARIF" },
+];
+
+// Downloads of the stored results in machine-readable formats
+function ExportMenu({ scan }: { scan: Scan }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" aria-label={`Export results for ${scan.url}`}>
+          <Download className="w-4 h-4 mr-1" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={`/api/scans/${scan.id}/export/${format}`} download>
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+// Top-level rows stream progress and can be cancelled or deleted; page rows are managed through their parent
+function ScanCells({ scan, topLevel = false }: { scan: Scan; topLevel?: boolean }) {
+  const inProgress = scan.status === "pending" || scan.status === "running";
+  const progress = useScanProgress(scan.id, topLevel && inProgress);
+
+  return (
+    <>
+      <TableCell>
+        {topLevel && inProgress ? (
+          <ScanProgressIndicator progress={progress} />
+        ) : (
+          <Badge variant={getStatusColor(scan.status)}>
+            {scan.status}
+          </Badge>
+        )}
+      </TableCell>
+      <TableCell>
+        {formatDistanceToNow(new Date(scan.createdAt), {
+          addSuffix: true,
+        })}
+      </TableCell>
+      <TableCell>
+        <div className="flex gap-2">
+          {scan.status === "completed" && scan.scanType !== "lighthouse" && (
+            <Button size="sm" asChild>
+              <Link href={`/scans/${scan.id}`}>View Issues</Link>
+            </Button>
+          )}
+          {scan.reportUrl && (
+            <Button
+              variant="outline"
+              size="sm"
+              asChild
+            >
+              <a
+                href={scan.reportUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                PDF
+              </a>
+            </Button>
+          )}
+          {scan.htmlReportUrl && (
+            <Button
+              variant="outline"
+              size="sm"
+              asChild
+            >
+              <a
+                href={scan.htmlReportUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                HTML
+              </a>
+            </Button>
+          )}
+          {scan.reportUrl && <ShareReportDialog scan={scan} />}
+          {scan.resultMeta && scan.scanType !== "lighthouse" && <ExportMenu scan={scan} />}
+          {topLevel && <ScanActions scan={scan} inProgress={inProgress} />}
+        </div>
+      </TableCell>
+    </>
+  );
+}
+
+// A scan row; crawls and batches expand to show a row per scanned page
+function ScanRow({ scan, pages }: { scan: Scan; pages: Scan[] }) {
+  const [expanded, setExpanded] = React.useState(false);
+  const hasPages = pages.length > 0;
+  
+  return (
+    <>
+      <TableRow>
+        <TableCell className="font-medium">
+          <div className="flex items-center gap-2">
+            {hasPages && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => setExpanded(!expanded)}
+                aria-expanded={expanded}
+                aria-label={expanded ? `Hide pages for ${scan.url}` : `Show pages for ${scan.url}`}
+              >
+                {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              </Button>
+            )}
+            <span>{scan.url}</span>
+            {scan.scanType === "flow" && (
+              <Badge variant="outline">User flow</Badge>
+            )}
+            {hasPages && (
+              <Badge variant="outline">{pages.length} pages</Badge>
+            )}
+          </div>
+        </TableCell>
+        <ScanCells scan={scan} topLevel />
+      </TableRow>
+      {expanded && pages.map(page => (
+        <TableRow key={page.id} className="bg-muted/50">
+          <TableCell className="pl-12 text-sm">{page.url}</TableCell>
+          <ScanCells scan={page} />
+        </TableRow>
+      ))}
+    </>
+  );
+}
+
+// Each project with the score and issue counts of its latest scan
+function ProjectList() {
+  const { data: projects, isLoading } = useQuery<ProjectSummary[]>({
+    queryKey: ['/api/projects'],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!projects || projects.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No projects yet. Create one to group the scans of a site.
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Project</TableHead>
+          <TableHead>Score</TableHead>
+          <TableHead>Issues</TableHead>
+          <TableHead>Last Scanned</TableHead>
+          <TableHead>Scans</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {projects.map(project => (
+          <TableRow key={project.id}>
+            <TableCell>
+              <Link href={`/projects/${project.id}`} className="font-medium underline-offset-4 hover:underline">
+                {project.name}
+              </Link>
+              <div className="text-sm text-muted-foreground break-all">{project.baseUrl}</div>
+            </TableCell>
+            <TableCell>
+              <ScanScore scan={project.latestScan} />
+            </TableCell>
+            <TableCell>
+              <IssueCounts scan={project.latestScan} />
+            </TableCell>
+            <TableCell>
+              {project.latestScan
+                ? formatDistanceToNow(new Date(project.latestScan.createdAt), { addSuffix: true })
+                : 'Never'}
+            </TableCell>
+            <TableCell>{project.scanCount}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// A recurring scan with its next run, a pause switch and a delete button
+function ScheduleRow({ schedule, projectName }: { schedule: ScanSchedule; projectName?: string }) {
+  const { toast } = useToast();
+  const paused = schedule.pausedAt !== null;
+
+  const pauseMutation = useMutation({
+    mutationFn: async (pause: boolean) => {
+      await apiRequest('PATCH', `/api/schedules/${schedule.id}`, { paused: pause });
+    },
+    onSuccess: (_, pause) => {
+      toast({ title: pause ? 'Schedule paused' : 'Schedule resumed' });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to update schedule',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/schedules/${schedule.id}`);
+    },
+    onSuccess: () => {
+      toast({ title: 'Schedule deleted' });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to delete schedule',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <TableRow>
+      <TableCell>
+        <div className="font-medium break-all">{schedule.url}</div>
+        {projectName && <div className="text-sm text-muted-foreground">{projectName}</div>}
+      </TableCell>
+      <TableCell>{describeCron(schedule.cron)}</TableCell>
+      <TableCell>
+        {paused ? (
+          <Badge variant="outline">Paused</Badge>
+        ) : (
+          <span title={format(new Date(schedule.nextRunAt), 'PPpp')}>
+            {formatDistanceToNow(new Date(schedule.nextRunAt), { addSuffix: true })}
+          </span>
+        )}
+      </TableCell>
+      <TableCell>
+        {schedule.lastRunAt ? (
+          schedule.lastScanId ? (
+            <Link href={`/scans/${schedule.lastScanId}`} className="underline-offset-4 hover:underline">
+              {formatDistanceToNow(new Date(schedule.lastRunAt), { addSuffix: true })}
+            </Link>
+          ) : (
+            formatDistanceToNow(new Date(schedule.lastRunAt), { addSuffix: true })
+          )
+        ) : (
+          'Never'
+        )}
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={!paused}
+            onCheckedChange={(active) => pauseMutation.mutate(!active)}
+            disabled={pauseMutation.isPending}
+            aria-label={paused ? `Resume schedule for ${schedule.url}` : `Pause schedule for ${schedule.url}`}
+          />
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={deleteMutation.isPending}
+                aria-label={`Delete schedule for ${schedule.url}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this schedule?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  No more scans of {schedule.url} will be started. Scans it already ran are kept.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep schedule</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => deleteMutation.mutate()}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function ScheduleList() {
+  const { data: schedules, isLoading } = useQuery<ScanSchedule[]>({
+    queryKey: ['/api/schedules'],
+  });
+  const { data: projects } = useQuery<ProjectSummary[]>({
+    queryKey: ['/api/projects'],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!schedules || schedules.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No scheduled scans. Schedule one to re-scan a site automatically.
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>URL</TableHead>
+          <TableHead>Frequency</TableHead>
+          <TableHead>Next Run</TableHead>
+          <TableHead>Last Run</TableHead>
+          <TableHead>Active</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {schedules.map(schedule => (
+          <ScheduleRow
+            key={schedule.id}
+            schedule={schedule}
+            projectName={projects?.find(project => project.id === schedule.projectId)?.name}
+          />
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// A saved user flow with buttons to run, edit or delete it
+function UserFlowRow({ flow, projectName }: { flow: UserFlow; projectName?: string }) {
+  const { toast } = useToast();
+  const checkpoints = flow.steps.filter(step => step.action === "audit").length;
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/flows/${flow.id}/runs`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Flow scan started',
+        description: 'The flow has been queued and will appear in the history below',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/flows'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scans'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to run user flow',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/flows/${flow.id}`);
+    },
+    onSuccess: () => {
+      toast({ title: 'User flow deleted' });
+      queryClient.invalidateQueries({ queryKey: ['/api/flows'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to delete user flow',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <TableRow>
+      <TableCell>
+        <div className="font-medium">{flow.name}</div>
+        <div className="text-sm text-muted-foreground break-all">{flow.startUrl}</div>
+        {projectName && <div className="text-sm text-muted-foreground">{projectName}</div>}
+      </TableCell>
+      <TableCell>
+        {flow.steps.length} step{flow.steps.length === 1 ? '' : 's'}, {checkpoints} audit{checkpoints === 1 ? '' : 's'}
+      </TableCell>
+      <TableCell>
+        {flow.lastRunAt ? (
+          flow.lastScanId ? (
+            <Link href={`/scans/${flow.lastScanId}`} className="underline-offset-4 hover:underline">
+              {formatDistanceToNow(new Date(flow.lastRunAt), { addSuffix: true })}
+            </Link>
+          ) : (
+            formatDistanceToNow(new Date(flow.lastRunAt), { addSuffix: true })
+          )
+        ) : (
+          'Never'
+        )}
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={() => runMutation.mutate()} disabled={runMutation.isPending}>
+            {runMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+            ) : (
+              <Play className="w-4 h-4 mr-1" />
+            )}
+            Run
+          </Button>
+          <UserFlowDialog
+            flow={flow}
+            trigger={
+              <Button variant="ghost" size="sm" aria-label={`Edit user flow ${flow.name}`}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+            }
+          />
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={deleteMutation.isPending}
+                aria-label={`Delete user flow ${flow.name}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this user flow?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The steps of {flow.name} will be deleted. Scans it already ran are kept.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep flow</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => deleteMutation.mutate()}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function UserFlowList() {
+  const { data: flows, isLoading } = useQuery<UserFlow[]>({
+    queryKey: ['/api/flows'],
+  });
+  const { data: projects } = useQuery<ProjectSummary[]>({
+    queryKey: ['/api/projects'],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!flows || flows.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No user flows. Create one to audit menus, dialogs and multi-step forms.
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Flow</TableHead>
+          <TableHead>Steps</TableHead>
+          <TableHead>Last Run</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {flows.map(flow => (
+          <UserFlowRow
+            key={flow.id}
+            flow={flow}
+            projectName={projects?.find(project => project.id === flow.projectId)?.name}
+          />
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// An alert rule with its channels and buttons to test, edit or delete it
+function AlertRuleRow({ rule }: { rule: RedactedAlertRule }) {
+  const { toast } = useToast();
+  const emails = rule.emails as string[];
+  const [rotatedSecret, setRotatedSecret] = React.useState<string | null>(null);
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/alert-rules/${rule.id}/test`);
+      return res.json() as Promise<AlertDelivery[]>;
+    },
+    onSuccess: (deliveries) => {
+      const failed = deliveries.filter(delivery => !delivery.ok);
+      toast({
+        title: failed.length === 0 ? 'Test alert sent' : 'Test alert failed',
+        description: deliveries
+          .map(delivery => `${delivery.channel === 'webhook' ? 'Webhook' : 'Email'}: ${delivery.ok ? 'delivered' : delivery.error}`)
+          .join('; '),
+        variant: failed.length === 0 ? 'default' : 'destructive',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to send test alert',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/alert-rules/${rule.id}`);
+    },
+    onSuccess: () => {
+      toast({ title: 'Alert rule deleted' });
+      queryClient.invalidateQueries({ queryKey: ['/api/alert-rules'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to delete alert rule',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/alert-rules/${rule.id}/rotate-secret`);
+      return res.json() as Promise<AlertRule>;
+    },
+    onSuccess: (rotated) => {
+      setRotatedSecret(rotated.webhookSecret);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to rotate signing secret',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <TableRow>
+      <TableCell className="font-medium break-all">{rule.url}</TableCell>
+      <TableCell>{describeAlertRule(rule)}</TableCell>
+      <TableCell>
+        <div className="flex flex-wrap gap-1">
+          {rule.webhookUrl && <Badge variant="outline" title={rule.webhookUrl}>Webhook</Badge>}
+          {emails.length > 0 && (
+            <Badge variant="outline" title={emails.join(', ')}>
+              {emails.length === 1 ? '1 email' : `${emails.length} emails`}
+            </Badge>
+          )}
+        </div>
+      </TableCell>
+      <TableCell>
+        {rule.lastTriggeredAt ? (
+          <span title={format(new Date(rule.lastTriggeredAt), 'PPpp')}>
+            {formatDistanceToNow(new Date(rule.lastTriggeredAt), { addSuffix: true })}
+          </span>
+        ) : (
+          'Never'
+        )}
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => testMutation.mutate()}
+            disabled={testMutation.isPending}
+            aria-label={`Send a test alert for ${rule.url}`}
+          >
+            {testMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          </Button>
+          {rule.webhookUrl && (
+            <>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={rotateMutation.isPending}
+                    aria-label={`Rotate the webhook signing secret for ${rule.url}`}
+                  >
+                    {rotateMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Rotate the signing secret?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Alerts posted to {rule.webhookUrl} are signed with a new secret straight away, and its receiver rejects them until it checks them with the new one.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Keep secret</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => rotateMutation.mutate()}>Rotate</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+              <SigningSecretDialog secret={rotatedSecret} url={rule.webhookUrl} onClose={() => setRotatedSecret(null)} />
+            </>
+          )}
+          <AlertRuleDialog
+            rule={rule}
+            trigger={
+              <Button variant="ghost" size="sm" aria-label={`Edit alert rule for ${rule.url}`}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+            }
+          />
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={deleteMutation.isPending}
+                aria-label={`Delete alert rule for ${rule.url}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this alert rule?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Scans of {rule.url} will no longer send this alert.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep rule</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => deleteMutation.mutate()}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function AlertRuleList() {
+  const { data: rules, isLoading } = useQuery<RedactedAlertRule[]>({
+    queryKey: ['/api/alert-rules'],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!rules || rules.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No alert rules. Add one to hear about regressions as soon as a scan finds them.
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>URL</TableHead>
+          <TableHead>Condition</TableHead>
+          <TableHead>Notify</TableHead>
+          <TableHead>Last Triggered</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rules.map(rule => (
+          <AlertRuleRow key={rule.id} rule={rule} />
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// A lifecycle webhook endpoint with its events, an on/off switch and its actions
+function WebhookEndpointRow({ endpoint }: { endpoint: RedactedWebhookEndpoint }) {
+  const { toast } = useToast();
+  const disabled = endpoint.disabledAt !== null;
+  const [rotatedSecret, setRotatedSecret] = React.useState<string | null>(null);
+
+  const toggleMutation = useMutation({
+    mutationFn: async (disable: boolean) => {
+      await apiRequest('PATCH', `/api/webhooks/${endpoint.id}`, { disabled: disable });
+    },
+    onSuccess: (_, disable) => {
+      toast({ title: disable ? 'Webhook disabled' : 'Webhook enabled' });
+      queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to update webhook',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/webhooks/${endpoint.id}/test`);
+      return res.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery) => {
+      toast({
+        title: delivery.status === 'succeeded' ? 'Test event delivered' : 'Test event failed',
+        description: delivery.status === 'succeeded'
+          ? `The endpoint responded with ${delivery.responseStatus}`
+          : delivery.lastError ?? undefined,
+        variant: delivery.status === 'succeeded' ? 'default' : 'destructive',
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/webhooks/${endpoint.id}/deliveries`] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to send test event',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/webhooks/${endpoint.id}`);
+    },
+    onSuccess: () => {
+      toast({ title: 'Webhook deleted' });
+      queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to delete webhook',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/webhooks/${endpoint.id}/rotate-secret`);
+      return res.json() as Promise<WebhookEndpoint>;
+    },
+    onSuccess: (rotated) => {
+      setRotatedSecret(rotated.secret);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to rotate signing secret',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <TableRow>
+      <TableCell>
+        <div className="font-medium break-all">{endpoint.url}</div>
+        {endpoint.description && <div className="text-sm text-muted-foreground">{endpoint.description}</div>}
+      </TableCell>
+      <TableCell>
+        <div className="flex flex-wrap gap-1">
+          {(endpoint.events as WebhookEventType[]).map(event => (
+            <Badge key={event} variant="outline" title={event}>{WEBHOOK_EVENT_LABELS[event] ?? event}</Badge>
+          ))}
+        </div>
+      </TableCell>
+      <TableCell>
+        <Switch
+          checked={!disabled}
+          onCheckedChange={(enabled) => toggleMutation.mutate(!enabled)}
+          disabled={toggleMutation.isPending}
+          aria-label={disabled ? `Enable webhook ${endpoint.url}` : `Disable webhook ${endpoint.url}`}
+        />
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => testMutation.mutate()}
+            disabled={disabled || testMutation.isPending}
+            aria-label={`Send a test event to ${endpoint.url}`}
+          >
+            {testMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          </Button>
+          <WebhookDeliveriesDialog
+            endpoint={endpoint}
+            trigger={
+              <Button variant="ghost" size="sm" aria-label={`Delivery log for ${endpoint.url}`}>
+                <History className="w-4 h-4" />
+              </Button>
+            }
+          />
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={rotateMutation.isPending}
+                aria-label={`Rotate the signing secret for ${endpoint.url}`}
+              >
+                {rotateMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Rotate the signing secret?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Deliveries to {endpoint.url} are signed with a new secret straight away, and its receiver rejects them until it checks them with the new one.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep secret</AlertDialogCancel>
+                <AlertDialogAction onClick={() => rotateMutation.mutate()}>Rotate</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+          <SigningSecretDialog secret={rotatedSecret} url={endpoint.url} onClose={() => setRotatedSecret(null)} />
+          <WebhookEndpointDialog
+            endpoint={endpoint}
+            trigger={
+              <Button variant="ghost" size="sm" aria-label={`Edit webhook ${endpoint.url}`}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+            }
+          />
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={deleteMutation.isPending}
+                aria-label={`Delete webhook ${endpoint.url}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this webhook?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {endpoint.url} will stop receiving events, and its delivery log and pending retries are removed.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep webhook</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => deleteMutation.mutate()}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function WebhookEndpointList() {
+  const { data: endpoints, isLoading } = useQuery<RedactedWebhookEndpoint[]>({
+    queryKey: ['/api/webhooks'],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!endpoints || endpoints.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No webhooks. Add one to let other systems react when scans start, finish or fail.
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Endpoint</TableHead>
+          <TableHead>Events</TableHead>
+          <TableHead>Enabled</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {endpoints.map(endpoint => (
+          <WebhookEndpointRow key={endpoint.id} endpoint={endpoint} />
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// An API key by name and visible prefix, with its last use and a revoke button
+function ApiKeyRow({ apiKey }: { apiKey: ApiKey }) {
+  const { toast } = useToast();
+  const revoked = apiKey.revokedAt !== null;
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/api-keys/${apiKey.id}`);
+    },
+    onSuccess: () => {
+      toast({ title: 'API key revoked' });
+      queryClient.invalidateQueries({ queryKey: ['/api/api-keys'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to revoke API key',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <TableRow className={revoked ? 'text-muted-foreground' : undefined}>
+      <TableCell className="font-medium">{apiKey.name}</TableCell>
+      <TableCell><code className="text-xs">{apiKey.prefix}…</code></TableCell>
+      <TableCell>{format(new Date(apiKey.createdAt), 'PP')}</TableCell>
+      <TableCell>
+        {apiKey.lastUsedAt ? (
+          <span title={format(new Date(apiKey.lastUsedAt), 'PPpp')}>
+            {formatDistanceToNow(new Date(apiKey.lastUsedAt), { addSuffix: true })}
+          </span>
+        ) : (
+          'Never'
+        )}
+      </TableCell>
+      <TableCell>
+        {revoked ? (
+          <Badge variant="outline">Revoked</Badge>
+        ) : (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm" disabled={revokeMutation.isPending}>
+                Revoke
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Revoke {apiKey.name}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Requests using this key are rejected straight away. This can't be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep key</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => revokeMutation.mutate()}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Revoke
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function ApiKeyList() {
+  const { data: apiKeys, isLoading } = useQuery<ApiKey[]>({
+    queryKey: ['/api/api-keys'],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!apiKeys || apiKeys.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No API keys. Create one to start scans from CI or your own scripts.
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Key</TableHead>
+          <TableHead>Created</TableHead>
+          <TableHead>Last Used</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {apiKeys.map(apiKey => (
+          <ApiKeyRow key={apiKey.id} apiKey={apiKey} />
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
 export default function DashboardPage() {
   const { user, logoutMutation } = useAuth();
 
-  const { data: scans, isLoading } = useQuery({
+  const { data: scans, isLoading } = useQuery<Scan[]>({
     queryKey: ["/api/scans"],
   });
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "completed":
-        return "default"; // success equivalent
-      case "pending":
-        return "secondary"; // warning equivalent
-      case "failed":
-        return "destructive";
-      default:
-        return "outline";
+  // Page scans from site crawls and batches are nested under their parent scan
+  const topLevelScans = (scans || [])
+    .filter(scan => scan.parentId === null)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const pagesByParent = new Map<number, Scan[]>();
+  (scans || []).forEach(scan => {
+    if (scan.parentId !== null) {
+      pagesByParent.set(scan.parentId, [...(pagesByParent.get(scan.parentId) || []), scan]);
     }
-  };
+  });
 
   return (
     <div className="min-h-screen bg-background">
@@ -255,6 +1852,172 @@ export default function DashboardPage() {
       </header>
 
       <main className="container mx-auto px-4 py-8 grid gap-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>New Scan</CardTitle>
+            <CardDescription>
+              Audit a single page, crawl a whole site or scan a list of pages
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <NewScanForm />
+          </CardContent>
+        </Card>
+        
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>Projects</CardTitle>
+                <CardDescription>
+                  Sites you scan regularly, with the results of their latest scan
+                </CardDescription>
+              </div>
+              <ProjectFormDialog
+                trigger={
+                  <Button variant="outline">
+                    <FolderPlus className="w-4 h-4 mr-2" />
+                    New Project
+                  </Button>
+                }
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ProjectList />
+          </CardContent>
+        </Card>
+        
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>Scheduled Scans</CardTitle>
+                <CardDescription>
+                  Scans that run automatically and appear in your scan history
+                </CardDescription>
+              </div>
+              <ScheduleFormDialog
+                trigger={
+                  <Button variant="outline">
+                    <CalendarClock className="w-4 h-4 mr-2" />
+                    New Schedule
+                  </Button>
+                }
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ScheduleList />
+          </CardContent>
+        </Card>
+        
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>User Flows</CardTitle>
+                <CardDescription>
+                  Scripted journeys audited at each checkpoint, for states a single page load never shows
+                </CardDescription>
+              </div>
+              <UserFlowDialog
+                trigger={
+                  <Button variant="outline">
+                    <Workflow className="w-4 h-4 mr-2" />
+                    New Flow
+                  </Button>
+                }
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <UserFlowList />
+          </CardContent>
+        </Card>
+        
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>Alert Rules</CardTitle>
+                <CardDescription>
+                  Webhook and email notifications when a completed scan shows a regression.
+                  Webhooks are signed with HMAC-SHA256 in the X-AccessScan-Signature header.
+                </CardDescription>
+              </div>
+              <AlertRuleDialog
+                trigger={
+                  <Button variant="outline">
+                    <BellPlus className="w-4 h-4 mr-2" />
+                    New Alert Rule
+                  </Button>
+                }
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <AlertRuleList />
+          </CardContent>
+        </Card>
+        
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>Webhooks</CardTitle>
+                <CardDescription>
+                  Endpoints notified when your scans are created, completed or fail, signed with
+                  HMAC-SHA256 in the X-AccessScan-Signature header
+                </CardDescription>
+              </div>
+              <WebhookEndpointDialog
+                trigger={
+                  <Button variant="outline">
+                    <Webhook className="w-4 h-4 mr-2" />
+                    Add Webhook
+                  </Button>
+                }
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <WebhookEndpointList />
+          </CardContent>
+        </Card>
+        
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>API Keys</CardTitle>
+                <CardDescription>
+                  Start scans and download results from CI and scripts through the REST API at /api/v1
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="ghost" asChild>
+                  <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer">
+                    <ExternalLink className="w-4 h-4 mr-2" />
+                    OpenAPI Spec
+                  </a>
+                </Button>
+                <ApiKeyDialog
+                  trigger={
+                    <Button variant="outline">
+                      <KeyRound className="w-4 h-4 mr-2" />
+                      New API Key
+                    </Button>
+                  }
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ApiKeyList />
+          </CardContent>
+        </Card>
+        
         <Card>
           <CardHeader>
             <CardTitle>Scan History</CardTitle>
@@ -278,41 +2041,16 @@ export default function DashboardPage() {
                     <TableHead>URL</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Date</TableHead>
-                    <TableHead>Report</TableHead>
+                    <TableHead>Results</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {Array.isArray(scans) && scans.map((scan: any) => (
-                    <TableRow key={scan.id}>
-                      <TableCell className="font-medium">{scan.url}</TableCell>
-                      <TableCell>
-                        <Badge variant={getStatusColor(scan.status)}>
-                          {scan.status}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        {formatDistanceToNow(new Date(scan.createdAt), {
-                          addSuffix: true,
-                        })}
-                      </TableCell>
-                      <TableCell>
-                        {scan.reportUrl && (
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            asChild
-                          >
-                            <a
-                              href={scan.reportUrl}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                            >
-                              View Report
-                            </a>
-                          </Button>
-                        )}
-                      </TableCell>
-                    </TableRow>
+                  {topLevelScans.map(scan => (
+                    <ScanRow
+                      key={scan.id}
+                      scan={scan}
+                      pages={pagesByParent.get(scan.id) || []}
+                    />
                   ))}
                 </TableBody>
               </Table>
@@ -0,0 +1,289 @@
+import React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { AlertCircle, ArrowLeft, Loader2, Pencil, Search, Trash2 } from "lucide-react";
+import { ProjectFormDialog } from "@/components/project-form-dialog";
+import { IssueCounts, ScanScore } from "@/components/scan-summary";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ProjectWithScans, ScanOptions } from "@shared/schema";
+
+const SCAN_TYPE_LABELS: Record<string, string> = {
+  axe: "Single page",
+  crawl: "Site crawl",
+  batch: "Batch",
+  lighthouse: "Lighthouse",
+  flow: "User flow",
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "completed":
+      return "default";
+    case "pending":
+    case "running":
+      return "secondary";
+    case "failed":
+      return "destructive";
+    default:
+      return "outline";
+  }
+};
+
+export default function ProjectPage() {
+  const { id } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const projectKey = `/api/projects/${id}`;
+
+  const { data: project, isLoading, error } = useQuery<ProjectWithScans>({
+    queryKey: [projectKey],
+  });
+
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/scans", { url: project!.baseUrl, projectId: project!.id });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Scan started", description: "The scan has been queued and will appear in the history below" });
+      queryClient.invalidateQueries({ queryKey: [projectKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scans"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to start scan",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", projectKey);
+    },
+    onSuccess: () => {
+      toast({ title: "Project deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scans"] });
+      navigate("/dashboard");
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete project",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderMode = (project?.defaultOptions as ScanOptions | null | undefined)?.renderMode;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <h1 className="text-2xl font-bold">AccessScan</h1>
+          <Link href="/dashboard">
+            <Button variant="outline">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Dashboard
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 grid gap-8">
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : error || !project ? (
+          <Card>
+            <CardContent className="pt-6 flex items-center gap-2">
+              <AlertCircle className="h-5 w-5 text-destructive" />
+              {error instanceof Error ? error.message : "Project not found."}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <CardTitle>{project.name}</CardTitle>
+                    <CardDescription className="break-all">
+                      <a href={project.baseUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                        {project.baseUrl}
+                      </a>
+                    </CardDescription>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button onClick={() => scanMutation.mutate()} disabled={scanMutation.isPending}>
+                      {scanMutation.isPending ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Search className="w-4 h-4 mr-2" />
+                      )}
+                      Scan now
+                    </Button>
+                    <ProjectFormDialog
+                      project={project}
+                      trigger={
+                        <Button variant="outline">
+                          <Pencil className="w-4 h-4 mr-2" />
+                          Edit
+                        </Button>
+                      }
+                    />
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" disabled={deleteMutation.isPending} aria-label={`Delete project ${project.name}`}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete this project?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The project {project.name} will be removed. Its scans and reports are kept in your scan history.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Keep project</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteMutation.mutate()}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-3">
+                <div>
+                  <div className="text-sm text-muted-foreground">Latest score</div>
+                  <div className="text-3xl">
+                    <ScanScore scan={project.scans[0] ?? null} />
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-muted-foreground">Latest issues</div>
+                  <div className="mt-2">
+                    <IssueCounts scan={project.scans[0] ?? null} />
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-muted-foreground">Default rendering</div>
+                  <div className="mt-2">
+                    {renderMode === "browser" ? "Headless browser" : renderMode === "static" ? "Static HTML" : "Server default"}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Scan History</CardTitle>
+                <CardDescription>
+                  Every scan filed under this project, newest first
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {project.scans.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No scans yet. Use Scan now to audit {project.baseUrl}.
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>URL</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Score</TableHead>
+                        <TableHead>Issues</TableHead>
+                        <TableHead>Results</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {project.scans.map(scan => (
+                        <TableRow key={scan.id}>
+                          <TableCell className="font-medium break-all">{scan.url}</TableCell>
+                          <TableCell>{SCAN_TYPE_LABELS[scan.scanType] ?? scan.scanType}</TableCell>
+                          <TableCell>
+                            <Badge variant={getStatusColor(scan.status)}>{scan.status}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            {formatDistanceToNow(new Date(scan.createdAt), { addSuffix: true })}
+                          </TableCell>
+                          <TableCell>
+                            <ScanScore scan={scan} />
+                          </TableCell>
+                          <TableCell>
+                            <IssueCounts scan={scan} />
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-2">
+                              {scan.status === "completed" && scan.scanType !== "lighthouse" && (
+                                <Button size="sm" asChild>
+                                  <Link href={`/scans/${scan.id}`}>View Issues</Link>
+                                </Button>
+                              )}
+                              {scan.reportUrl && (
+                                <Button variant="outline" size="sm" asChild>
+                                  <a href={scan.reportUrl} target="_blank" rel="noopener noreferrer">
+                                    PDF
+                                  </a>
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
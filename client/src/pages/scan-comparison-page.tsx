@@ -0,0 +1,203 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, ArrowLeft, Download, Loader2 } from "lucide-react";
+import type { ComparedIssue, ComparedScan, IssueChange, ScanComparison } from "@shared/schema";
+import { IMPACT_ORDER } from "@shared/wcag";
+
+const CHANGES: { change: IssueChange; label: string; description: string }[] = [
+  { change: "new", label: "New", description: "Failing now but not in the baseline" },
+  { change: "fixed", label: "Fixed", description: "Failing in the baseline but not any more" },
+  { change: "persisting", label: "Persisting", description: "Failing in both scans" },
+];
+
+const CHANGE_COLORS: Record<IssueChange, string> = {
+  new: "text-destructive",
+  fixed: "text-green-600",
+  persisting: "text-amber-600",
+};
+
+const getImpactColor = (impact: string | null) => {
+  switch (impact) {
+    case "critical":
+    case "serious":
+      return "destructive";
+    case "moderate":
+      return "secondary";
+    default:
+      return "outline";
+  }
+};
+
+const scanDate = (scan: ComparedScan) => new Date(scan.scanDateTime ?? scan.createdAt).toLocaleString();
+
+function IssueTable({ issues }: { issues: ComparedIssue[] }) {
+  if (issues.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No issues in this group.
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Rule</TableHead>
+          <TableHead>Impact</TableHead>
+          <TableHead>Element</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {issues.map((issue, index) => (
+          <TableRow key={index}>
+            <TableCell className="align-top">
+              <div className="font-medium">
+                {issue.helpUrl ? (
+                  <a href={issue.helpUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                    {issue.help || issue.ruleId}
+                  </a>
+                ) : issue.help || issue.ruleId}
+              </div>
+              <code className="text-xs text-muted-foreground">{issue.ruleId}</code>
+            </TableCell>
+            <TableCell className="align-top">
+              {issue.impact && <Badge variant={getImpactColor(issue.impact)}>{issue.impact}</Badge>}
+            </TableCell>
+            <TableCell className="align-top space-y-1">
+              {issue.pageUrl && (
+                <div className="text-xs text-muted-foreground break-all">{issue.pageUrl}</div>
+              )}
+              <code className="rounded bg-muted px-1 py-0.5 text-sm break-all">{issue.selector}</code>
+              {issue.html && (
+                <pre className="rounded bg-muted p-2 text-xs overflow-x-auto whitespace-pre-wrap break-all">
+                  {issue.html}
+                </pre>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function ScanComparisonPage() {
+  const { a, b } = useParams<{ a: string; b: string }>();
+  const compareUrl = `/api/scans/${a}/compare/${b}`;
+
+  const { data: comparison, isLoading, error } = useQuery<ScanComparison>({
+    queryKey: [compareUrl],
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <h1 className="text-2xl font-bold">AccessScan</h1>
+          <Link href={`/scans/${b}`}>
+            <Button variant="outline">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Scan results
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 grid gap-8">
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : error || !comparison ? (
+          <Card>
+            <CardContent className="pt-6 flex items-center gap-2">
+              <AlertCircle className="h-5 w-5 text-destructive" />
+              {error instanceof Error ? error.message : "Scans not found."}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="break-all">Progress for {comparison.current.url}</CardTitle>
+                    <CardDescription>
+                      Baseline scan from {scanDate(comparison.base)} compared with the scan from {scanDate(comparison.current)}
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`${compareUrl}/pdf`} download>
+                      <Download className="w-4 h-4 mr-2" />
+                      Progress Report PDF
+                    </a>
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-4 md:grid-cols-3">
+                  {CHANGES.map(({ change, label, description }) => {
+                    const counts = comparison.counts[change];
+                    return (
+                      <div key={change} className="rounded-md border p-4">
+                        <div className={`text-3xl font-bold ${CHANGE_COLORS[change]}`}>{counts.total}</div>
+                        <div className="font-medium">{label} issues</div>
+                        <div className="text-sm text-muted-foreground">{description}</div>
+                        <div className="mt-2 flex flex-wrap gap-1">
+                          {IMPACT_ORDER.map(impact => (
+                            <Badge key={impact} variant="outline">
+                              {impact} {counts[impact]}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="pt-6">
+                <Tabs defaultValue="new">
+                  <TabsList>
+                    {CHANGES.map(({ change, label }) => (
+                      <TabsTrigger key={change} value={change}>
+                        {label} ({comparison.counts[change].total})
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                  {CHANGES.map(({ change }) => (
+                    <TabsContent key={change} value={change} className="mt-4">
+                      <IssueTable issues={comparison.issues.filter(issue => issue.change === change)} />
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
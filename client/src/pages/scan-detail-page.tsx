@@ -0,0 +1,685 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertCircle, ArrowLeft, ClipboardCheck, ExternalLink, FileCode, FileText, Loader2 } from "lucide-react";
+import type { AxeNodeResult, AxeRuleResult, FlowCheckpoint, KeyboardAuditSummary, Scan, ScanWithResults, ViewportName } from "@shared/schema";
+import { getWcagCriteria, getWcagLevel, IMPACT_ORDER } from "@shared/wcag";
+import { useScanProgress } from "@/hooks/use-scan-progress";
+import { ScanProgressIndicator } from "@/components/scan-progress";
+import { ShareReportDialog } from "@/components/share-report-dialog";
+import { VIEWPORT_LABELS } from "@/components/viewport-fields";
+
+type ResultTab = "violations" | "incomplete" | "passes";
+
+interface IssueFilters {
+  search: string;
+  impact: string;
+  level: string;
+  rule: string;
+  step: string;
+  viewport: string;
+}
+
+const ALL = "all";
+// Viewport filter value for elements found at every audited viewport; the others are viewport names
+const SHARED = "shared";
+
+const getImpactColor = (impact: string | null) => {
+  switch (impact) {
+    case "critical":
+    case "serious":
+      return "destructive";
+    case "moderate":
+      return "secondary";
+    default:
+      return "outline";
+  }
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const impactRank = (impact: string | null) => {
+  const index = IMPACT_ORDER.indexOf(impact as typeof IMPACT_ORDER[number]);
+  return index === -1 ? IMPACT_ORDER.length : index;
+};
+
+// Viewports of a multi-viewport scan an element was found at; older nodes without them count as everywhere
+const nodeViewports = (node: AxeNodeResult, audited: ViewportName[]) => node.viewports ?? audited;
+
+function matchesViewportFilter(node: AxeNodeResult, filter: string, audited: ViewportName[]) {
+  const foundAt = nodeViewports(node, audited);
+  if (filter === SHARED) return foundAt.length === audited.length;
+  return foundAt.length === 1 && foundAt[0] === filter;
+}
+
+/**
+ * Applies the explorer filters. A search term keeps a whole rule when it matches
+ * the rule itself, otherwise only the elements whose selector or HTML match.
+ * Checkpoint and viewport filters keep only the elements found at that step of a user flow,
+ * or at every viewport or only one of them.
+ */
+function filterRules(rules: AxeRuleResult[], filters: IssueFilters, viewports: ViewportName[] = []): AxeRuleResult[] {
+  const search = filters.search.trim().toLowerCase();
+
+  return rules
+    .filter(rule =>
+      (filters.impact === ALL || rule.impact === filters.impact) &&
+      (filters.level === ALL || getWcagLevel(rule.tags) === filters.level) &&
+      (filters.rule === ALL || rule.id === filters.rule)
+    )
+    .map(rule => filters.step === ALL
+      ? rule
+      : { ...rule, nodes: rule.nodes.filter(node => String(node.step) === filters.step) })
+    .filter(rule => filters.step === ALL || rule.nodes.length > 0)
+    .map(rule => filters.viewport === ALL
+      ? rule
+      : { ...rule, nodes: rule.nodes.filter(node => matchesViewportFilter(node, filters.viewport, viewports)) })
+    .filter(rule => filters.viewport === ALL || rule.nodes.length > 0)
+    .map(rule => {
+      if (!search) return rule;
+
+      const ruleText = [rule.id, rule.help, rule.description, ...getWcagCriteria(rule.tags)]
+        .join(" ")
+        .toLowerCase();
+      if (ruleText.includes(search)) return rule;
+
+      const nodes = rule.nodes.filter(node =>
+        node.target.join(" > ").toLowerCase().includes(search) ||
+        (node.html || "").toLowerCase().includes(search)
+      );
+      return { ...rule, nodes };
+    })
+    .filter(rule => !search || rule.nodes.length > 0)
+    .sort((a, b) => impactRank(a.impact) - impactRank(b.impact) || b.nodes.length - a.nodes.length);
+}
+
+function NodeDetail({ scanId, node, index, viewports }: {
+  scanId: number;
+  node: AxeNodeResult;
+  index: number;
+  viewports?: ViewportName[];
+}) {
+  const foundAt = viewports && viewports.length > 1 ? nodeViewports(node, viewports) : null;
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">Element {index + 1}</span>
+        {node.impact && (
+          <Badge variant={getImpactColor(node.impact)}>{node.impact}</Badge>
+        )}
+      </div>
+      {node.step != null && (
+        <div className="text-sm">
+          <span className="text-muted-foreground">Found at: </span>
+          <a href={`#checkpoint-${node.step}`} className="underline">Checkpoint {node.step + 1}</a>
+        </div>
+      )}
+      {foundAt && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Viewports:</span>
+          {foundAt.length === viewports!.length
+            ? <Badge variant="outline">All viewports</Badge>
+            : <Badge variant="secondary">{foundAt.map(viewport => VIEWPORT_LABELS[viewport]).join(", ")} only</Badge>}
+        </div>
+      )}
+      {node.pageUrl && (
+        <div className="text-sm">
+          <span className="text-muted-foreground">Page: </span>
+          <a href={node.pageUrl} target="_blank" rel="noopener noreferrer" className="underline break-all">
+            {node.pageUrl}
+          </a>
+        </div>
+      )}
+      <div className="text-sm">
+        <span className="text-muted-foreground">Selector: </span>
+        <code className="rounded bg-muted px-1 py-0.5 break-all">{node.target.join(" > ")}</code>
+      </div>
+      {node.screenshot && (
+        <a
+          href={`/api/scans/${scanId}/screenshots/${encodeURIComponent(node.screenshot)}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block w-fit"
+        >
+          <img
+            src={`/api/scans/${scanId}/screenshots/${encodeURIComponent(node.screenshot)}`}
+            alt={`Element ${index + 1} outlined on the page`}
+            className="max-h-60 max-w-full rounded border"
+            loading="lazy"
+          />
+        </a>
+      )}
+      {node.html && (
+        <pre className="rounded bg-muted p-2 text-xs overflow-x-auto whitespace-pre-wrap break-all">
+          {node.html}
+        </pre>
+      )}
+      {node.failureSummary && (
+        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{node.failureSummary}</p>
+      )}
+    </div>
+  );
+}
+
+function RuleItem({ scanId, rule, viewports }: { scanId: number; rule: AxeRuleResult; viewports?: ViewportName[] }) {
+  const criteria = getWcagCriteria(rule.tags);
+
+  return (
+    <AccordionItem value={rule.id}>
+      <AccordionTrigger className="text-left">
+        <div className="flex flex-wrap items-center gap-2 pr-4">
+          {rule.impact && (
+            <Badge variant={getImpactColor(rule.impact)}>{rule.impact}</Badge>
+          )}
+          <span className="font-medium">{rule.help || rule.id}</span>
+          <code className="text-xs text-muted-foreground">{rule.id}</code>
+          <Badge variant="outline">
+            {rule.nodes.length} {rule.nodes.length === 1 ? "element" : "elements"}
+          </Badge>
+        </div>
+      </AccordionTrigger>
+      <AccordionContent className="space-y-4">
+        {rule.description && <p>{rule.description}</p>}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">WCAG:</span>
+          <Badge variant="secondary">{getWcagLevel(rule.tags)}</Badge>
+          {criteria.length > 0
+            ? criteria.map(criterion => <Badge key={criterion} variant="outline">{criterion}</Badge>)
+            : <span className="text-muted-foreground">No specific success criterion</span>}
+        </div>
+        {rule.helpUrl && (
+          <a
+            href={rule.helpUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-sm text-primary underline"
+          >
+            How to fix this issue
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+        <div className="space-y-2">
+          {rule.nodes.map((node, index) => (
+            <NodeDetail key={index} scanId={scanId} node={node} index={index} viewports={viewports} />
+          ))}
+        </div>
+      </AccordionContent>
+    </AccordionItem>
+  );
+}
+
+// Rules for one tab, grouped under a heading per impact level
+function RuleList({ scanId, rules, viewports }: { scanId: number; rules: AxeRuleResult[]; viewports?: ViewportName[] }) {
+  if (rules.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No results match the current filters.
+      </div>
+    );
+  }
+
+  const groups = [...IMPACT_ORDER, null].map(impact => ({
+    impact,
+    rules: rules.filter(rule => impact === null
+      ? !IMPACT_ORDER.includes(rule.impact as typeof IMPACT_ORDER[number])
+      : rule.impact === impact),
+  })).filter(group => group.rules.length > 0);
+
+  return (
+    <div className="space-y-6">
+      {groups.map(group => (
+        <div key={group.impact ?? "none"}>
+          <h3 className="text-lg font-semibold mb-2">
+            {group.impact ? `${capitalize(group.impact)} Impact` : "No Impact Rating"} ({group.rules.length})
+          </h3>
+          <Accordion type="multiple">
+            {group.rules.map(rule => <RuleItem key={rule.id} scanId={scanId} rule={rule} viewports={viewports} />)}
+          </Accordion>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Violating elements found at every viewport, and at only one, for a scan audited at several
+function ViewportBreakdown({ violations, viewports }: { violations: AxeRuleResult[]; viewports: ViewportName[] }) {
+  const nodes = violations.flatMap(rule => rule.nodes);
+  const foundAt = (node: AxeNodeResult) => nodeViewports(node, viewports);
+  const counts = [
+    { label: "Every viewport", value: nodes.filter(node => foundAt(node).length === viewports.length).length },
+    ...viewports.map(viewport => ({
+      label: `Only at ${VIEWPORT_LABELS[viewport]}`,
+      value: nodes.filter(node => foundAt(node).length === 1 && foundAt(node)[0] === viewport).length,
+    })),
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">Affected elements by viewport</div>
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        {counts.map(count => (
+          <div key={count.label} className="rounded-lg border p-4">
+            <div className="text-sm text-muted-foreground">{count.label}</div>
+            <div className="text-2xl font-bold">{count.value}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Where Tab took focus, flagging stops that showed no visible focus indicator
+function KeyboardFocusOrder({ keyboard }: { keyboard: KeyboardAuditSummary }) {
+  return (
+    <div className="space-y-4">
+      {keyboard.trapped && (
+        <div className="flex items-start gap-2 text-destructive">
+          <AlertCircle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+          <span>Keyboard focus gets trapped; see the keyboard-trap violation for where.</span>
+        </div>
+      )}
+      {!keyboard.completed && !keyboard.trapped && (
+        <p className="text-sm text-muted-foreground">
+          Tabbing stopped before getting round the whole page, so elements after the last stop weren't checked.
+        </p>
+      )}
+      {keyboard.focusOrder.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing on the page receives focus from the Tab key.</p>
+      ) : (
+        <ol className="max-h-96 overflow-y-auto space-y-1 text-sm list-decimal pl-8">
+          {keyboard.focusOrder.map((stop, index) => (
+            <li key={index}>
+              <code className="rounded bg-muted px-1 py-0.5 break-all">{stop.selector}</code>
+              {stop.indicator === false && <Badge variant="destructive" className="ml-2">No visible focus</Badge>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+// Each audit step of a user flow with the screenshot taken when it was audited
+function CheckpointList({ scanId, steps }: { scanId: number; steps: FlowCheckpoint[] }) {
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      {steps.map((checkpoint, index) => (
+        <figure key={index} id={`checkpoint-${index}`} className="rounded-lg border p-4 space-y-3">
+          <figcaption className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{index + 1}. {checkpoint.label}</span>
+              <Badge variant={checkpoint.violations > 0 ? "destructive" : "outline"}>
+                {checkpoint.violations} {checkpoint.violations === 1 ? "violation" : "violations"}
+              </Badge>
+            </div>
+            <div className="text-sm text-muted-foreground break-all">{checkpoint.url}</div>
+          </figcaption>
+          {checkpoint.screenshot ? (
+            <img
+              src={`/api/scans/${scanId}/steps/${index}/screenshot`}
+              alt={`The page at checkpoint ${index + 1}, ${checkpoint.label}`}
+              className="w-full rounded border"
+              loading="lazy"
+            />
+          ) : (
+            <div className="text-sm text-muted-foreground">No screenshot was captured.</div>
+          )}
+        </figure>
+      ))}
+    </div>
+  );
+}
+
+// Picks another completed scan of the same URL and opens the diff, older scan as the baseline
+function CompareSelect({ scan }: { scan: Scan }) {
+  const [, setLocation] = useLocation();
+  const { data: scans } = useQuery<Scan[]>({
+    queryKey: ["/api/scans"],
+  });
+
+  const candidates = (scans ?? [])
+    .filter(other => other.id !== scan.id && other.url === scan.url && other.resultMeta)
+    .sort((x, y) => new Date(y.createdAt).getTime() - new Date(x.createdAt).getTime());
+  if (candidates.length === 0) return null;
+
+  const compareWith = (value: string) => {
+    const other = candidates.find(candidate => String(candidate.id) === value);
+    if (!other) return;
+    const [base, current] = new Date(other.createdAt) < new Date(scan.createdAt) ? [other, scan] : [scan, other];
+    setLocation(`/scans/${base.id}/compare/${current.id}`);
+  };
+
+  return (
+    <Select onValueChange={compareWith}>
+      <SelectTrigger className="h-9 w-[200px]" aria-label="Compare with another scan">
+        <SelectValue placeholder="Compare with…" />
+      </SelectTrigger>
+      <SelectContent>
+        {candidates.map(candidate => (
+          <SelectItem key={candidate.id} value={String(candidate.id)}>
+            {new Date(candidate.createdAt).toLocaleString()}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function ScanDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [tab, setTab] = React.useState<ResultTab>("violations");
+  const [filters, setFilters] = React.useState<IssueFilters>({
+    search: "",
+    impact: ALL,
+    level: ALL,
+    rule: ALL,
+    step: ALL,
+    viewport: ALL,
+  });
+
+  const { data: scan, isLoading, error } = useQuery<ScanWithResults>({
+    queryKey: [`/api/scans/${id}`],
+  });
+  const inProgress = scan?.status === "pending" || scan?.status === "running";
+  const progress = useScanProgress(Number(id), inProgress);
+
+  const results = scan?.results;
+  const activeRules = results ? results[tab] : [];
+  const viewports = results?.viewports;
+  const filteredRules = React.useMemo(() => filterRules(activeRules, filters, viewports), [activeRules, filters, viewports]);
+  const ruleIds = React.useMemo(() => activeRules.map(rule => rule.id).sort(), [activeRules]);
+
+  const updateFilter = (key: keyof IssueFilters) => (value: string) =>
+    setFilters(current => ({ ...current, [key]: value }));
+
+  const changeTab = (value: string) => {
+    setTab(value as ResultTab);
+    // Rule ids differ between tabs, so a rule filter from another tab would hide everything
+    setFilters(current => ({ ...current, rule: ALL }));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <h1 className="text-2xl font-bold">AccessScan</h1>
+          <Link href="/dashboard">
+            <Button variant="outline">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Dashboard
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 grid gap-8">
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : error || !scan ? (
+          <Card>
+            <CardContent className="pt-6 flex items-center gap-2">
+              <AlertCircle className="h-5 w-5 text-destructive" />
+              Scan not found.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="break-all">{scan.url}</CardTitle>
+                    <CardDescription>
+                      Scanned {new Date(results?.scanDateTime ?? scan.createdAt).toLocaleString()}
+                      {results?.renderMode === "static" && " from static HTML"}
+                      {results?.pages && ` across ${results.pages.length} pages`}
+                      {viewports && ` at ${viewports.map(viewport => VIEWPORT_LABELS[viewport]).join(", ")} ${viewports.length === 1 ? "size" : "sizes"}`}
+                      {scan.options?.auth && (scan.options.auth.username ? ` signed in as ${scan.options.auth.username}` : " after signing in")}
+                    </CardDescription>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {results && <CompareSelect scan={scan} />}
+                    {results && (
+                      <Button variant="outline" size="sm" asChild>
+                        <Link href={`/scans/${scan.id}/acr`}>
+                          <ClipboardCheck className="w-4 h-4 mr-2" />
+                          Conformance Report
+                        </Link>
+                      </Button>
+                    )}
+                    {scan.reportUrl && (
+                      <>
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={scan.reportUrl} target="_blank" rel="noopener noreferrer">
+                            <FileText className="w-4 h-4 mr-2" />
+                            PDF Report
+                          </a>
+                        </Button>
+                        {scan.htmlReportUrl && (
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={scan.htmlReportUrl} target="_blank" rel="noopener noreferrer">
+                              <FileCode className="w-4 h-4 mr-2" />
+                              HTML Report
+                            </a>
+                          </Button>
+                        )}
+                        <ShareReportDialog scan={scan} />
+                      </>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {results?.error && (
+                  <div className="mb-4 flex items-start gap-2 text-destructive">
+                    <AlertCircle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+                    <span>{results.error}</span>
+                  </div>
+                )}
+                {results ? (
+                  <div className="space-y-6">
+                    <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+                      {IMPACT_ORDER.map(impact => {
+                        const rules = results.violations.filter(rule => rule.impact === impact);
+                        const elements = rules.reduce((total, rule) => total + rule.nodes.length, 0);
+                        return (
+                          <div key={impact} className="rounded-lg border p-4">
+                            <div className="text-sm text-muted-foreground">{capitalize(impact)}</div>
+                            <div className="text-2xl font-bold">{rules.length}</div>
+                            <div className="text-xs text-muted-foreground">{elements} elements</div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    {viewports && viewports.length > 1 && (
+                      <ViewportBreakdown violations={results.violations} viewports={viewports} />
+                    )}
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">
+                    {inProgress
+                      ? <div className="max-w-sm mx-auto"><ScanProgressIndicator progress={progress} /></div>
+                      : "No structured results were stored for this scan."}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {scan.screenshot && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Page Screenshot</CardTitle>
+                  <CardDescription>
+                    The page as it was audited{viewports && viewports.length > 1 ? ` at ${VIEWPORT_LABELS[viewports[0]]}` : ""}. Each violating element is shown outlined in the Issue Explorer
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <a href={`/api/scans/${scan.id}/screenshot`} target="_blank" rel="noopener noreferrer" className="block">
+                    <div className="max-h-[600px] overflow-y-auto rounded border">
+                      <img
+                        src={`/api/scans/${scan.id}/screenshot`}
+                        alt={`Full-page screenshot of ${scan.url}`}
+                        className="w-full"
+                        loading="lazy"
+                      />
+                    </div>
+                  </a>
+                </CardContent>
+              </Card>
+            )}
+
+            {results?.keyboard && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Keyboard Navigation</CardTitle>
+                  <CardDescription>
+                    The {results.keyboard.focusOrder.length} elements focused by pressing Tab from the top of the page, in order
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <KeyboardFocusOrder keyboard={results.keyboard} />
+                </CardContent>
+              </Card>
+            )}
+
+            {results?.steps && results.steps.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>User Flow Checkpoints</CardTitle>
+                  <CardDescription>
+                    The page as it was at each audit step of the flow
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <CheckpointList scanId={scan.id} steps={results.steps} />
+                </CardContent>
+              </Card>
+            )}
+
+            {results && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Issue Explorer</CardTitle>
+                  <CardDescription>
+                    Filter by impact, WCAG level or rule, or search selectors and HTML
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid gap-4 md:grid-cols-4">
+                    <Input
+                      placeholder="Search rules, selectors, HTML"
+                      aria-label="Search results"
+                      value={filters.search}
+                      onChange={event => updateFilter("search")(event.target.value)}
+                    />
+                    <Select value={filters.impact} onValueChange={updateFilter("impact")}>
+                      <SelectTrigger aria-label="Filter by impact">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All impacts</SelectItem>
+                        {IMPACT_ORDER.map(impact => (
+                          <SelectItem key={impact} value={impact}>{capitalize(impact)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={filters.level} onValueChange={updateFilter("level")}>
+                      <SelectTrigger aria-label="Filter by WCAG level">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All WCAG levels</SelectItem>
+                        <SelectItem value="A">Level A</SelectItem>
+                        <SelectItem value="AA">Level AA</SelectItem>
+                        <SelectItem value="AAA">Level AAA</SelectItem>
+                        <SelectItem value="Best Practice">Best practice</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select value={filters.rule} onValueChange={updateFilter("rule")}>
+                      <SelectTrigger aria-label="Filter by rule">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All rules</SelectItem>
+                        {ruleIds.map(ruleId => (
+                          <SelectItem key={ruleId} value={ruleId}>{ruleId}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {viewports && viewports.length > 1 && (
+                      <Select value={filters.viewport} onValueChange={updateFilter("viewport")}>
+                        <SelectTrigger aria-label="Filter by viewport">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL}>All viewports</SelectItem>
+                          <SelectItem value={SHARED}>Found at every viewport</SelectItem>
+                          {viewports.map(viewport => (
+                            <SelectItem key={viewport} value={viewport}>Only at {VIEWPORT_LABELS[viewport]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {results.steps && results.steps.length > 0 && (
+                      <Select value={filters.step} onValueChange={updateFilter("step")}>
+                        <SelectTrigger aria-label="Filter by checkpoint">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL}>All checkpoints</SelectItem>
+                          {results.steps.map((checkpoint, index) => (
+                            <SelectItem key={index} value={String(index)}>
+                              {index + 1}. {checkpoint.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+
+                  <Tabs value={tab} onValueChange={changeTab}>
+                    <TabsList>
+                      <TabsTrigger value="violations">Violations ({results.violations.length})</TabsTrigger>
+                      <TabsTrigger value="incomplete">Needs Review ({results.incomplete.length})</TabsTrigger>
+                      <TabsTrigger value="passes">Passed ({results.passes.length})</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value={tab} className="pt-4">
+                      <RuleList scanId={scan.id} rules={filteredRules} viewports={viewports} />
+                    </TabsContent>
+                  </Tabs>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
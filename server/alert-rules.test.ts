@@ -0,0 +1,161 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import type { AlertRule, AxeRuleResult, ImpactCounts, Scan, ScanResults } from "@shared/schema";
+import { buildNotification, deliverAlert, evaluateRule, type AlertNotification } from "./alert-rules";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signWebhookPayload } from "./webhook-signing";
+
+const SECRET = "test-secret";
+
+function makeRule(overrides: Partial<AlertRule> = {}): AlertRule {
+  return {
+    id: 1,
+    userId: 1,
+    url: "https://example.com",
+    type: "violations-increase",
+    threshold: 2,
+    webhookUrl: null,
+    webhookSecret: SECRET,
+    emails: [],
+    lastTriggeredAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function makeScan(id: number, violations: Partial<ImpactCounts>, overrides: Partial<Scan> = {}): Scan {
+  const counts = { critical: 0, serious: 0, moderate: 0, minor: 0, ...violations };
+  const total = counts.critical + counts.serious + counts.moderate + counts.minor;
+  return {
+    id,
+    userId: 1,
+    url: "https://example.com",
+    status: "completed",
+    reportUrl: null,
+    htmlReportUrl: null,
+    options: null,
+    scanType: "axe",
+    parentId: null,
+    projectId: null,
+    resultMeta: { summary: { score: 80, violations: { ...counts, total } } },
+    screenshot: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function criticalRule(selectors: string[]): AxeRuleResult {
+  return {
+    id: "image-alt",
+    impact: "critical",
+    description: null,
+    help: "Images must have alternate text",
+    helpUrl: null,
+    tags: ["wcag2a"],
+    nodes: selectors.map(selector => ({ target: [selector], html: "<img>", impact: "critical", failureSummary: null })),
+  };
+}
+
+function makeResults(violations: AxeRuleResult[]): ScanResults {
+  return { url: "https://example.com", violations, passes: [], incomplete: [] };
+}
+
+const noResults = async () => undefined;
+
+test("violations-increase fires only when the increase reaches the threshold", async () => {
+  const rule = makeRule({ threshold: 2 });
+  const baseline = makeScan(1, { serious: 3 });
+
+  assert.equal(await evaluateRule(rule, makeScan(2, { serious: 4 }), baseline, noResults), null);
+  const result = await evaluateRule(rule, makeScan(2, { serious: 4, minor: 1 }), baseline, noResults);
+  assert.deepEqual(result?.details, { previousTotal: 3, currentTotal: 5, increase: 2 });
+  // Nothing to compare with on a URL's first scan
+  assert.equal(await evaluateRule(rule, makeScan(2, { serious: 10 }), undefined, noResults), null);
+});
+
+test("new-critical matches elements between the scans' stored results", async () => {
+  const rule = makeRule({ type: "new-critical", threshold: null });
+  const baseline = makeScan(1, { critical: 1 });
+  const scan = makeScan(2, { critical: 2 });
+  const results = new Map([
+    [1, makeResults([criticalRule(["#logo"])])],
+    [2, makeResults([criticalRule(["#logo", "#banner"])])],
+  ]);
+
+  const result = await evaluateRule(rule, scan, baseline, async id => results.get(id));
+  assert.deepEqual(result?.details, { newCriticalIssues: 1 });
+
+  // The same elements failing again isn't new
+  results.set(2, makeResults([criticalRule(["#logo"])]));
+  assert.equal(await evaluateRule(rule, scan, baseline, async id => results.get(id)), null);
+});
+
+test("lighthouse-score-below fires on the drop below the threshold, not while it stays below", async () => {
+  const rule = makeRule({ type: "lighthouse-score-below", threshold: 90 });
+  const lighthouse = (id: number, score: number) => makeScan(id, {}, {
+    scanType: "lighthouse",
+    resultMeta: { summary: { score, violations: { critical: 0, serious: 0, moderate: 0, minor: 0, total: 0 } } },
+  });
+
+  assert.ok(await evaluateRule(rule, lighthouse(2, 85), lighthouse(1, 95), noResults));
+  assert.equal(await evaluateRule(rule, lighthouse(2, 80), lighthouse(1, 85), noResults), null);
+});
+
+// A local receiver that records each request's headers and raw body and answers with the given status
+async function startReceiver(status: number) {
+  const requests: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body });
+      res.writeHead(status).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/accessscan`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+test("deliverAlert posts the notification signed with the rule's secret", async (t) => {
+  const receiver = await startReceiver(204);
+  t.after(receiver.close);
+
+  const rule = makeRule({ webhookUrl: receiver.url });
+  const baseline = makeScan(1, { serious: 1 });
+  const scan = makeScan(2, { serious: 4 });
+  const result = await evaluateRule(rule, scan, baseline, noResults);
+  assert.ok(result);
+
+  const deliveries = await deliverAlert(rule, buildNotification("alert.triggered", rule, scan, baseline, result));
+  assert.deepEqual(deliveries, [{ channel: "webhook", target: receiver.url, ok: true }]);
+
+  assert.equal(receiver.requests.length, 1);
+  const [{ headers, body }] = receiver.requests;
+  const timestamp = headers[TIMESTAMP_HEADER.toLowerCase()] as string;
+  assert.equal(headers[SIGNATURE_HEADER.toLowerCase()], signWebhookPayload(SECRET, timestamp, body));
+  assert.notEqual(headers[SIGNATURE_HEADER.toLowerCase()], signWebhookPayload("another-secret", timestamp, body));
+
+  const notification = JSON.parse(body) as AlertNotification;
+  assert.equal(notification.event, "alert.triggered");
+  assert.equal(notification.scan.id, 2);
+  assert.equal(notification.baselineScan?.id, 1);
+  assert.deepEqual(notification.details, { previousTotal: 1, currentTotal: 4, increase: 3 });
+});
+
+test("deliverAlert reports a receiver's error status as a failed delivery", async (t) => {
+  const receiver = await startReceiver(500);
+  t.after(receiver.close);
+
+  const rule = makeRule({ webhookUrl: receiver.url });
+  const scan = makeScan(2, { serious: 4 });
+  const deliveries = await deliverAlert(rule, buildNotification("alert.triggered", rule, scan, undefined, { message: "Test", details: {} }));
+  assert.equal(deliveries.length, 1);
+  assert.equal(deliveries[0].ok, false);
+  assert.match(deliveries[0].error ?? "", /responded with 500/);
+});
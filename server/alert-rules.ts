@@ -0,0 +1,204 @@
+/**
+ * Alert rule checks and notifications
+ * Decides whether a scan trips a rule compared with its baseline scan, and sends the resulting
+ * notification to the rule's signed webhook and email addresses; server/alerts.ts finds the scans
+ */
+import type { AlertDelivery, AlertRule, AlertRuleType, ImpactCounts, RedactedAlertRule, Scan, ScanResultMeta, ScanResults } from "@shared/schema";
+import { postSignedWebhook } from "./webhook-signing";
+import { compareScans } from "./services/compare";
+import { sendMail } from "./services/mailer";
+import { escapeHtml } from "./services/html-report";
+
+// Stored element results of a scan, for matching issues between two scans
+export type ResultsLoader = (scanId: number) => Promise<ScanResults | undefined>;
+
+// Body of alert webhooks; email alerts carry the same facts
+export interface AlertNotification {
+  event: "alert.triggered" | "alert.test";
+  message: string;
+  rule: { id: number; type: AlertRuleType; url: string; threshold: number | null };
+  scan: { id: number; url: string; scanType: string; createdAt: string; score: number | null; violations: ImpactCounts | null };
+  baselineScan: { id: number; createdAt: string; score: number | null; violations: ImpactCounts | null } | null;
+  details: Record<string, number | null>;
+  triggeredAt: string;
+}
+
+const RULE_LABELS: Record<AlertRuleType, string> = {
+  "new-critical": "New critical issue",
+  "violations-increase": "Violations increased",
+  "lighthouse-score-below": "Lighthouse score dropped",
+};
+
+export function redactAlertRule({ webhookSecret, ...rule }: AlertRule): RedactedAlertRule {
+  return rule;
+}
+
+const summaryOf = (scan: Scan) => (scan.resultMeta as ScanResultMeta | null)?.summary ?? null;
+
+function describeScan(scan: Scan) {
+  const summary = summaryOf(scan);
+  return {
+    id: scan.id,
+    createdAt: new Date(scan.createdAt).toISOString(),
+    score: summary?.score ?? null,
+    violations: summary?.violations ?? null,
+  };
+}
+
+// New critical issues, matched element by element when both scans have stored results
+async function countNewCritical(scan: Scan, baseline: Scan, loadResults: ResultsLoader) {
+  const [baseResults, currentResults] = await Promise.all([loadResults(baseline.id), loadResults(scan.id)]);
+  if (baseResults && currentResults) {
+    return compareScans(baseline, baseResults, scan, currentResults)
+      .issues.filter(issue => issue.change === "new" && issue.impact === "critical").length;
+  }
+
+  // Lighthouse scans only keep counts, so an increase is the best available signal
+  const before = summaryOf(baseline)?.violations.critical;
+  const after = summaryOf(scan)?.violations.critical;
+  return before === undefined || after === undefined ? 0 : Math.max(after - before, 0);
+}
+
+// The message and figures of a triggered rule, or null when the scan doesn't trip it
+export async function evaluateRule(
+  rule: AlertRule,
+  scan: Scan,
+  baseline: Scan | undefined,
+  loadResults: ResultsLoader
+): Promise<Pick<AlertNotification, "message" | "details"> | null> {
+  const current = summaryOf(scan);
+
+  switch (rule.type as AlertRuleType) {
+    case "new-critical": {
+      // Without an earlier scan every issue would count as new, which isn't a regression
+      if (!baseline) return null;
+      const newCritical = await countNewCritical(scan, baseline, loadResults);
+      return newCritical > 0
+        ? {
+          message: `${newCritical} new critical issue${newCritical === 1 ? "" : "s"} on ${scan.url}`,
+          details: { newCriticalIssues: newCritical },
+        }
+        : null;
+    }
+
+    case "violations-increase": {
+      const previous = baseline && summaryOf(baseline);
+      if (!current || !previous) return null;
+      const increase = current.violations.total - previous.violations.total;
+      return increase >= (rule.threshold ?? 1)
+        ? {
+          message: `Violations on ${scan.url} rose by ${increase}, from ${previous.violations.total} to ${current.violations.total}`,
+          details: { previousTotal: previous.violations.total, currentTotal: current.violations.total, increase },
+        }
+        : null;
+    }
+
+    case "lighthouse-score-below": {
+      if (scan.scanType !== "lighthouse" || current?.score == null || rule.threshold === null) return null;
+      const previousScore = baseline ? summaryOf(baseline)?.score ?? null : null;
+      // Only the drop below the threshold alerts, not every scan that stays below it
+      const dropped = current.score < rule.threshold && (previousScore === null || previousScore >= rule.threshold);
+      return dropped
+        ? {
+          message: `Lighthouse accessibility score for ${scan.url} is ${current.score}, below ${rule.threshold}`,
+          details: { score: current.score, previousScore, threshold: rule.threshold },
+        }
+        : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+export function buildNotification(
+  event: AlertNotification["event"],
+  rule: AlertRule,
+  scan: Scan,
+  baseline: Scan | undefined,
+  result: Pick<AlertNotification, "message" | "details">
+): AlertNotification {
+  return {
+    event,
+    message: result.message,
+    rule: { id: rule.id, type: rule.type as AlertRuleType, url: rule.url, threshold: rule.threshold },
+    scan: { ...describeScan(scan), url: scan.url, scanType: scan.scanType },
+    baselineScan: baseline ? describeScan(baseline) : null,
+    details: result.details,
+    triggeredAt: new Date().toISOString(),
+  };
+}
+
+async function postWebhook(rule: AlertRule, notification: AlertNotification) {
+  const response = await postSignedWebhook(rule.webhookUrl!, rule.webhookSecret, JSON.stringify(notification));
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+  }
+}
+
+async function emailAlert(rule: AlertRule, notification: AlertNotification) {
+  const label = RULE_LABELS[notification.rule.type] ?? notification.rule.type;
+  const facts: [string, string][] = [
+    ["Alert", label],
+    ["URL", notification.scan.url],
+    ["Scan", `#${notification.scan.id} (${notification.scan.scanType}) at ${notification.scan.createdAt}`],
+    ...Object.entries(notification.details).map(([key, value]): [string, string] => [key, String(value ?? "n/a")]),
+  ];
+  if (notification.baselineScan) {
+    facts.push(["Compared with", `Scan #${notification.baselineScan.id} at ${notification.baselineScan.createdAt}`]);
+  }
+
+  await sendMail({
+    to: rule.emails as string[],
+    subject: `[AccessScan] ${notification.event === "alert.test" ? "Test alert: " : ""}${notification.message}`,
+    text: [notification.message, "", ...facts.map(([name, value]) => `${name}: ${value}`)].join("\n"),
+    html: `<p><strong>${escapeHtml(notification.message)}</strong></p>
+<table cellpadding="4">${facts.map(([name, value]) => `<tr><th align="left">${escapeHtml(name)}</th><td>${escapeHtml(value)}</td></tr>`).join("")}</table>`,
+  });
+}
+
+// Sends the notification to every channel of the rule; one failing channel doesn't stop the others
+export async function deliverAlert(rule: AlertRule, notification: AlertNotification): Promise<AlertDelivery[]> {
+  const deliveries: Promise<AlertDelivery>[] = [];
+  const attempt = (channel: AlertDelivery["channel"], target: string, send: () => Promise<void>) =>
+    send()
+      .then((): AlertDelivery => ({ channel, target, ok: true }))
+      .catch((error): AlertDelivery => ({ channel, target, ok: false, error: error instanceof Error ? error.message : String(error) }));
+
+  if (rule.webhookUrl) {
+    deliveries.push(attempt("webhook", rule.webhookUrl, () => postWebhook(rule, notification)));
+  }
+  const emails = rule.emails as string[];
+  if (emails.length > 0) {
+    deliveries.push(attempt("email", emails.join(", "), () => emailAlert(rule, notification)));
+  }
+
+  const results = await Promise.all(deliveries);
+  results.filter(result => !result.ok).forEach(result => {
+    console.error(`Alert rule ${rule.id} ${result.channel} delivery to ${result.target} failed: ${result.error}`);
+  });
+  return results;
+}
+
+// Sample notification for checking a rule's webhook receiver and mailbox
+export function buildTestNotification(rule: AlertRule): AlertNotification {
+  const placeholder: Scan = {
+    id: 0,
+    userId: rule.userId,
+    url: rule.url,
+    status: "completed",
+    reportUrl: null,
+    htmlReportUrl: null,
+    options: null,
+    scanType: rule.type === "lighthouse-score-below" ? "lighthouse" : "axe",
+    parentId: null,
+    projectId: null,
+    resultMeta: null,
+    screenshot: null,
+    createdAt: new Date(),
+  };
+  return buildNotification("alert.test", rule, placeholder, undefined, {
+    message: `Test of the "${RULE_LABELS[rule.type as AlertRuleType] ?? rule.type}" alert for ${rule.url}`,
+    details: {},
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * Regression alerts
+ * When a scan completes, the user's alert rules for its URL are checked against the previous
+ * completed scan of the same URL and type; triggered rules notify a signed webhook and/or email
+ */
+import type { Scan } from "@shared/schema";
+import { storage } from "./storage";
+import { buildNotification, deliverAlert, evaluateRule } from "./alert-rules";
+import { normalizePageUrl } from "./services/compare";
+
+// Previous completed scan of the same URL and type, if the user has one
+async function findBaseline(scan: Scan) {
+  const url = normalizePageUrl(scan.url);
+  const earlier = await storage.getEarlierCompletedScans(scan);
+  return earlier.find(candidate => normalizePageUrl(candidate.url) === url);
+}
+
+// Checks the user's alert rules for a completed top-level scan and sends any that trigger
+export async function checkScanAlerts(scanId: number) {
+  const scan = await storage.getScan(scanId);
+  if (!scan || scan.status !== "completed" || scan.parentId !== null) {
+    return;
+  }
+
+  const url = normalizePageUrl(scan.url);
+  const rules = (await storage.getUserAlertRules(scan.userId)).filter(rule => normalizePageUrl(rule.url) === url);
+  if (rules.length === 0) {
+    return;
+  }
+
+  const baseline = await findBaseline(scan);
+  for (const rule of rules) {
+    const result = await evaluateRule(rule, scan, baseline, id => storage.getScanResults(id));
+    if (!result) continue;
+
+    console.log(`Alert rule ${rule.id} triggered by scan ID ${scan.id}: ${result.message}`);
+    await storage.markAlertRuleTriggered(rule.id, new Date());
+    await deliverAlert(rule, buildNotification("alert.triggered", rule, scan, baseline, result));
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * API keys for the /api/v1 REST API
+ * Keys are shown once when created and stored only as a SHA-256 hash; requests present them
+ * as "Authorization: Bearer <key>" and act as the key's owner
+ */
+import { createHash, randomBytes } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { NewApiKey } from "@shared/schema";
+import { storage } from "./storage";
+
+const KEY_PREFIX = "ask_";
+// Characters of the key kept in plain text so the owner can tell keys apart
+const VISIBLE_LENGTH = KEY_PREFIX.length + 8;
+// Last-used times are only rewritten after this long, so busy keys don't cost a write per request
+const LAST_USED_RESOLUTION = 60 * 1000;
+
+export function hashApiKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export async function createApiKey(userId: number, name: string): Promise<NewApiKey> {
+  const key = `${KEY_PREFIX}${randomBytes(30).toString("base64url")}`;
+  const apiKey = await storage.createApiKey(userId, name, key.slice(0, VISIBLE_LENGTH), hashApiKey(key));
+  return { ...apiKey, key };
+}
+
+function unauthorized(res: Response, error: string) {
+  res.setHeader("WWW-Authenticate", 'Bearer realm="AccessScan API"');
+  res.status(401).json({ error });
+}
+
+/**
+ * Signs the request in as the owner of its bearer key. Requests without a bearer key fall through
+ * to the session, so the API can also be tried from a signed-in browser; a key that is
+ * present but unknown or revoked is rejected even if there is a session
+ */
+export async function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
+  const header = req.get("Authorization");
+  if (!header?.startsWith("Bearer ")) {
+    return next();
+  }
+
+  try {
+    const apiKey = await storage.getApiKeyByHash(hashApiKey(header.slice("Bearer ".length).trim()));
+    const user = apiKey && !apiKey.revokedAt ? await storage.getUser(apiKey.userId) : undefined;
+    if (!apiKey || !user) {
+      return unauthorized(res, "Invalid or revoked API key");
+    }
+
+    req.user = user;
+    const now = new Date();
+    if (!apiKey.lastUsedAt || now.getTime() - new Date(apiKey.lastUsedAt).getTime() > LAST_USED_RESOLUTION) {
+      storage.markApiKeyUsed(apiKey.id, now).catch(error => {
+        console.error(`Error recording use of API key ${apiKey.id}:`, error);
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Answers 401 with a JSON error for requests that are neither key nor session authenticated
+export function requireApiUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return unauthorized(res, "Send an API key as \"Authorization: Bearer <key>\"");
+  }
+  next();
+}
@@ -0,0 +1,104 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AxeNodeResult, AxeRuleResult, ImpactCounts, ResultSummary, ScanResults } from "@shared/schema";
+import { evaluateGate, toJUnitXml, type GateOutcome } from "./services/ci-gate";
+
+function rule(id: string, impact: string, nodes: Partial<AxeNodeResult>[]): AxeRuleResult {
+  return {
+    id,
+    impact,
+    description: null,
+    help: null,
+    helpUrl: null,
+    tags: [],
+    nodes: nodes.map(node => ({ target: [], html: null, impact, failureSummary: null, ...node })),
+  };
+}
+
+const results = (url: string, violations: AxeRuleResult[]): ScanResults =>
+  ({ url, violations, passes: [], incomplete: [] });
+
+function summary(violations: Partial<ImpactCounts>, score: number | null = 90): ResultSummary {
+  const counts = { critical: 0, serious: 0, moderate: 0, minor: 0, ...violations };
+  return { score, violations: { ...counts, total: counts.critical + counts.serious + counts.moderate + counts.minor } };
+}
+
+test("count and score thresholds each become a check", () => {
+  const current = results("https://example.com/", [rule("image-alt", "critical", [{ target: ["#logo"] }, { target: ["#hero"] }])]);
+  const checks = evaluateGate(summary({ critical: 2, serious: 1 }, 72), current, { maxCritical: 0, maxSerious: 1, minScore: 80 });
+
+  assert.deepEqual(checks.map(check => [check.name, check.passed, check.message]), [
+    ["critical violations <= 0", false, "2 critical violations (max 0)"],
+    ["serious violations <= 1", true, "1 serious violation (max 1)"],
+    ["score >= 80", false, "Score 72 (min 80)"],
+  ]);
+  assert.deepEqual(checks[0].details, ["[critical] image-alt: #logo", "[critical] image-alt: #hero"]);
+});
+
+test("a baseline from another host is matched by path", () => {
+  const baseline = results("https://pr-41.preview.example.com/", [
+    rule("image-alt", "critical", [
+      { target: ["#logo"], pageUrl: "https://pr-41.preview.example.com/" },
+      { target: ["#hero"], pageUrl: "https://pr-41.preview.example.com/about?lang=en" },
+    ]),
+  ]);
+  const current = results("https://pr-42.preview.example.com/", [
+    rule("image-alt", "critical", [
+      { target: ["#logo"], pageUrl: "https://pr-42.preview.example.com/" },
+      { target: ["#hero"], pageUrl: "https://pr-42.preview.example.com/about?lang=en" },
+    ]),
+  ]);
+
+  const [unchanged] = evaluateGate(summary({ critical: 2 }), current, { baseline });
+  assert.equal(unchanged.passed, true);
+  assert.equal(unchanged.message, "0 new, 0 fixed, 2 persisting compared with the baseline");
+
+  current.violations.push(rule("label", "serious", [{ target: ["#email"], pageUrl: "https://pr-42.preview.example.com/contact" }]));
+  const [regressed] = evaluateGate(summary({ critical: 2, serious: 1 }), current, { baseline });
+  assert.equal(regressed.passed, false);
+  assert.equal(regressed.message, "1 new, 0 fixed, 2 persisting compared with the baseline");
+  assert.deepEqual(regressed.details, ["[serious] label: #email (https://pr-42.preview.example.com/contact)"]);
+});
+
+test("a baseline can't be checked without per-element results", () => {
+  const [check] = evaluateGate(summary({}), null, { baseline: results("https://example.com/", []) });
+  assert.equal(check.passed, false);
+  assert.match(check.message, /needs per-element results/);
+});
+
+function outcome(overrides: Partial<GateOutcome>): GateOutcome {
+  return {
+    url: "https://example.com/?a=1&b=2",
+    scanType: "axe",
+    summary: summary({ critical: 1 }),
+    results: null,
+    checks: [],
+    passed: true,
+    durationMs: 1500,
+    ...overrides,
+  };
+}
+
+test("toJUnitXml reports a test case per check with escaped failures", () => {
+  const xml = toJUnitXml(outcome({
+    passed: false,
+    checks: [
+      { name: "critical violations <= 0", passed: false, message: "1 critical violation (max 0)", details: ["[critical] image-alt: img[alt=\"\"]"] },
+      { name: "score >= 80", passed: true, message: "Score 90 (min 80)", details: [] },
+    ],
+  }));
+
+  assert.match(xml, /<testsuites name="AccessScan" tests="2" failures="1" errors="0" time="1\.500">/);
+  assert.match(xml, /<testsuite name="Accessibility: https:\/\/example\.com\/\?a=1&amp;b=2"/);
+  assert.match(xml, /<testcase classname="accessibility\.axe" name="score &gt;= 80" time="0"\/>/);
+  assert.match(xml, /<failure message="1 critical violation \(max 0\)" type="AccessibilityThreshold">1 critical violation \(max 0\)\n\[critical\] image-alt: img\[alt=&quot;&quot;\]<\/failure>/);
+  assert.match(xml, /<property name="violations\.critical" value="1"\/>/);
+});
+
+test("toJUnitXml reports a scan that couldn't run as an error", () => {
+  const xml = toJUnitXml(outcome({ summary: null, passed: false, error: "net::ERR_NAME_NOT_RESOLVED\u0007" }));
+
+  assert.match(xml, /<testsuites name="AccessScan" tests="1" failures="0" errors="1"/);
+  assert.match(xml, /<testcase classname="accessibility\.axe" name="scan" time="1\.500">\n {6}<error message="net::ERR_NAME_NOT_RESOLVED" type="ScanError">/);
+  assert.doesNotMatch(xml, /violations\./);
+});
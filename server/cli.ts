@@ -0,0 +1,330 @@
+#!/usr/bin/env node
+/**
+ * accessscan: command-line client for failing CI builds on accessibility regressions
+ * Scans a URL in-process with the same scanner the server uses, or queues the scan on an
+ * AccessScan server through the /api/v1 API, then checks the result against thresholds.
+ * Exits 0 when every threshold passes, 1 when one fails and 2 when the scan couldn't run
+ */
+import { writeFile, readFile } from "fs/promises";
+import { parseArgs } from "util";
+import { VIEWPORT_NAMES, type ApiScan, type ResultSummary, type ScanOptions, type ScanResults, type ViewportName } from "@shared/schema";
+import { toAxeJson } from "./services/exports";
+import { evaluateGate, formatGateSummary, toJUnitXml, type GateOutcome, type GateThresholds } from "./services/ci-gate";
+
+const EXIT_PASSED = 0;
+const EXIT_FAILED = 1;
+const EXIT_ERROR = 2;
+
+const POLL_INTERVAL_MS = 3000;
+const DEFAULT_TIMEOUT_SECONDS = 600;
+
+const USAGE = `Usage: accessscan <url> [options]
+
+Scans <url> and exits non-zero when the result breaks a threshold.
+
+Scan:
+  --type <axe|lighthouse|crawl>  Scan type (default axe; crawl needs --server)
+  --static                       Audit the raw HTML instead of rendering it in a browser (axe only)
+  --viewports <list>             Audit at each of desktop, tablet and mobile, comma-separated
+                                 (default desktop; not with --static or lighthouse)
+  --server <url>                 Run the scan on an AccessScan server instead of locally
+                                 (default $ACCESSSCAN_SERVER)
+  --api-key <key>                API key for --server (default $ACCESSSCAN_API_KEY)
+  --project <id>                 Project to file the scan under on the server
+  --timeout <seconds>            How long to wait for a server scan (default ${DEFAULT_TIMEOUT_SECONDS})
+
+Thresholds:
+  --max-critical <n>             Most critical violations allowed
+  --max-serious <n>              Most serious violations allowed
+  --min-score <n>                Lowest score allowed, 0-100 (the accessibility score for Lighthouse)
+  --baseline <file>              Fail on any violation not in this results file
+
+Output:
+  --junit <file>                 Write the checks as JUnit XML
+  --save-results <file>          Write the results as axe JSON, for use as a later --baseline
+  --verbose                      Show the scanner's log on stderr
+  -h, --help                     Show this help
+
+Exit codes: 0 passed, 1 a threshold failed, 2 the scan couldn't run.`;
+
+// Errors that mean the scan couldn't run or the command line is wrong, rather than a failed gate
+class UsageError extends Error {}
+
+interface CliOptions {
+  url: string;
+  scanType: "axe" | "lighthouse" | "crawl";
+  renderMode?: "static";
+  viewports?: ViewportName[];
+  server?: string;
+  apiKey?: string;
+  projectId?: number;
+  timeoutMs: number;
+  thresholds: GateThresholds;
+  junitPath?: string;
+  resultsPath?: string;
+  verbose: boolean;
+}
+
+interface ScanOutcome {
+  // Null when the scan couldn't run at all
+  summary: ResultSummary | null;
+  results: ScanResults | null;
+  // The scan finished but couldn't reach or audit the page, so its counts are meaningless
+  error?: string;
+}
+
+function parseCount(name: string, value: string | undefined, max = Infinity) {
+  if (value === undefined) return undefined;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0 || count > max) {
+    throw new UsageError(`--${name} must be a whole number from 0${max === Infinity ? "" : ` to ${max}`}`);
+  }
+  return count;
+}
+
+function parseViewports(value: string | undefined): ViewportName[] | undefined {
+  if (value === undefined) return undefined;
+  const viewports = value.split(",").map(name => name.trim()).filter(Boolean);
+  const unknown = viewports.filter(name => !(VIEWPORT_NAMES as readonly string[]).includes(name));
+  if (viewports.length === 0 || unknown.length > 0) {
+    throw new UsageError(`--viewports takes a comma-separated list of ${VIEWPORT_NAMES.join(", ")}`);
+  }
+  return Array.from(new Set(viewports)) as ViewportName[];
+}
+
+async function readBaseline(file: string): Promise<ScanResults> {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(await readFile(file, "utf8"));
+  } catch (error) {
+    throw new UsageError(`Couldn't read baseline ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || !Array.isArray(parsed.violations)) {
+    throw new UsageError(`Baseline ${file} isn't axe JSON results; create one with --save-results`);
+  }
+  return { ...parsed, url: parsed.url ?? "", passes: parsed.passes ?? [], incomplete: parsed.incomplete ?? [] };
+}
+
+async function parseOptions(argv: string[]): Promise<CliOptions | null> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      type: { type: "string", default: "axe" },
+      static: { type: "boolean", default: false },
+      viewports: { type: "string" },
+      server: { type: "string" },
+      "api-key": { type: "string" },
+      project: { type: "string" },
+      timeout: { type: "string" },
+      "max-critical": { type: "string" },
+      "max-serious": { type: "string" },
+      "min-score": { type: "string" },
+      baseline: { type: "string" },
+      junit: { type: "string" },
+      "save-results": { type: "string" },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    return null;
+  }
+  if (positionals.length !== 1) {
+    throw new UsageError("Pass exactly one URL to scan");
+  }
+
+  const scanType = values.type;
+  if (scanType !== "axe" && scanType !== "lighthouse" && scanType !== "crawl") {
+    throw new UsageError("--type must be axe, lighthouse or crawl");
+  }
+
+  const server = values.server ?? process.env.ACCESSSCAN_SERVER;
+  const apiKey = values["api-key"] ?? process.env.ACCESSSCAN_API_KEY;
+  if (server && !apiKey) {
+    throw new UsageError("--server needs an API key; pass --api-key or set ACCESSSCAN_API_KEY");
+  }
+  if (!server && scanType === "crawl") {
+    throw new UsageError("Crawls run on a server; pass --server");
+  }
+  if (values.project && !server) {
+    throw new UsageError("--project only applies to scans run with --server");
+  }
+  if (values.viewports && (values.static || scanType === "lighthouse")) {
+    throw new UsageError("--viewports needs a browser scan; leave out --static and --type lighthouse");
+  }
+  if (values.baseline && scanType === "lighthouse") {
+    throw new UsageError("--baseline compares per-element results, which Lighthouse scans don't have");
+  }
+  if (values["save-results"] && scanType === "lighthouse") {
+    throw new UsageError("--save-results writes per-element results, which Lighthouse scans don't have");
+  }
+
+  return {
+    url: positionals[0],
+    scanType,
+    renderMode: values.static ? "static" : undefined,
+    viewports: parseViewports(values.viewports),
+    server: server?.replace(/\/+$/, ""),
+    apiKey,
+    projectId: values.project ? parseCount("project", values.project) : undefined,
+    timeoutMs: (parseCount("timeout", values.timeout) ?? DEFAULT_TIMEOUT_SECONDS) * 1000,
+    thresholds: {
+      maxCritical: parseCount("max-critical", values["max-critical"]),
+      maxSerious: parseCount("max-serious", values["max-serious"]),
+      minScore: parseCount("min-score", values["min-score"], 100),
+      baseline: values.baseline ? await readBaseline(values.baseline) : undefined,
+    },
+    junitPath: values.junit,
+    resultsPath: values["save-results"],
+    verbose: values.verbose === true,
+  };
+}
+
+function scanOptions(options: CliOptions): ScanOptions {
+  return { renderMode: options.renderMode, viewports: options.viewports };
+}
+
+// The scanners bring in the browser, canvas and PDF libraries, so they are only loaded for local scans
+async function scanLocally(options: CliOptions): Promise<ScanOutcome> {
+  if (options.scanType === "lighthouse") {
+    const { runLighthouseScan, summarizeLighthouseResult } = await import("./services/lighthouse-cli");
+    const result = await runLighthouseScan(options.url);
+    return {
+      summary: summarizeLighthouseResult(result),
+      results: null,
+      error: result.error ? `Lighthouse scan failed: ${result.error}` : undefined,
+    };
+  }
+
+  const { scanWebsite, summarizeScanResult } = await import("./services/scanner");
+  const result = await scanWebsite(options.url, scanOptions(options));
+  // The scanner falls back to the static scan when the browser won't start, which would pass the gate
+  // on a page it never rendered, without the requested viewports or keyboard audit
+  const fellBack = options.renderMode !== "static" && result.renderMode === "static";
+  return {
+    summary: summarizeScanResult(result),
+    results: { ...result, url: result.url ?? options.url },
+    error: result.error ?? (fellBack ? "The browser couldn't be started, so the page wasn't rendered; pass --static to accept a static HTML scan" : undefined),
+  };
+}
+
+// Calls the server's /api/v1 API, turning its JSON errors into exceptions
+async function callApi<T>(options: CliOptions, path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${options.server}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${options.apiKey}`,
+      Accept: "application/json",
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+    },
+  });
+
+  const text = await response.text();
+  if (!response.ok) {
+    let message = text;
+    try {
+      const body = JSON.parse(text);
+      message = Array.isArray(body) ? body.map(issue => issue.message).join("; ") : body.error ?? text;
+    } catch {
+      // Not JSON, e.g. a proxy's error page; report it as is
+    }
+    throw new Error(`${init.method ?? "GET"} ${path} failed with ${response.status}: ${message}`);
+  }
+  return JSON.parse(text) as T;
+}
+
+async function scanOnServer(options: CliOptions): Promise<ScanOutcome> {
+  let scan = await callApi<ApiScan>(options, "/api/v1/scans", {
+    method: "POST",
+    body: JSON.stringify({
+      type: options.scanType,
+      url: options.url,
+      projectId: options.projectId,
+      options: options.renderMode || options.viewports ? scanOptions(options) : undefined,
+    }),
+  });
+  console.error(`Queued scan ${scan.id} on ${options.server}`);
+
+  const deadline = Date.now() + options.timeoutMs;
+  while (scan.status === "pending" || scan.status === "running") {
+    if (Date.now() > deadline) {
+      throw new Error(`Scan ${scan.id} didn't finish within ${options.timeoutMs / 1000} seconds`);
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    scan = await callApi<ApiScan>(options, scan.links.self);
+  }
+
+  if (scan.status !== "completed") {
+    throw new Error(`Scan ${scan.id} ${scan.status}${scan.progress.message ? `: ${scan.progress.message}` : ""}`);
+  }
+  if (!scan.summary) {
+    throw new Error(`Scan ${scan.id} finished without a result summary`);
+  }
+
+  const results = scan.links.results ? await callApi<ScanResults>(options, scan.links.results) : null;
+  return { summary: scan.summary, results, error: scan.error ?? results?.error };
+}
+
+async function main(argv: string[]) {
+  const options = await parseOptions(argv);
+  if (!options) {
+    console.log(USAGE);
+    return EXIT_PASSED;
+  }
+
+  // The scanner narrates every step on stdout; keep stdout for the summary unless asked
+  const log = console.log;
+  console.log = options.verbose ? console.error : () => {};
+
+  const startedAt = Date.now();
+  let scanned: ScanOutcome;
+  try {
+    scanned = options.server ? await scanOnServer(options) : await scanLocally(options);
+  } catch (error) {
+    scanned = { summary: null, results: null, error: error instanceof Error ? error.message : String(error) };
+  }
+  const { summary, results, error } = scanned;
+  // A scan that couldn't reach the page finds nothing, which must not pass as a clean result
+  const checks = summary && !error ? evaluateGate(summary, results, options.thresholds) : [];
+  const outcome: GateOutcome = {
+    url: options.url,
+    scanType: options.scanType,
+    summary,
+    results,
+    checks,
+    passed: !error && checks.every(check => check.passed),
+    error,
+    durationMs: Date.now() - startedAt,
+  };
+
+  console.log = log;
+  console.log(formatGateSummary(outcome));
+
+  if (options.junitPath) {
+    await writeFile(options.junitPath, toJUnitXml(outcome));
+  }
+  if (outcome.error) {
+    return EXIT_ERROR;
+  }
+  if (options.resultsPath && results) {
+    await writeFile(options.resultsPath, JSON.stringify(toAxeJson(results), null, 2));
+  }
+
+  return outcome.passed ? EXIT_PASSED : EXIT_FAILED;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    if (error instanceof UsageError || (error as NodeJS.ErrnoException).code?.startsWith("ERR_PARSE_ARGS")) {
+      console.error(`${error.message}\n\n${USAGE}`);
+    } else {
+      console.error(`accessscan: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    process.exitCode = EXIT_ERROR;
+  }
+);
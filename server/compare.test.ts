@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AxeNodeResult, AxeRuleResult, ScanResults } from "@shared/schema";
+import { compareResults } from "./services/compare";
+
+function rule(id: string, impact: string, nodes: Partial<AxeNodeResult>[]): AxeRuleResult {
+  return {
+    id,
+    impact,
+    description: null,
+    help: null,
+    helpUrl: null,
+    tags: [],
+    nodes: nodes.map(node => ({ target: [], html: null, impact, failureSummary: null, ...node })),
+  };
+}
+
+const results = (violations: AxeRuleResult[], url = "https://example.com/"): ScanResults =>
+  ({ url, violations, passes: [], incomplete: [] });
+
+const changes = (comparison: ReturnType<typeof compareResults>) =>
+  comparison.issues.map(issue => `${issue.change} ${issue.ruleId} ${issue.selector}`);
+
+test("issues are new, fixed or persisting by rule, page and selector", () => {
+  const base = results([
+    rule("image-alt", "critical", [{ target: ["#logo"] }, { target: ["#hero"] }]),
+    rule("color-contrast", "serious", [{ target: ["footer > a"] }]),
+  ]);
+  const current = results([
+    rule("image-alt", "critical", [{ target: ["#logo"], html: "<img id=\"logo\" class=\"new\">" }]),
+    // Spacing around combinators doesn't make a different element
+    rule("color-contrast", "serious", [{ target: ["footer>a"] }]),
+    rule("label", "critical", [{ target: ["#email"] }]),
+  ]);
+
+  const comparison = compareResults(base, current);
+  assert.deepEqual(changes(comparison), [
+    "new label #email",
+    "fixed image-alt #hero",
+    "persisting image-alt #logo",
+    "persisting color-contrast footer>a",
+  ]);
+  assert.deepEqual(comparison.counts.new, { critical: 1, serious: 0, moderate: 0, minor: 0, total: 1 });
+  assert.deepEqual(comparison.counts.fixed, { critical: 1, serious: 0, moderate: 0, minor: 0, total: 1 });
+  assert.deepEqual(comparison.counts.persisting, { critical: 1, serious: 1, moderate: 0, minor: 0, total: 2 });
+  // Persisting issues are described as they are now
+  assert.equal(comparison.issues.find(issue => issue.ruleId === "image-alt" && issue.change === "persisting")?.html, "<img id=\"logo\" class=\"new\">");
+});
+
+test("an element reported more than once is matched as many times as it appears", () => {
+  const twice = rule("duplicate-id", "minor", [{ target: ["#nav"] }, { target: ["#nav"] }]);
+  const once = rule("duplicate-id", "minor", [{ target: ["#nav"] }]);
+  const thrice = rule("duplicate-id", "minor", [{ target: ["#nav"] }, { target: ["#nav"] }, { target: ["#nav"] }]);
+
+  assert.deepEqual(changes(compareResults(results([twice]), results([once]))), [
+    "fixed duplicate-id #nav",
+    "persisting duplicate-id #nav",
+  ]);
+  assert.deepEqual(changes(compareResults(results([twice]), results([thrice]))), [
+    "new duplicate-id #nav",
+    "persisting duplicate-id #nav",
+    "persisting duplicate-id #nav",
+  ]);
+});
+
+test("the same selector on another page is a different issue", () => {
+  const base = results([rule("image-alt", "critical", [{ target: ["#logo"], pageUrl: "https://example.com/about#team" }])]);
+  const current = results([rule("image-alt", "critical", [
+    { target: ["#logo"], pageUrl: "https://example.com/about/" },
+    { target: ["#logo"], pageUrl: "https://example.com/contact" },
+  ])]);
+
+  const comparison = compareResults(base, current);
+  assert.equal(comparison.counts.persisting.total, 1);
+  assert.deepEqual(comparison.issues.filter(issue => issue.change === "new").map(issue => issue.pageUrl), ["https://example.com/contact"]);
+  assert.equal(comparison.counts.fixed.total, 0);
+});
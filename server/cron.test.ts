@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { nextCronRun, validateCron } from "@shared/cron";
+
+// 1 January 2026 was a Thursday
+const at = (iso: string) => new Date(`${iso}Z`);
+const next = (expression: string, after: string) => nextCronRun(expression, at(after))?.toISOString();
+
+test("steps count from the start of the field or from the given value", () => {
+  assert.equal(next("*/15 * * * *", "2026-01-01T00:07:30"), "2026-01-01T00:15:00.000Z");
+  assert.equal(next("*/15 * * * *", "2026-01-01T00:45:00"), "2026-01-01T01:00:00.000Z");
+  assert.equal(next("5/20 * * * *", "2026-01-01T00:26:00"), "2026-01-01T00:45:00.000Z");
+  assert.equal(next("0 0-12/6 * * *", "2026-01-01T06:00:00"), "2026-01-01T12:00:00.000Z");
+  assert.equal(next("0 0-12/6 * * *", "2026-01-01T12:00:00"), "2026-01-02T00:00:00.000Z");
+});
+
+test("ranges and lists, with month and weekday names", () => {
+  // Friday evening to Monday morning
+  assert.equal(next("0 9-17 * * mon-fri", "2026-01-02T17:30:00"), "2026-01-05T09:00:00.000Z");
+  assert.equal(next("30 8,20 * * *", "2026-01-01T08:30:00"), "2026-01-01T20:30:00.000Z");
+  assert.equal(next("0 0 1 jul,DEC *", "2026-01-01T00:00:00"), "2026-07-01T00:00:00.000Z");
+  assert.equal(next("0 0 1 jul,DEC *", "2026-07-01T00:00:00"), "2026-12-01T00:00:00.000Z");
+});
+
+test("7 is Sunday, like 0 and sun", () => {
+  const sunday = "2026-01-04T12:00:00.000Z";
+  assert.equal(next("0 12 * * 0", "2026-01-01T00:00:00"), sunday);
+  assert.equal(next("0 12 * * 7", "2026-01-01T00:00:00"), sunday);
+  assert.equal(next("0 12 * * sun", "2026-01-01T00:00:00"), sunday);
+  assert.equal(next("0 12 * * 5-7", "2026-01-03T12:00:00"), sunday);
+});
+
+test("when both day fields are restricted, either one matching is enough", () => {
+  // The 13th of the month or any Friday: Friday the 2nd, Friday the 9th, then Tuesday the 13th
+  assert.equal(next("0 0 13 * fri", "2026-01-01T00:00:00"), "2026-01-02T00:00:00.000Z");
+  assert.equal(next("0 0 13 * fri", "2026-01-02T00:00:00"), "2026-01-09T00:00:00.000Z");
+  assert.equal(next("0 0 13 * fri", "2026-01-09T00:00:00"), "2026-01-13T00:00:00.000Z");
+
+  // A "*" day field doesn't match every day by itself
+  assert.equal(next("0 0 13 * *", "2026-01-02T00:00:00"), "2026-01-13T00:00:00.000Z");
+  assert.equal(next("0 0 * * fri", "2026-01-09T00:00:00"), "2026-01-16T00:00:00.000Z");
+});
+
+test("expressions that are malformed or never match are rejected", () => {
+  assert.equal(nextCronRun("0 0 31 2 *", at("2026-01-01T00:00:00")), null);
+  assert.equal(validateCron("0 0 31 2 *"), "The expression never matches a date");
+  // 29 February is rare but does come round
+  assert.equal(next("0 0 29 2 *", "2026-01-01T00:00:00"), "2028-02-29T00:00:00.000Z");
+
+  assert.equal(validateCron("0 0 * *"), "A cron expression needs five fields: minute hour day-of-month month day-of-week");
+  assert.equal(validateCron("60 * * * *"), "minute must be between 0 and 59");
+  assert.equal(validateCron("0 0 * * 8"), "day of week must be between 0 and 7");
+  assert.equal(validateCron("0 0 * * funday"), 'Invalid day of week value "funday"');
+  assert.equal(validateCron("0 17-9 * * *"), 'Invalid hour range "17-9"');
+  assert.equal(validateCron("*/0 * * * *"), 'Invalid step in minute field "*/0"');
+  assert.equal(validateCron("@daily"), null);
+});
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ScanResults } from "@shared/schema";
+import { toCsv, toSarif } from "./services/exports";
+
+const results: ScanResults = {
+  url: "https://example.com/",
+  scanDateTime: "2026-01-01T00:00:00.000Z",
+  violations: [{
+    id: "image-alt",
+    impact: "critical",
+    description: "Ensures <img> elements have alternate text",
+    help: "Images must have alternate text",
+    helpUrl: "https://dequeuniversity.com/rules/axe/4.8/image-alt",
+    tags: ["cat.text-alternatives", "wcag2a", "wcag111"],
+    nodes: [
+      { target: ["main", "img.hero"], html: "<img class=\"hero\" src=\"a, b.png\">", impact: "critical", failureSummary: "Fix any of the following:\n  Element has no alt attribute" },
+      { target: ["#ad"], html: null, impact: "serious", failureSummary: null, pageUrl: "https://example.com/offers" },
+    ],
+  }, {
+    id: "link-name",
+    impact: "serious",
+    description: null,
+    help: null,
+    helpUrl: null,
+    tags: [],
+    nodes: [{ target: ["a"], html: "=HYPERLINK(\"https://evil.example\")", impact: null, failureSummary: null }],
+  }],
+  passes: [],
+  incomplete: [],
+};
+
+test("toCsv writes a quoted row per element and defuses formulas", () => {
+  const rows = toCsv(results).split("\r\n");
+  assert.equal(rows[0], "url,rule,impact,wcag,help,help_url,selector,html,failure_summary");
+  assert.equal(
+    rows[1],
+    'https://example.com/,image-alt,critical,wcag2a wcag111,Images must have alternate text,https://dequeuniversity.com/rules/axe/4.8/image-alt,main img.hero,"<img class=""hero"" src=""a, b.png"">","Fix any of the following:\n  Element has no alt attribute"'
+  );
+  assert.equal(rows[2], "https://example.com/offers,image-alt,serious,wcag2a wcag111,Images must have alternate text,https://dequeuniversity.com/rules/axe/4.8/image-alt,#ad,,");
+  // The node has no impact of its own, so the rule's applies
+  assert.equal(rows[3], `https://example.com/,link-name,serious,,,,a,"'=HYPERLINK(""https://evil.example"")",`);
+  assert.equal(rows[4], "");
+});
+
+test("toSarif locates findings by page and selector and keeps the element's HTML in properties", () => {
+  const sarif = toSarif(results);
+  const [run] = sarif.runs;
+  assert.deepEqual(run.tool.driver.rules.map(rule => rule.id), ["image-alt", "link-name"]);
+
+  const [first, second, third] = run.results;
+  assert.equal(first.level, "error");
+  assert.equal(first.ruleIndex, 0);
+  assert.deepEqual(first.locations, [{
+    physicalLocation: { artifactLocation: { uri: "https://example.com/" } },
+    logicalLocations: [{ fullyQualifiedName: "main img.hero", kind: "element" }],
+  }]);
+  assert.deepEqual(first.properties, { html: "<img class=\"hero\" src=\"a, b.png\">" });
+
+  assert.equal(second.locations[0].physicalLocation.artifactLocation.uri, "https://example.com/offers");
+  assert.equal(second.properties, undefined);
+  assert.equal(second.message.text, "Images must have alternate text");
+
+  assert.equal(third.ruleIndex, 1);
+  assert.equal(third.message.text, "link-name");
+  // A region without a line or offset isn't valid SARIF, so none is given
+  assert.ok(run.results.every(result => !("region" in result.locations[0].physicalLocation)));
+  assert.deepEqual(run.invocations, [{ executionSuccessful: true, startTimeUtc: "2026-01-01T00:00:00.000Z" }]);
+});
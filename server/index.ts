@@ -1,8 +1,16 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startJobWorker } from "./job-queue";
+import { scanJobHandlers } from "./scan-jobs";
+import { startScanScheduler } from "./scan-scheduler";
+import { startWebhookDispatcher } from "./webhooks";
+import { MAX_URL_LIST_BYTES } from "@shared/schema";
 
 const app = express();
+// URL lists are uploaded in the JSON body, so these routes take more than the default 100 kB;
+// the general parser below skips bodies that were already read
+app.use(["/api/batch-scans", "/api/v1/scans"], express.json({ limit: MAX_URL_LIST_BYTES + 64 * 1024 }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -76,4 +84,19 @@ app.use((req, res, next) => {
   
   const port = 5000;
   startServer(port);
+
+  // Process queued scans, including any left over from before a restart
+  startJobWorker(scanJobHandlers).catch(err => {
+    console.error('Failed to start scan job worker:', err);
+  });
+
+  // Start scans that are due, including runs missed while the server was down
+  startScanScheduler().catch(err => {
+    console.error('Failed to start scan scheduler:', err);
+  });
+
+  // Send lifecycle webhooks, including retries that were waiting when the server stopped
+  startWebhookDispatcher().catch(err => {
+    console.error('Failed to start webhook dispatcher:', err);
+  });
 })();
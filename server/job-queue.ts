@@ -0,0 +1,226 @@
+/**
+ * Postgres-backed queue for scan work
+ * Jobs survive server restarts, run with limited concurrency,
+ * time out, and are retried with exponential backoff
+ */
+import type { ScanJob } from "@shared/schema";
+import { storage, StaleJobError, type JobLease } from "./storage";
+import { publishScanProgress } from "./scan-events";
+import { queueScanEvent } from "./webhooks";
+
+export type JobType = "axe" | "lighthouse" | "crawl" | "batch" | "flow";
+
+export interface JobContext {
+  job: ScanJob;
+  lease: JobLease;         // Passed to result and status writes, which are dropped once the attempt is superseded
+  signal: AbortSignal;     // Aborted when the job times out or its scan is cancelled
+  isFinalAttempt: boolean; // Handlers can fall back to partial output instead of failing
+}
+
+// "skipped" when there was nothing to do because the scan was deleted or cancelled before the job started
+export type JobOutcome = "completed" | "skipped";
+
+export type JobHandler = (context: JobContext) => Promise<JobOutcome>;
+
+interface JobTypeSettings {
+  maxAttempts: number;
+  timeoutMs: number;
+}
+
+// Crawls and batches create page scans as they go, so they are never re-run
+// to avoid duplicating pages; failures of individual pages are recorded per page instead
+const JOB_TYPE_SETTINGS: Record<JobType, JobTypeSettings> = {
+  axe: { maxAttempts: 3, timeoutMs: 5 * 60 * 1000 },
+  lighthouse: { maxAttempts: 3, timeoutMs: 5 * 60 * 1000 },
+  crawl: { maxAttempts: 1, timeoutMs: 60 * 60 * 1000 },
+  batch: { maxAttempts: 1, timeoutMs: 2 * 60 * 60 * 1000 },
+  flow: { maxAttempts: 2, timeoutMs: 15 * 60 * 1000 },
+};
+
+// How many jobs this process runs at once; each may launch a browser
+const CONCURRENCY = Number(process.env.SCAN_WORKER_CONCURRENCY) || 2;
+const POLL_INTERVAL = Number(process.env.SCAN_WORKER_POLL_INTERVAL_MS) || 2000;
+// Delay before the first retry, doubled for every further attempt
+const RETRY_BASE_DELAY = Number(process.env.SCAN_JOB_RETRY_DELAY_MS) || 30 * 1000;
+// How long an aborted handler gets to wind down before the job is retried or failed regardless
+const ABORT_GRACE_PERIOD = 60 * 1000;
+
+// Set once the worker is running so new jobs start without waiting for the next poll
+let wakeWorker: (() => void) | null = null;
+
+// Abort controllers of jobs running in this process, keyed by scan id
+const runningJobs = new Map<number, AbortController>();
+
+// Abort reason used when a user cancels a scan, so it isn't treated as a failure
+class JobCancelledError extends Error {
+  constructor() {
+    super("Scan was cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+export async function enqueueJob(type: JobType, scanId: number, payload?: unknown): Promise<ScanJob> {
+  const job = await storage.enqueueJob(scanId, type, JOB_TYPE_SETTINGS[type].maxAttempts, payload);
+  publishScanProgress({ scanId, phase: "queued", message: "Waiting for a scan worker" });
+  wakeWorker?.();
+  return job;
+}
+
+/**
+ * Cancels a scan and its page scans, dropping queued work and
+ * aborting the job if it is running, which closes its browser or Lighthouse process
+ */
+export async function cancelScanJob(scanId: number) {
+  await storage.cancelScan(scanId);
+  runningJobs.get(scanId)?.abort(new JobCancelledError());
+  publishScanProgress({ scanId, phase: "cancelled" });
+}
+
+// Queues the job again with backoff, or fails it and its scan once attempts run out
+async function retryOrFail(job: ScanJob, error: string) {
+  if (job.attempts < job.maxAttempts) {
+    const delay = RETRY_BASE_DELAY * 2 ** Math.max(job.attempts - 1, 0);
+    console.log(`Job ${job.id} (${job.type}) will retry in ${delay}ms: ${error}`);
+    await storage.retryJob(job.id, error, new Date(Date.now() + delay));
+    await storage.updateScanStatus(job.scanId, "pending");
+    publishScanProgress({ scanId: job.scanId, phase: "queued", message: `Retrying after error: ${error}` });
+  } else {
+    console.error(`Job ${job.id} (${job.type}) failed after ${job.attempts} attempts: ${error}`);
+    await storage.failJob(job.id, error);
+    await storage.updateScanStatus(job.scanId, "failed");
+    publishScanProgress({ scanId: job.scanId, phase: "failed", message: error });
+    queueScanEvent("scan.failed", job.scanId);
+  }
+}
+
+// Whether the promise settles, either way, before the time runs out
+function settlesWithin(promise: Promise<unknown>, ms: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<false>(resolve => {
+    timer = setTimeout(() => resolve(false), ms);
+  });
+  return Promise.race([promise.then(() => true, () => true), timeout]).finally(() => clearTimeout(timer));
+}
+
+async function runJob(job: ScanJob, handlers: Record<JobType, JobHandler>) {
+  const handler = handlers[job.type as JobType];
+  const settings = JOB_TYPE_SETTINGS[job.type as JobType];
+
+  if (!handler || !settings) {
+    await storage.failJob(job.id, `Unknown job type: ${job.type}`);
+    await storage.updateScanStatus(job.scanId, "failed");
+    publishScanProgress({ scanId: job.scanId, phase: "failed", message: `Unknown job type: ${job.type}` });
+    queueScanEvent("scan.failed", job.scanId);
+    return;
+  }
+
+  const lease: JobLease = { jobId: job.id, attempt: job.attempts };
+  const controller = new AbortController();
+  const timer = setTimeout(() => {
+    controller.abort(new Error(`Job timed out after ${settings.timeoutMs}ms`));
+  }, settings.timeoutMs);
+  // Stops waiting as soon as the job is aborted, even if the handler takes a while to wind down
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+  });
+  runningJobs.set(job.scanId, controller);
+  let running: Promise<JobOutcome> | undefined;
+
+  try {
+    console.log(`Starting job ${job.id} (${job.type}) for scan ID ${job.scanId}, attempt ${job.attempts}/${job.maxAttempts}`);
+    await storage.updateScanStatus(job.scanId, "running", undefined, undefined, lease);
+
+    running = handler({ job, lease, signal: controller.signal, isFinalAttempt: job.attempts >= job.maxAttempts });
+    const outcome = await Promise.race([running, aborted]);
+
+    if (outcome === "skipped") {
+      await storage.cancelJob(job.id);
+      console.log(`Job ${job.id} (${job.type}) skipped`);
+    } else {
+      await storage.completeJob(job.id);
+      publishScanProgress({ scanId: job.scanId, phase: "done" });
+      queueScanEvent("scan.completed", job.scanId);
+      console.log(`Job ${job.id} (${job.type}) completed`);
+    }
+  } catch (error) {
+    // The next attempt must not overlap this one; a handler that outlasts the grace period can no longer
+    // write once the job is requeued, as its lease is then stale
+    if (running && controller.signal.aborted && !(await settlesWithin(running, ABORT_GRACE_PERIOD))) {
+      console.error(`Job ${job.id} (${job.type}) is still winding down, its remaining writes will be dropped`);
+    }
+
+    if (error instanceof StaleJobError) {
+      console.log(`Job ${job.id} (${job.type}) attempt ${lease.attempt} was superseded`);
+    } else if (controller.signal.reason instanceof JobCancelledError) {
+      await storage.cancelJob(job.id);
+      console.log(`Job ${job.id} (${job.type}) cancelled`);
+    } else {
+      await retryOrFail(job, error instanceof Error ? error.message : String(error));
+    }
+  } finally {
+    clearTimeout(timer);
+    runningJobs.delete(job.scanId);
+  }
+}
+
+/**
+ * Jobs still marked running at startup were interrupted by a restart.
+ * This assumes one worker process per database, so no other worker can own them.
+ */
+async function recoverInterruptedJobs() {
+  const jobs = await storage.getRunningJobs();
+  if (jobs.length > 0) {
+    console.log(`Recovering ${jobs.length} jobs interrupted by a restart`);
+  }
+
+  for (const job of jobs) {
+    await retryOrFail(job, "Interrupted by server restart");
+  }
+}
+
+export async function startJobWorker(handlers: Record<JobType, JobHandler>) {
+  await recoverInterruptedJobs();
+
+  let active = 0;
+  let polling = false;
+  let pollAgain = false;
+
+  const poll = async () => {
+    // A wake-up during a poll is remembered so jobs queued meanwhile aren't left for the next interval
+    if (polling) {
+      pollAgain = true;
+      return;
+    }
+    polling = true;
+
+    try {
+      while (active < CONCURRENCY) {
+        const job = await storage.claimNextJob();
+        if (!job) break;
+
+        active++;
+        runJob(job, handlers)
+          .catch(error => console.error(`Unhandled error in job ${job.id}:`, error))
+          .finally(() => {
+            active--;
+            poll();
+          });
+      }
+    } catch (error) {
+      console.error("Error polling scan job queue:", error);
+    } finally {
+      polling = false;
+    }
+
+    if (pollAgain) {
+      pollAgain = false;
+      void poll();
+    }
+  };
+
+  wakeWorker = poll;
+  setInterval(poll, POLL_INTERVAL);
+  poll();
+
+  console.log(`Scan job worker started with concurrency ${CONCURRENCY}`);
+}
@@ -0,0 +1,141 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import net from "net";
+import type { AddressInfo } from "net";
+import { sendMail } from "./services/mailer";
+
+interface SmtpStub {
+  port: number;
+  commands: string[];
+  messages: string[];
+  close: () => Promise<void>;
+}
+
+// A plain-text SMTP server that accepts everything except recipients at reject.example
+async function startSmtpStub(): Promise<SmtpStub> {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = "";
+    let data: string[] | null = null;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    socket.on("data", chunk => {
+      buffer += chunk.toString("utf8");
+      let newline: number;
+      while ((newline = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        if (data) {
+          if (line === ".") {
+            messages.push(data.join("\r\n"));
+            data = null;
+            reply("250 Queued");
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") {
+          reply("250-stub.example");
+          reply("250 AUTH PLAIN");
+        } else if (verb === "RCPT") {
+          reply(line.includes("@reject.example") ? "550 No such user" : "250 OK");
+        } else if (verb === "DATA") {
+          data = [];
+          reply("354 End data with <CR><LF>.<CR><LF>");
+        } else if (verb === "AUTH") {
+          reply("235 Authenticated");
+        } else if (verb === "QUIT") {
+          reply("221 Bye");
+          socket.end();
+        } else {
+          reply("250 OK");
+        }
+      }
+    });
+    socket.on("error", () => {});
+    reply("220 stub.example ESMTP");
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    messages,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+const smtpConfig = (port: number, overrides = {}) => ({
+  host: "127.0.0.1",
+  port,
+  secure: false,
+  requireTls: true,
+  from: "AccessScan <alerts@example.com>",
+  ...overrides,
+});
+
+test("sendMail delivers a message through the SMTP dialogue", async (t) => {
+  const stub = await startSmtpStub();
+  t.after(stub.close);
+
+  await sendMail({
+    to: ["team@example.com", "Client <client@example.com>"],
+    subject: "Violations rose",
+    text: "Violations on https://example.com rose by 3",
+    html: "<p>Violations rose</p>",
+  }, smtpConfig(stub.port));
+
+  assert.deepEqual(stub.commands.map(command => command.split(" ")[0]), ["EHLO", "MAIL", "RCPT", "RCPT", "DATA", "QUIT"]);
+  assert.equal(stub.commands[1], "MAIL FROM:<alerts@example.com>");
+  assert.deepEqual(stub.commands.slice(2, 4), ["RCPT TO:<team@example.com>", "RCPT TO:<client@example.com>"]);
+
+  assert.equal(stub.messages.length, 1);
+  const [message] = stub.messages;
+  assert.match(message, /^From: AccessScan <alerts@example\.com>$/m);
+  assert.match(message, /^Subject: Violations rose$/m);
+  assert.match(message, /^Content-Type: multipart\/alternative; boundary=/m);
+  // Each part's base64 body follows its headers and a blank line
+  const bodies = message.split(/\r\n\r\n/).slice(1).map(part => part.split("\r\n--")[0]);
+  const decoded = bodies.map(body => Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8"));
+  assert.ok(decoded.includes("Violations on https://example.com rose by 3"));
+  assert.ok(decoded.includes("<p>Violations rose</p>"));
+});
+
+test("sendMail fails when the server rejects a recipient", async (t) => {
+  const stub = await startSmtpStub();
+  t.after(stub.close);
+
+  await assert.rejects(
+    sendMail({ to: ["team@example.com", "nobody@reject.example"], subject: "Test", text: "Test" }, smtpConfig(stub.port)),
+    /SMTP RCPT TO failed: 550 No such user/
+  );
+  assert.ok(!stub.commands.includes("DATA"));
+  assert.equal(stub.messages.length, 0);
+});
+
+test("sendMail won't send a password over a connection without TLS", async (t) => {
+  const stub = await startSmtpStub();
+  t.after(stub.close);
+
+  await assert.rejects(
+    sendMail({ to: ["team@example.com"], subject: "Test", text: "Test" }, smtpConfig(stub.port, { user: "alerts", password: "secret" })),
+    /doesn't offer TLS/
+  );
+  assert.ok(!stub.commands.some(command => command.startsWith("AUTH")));
+
+  // SMTP_REQUIRE_TLS=false, for a local server like this one
+  await sendMail(
+    { to: ["team@example.com"], subject: "Test", text: "Test" },
+    smtpConfig(stub.port, { user: "alerts", password: "secret", requireTls: false })
+  );
+  const credentials = Buffer.from("\0alerts\0secret").toString("base64");
+  assert.ok(stub.commands.includes(`AUTH PLAIN ${credentials}`));
+  assert.equal(stub.messages.length, 1);
+});
@@ -1,19 +1,30 @@
 import { pool, db } from './db';
 import { sql } from 'drizzle-orm';
 
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await db.execute(sql`
+    SELECT column_name
+    FROM information_schema.columns
+    WHERE table_name = ${table} AND column_name = ${column}
+  `);
+  return result.rows.length > 0;
+}
+
+async function tableExists(table: string): Promise<boolean> {
+  const result = await db.execute(sql`
+    SELECT table_name
+    FROM information_schema.tables
+    WHERE table_name = ${table}
+  `);
+  return result.rows.length > 0;
+}
+
 async function migrate() {
   console.log('Starting database migration...');
-  
+
   try {
-    // Check if screenshot column exists in scans table
-    const checkScreenshotQuery = await db.execute(sql`
-      SELECT column_name 
-      FROM information_schema.columns 
-      WHERE table_name = 'scans' AND column_name = 'screenshot'
-    `);
-    
     // If screenshot column doesn't exist, add it
-    if (checkScreenshotQuery.length === 0) {
+    if (!(await columnExists('scans', 'screenshot'))) {
       console.log('Adding screenshot column to scans table...');
       await db.execute(sql`
         ALTER TABLE scans
@@ -23,16 +34,389 @@ async function migrate() {
     } else {
       console.log('Screenshot column already exists');
     }
-    
-    // Check if report_settings table exists
-    const checkReportSettingsQuery = await db.execute(sql`
-      SELECT table_name 
-      FROM information_schema.tables 
-      WHERE table_name = 'report_settings'
-    `);
-    
+
+    // If options column doesn't exist, add it
+    if (!(await columnExists('scans', 'options'))) {
+      console.log('Adding options column to scans table...');
+      await db.execute(sql`
+        ALTER TABLE scans
+        ADD COLUMN options JSONB
+      `);
+      console.log('Options column added successfully');
+    } else {
+      console.log('Options column already exists');
+    }
+
+    // Site crawls and batches are stored as a parent scan with one child scan per page
+    if (!(await columnExists('scans', 'scan_type'))) {
+      console.log('Adding scan_type and parent_id columns to scans table...');
+      await db.execute(sql`
+        ALTER TABLE scans
+        ADD COLUMN scan_type TEXT NOT NULL DEFAULT 'axe',
+        ADD COLUMN parent_id INTEGER REFERENCES scans(id)
+      `);
+      console.log('Scan hierarchy columns added successfully');
+    } else {
+      console.log('Scan hierarchy columns already exist');
+    }
+
+    // If result_meta column doesn't exist, add it
+    if (!(await columnExists('scans', 'result_meta'))) {
+      console.log('Adding result_meta column to scans table...');
+      await db.execute(sql`
+        ALTER TABLE scans
+        ADD COLUMN result_meta JSONB
+      `);
+      console.log('Result meta column added successfully');
+    } else {
+      console.log('Result meta column already exists');
+    }
+
+    // Projects group scans of one client site
+    if (!(await tableExists('projects'))) {
+      console.log('Creating projects table...');
+      await db.execute(sql`
+        CREATE TABLE projects (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          name TEXT NOT NULL,
+          base_url TEXT NOT NULL,
+          default_options JSONB,
+          branding JSONB,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      console.log('Projects table created successfully');
+    } else {
+      console.log('Projects table already exists');
+    }
+
+    // If project_id column doesn't exist, add it
+    if (!(await columnExists('scans', 'project_id'))) {
+      console.log('Adding project_id column to scans table...');
+      await db.execute(sql`
+        ALTER TABLE scans
+        ADD COLUMN project_id INTEGER REFERENCES projects(id)
+      `);
+      await db.execute(sql`CREATE INDEX scans_project_id_idx ON scans (project_id)`);
+      console.log('Project ID column added successfully');
+    } else {
+      console.log('Project ID column already exists');
+    }
+
+    // If html_report_url column doesn't exist, add it
+    if (!(await columnExists('scans', 'html_report_url'))) {
+      console.log('Adding html_report_url column to scans table...');
+      await db.execute(sql`
+        ALTER TABLE scans
+        ADD COLUMN html_report_url TEXT
+      `);
+      console.log('HTML report URL column added successfully');
+    } else {
+      console.log('HTML report URL column already exists');
+    }
+
+    // Structured axe results: one row per rule outcome and one per affected element
+    if (!(await tableExists('scan_rule_results'))) {
+      console.log('Creating scan_rule_results and scan_result_nodes tables...');
+      await db.execute(sql`
+        CREATE TABLE scan_rule_results (
+          id SERIAL PRIMARY KEY,
+          scan_id INTEGER NOT NULL REFERENCES scans(id),
+          rule_id TEXT NOT NULL,
+          outcome TEXT NOT NULL,
+          impact TEXT,
+          description TEXT,
+          help TEXT,
+          help_url TEXT,
+          tags JSONB NOT NULL
+        )
+      `);
+      await db.execute(sql`
+        CREATE TABLE scan_result_nodes (
+          id SERIAL PRIMARY KEY,
+          scan_id INTEGER NOT NULL REFERENCES scans(id),
+          rule_result_id INTEGER NOT NULL REFERENCES scan_rule_results(id),
+          selector TEXT NOT NULL,
+          target JSONB NOT NULL,
+          html TEXT,
+          impact TEXT,
+          failure_summary TEXT,
+          page_url TEXT,
+          checks JSONB
+        )
+      `);
+      await db.execute(sql`CREATE INDEX scan_rule_results_scan_id_idx ON scan_rule_results (scan_id)`);
+      await db.execute(sql`CREATE INDEX scan_result_nodes_scan_id_idx ON scan_result_nodes (scan_id)`);
+      console.log('Scan result tables created successfully');
+    } else {
+      console.log('Scan result tables already exist');
+    }
+
+    // Durable queue for scan work, polled by the job worker
+    if (!(await tableExists('scan_jobs'))) {
+      console.log('Creating scan_jobs table...');
+      await db.execute(sql`
+        CREATE TABLE scan_jobs (
+          id SERIAL PRIMARY KEY,
+          scan_id INTEGER NOT NULL REFERENCES scans(id),
+          type TEXT NOT NULL,
+          payload JSONB,
+          status TEXT NOT NULL DEFAULT 'queued',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL,
+          run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          locked_at TIMESTAMP,
+          last_error TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await db.execute(sql`CREATE INDEX scan_jobs_status_run_at_idx ON scan_jobs (status, run_at)`);
+      console.log('Scan jobs table created successfully');
+    } else {
+      console.log('Scan jobs table already exists');
+    }
+
+    // Share links for reports; the link itself is signed, the row allows revoking it
+    if (!(await tableExists('report_shares'))) {
+      console.log('Creating report_shares table...');
+      await db.execute(sql`
+        CREATE TABLE report_shares (
+          id SERIAL PRIMARY KEY,
+          scan_id INTEGER NOT NULL REFERENCES scans(id),
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          expires_at TIMESTAMP NOT NULL,
+          revoked_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await db.execute(sql`CREATE INDEX report_shares_scan_id_idx ON report_shares (scan_id)`);
+      console.log('Report shares table created successfully');
+    } else {
+      console.log('Report shares table already exists');
+    }
+
+    // Auditor edits to a scan's conformance report, one row per scan
+    if (!(await tableExists('conformance_reports'))) {
+      console.log('Creating conformance_reports table...');
+      await db.execute(sql`
+        CREATE TABLE conformance_reports (
+          id SERIAL PRIMARY KEY,
+          scan_id INTEGER NOT NULL UNIQUE REFERENCES scans(id),
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          wcag_version TEXT NOT NULL DEFAULT '2.1',
+          product_name TEXT,
+          product_version TEXT,
+          product_description TEXT,
+          evaluation_methods TEXT,
+          notes TEXT,
+          overrides JSONB NOT NULL DEFAULT '{}',
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      console.log('Conformance reports table created successfully');
+    } else {
+      console.log('Conformance reports table already exists');
+    }
+
+    // Recurring scans, polled by the in-process scheduler
+    if (!(await tableExists('scan_schedules'))) {
+      console.log('Creating scan_schedules table...');
+      await db.execute(sql`
+        CREATE TABLE scan_schedules (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          project_id INTEGER REFERENCES projects(id),
+          url TEXT NOT NULL,
+          options JSONB,
+          cron TEXT NOT NULL,
+          next_run_at TIMESTAMP NOT NULL,
+          last_run_at TIMESTAMP,
+          last_scan_id INTEGER REFERENCES scans(id) ON DELETE SET NULL,
+          paused_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await db.execute(sql`CREATE INDEX scan_schedules_next_run_at_idx ON scan_schedules (next_run_at) WHERE paused_at IS NULL`);
+      console.log('Scan schedules table created successfully');
+    } else {
+      console.log('Scan schedules table already exists');
+    }
+
+    // Regression alert rules, checked whenever a scan completes
+    if (!(await tableExists('alert_rules'))) {
+      console.log('Creating alert_rules table...');
+      await db.execute(sql`
+        CREATE TABLE alert_rules (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          url TEXT NOT NULL,
+          type TEXT NOT NULL,
+          threshold INTEGER,
+          webhook_url TEXT,
+          webhook_secret TEXT NOT NULL,
+          emails JSONB NOT NULL DEFAULT '[]',
+          last_triggered_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await db.execute(sql`CREATE INDEX alert_rules_user_id_idx ON alert_rules (user_id)`);
+      console.log('Alert rules table created successfully');
+    } else {
+      console.log('Alert rules table already exists');
+    }
+
+    // Keys for the REST API, stored as SHA-256 hashes
+    if (!(await tableExists('api_keys'))) {
+      console.log('Creating api_keys table...');
+      await db.execute(sql`
+        CREATE TABLE api_keys (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          name TEXT NOT NULL,
+          prefix TEXT NOT NULL,
+          key_hash TEXT NOT NULL UNIQUE,
+          last_used_at TIMESTAMP,
+          revoked_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await db.execute(sql`CREATE INDEX api_keys_user_id_idx ON api_keys (user_id)`);
+      console.log('API keys table created successfully');
+    } else {
+      console.log('API keys table already exists');
+    }
+
+    // Endpoints notified of scan lifecycle events
+    if (!(await tableExists('webhook_endpoints'))) {
+      console.log('Creating webhook_endpoints table...');
+      await db.execute(sql`
+        CREATE TABLE webhook_endpoints (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          url TEXT NOT NULL,
+          description TEXT,
+          events JSONB NOT NULL,
+          secret TEXT NOT NULL,
+          disabled_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await db.execute(sql`CREATE INDEX webhook_endpoints_user_id_idx ON webhook_endpoints (user_id)`);
+      console.log('Webhook endpoints table created successfully');
+    } else {
+      console.log('Webhook endpoints table already exists');
+    }
+
+    // Delivery log of lifecycle webhooks, doubling as their retry queue
+    if (!(await tableExists('webhook_deliveries'))) {
+      console.log('Creating webhook_deliveries table...');
+      await db.execute(sql`
+        CREATE TABLE webhook_deliveries (
+          id SERIAL PRIMARY KEY,
+          endpoint_id INTEGER NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+          event TEXT NOT NULL,
+          payload JSONB NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL,
+          next_attempt_at TIMESTAMP,
+          response_status INTEGER,
+          last_error TEXT,
+          delivered_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await db.execute(sql`CREATE INDEX webhook_deliveries_endpoint_id_idx ON webhook_deliveries (endpoint_id, created_at)`);
+      await db.execute(sql`
+        CREATE INDEX webhook_deliveries_next_attempt_idx ON webhook_deliveries (next_attempt_at)
+        WHERE status = 'pending'
+      `);
+      console.log('Webhook deliveries table created successfully');
+    } else {
+      console.log('Webhook deliveries table already exists');
+    }
+
+    // Saved user flows, replayed in a browser by flow scans
+    if (!(await tableExists('user_flows'))) {
+      console.log('Creating user_flows table...');
+      await db.execute(sql`
+        CREATE TABLE user_flows (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          project_id INTEGER REFERENCES projects(id),
+          name TEXT NOT NULL,
+          start_url TEXT NOT NULL,
+          steps JSONB NOT NULL,
+          last_run_at TIMESTAMP,
+          last_scan_id INTEGER REFERENCES scans(id) ON DELETE SET NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+      await db.execute(sql`CREATE INDEX user_flows_user_id_idx ON user_flows (user_id)`);
+      console.log('User flows table created successfully');
+    } else {
+      console.log('User flows table already exists');
+    }
+
+    // Sign-in settings of a flow, sealed like those of scans
+    if (!(await columnExists('user_flows', 'options'))) {
+      console.log('Adding options column to user_flows table...');
+      await db.execute(sql`
+        ALTER TABLE user_flows
+        ADD COLUMN options JSONB
+      `);
+      console.log('Options column added successfully');
+    } else {
+      console.log('Options column already exists in user_flows');
+    }
+
+    // Flow scans group their elements by the checkpoint they were found at
+    if (!(await columnExists('scan_result_nodes', 'step'))) {
+      console.log('Adding step column to scan_result_nodes table...');
+      await db.execute(sql`
+        ALTER TABLE scan_result_nodes
+        ADD COLUMN step INTEGER
+      `);
+      console.log('Step column added successfully');
+    } else {
+      console.log('Step column already exists');
+    }
+
+    // Multi-viewport scans record which viewports each element failed at
+    if (!(await columnExists('scan_result_nodes', 'viewports'))) {
+      console.log('Adding viewports column to scan_result_nodes table...');
+      await db.execute(sql`
+        ALTER TABLE scan_result_nodes
+        ADD COLUMN viewports JSONB
+      `);
+      console.log('Viewports column added successfully');
+    } else {
+      console.log('Viewports column already exists');
+    }
+
+    // Browser scans keep an outlined crop of each violating element
+    if (!(await columnExists('scan_result_nodes', 'screenshot'))) {
+      console.log('Adding screenshot column to scan_result_nodes table...');
+      await db.execute(sql`
+        ALTER TABLE scan_result_nodes
+        ADD COLUMN screenshot TEXT
+      `);
+      console.log('Node screenshot column added successfully');
+    } else {
+      console.log('Node screenshot column already exists');
+    }
+
     // If report_settings table doesn't exist, create it
-    if (checkReportSettingsQuery.length === 0) {
+    if (!(await tableExists('report_settings'))) {
       console.log('Creating report_settings table...');
       await db.execute(sql`
         CREATE TABLE report_settings (
@@ -52,7 +436,7 @@ async function migrate() {
     } else {
       console.log('Report settings table already exists');
     }
-    
+
     console.log('Migration completed successfully');
   } catch (error) {
     console.error('Migration failed:', error);
@@ -61,4 +445,4 @@ async function migrate() {
   }
 }
 
-migrate().catch(console.error);
\ No newline at end of file
+migrate().catch(console.error);
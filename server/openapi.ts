@@ -0,0 +1,319 @@
+/**
+ * OpenAPI 3.1 description of the /api/v1 REST API, served at /api/v1/openapi.json
+ * Request bodies are converted from the same zod schemas the routes validate with,
+ * so the documented input can't drift from what is accepted
+ */
+import { z } from "zod";
+import { createApiScanSchema } from "@shared/schema";
+
+type JsonSchema = Record<string, unknown>;
+
+// Converts the zod types used by the API's request schemas; anything else is left unconstrained
+function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodEffects) {
+    return { ...zodToJsonSchema(schema.innerType()), ...description };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return { ...zodToJsonSchema(schema.unwrap()), ...description };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue(), ...description };
+  }
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToJsonSchema(schema.unwrap());
+    return { ...description, anyOf: [inner, { type: "null" }] };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.entries(shape)
+      .filter(([, field]) => !field.isOptional())
+      .map(([name]) => name);
+    return {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([name, field]) => [name, zodToJsonSchema(field)])),
+      ...(required.length > 0 ? { required } : {}),
+      ...description,
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def;
+    return {
+      type: "array",
+      items: zodToJsonSchema(schema.element),
+      ...(minLength ? { minItems: minLength.value } : {}),
+      ...(maxLength ? { maxItems: maxLength.value } : {}),
+      ...description,
+    };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: schema.options, ...description };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value, ...description };
+  }
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: "string", ...description };
+    for (const check of schema._def.checks) {
+      if (check.kind === "url") result.format = "uri";
+      if (check.kind === "email") result.format = "email";
+      if (check.kind === "min") result.minLength = check.value;
+      if (check.kind === "max") result.maxLength = check.value;
+      if (check.kind === "regex") result.pattern = check.regex.source;
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: "number", ...description };
+    for (const check of schema._def.checks) {
+      if (check.kind === "int") result.type = "integer";
+      if (check.kind === "min") result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      if (check.kind === "max") result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean", ...description };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: "object", additionalProperties: zodToJsonSchema(schema.valueSchema), ...description };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema), ...description };
+  }
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    return {
+      oneOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema),
+      discriminator: { propertyName: schema.discriminator },
+      ...description,
+    };
+  }
+  return { ...description };
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (schema: JsonSchema) => ({ anyOf: [schema, { type: "null" }] });
+
+const jsonResponse = (description: string, schema: JsonSchema) => ({
+  description,
+  content: { "application/json": { schema } },
+});
+
+const errorResponse = (description: string) => jsonResponse(description, ref("Error"));
+
+const scanIdParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "integer" },
+  description: "Scan ID",
+};
+
+const impactCounts: JsonSchema = {
+  type: "object",
+  properties: Object.fromEntries(["critical", "serious", "moderate", "minor", "total"].map(impact => [impact, { type: "integer" }])),
+  required: ["critical", "serious", "moderate", "minor", "total"],
+};
+
+const components = {
+  securitySchemes: {
+    apiKey: {
+      type: "http",
+      scheme: "bearer",
+      description: "An API key created on the dashboard, sent as \"Authorization: Bearer <key>\"",
+    },
+  },
+  schemas: {
+    CreateScan: {
+      ...zodToJsonSchema(createApiScanSchema),
+      description: "axe, lighthouse and crawl scans need url; batch scans need either sitemapUrl or urls",
+    },
+    ScanProgress: {
+      type: "object",
+      properties: {
+        scanId: { type: "integer" },
+        phase: {
+          type: "string",
+          enum: ["queued", "fetching", "parsing", "running-axe", "generating-report", "done", "failed", "cancelled"],
+        },
+        message: { type: "string" },
+        pagesDone: { type: "integer", description: "Crawls and batches only" },
+        pagesTotal: { type: "integer", description: "Crawls and batches only" },
+      },
+      required: ["scanId", "phase"],
+    },
+    ResultSummary: {
+      type: "object",
+      properties: {
+        score: { ...nullable({ type: "number" }), description: "0-100; share of passed rules, or the Lighthouse accessibility score" },
+        violations: { ...impactCounts, description: "Violating elements per impact" },
+      },
+      required: ["score", "violations"],
+    },
+    Scan: {
+      type: "object",
+      properties: {
+        id: { type: "integer" },
+        type: { type: "string", enum: ["axe", "lighthouse", "crawl", "batch", "flow"] },
+        status: { type: "string", enum: ["pending", "running", "completed", "failed", "cancelled"] },
+        url: { type: "string" },
+        projectId: nullable({ type: "integer" }),
+        parentId: { ...nullable({ type: "integer" }), description: "Crawl or batch the page belongs to" },
+        createdAt: { type: "string", format: "date-time" },
+        progress: ref("ScanProgress"),
+        summary: nullable(ref("ResultSummary")),
+        error: { ...nullable({ type: "string" }), description: "Why a completed scan couldn't reach or audit the page" },
+        links: {
+          type: "object",
+          description: "Paths on this server; null until the resource exists",
+          properties: {
+            self: { type: "string" },
+            pages: nullable({ type: "string" }),
+            results: nullable({ type: "string" }),
+            report: nullable({ type: "string" }),
+            htmlReport: nullable({ type: "string" }),
+          },
+          required: ["self", "pages", "results", "report", "htmlReport"],
+        },
+      },
+      required: ["id", "type", "status", "url", "projectId", "parentId", "createdAt", "progress", "summary", "error", "links"],
+    },
+    Error: {
+      type: "object",
+      properties: { error: { type: "string" } },
+      required: ["error"],
+    },
+    ValidationErrors: {
+      type: "array",
+      description: "zod validation issues",
+      items: {
+        type: "object",
+        properties: {
+          path: { type: "array", items: { type: ["string", "integer"] } },
+          message: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+const paths = {
+  "/api/v1/scans": {
+    get: {
+      operationId: "listScans",
+      summary: "List scans",
+      description: "Top-level scans, newest first. Pages of crawls and batches are listed under their parent scan.",
+      parameters: [
+        { name: "status", in: "query", schema: { type: "string", enum: ["pending", "running", "completed", "failed", "cancelled"] } },
+        { name: "projectId", in: "query", schema: { type: "integer" } },
+        { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 200, default: 50 } },
+      ],
+      responses: {
+        200: jsonResponse("Scans", { type: "array", items: ref("Scan") }),
+        401: errorResponse("Missing, invalid or revoked API key"),
+      },
+    },
+    post: {
+      operationId: "createScan",
+      summary: "Start a scan",
+      description: "Queues a scan and returns straight away; poll the scan until its status is completed or failed.",
+      requestBody: { required: true, content: { "application/json": { schema: ref("CreateScan") } } },
+      responses: {
+        201: {
+          ...jsonResponse("The queued scan", ref("Scan")),
+          headers: { Location: { schema: { type: "string" }, description: "Path of the new scan" } },
+        },
+        400: jsonResponse("Invalid request", { anyOf: [ref("ValidationErrors"), ref("Error")] }),
+        401: errorResponse("Missing, invalid or revoked API key"),
+      },
+    },
+  },
+  "/api/v1/scans/{id}": {
+    get: {
+      operationId: "getScan",
+      summary: "Get a scan's status",
+      parameters: [scanIdParameter],
+      responses: {
+        200: jsonResponse("The scan", ref("Scan")),
+        401: errorResponse("Missing, invalid or revoked API key"),
+        404: errorResponse("No such scan"),
+      },
+    },
+  },
+  "/api/v1/scans/{id}/pages": {
+    get: {
+      operationId: "listScanPages",
+      summary: "List the pages of a crawl or batch",
+      parameters: [scanIdParameter],
+      responses: {
+        200: jsonResponse("One scan per page", { type: "array", items: ref("Scan") }),
+        401: errorResponse("Missing, invalid or revoked API key"),
+        404: errorResponse("No such scan"),
+      },
+    },
+  },
+  "/api/v1/scans/{id}/results": {
+    get: {
+      operationId: "getScanResults",
+      summary: "Download a scan's results",
+      description: "axe-core JSON by default, or CSV with one row per violating element, or SARIF 2.1.0.",
+      parameters: [
+        scanIdParameter,
+        { name: "format", in: "query", schema: { type: "string", enum: ["json", "csv", "sarif"], default: "json" } },
+      ],
+      responses: {
+        200: {
+          description: "Results in the requested format",
+          content: {
+            "application/json": { schema: { type: "object" } },
+            "text/csv": { schema: { type: "string" } },
+            "application/sarif+json": { schema: { type: "object" } },
+          },
+        },
+        400: errorResponse("Unknown format"),
+        401: errorResponse("Missing, invalid or revoked API key"),
+        404: errorResponse("No such scan, or it has no stored results"),
+        409: errorResponse("The scan hasn't finished"),
+      },
+    },
+  },
+  "/api/v1/scans/{id}/report": {
+    get: {
+      operationId: "getScanReport",
+      summary: "Download a scan's report",
+      parameters: [
+        scanIdParameter,
+        { name: "format", in: "query", schema: { type: "string", enum: ["pdf", "html"], default: "pdf" } },
+      ],
+      responses: {
+        200: {
+          description: "The report",
+          content: {
+            "application/pdf": { schema: { type: "string", format: "binary" } },
+            "text/html": { schema: { type: "string" } },
+          },
+        },
+        400: errorResponse("Unknown format"),
+        401: errorResponse("Missing, invalid or revoked API key"),
+        404: errorResponse("No such scan, or no report in that format"),
+        409: errorResponse("The scan hasn't finished"),
+      },
+    },
+  },
+};
+
+export function buildOpenApiSpec(serverUrl: string) {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "AccessScan API",
+      version: "1.0.0",
+      description: "Start accessibility scans, follow their progress and download results and reports.",
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    paths,
+    components,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Signed share links for scan reports
+ * A token carries the share id and expiry plus an HMAC over both, so it can't be forged or extended;
+ * the report_shares row lets the owner revoke a link before it expires
+ */
+import { createHmac, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import type { ReportShare, Scan } from "@shared/schema";
+
+// No fallback: links signed with a key anyone can read in the source could be forged for any report
+const SHARE_SECRET = process.env.REPORT_SHARE_SECRET || process.env.SESSION_SECRET;
+
+export const SHARE_LINKS_UNAVAILABLE = "Share links can't be created: the server has no REPORT_SHARE_SECRET or SESSION_SECRET configured";
+
+export function shareLinksAvailable() {
+  return !!SHARE_SECRET;
+}
+
+function sign(payload: string) {
+  if (!SHARE_SECRET) throw new Error(SHARE_LINKS_UNAVAILABLE);
+  return createHmac("sha256", SHARE_SECRET).update(payload).digest("base64url");
+}
+
+export function createShareToken(share: ReportShare) {
+  const payload = `${share.id}.${share.expiresAt.getTime()}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+export function shareUrlPath(share: ReportShare) {
+  return `/shared/reports/${createShareToken(share)}`;
+}
+
+// Returns the share id and expiry when the signature checks out
+function verifyShareToken(token: string): { shareId: number; expiresAt: number } | null {
+  const parts = token.split(".");
+  if (!SHARE_SECRET || parts.length !== 3) return null;
+
+  const [id, expiry, signature] = parts;
+  const expected = Buffer.from(sign(`${id}.${expiry}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  const shareId = Number(id);
+  const expiresAt = Number(expiry);
+  if (!Number.isInteger(shareId) || !Number.isFinite(expiresAt)) return null;
+
+  return { shareId, expiresAt };
+}
+
+/**
+ * Resolves a share token to the scan whose report it grants access to.
+ * Returns undefined for tampered, expired or revoked links and for scans without a report.
+ */
+export async function resolveShareToken(token: string): Promise<Scan | undefined> {
+  const verified = verifyShareToken(token);
+  if (!verified || verified.expiresAt <= Date.now()) return undefined;
+
+  const share = await storage.getReportShare(verified.shareId);
+  if (!share || share.revokedAt || share.expiresAt.getTime() !== verified.expiresAt) {
+    return undefined;
+  }
+
+  const scan = await storage.getScan(share.scanId);
+  if (!scan?.reportUrl) return undefined;
+
+  return scan;
+}
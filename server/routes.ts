@@ -1,127 +1,264 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
 import { storage } from "./storage";
-import { insertScanSchema, reportSettingsSchema } from "@shared/schema";
+import { insertScanSchema, insertCrawlScanSchema, insertBatchScanSchema, insertProjectSchema, insertScanScheduleSchema, updateScanScheduleSchema, insertUserFlowSchema, insertAlertRuleSchema, insertWebhookEndpointSchema, updateWebhookEndpointSchema, insertApiKeySchema, createApiScanSchema, insertReportShareSchema, reportSettingsSchema, conformanceReportSchema, type ApiScan, type InsertBatchScan, type ReportShare, type Scan } from "@shared/schema";
 import { z } from "zod";
-import { scanWebsite, generateReport, generateBasicReport } from "./services/scanner";
-import { runLighthouseScan, generateLighthouseReport } from "./services/lighthouse-cli";
+import { nextCronRun } from "@shared/cron";
+import { cancelScanJob } from "./job-queue";
+import { buildTestNotification, deliverAlert, redactAlertRule } from "./alert-rules";
+import { redactWebhookEndpoint, sendTestEvent } from "./webhooks";
+import { createWebhookSecret } from "./webhook-signing";
+import { authenticateApiKey, createApiKey, requireApiUser } from "./api-keys";
+import { buildOpenApiSpec } from "./openapi";
+import { redactProject, redactScan, redactSchedule, redactUserFlow, ScanCredentialsUnavailableError } from "./scan-credentials";
+import { batchUrls, submitBatchScan, submitCrawlScan, submitFlowScan, submitLighthouseScan, submitScan } from "./scan-submission";
+import { getScanProgress, isFinalPhase, subscribeToScanProgress } from "./scan-events";
+import type { ScanProgress } from "@shared/schema";
+import { resolveShareToken, SHARE_LINKS_UNAVAILABLE, shareLinksAvailable, shareUrlPath } from "./report-shares";
+import { EXPORT_FORMATS, exportScanResults, isExportFormat } from "./services/exports";
+import { buildConformanceReport } from "./services/conformance";
+import { compareScans, normalizePageUrl } from "./services/compare";
+import { generateProgressReport } from "./services/scanner";
+import { renderConformanceHtml, writeConformancePdf } from "./services/conformance-export";
 import path from "path";
+import { unlink } from "fs/promises";
 import express from "express";
 
+const reportsDir = path.join(process.cwd(), "reports");
+
+// Loads a scan if it exists and belongs to the signed-in user
+async function getOwnedScan(req: Request, id: string) {
+  const scanId = Number(id);
+  if (!Number.isInteger(scanId)) {
+    return undefined;
+  }
+
+  const scan = await storage.getScan(scanId);
+  return scan && scan.userId === req.user!.id ? scan : undefined;
+}
+
+// Loads a project if it exists and belongs to the signed-in user
+async function getOwnedProject(req: Request, id: string | number) {
+  const projectId = Number(id);
+  if (!Number.isInteger(projectId)) {
+    return undefined;
+  }
+
+  const project = await storage.getProject(projectId);
+  return project && project.userId === req.user!.id ? project : undefined;
+}
+
+// Loads a scan schedule if it exists and belongs to the signed-in user
+async function getOwnedSchedule(req: Request, id: string) {
+  const scheduleId = Number(id);
+  if (!Number.isInteger(scheduleId)) {
+    return undefined;
+  }
+
+  const schedule = await storage.getScanSchedule(scheduleId);
+  return schedule && schedule.userId === req.user!.id ? schedule : undefined;
+}
+
+// Loads a user flow if it exists and belongs to the signed-in user
+async function getOwnedFlow(req: Request, id: string) {
+  const flowId = Number(id);
+  if (!Number.isInteger(flowId)) {
+    return undefined;
+  }
+
+  const flow = await storage.getUserFlow(flowId);
+  return flow && flow.userId === req.user!.id ? flow : undefined;
+}
+
+// Loads an alert rule if it exists and belongs to the signed-in user
+async function getOwnedAlertRule(req: Request, id: string) {
+  const ruleId = Number(id);
+  if (!Number.isInteger(ruleId)) {
+    return undefined;
+  }
+
+  const rule = await storage.getAlertRule(ruleId);
+  return rule && rule.userId === req.user!.id ? rule : undefined;
+}
+
+// Loads a webhook endpoint if it exists and belongs to the signed-in user
+async function getOwnedWebhookEndpoint(req: Request, id: string) {
+  const endpointId = Number(id);
+  if (!Number.isInteger(endpointId)) {
+    return undefined;
+  }
+
+  const endpoint = await storage.getWebhookEndpoint(endpointId);
+  return endpoint && endpoint.userId === req.user!.id ? endpoint : undefined;
+}
+
+// Project a new scan is filed under: undefined when none was chosen, null when it isn't the user's
+async function getScanProject(req: Request, projectId?: number) {
+  if (projectId === undefined) {
+    return undefined;
+  }
+  return (await getOwnedProject(req, projectId)) ?? null;
+}
+
+// Deletes report files, ignoring any that are already gone
+async function removeReports(reportUrls: string[]) {
+  for (const reportUrl of reportUrls) {
+    try {
+      await unlink(path.join(reportsDir, path.basename(reportUrl)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Error deleting report ${reportUrl}:`, error);
+      }
+    }
+  }
+}
+
+// Streams a PDF or HTML report, answering 404 when the file is missing on disk
+function sendReport(res: Response, reportUrl: string) {
+  const file = path.basename(reportUrl);
+  res.setHeader("Cache-Control", "private, no-store");
+  res.setHeader("Content-Disposition", `inline; filename="${file}"`);
+  if (file.endsWith(".html")) {
+    // HTML reports quote markup from scanned pages; only their own inline styles, script and images may load
+    res.setHeader(
+      "Content-Security-Policy",
+      "default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline'; img-src data:"
+    );
+  }
+  res.sendFile(path.join(reportsDir, file), (error) => {
+    if (error && !res.headersSent) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Error sending report ${reportUrl}:`, error);
+      }
+      res.sendStatus(404);
+    }
+  });
+}
+
+const withShareUrl = (req: Request, share: ReportShare) => ({
+  ...share,
+  url: `${req.protocol}://${req.get("host")}${shareUrlPath(share)}`,
+});
+
+// Conformance report of a scan with its results and the auditor's saved edits
+async function loadConformanceReport(scan: Scan) {
+  const [results, saved] = await Promise.all([
+    storage.getScanResults(scan.id),
+    storage.getConformanceReport(scan.id),
+  ]);
+  return buildConformanceReport(scan, results, saved);
+}
+
+// Compares two of the user's scans of the same URL, or explains why they can't be compared
+async function loadComparison(req: Request) {
+  const [base, current] = await Promise.all([
+    getOwnedScan(req, req.params.a),
+    getOwnedScan(req, req.params.b),
+  ]);
+  if (!base || !current) {
+    return { status: 404 };
+  }
+  if (normalizePageUrl(base.url) !== normalizePageUrl(current.url)) {
+    return { status: 400, error: "Only scans of the same URL can be compared" };
+  }
+
+  const [baseResults, currentResults] = await Promise.all([
+    storage.getScanResults(base.id),
+    storage.getScanResults(current.id),
+  ]);
+  if (!baseResults || !currentResults) {
+    return { status: 409, error: "Both scans need stored results to be compared" };
+  }
+
+  return { status: 200, current, comparison: compareScans(base, baseResults, current, currentResults) };
+}
+
+const isInProgress = (status: string) => status === "pending" || status === "running";
+
+// A scan as returned by the v1 API, with links to what a script would fetch next
+function toApiScan(scan: Scan): ApiScan {
+  const self = `/api/v1/scans/${scan.id}`;
+  return {
+    id: scan.id,
+    type: scan.scanType,
+    status: scan.status,
+    url: scan.url,
+    projectId: scan.projectId,
+    parentId: scan.parentId,
+    createdAt: new Date(scan.createdAt).toISOString(),
+    progress: getScanProgress(scan),
+    summary: scan.resultMeta?.summary ?? null,
+    error: scan.resultMeta?.error ?? null,
+    links: {
+      self,
+      pages: scan.scanType === "crawl" || scan.scanType === "batch" ? `${self}/pages` : null,
+      // Lighthouse scans keep only their report and summary, not per-element results
+      results: scan.status === "completed" && scan.scanType !== "lighthouse" ? `${self}/results` : null,
+      report: scan.reportUrl ? `${self}/report` : null,
+      htmlReport: scan.htmlReportUrl ? `${self}/report?format=html` : null,
+    },
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   setupAuth(app);
 
-  // Serve test pages and generated reports
+  // Serve test pages
   app.use("/test-pages", express.static(path.join(process.cwd(), "server/test-pages")));
-  app.use("/reports", express.static(path.join(process.cwd(), "reports")));
+
+  // Reports are only served to the owner of their scan
+  app.get("/reports/:file", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const reportUrl = `/reports/${path.basename(req.params.file)}`;
+      const scan = await storage.getScanByReportUrl(reportUrl);
+      if (!scan || scan.userId !== req.user!.id) {
+        return res.sendStatus(404);
+      }
+
+      sendReport(res, reportUrl);
+    } catch (error) {
+      console.error("Error fetching report:", error);
+      res.status(500).json({ error: "Failed to fetch report" });
+    }
+  });
+
+  // Public report download through a signed share link
+  app.get("/shared/reports/:token", async (req, res) => {
+    try {
+      const scan = await resolveShareToken(req.params.token);
+      if (!scan) {
+        return res.status(404).send("This report link is invalid, has expired or has been revoked.");
+      }
+
+      sendReport(res, scan.reportUrl!);
+    } catch (error) {
+      console.error("Error fetching shared report:", error);
+      res.status(500).json({ error: "Failed to fetch report" });
+    }
+  });
 
   app.post("/api/scans", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     try {
       const data = insertScanSchema.parse(req.body);
-      const scan = await storage.createScan(req.user!.id, data);
-      
-      // Return the scan immediately so client gets a response
-      res.status(201).json(scan);
-
-      // Process the scan asynchronously
-      (async () => {
-        try {
-          console.log(`Starting accessibility scan for URL: ${data.url}`);
-          
-          // For resilience in deployment environments with restrictions
-          let results;
-          let isTestPage = false;
-          
-          // Check if this is a test URL
-          if (['test', 'test-sample', 'test-accessible'].includes(data.url)) {
-            isTestPage = true;
-          }
-          
-          try {
-            // Run the accessibility scan
-            console.log(`Attempting to scan website: ${data.url}`);
-            results = await scanWebsite(data.url);
-            console.log("Scan completed, generating report...");
-          } catch (scanError) {
-            console.error("Error during website scanning:", scanError);
-            
-            if (isTestPage) {
-              // For test pages, create a basic result with some sample data
-              console.log("Creating basic results for test page");
-              results = {
-                violations: [
-                  { id: 'image-alt', description: 'Images must have alternate text', impact: 'critical', nodes: [{html: '<img src="test.jpg">'}] },
-                  { id: 'color-contrast', description: 'Elements must have sufficient color contrast', impact: 'serious', nodes: [{html: '<p style="color: #aaa">Test</p>'}] }
-                ],
-                passes: [
-                  { id: 'document-title', description: 'Documents must have a title', impact: 'moderate', nodes: [{html: '<title>Test</title>'}] },
-                  { id: 'html-lang', description: 'HTML element must have a lang attribute', impact: 'serious', nodes: [{html: '<html lang="en">'}] }
-                ],
-                incomplete: [],
-                error: null
-              };
-            } else {
-              // For external sites, continue with an error report instead of failing
-              console.log(`Creating error report for website: ${data.url}`);
-              const errorMessage = scanError instanceof Error ? scanError.message : String(scanError);
-              
-              // We'll make a report with the error information
-              results = {
-                violations: [],
-                passes: [],
-                incomplete: [],
-                error: `Failed to scan website: ${errorMessage}`,
-                scanDateTime: new Date().toISOString(),
-                url: data.url
-              };
-              
-              console.log(`Created error results for ${data.url}. Will attempt to generate diagnostic report.`);
-            }
-          }
+      const project = await getScanProject(req, data.projectId);
+      if (project === null) {
+        return res.status(400).json({ error: "Project not found" });
+      }
 
-          // Generate the PDF report
-          let reportPath;
-          try {
-            reportPath = await generateReport(data.url, results);
-            const reportUrl = `/reports/${path.basename(reportPath)}`;
-            console.log(`Report generated at: ${reportPath}`);
-            
-            // Update scan status with report URL
-            await storage.updateScanStatus(scan.id, "completed", reportUrl);
-            console.log(`Scan ID ${scan.id} marked as completed`);
-          } catch (reportError) {
-            console.error("Error generating report:", reportError);
-            
-            try {
-              // Try to generate at least a basic report for test pages
-              if (isTestPage) {
-                console.log("Attempting to generate a basic report for test page");
-                reportPath = await generateBasicReport(data.url);
-                const reportUrl = `/reports/${path.basename(reportPath)}`;
-                await storage.updateScanStatus(scan.id, "completed", reportUrl);
-                console.log(`Basic report created for test page at: ${reportPath}`);
-              } else {
-                await storage.updateScanStatus(scan.id, "failed");
-              }
-            } catch (fallbackError) {
-              console.error("Even fallback report generation failed:", fallbackError);
-              await storage.updateScanStatus(scan.id, "failed");
-            }
-          }
-        } catch (error) {
-          console.error("Unhandled scan processing error:", error);
-          await storage.updateScanStatus(scan.id, "failed");
-        }
-      })().catch(err => {
-        console.error("Unhandled error in scan background processing:", err);
-      });
-      
+      const scan = await submitScan(req.user!.id, data, project);
+
+      // Return the scan immediately so client gets a response
+      res.status(201).json(redactScan(scan));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json(error.errors);
+      } else if (error instanceof ScanCredentialsUnavailableError) {
+        res.status(500).json({ error: error.message });
       } else {
         console.error("Scan creation failed:", error);
         res.status(500).send("Internal server error");
@@ -129,50 +266,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Multi-page crawl: one parent scan for the site plus a child scan per page
+  app.post("/api/crawl-scans", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = insertCrawlScanSchema.parse(req.body);
+      const project = await getScanProject(req, data.projectId);
+      if (project === null) {
+        return res.status(400).json({ error: "Project not found" });
+      }
+
+      const scan = await submitCrawlScan(req.user!.id, data, project);
+
+      // Return the parent scan immediately so client gets a response
+      res.status(201).json(redactScan(scan));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else if (error instanceof ScanCredentialsUnavailableError) {
+        res.status(500).json({ error: error.message });
+      } else {
+        console.error("Crawl scan creation failed:", error);
+        res.status(500).send("Internal server error");
+      }
+    }
+  });
+
+  // Batch scan of a fixed page list from a sitemap or uploaded URL list
+  app.post("/api/batch-scans", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = insertBatchScanSchema.parse(req.body);
+
+      // Uploaded lists are parsed up front so an empty file is rejected immediately
+      const uploadedUrls = batchUrls(data);
+      if (uploadedUrls?.length === 0) {
+        return res.status(400).json({ error: "No http(s) URLs found in the uploaded list" });
+      }
+      const project = await getScanProject(req, data.projectId);
+      if (project === null) {
+        return res.status(400).json({ error: "Project not found" });
+      }
+
+      const scan = await submitBatchScan(req.user!.id, data, uploadedUrls, project);
+
+      // Return the batch immediately so client gets a response
+      res.status(201).json(redactScan(scan));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else if (error instanceof ScanCredentialsUnavailableError) {
+        res.status(500).json({ error: error.message });
+      } else {
+        console.error("Batch scan creation failed:", error);
+        res.status(500).send("Internal server error");
+      }
+    }
+  });
+
   // New endpoint for Lighthouse accessibility scanning
   app.post("/api/lighthouse-scans", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
       const data = insertScanSchema.parse(req.body);
-      
-      // Create scan with pending status
-      const scan = await storage.createScan(req.user!.id, data);
-      
+      const project = await getScanProject(req, data.projectId);
+      if (project === null) {
+        return res.status(400).json({ error: "Project not found" });
+      }
+
+      const scan = await submitLighthouseScan(req.user!.id, data, project);
+
       // Return scan ID immediately
-      res.status(201).json({
-        ...scan,
-        scanType: 'lighthouse'
-      });
-      
-      // Run Lighthouse scan asynchronously
-      (async () => {
-        try {
-          console.log(`Starting Lighthouse accessibility scan for URL: ${data.url}`);
-          
-          // Run Lighthouse scan
-          const lighthouseResults = await runLighthouseScan(data.url);
-          console.log("Lighthouse scan completed successfully");
-          
-          // Generate PDF report from results
-          const reportPath = await generateLighthouseReport(lighthouseResults);
-          const reportUrl = `/reports/${path.basename(reportPath)}`;
-          console.log(`Lighthouse report generated at: ${reportPath}`);
-          
-          // Update scan status with report URL
-          await storage.updateScanStatus(scan.id, "completed", reportUrl);
-          console.log(`Lighthouse scan ID ${scan.id} marked as completed`);
-        } catch (error) {
-          console.error("Lighthouse scan error:", error);
-          await storage.updateScanStatus(scan.id, "failed");
-        }
-      })().catch(err => {
-        console.error("Unhandled error in Lighthouse scan:", err);
-      });
-      
+      res.status(201).json(redactScan(scan));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json(error.errors);
+      } else if (error instanceof ScanCredentialsUnavailableError) {
+        res.status(500).json({ error: error.message });
       } else {
         console.error("Lighthouse scan creation failed:", error);
         res.status(500).send("Internal server error");
@@ -183,39 +356,1138 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/scans", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     const scans = await storage.getUserScans(req.user!.id);
-    res.json(scans);
+    res.json(scans.map(redactScan));
   });
-  
-  // Report settings routes
-  app.get("/api/report-settings", async (req, res) => {
+
+  app.get("/api/scans/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+
     try {
-      const settings = await storage.getReportSettings(req.user!.id);
-      res.json(settings || {});
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan) {
+        return res.sendStatus(404);
+      }
+
+      const results = await storage.getScanResults(scan.id);
+      res.json({ ...redactScan(scan), results: results ?? null });
     } catch (error) {
-      console.error("Error fetching report settings:", error);
-      res.status(500).json({ error: "Failed to fetch report settings" });
+      console.error("Error fetching scan:", error);
+      res.status(500).json({ error: "Failed to fetch scan" });
     }
   });
-  
-  app.post("/api/report-settings", async (req, res) => {
+
+  // Screenshot a flow scan took at one of its checkpoints, counted from 0
+  app.get("/api/scans/:id/steps/:index/screenshot", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+
     try {
-      const data = reportSettingsSchema.parse(req.body);
-      const settings = await storage.saveReportSettings(req.user!.id, data);
-      res.json(settings);
+      const scan = await getOwnedScan(req, req.params.id);
+      const screenshot = scan?.resultMeta?.steps?.[Number(req.params.index)]?.screenshot;
+      if (!screenshot) {
+        return res.sendStatus(404);
+      }
+
+      sendReport(res, screenshot);
+    } catch (error) {
+      console.error("Error fetching checkpoint screenshot:", error);
+      res.status(500).json({ error: "Failed to fetch screenshot" });
+    }
+  });
+
+  // Full-page screenshot of a browser scan, taken when the page was audited
+  app.get("/api/scans/:id/screenshot", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan?.screenshot) {
+        return res.sendStatus(404);
+      }
+
+      sendReport(res, scan.screenshot);
+    } catch (error) {
+      console.error("Error fetching scan screenshot:", error);
+      res.status(500).json({ error: "Failed to fetch screenshot" });
+    }
+  });
+
+  // Crop of a browser scan's screenshot with one of its violating elements outlined
+  app.get("/api/scans/:id/screenshots/:file", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan || !(await storage.hasElementScreenshot(scan.id, req.params.file))) {
+        return res.sendStatus(404);
+      }
+
+      sendReport(res, req.params.file);
+    } catch (error) {
+      console.error("Error fetching element screenshot:", error);
+      res.status(500).json({ error: "Failed to fetch screenshot" });
+    }
+  });
+
+  // Downloads a scan's stored results as axe JSON, CSV or SARIF
+  app.get("/api/scans/:id/export/:format", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const { format } = req.params;
+    if (!isExportFormat(format)) {
+      return res.status(400).json({ error: "Export format must be json, csv or sarif" });
+    }
+
+    try {
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan) {
+        return res.sendStatus(404);
+      }
+
+      const results = await storage.getScanResults(scan.id);
+      if (!results) {
+        return res.status(404).json({ error: "This scan has no stored results to export" });
+      }
+
+      const { extension, contentType } = EXPORT_FORMATS[format];
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="scan-${scan.id}.${extension}"`);
+      res.send(exportScanResults(results, format));
+    } catch (error) {
+      console.error("Error exporting scan results:", error);
+      res.status(500).json({ error: "Failed to export scan results" });
+    }
+  });
+
+  // Regression diff of scan b against baseline scan a
+  app.get("/api/scans/:a/compare/:b", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { status, error, comparison } = await loadComparison(req);
+      if (!comparison) {
+        return error ? res.status(status).json({ error }) : res.sendStatus(status);
+      }
+
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error comparing scans:", error);
+      res.status(500).json({ error: "Failed to compare scans" });
+    }
+  });
+
+  // The same diff as a PDF progress report
+  app.get("/api/scans/:a/compare/:b/pdf", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { status, error, current, comparison } = await loadComparison(req);
+      if (!comparison) {
+        return error ? res.status(status).json({ error }) : res.sendStatus(status);
+      }
+
+      const settings = await storage.getScanReportSettings(current);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="progress-report-${comparison.base.id}-${comparison.current.id}.pdf"`
+      );
+      await generateProgressReport(comparison, settings, res);
+    } catch (error) {
+      console.error("Error generating progress report:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to generate progress report" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  // Accessibility Conformance Report (VPAT) of a scan, with the auditor's overrides applied
+  app.get("/api/scans/:id/acr", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan) {
+        return res.sendStatus(404);
+      }
+      if (!scan.resultMeta) {
+        return res.status(404).json({ error: "This scan has no results to build a conformance report from" });
+      }
+
+      res.json(await loadConformanceReport(scan));
+    } catch (error) {
+      console.error("Error building conformance report:", error);
+      res.status(500).json({ error: "Failed to build conformance report" });
+    }
+  });
+
+  app.put("/api/scans/:id/acr", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = conformanceReportSchema.parse(req.body);
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan) {
+        return res.sendStatus(404);
+      }
+      if (!scan.resultMeta) {
+        return res.status(404).json({ error: "This scan has no results to build a conformance report from" });
+      }
+
+      await storage.saveConformanceReport(scan.id, req.user!.id, data);
+      res.json(await loadConformanceReport(scan));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json(error.errors);
       } else {
-        console.error("Error saving report settings:", error);
-        res.status(500).json({ error: "Failed to save report settings" });
+        console.error("Error saving conformance report:", error);
+        res.status(500).json({ error: "Failed to save conformance report" });
+      }
+    }
+  });
+
+  // Exports the conformance report as PDF or as Word-compatible HTML
+  app.get("/api/scans/:id/acr/export/:format", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const { format } = req.params;
+    if (format !== "pdf" && format !== "doc") {
+      return res.status(400).json({ error: "Export format must be pdf or doc" });
+    }
+
+    try {
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan) {
+        return res.sendStatus(404);
+      }
+      if (!scan.resultMeta) {
+        return res.status(404).json({ error: "This scan has no results to build a conformance report from" });
+      }
+
+      const report = await loadConformanceReport(scan);
+      const settings = await storage.getScanReportSettings(scan);
+      const filename = `acr-scan-${scan.id}.${format}`;
+
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === "pdf") {
+        res.setHeader("Content-Type", "application/pdf");
+        await writeConformancePdf(report, settings, res);
+      } else {
+        res.setHeader("Content-Type", "application/msword; charset=utf-8");
+        res.send(await renderConformanceHtml(report, settings));
+      }
+    } catch (error) {
+      console.error("Error exporting conformance report:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to export conformance report" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  // Stops a queued or running scan along with the pages of a crawl or batch
+  app.post("/api/scans/:id/cancel", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan) {
+        return res.sendStatus(404);
+      }
+      if (!isInProgress(scan.status)) {
+        return res.status(409).json({ error: "Only queued or running scans can be cancelled" });
+      }
+
+      await cancelScanJob(scan.id);
+      const cancelled = await storage.getScan(scan.id);
+      res.json(cancelled && redactScan(cancelled));
+    } catch (error) {
+      console.error("Error cancelling scan:", error);
+      res.status(500).json({ error: "Failed to cancel scan" });
+    }
+  });
+
+  app.delete("/api/scans/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan) {
+        return res.sendStatus(404);
+      }
+
+      // Stop any work first so the job doesn't write results for a deleted scan
+      if (isInProgress(scan.status)) {
+        await cancelScanJob(scan.id);
+      }
+
+      const reportUrls = await storage.deleteScan(scan.id);
+      await removeReports(reportUrls);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting scan:", error);
+      res.status(500).json({ error: "Failed to delete scan" });
+    }
+  });
+
+  // Share links for a scan's report
+  app.get("/api/scans/:id/shares", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan) {
+        return res.sendStatus(404);
+      }
+      if (!shareLinksAvailable()) {
+        return res.status(500).json({ error: SHARE_LINKS_UNAVAILABLE });
+      }
+
+      const shares = await storage.getActiveReportShares(scan.id);
+      res.json(shares.map(share => withShareUrl(req, share)));
+    } catch (error) {
+      console.error("Error fetching report shares:", error);
+      res.status(500).json({ error: "Failed to fetch share links" });
+    }
+  });
+
+  app.post("/api/scans/:id/shares", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { expiresInDays } = insertReportShareSchema.parse(req.body ?? {});
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan) {
+        return res.sendStatus(404);
+      }
+      if (!scan.reportUrl) {
+        return res.status(409).json({ error: "This scan has no report to share" });
+      }
+      if (!shareLinksAvailable()) {
+        return res.status(500).json({ error: SHARE_LINKS_UNAVAILABLE });
+      }
+
+      const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+      const share = await storage.createReportShare(scan.id, req.user!.id, expiresAt);
+      res.status(201).json(withShareUrl(req, share));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else {
+        console.error("Error creating report share:", error);
+        res.status(500).json({ error: "Failed to create share link" });
       }
     }
   });
 
+  app.delete("/api/scans/:id/shares/:shareId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const scan = await getOwnedScan(req, req.params.id);
+      const shareId = Number(req.params.shareId);
+      if (!scan || !Number.isInteger(shareId)) {
+        return res.sendStatus(404);
+      }
+
+      const revoked = await storage.revokeReportShare(scan.id, shareId);
+      res.sendStatus(revoked ? 204 : 404);
+    } catch (error) {
+      console.error("Error revoking report share:", error);
+      res.status(500).json({ error: "Failed to revoke share link" });
+    }
+  });
+
+  // Server-Sent Events stream of a scan's progress, closed once the scan finishes
+  app.get("/api/scans/:id/events", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    let scan;
+    try {
+      scan = await getOwnedScan(req, req.params.id);
+    } catch (error) {
+      console.error("Error fetching scan for progress stream:", error);
+      return res.status(500).json({ error: "Failed to fetch scan" });
+    }
+    if (!scan) {
+      return res.sendStatus(404);
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    const send = (progress: ScanProgress) => {
+      if (res.writableEnded) return;
+      res.write(`data: ${JSON.stringify(progress)}\n\n`);
+      if (isFinalPhase(progress.phase)) {
+        res.end();
+      }
+    };
+
+    // Subscribe before taking the snapshot so no update is missed in between
+    const unsubscribe = subscribeToScanProgress(scan.id, send);
+    // Comment lines keep proxies from closing an idle connection
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 25000);
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    send(getScanProgress(scan));
+  });
+  
+  // Report settings routes
+  app.get("/api/projects", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const projects = await storage.getUserProjects(req.user!.id);
+      res.json(projects.map(project => ({
+        ...redactProject(project),
+        latestScan: project.latestScan && redactScan(project.latestScan),
+      })));
+    } catch (error) {
+      console.error("Error fetching projects:", error);
+      res.status(500).json({ error: "Failed to fetch projects" });
+    }
+  });
+
+  app.post("/api/projects", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = insertProjectSchema.parse(req.body);
+      const project = await storage.createProject(req.user!.id, data);
+      res.status(201).json(redactProject(project));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else if (error instanceof ScanCredentialsUnavailableError) {
+        res.status(500).json({ error: error.message });
+      } else {
+        console.error("Error creating project:", error);
+        res.status(500).json({ error: "Failed to create project" });
+      }
+    }
+  });
+
+  // A project with its scan history, newest first
+  app.get("/api/projects/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const project = await getOwnedProject(req, req.params.id);
+      if (!project) {
+        return res.sendStatus(404);
+      }
+
+      const scans = await storage.getProjectScans(project.id);
+      res.json({ ...redactProject(project), scans: scans.map(redactScan) });
+    } catch (error) {
+      console.error("Error fetching project:", error);
+      res.status(500).json({ error: "Failed to fetch project" });
+    }
+  });
+
+  app.put("/api/projects/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const project = await getOwnedProject(req, req.params.id);
+      if (!project) {
+        return res.sendStatus(404);
+      }
+
+      const data = insertProjectSchema.parse(req.body);
+      const updated = await storage.updateProject(project.id, data);
+      res.json(redactProject(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else if (error instanceof ScanCredentialsUnavailableError) {
+        res.status(500).json({ error: error.message });
+      } else {
+        console.error("Error updating project:", error);
+        res.status(500).json({ error: "Failed to update project" });
+      }
+    }
+  });
+
+  // Deleting a project keeps its scans; they just no longer belong to a project
+  app.delete("/api/projects/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const project = await getOwnedProject(req, req.params.id);
+      if (!project) {
+        return res.sendStatus(404);
+      }
+
+      await storage.deleteProject(project.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting project:", error);
+      res.status(500).json({ error: "Failed to delete project" });
+    }
+  });
+
+  app.get("/api/schedules", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const schedules = await storage.getUserScanSchedules(req.user!.id);
+      res.json(schedules.map(redactSchedule));
+    } catch (error) {
+      console.error("Error fetching schedules:", error);
+      res.status(500).json({ error: "Failed to fetch schedules" });
+    }
+  });
+
+  // Recurring single-page scan; each run creates a scan just like POST /api/scans
+  app.post("/api/schedules", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = insertScanScheduleSchema.parse(req.body);
+      const project = await getScanProject(req, data.projectId);
+      if (project === null) {
+        return res.status(400).json({ error: "Project not found" });
+      }
+
+      // The schema has already checked that the expression has a next run
+      const schedule = await storage.createScanSchedule(req.user!.id, data, nextCronRun(data.cron, new Date())!);
+      res.status(201).json(redactSchedule(schedule));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else if (error instanceof ScanCredentialsUnavailableError) {
+        res.status(500).json({ error: error.message });
+      } else {
+        console.error("Error creating schedule:", error);
+        res.status(500).json({ error: "Failed to create schedule" });
+      }
+    }
+  });
+
+  // Pauses, resumes or reschedules; runs missed while paused are skipped
+  app.patch("/api/schedules/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const schedule = await getOwnedSchedule(req, req.params.id);
+      if (!schedule) {
+        return res.sendStatus(404);
+      }
+
+      const data = updateScanScheduleSchema.parse(req.body);
+      const cron = data.cron ?? schedule.cron;
+      const paused = data.paused ?? schedule.pausedAt !== null;
+      const updated = await storage.updateScanSchedule(schedule.id, {
+        cron,
+        pausedAt: paused ? schedule.pausedAt ?? new Date() : null,
+        nextRunAt: nextCronRun(cron, new Date()) ?? schedule.nextRunAt,
+      });
+      res.json(redactSchedule(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else {
+        console.error("Error updating schedule:", error);
+        res.status(500).json({ error: "Failed to update schedule" });
+      }
+    }
+  });
+
+  // Deleting a schedule keeps the scans it already ran
+  app.delete("/api/schedules/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const schedule = await getOwnedSchedule(req, req.params.id);
+      if (!schedule) {
+        return res.sendStatus(404);
+      }
+
+      await storage.deleteScanSchedule(schedule.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting schedule:", error);
+      res.status(500).json({ error: "Failed to delete schedule" });
+    }
+  });
+
+  app.get("/api/flows", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const flows = await storage.getUserFlows(req.user!.id);
+      res.json(flows.map(redactUserFlow));
+    } catch (error) {
+      console.error("Error fetching user flows:", error);
+      res.status(500).json({ error: "Failed to fetch user flows" });
+    }
+  });
+
+  app.post("/api/flows", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = insertUserFlowSchema.parse(req.body);
+      if ((await getScanProject(req, data.projectId ?? undefined)) === null) {
+        return res.status(400).json({ error: "Project not found" });
+      }
+
+      const flow = await storage.createUserFlow(req.user!.id, data);
+      res.status(201).json(redactUserFlow(flow));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else if (error instanceof ScanCredentialsUnavailableError) {
+        res.status(500).json({ error: error.message });
+      } else {
+        console.error("Error creating user flow:", error);
+        res.status(500).json({ error: "Failed to create user flow" });
+      }
+    }
+  });
+
+  // Replaces the flow's steps; runs already queued keep the steps they started with
+  app.put("/api/flows/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const flow = await getOwnedFlow(req, req.params.id);
+      if (!flow) {
+        return res.sendStatus(404);
+      }
+
+      const data = insertUserFlowSchema.parse(req.body);
+      if ((await getScanProject(req, data.projectId ?? undefined)) === null) {
+        return res.status(400).json({ error: "Project not found" });
+      }
+
+      const updated = await storage.updateUserFlow(flow.id, data);
+      res.json(redactUserFlow(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else if (error instanceof ScanCredentialsUnavailableError) {
+        res.status(500).json({ error: error.message });
+      } else {
+        console.error("Error updating user flow:", error);
+        res.status(500).json({ error: "Failed to update user flow" });
+      }
+    }
+  });
+
+  // Deleting a flow keeps the scans it already ran
+  app.delete("/api/flows/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const flow = await getOwnedFlow(req, req.params.id);
+      if (!flow) {
+        return res.sendStatus(404);
+      }
+
+      await storage.deleteUserFlow(flow.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting user flow:", error);
+      res.status(500).json({ error: "Failed to delete user flow" });
+    }
+  });
+
+  // Queues a scan that replays the flow, filed under the flow's project
+  app.post("/api/flows/:id/runs", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const flow = await getOwnedFlow(req, req.params.id);
+      if (!flow) {
+        return res.sendStatus(404);
+      }
+
+      const project = flow.projectId !== null ? await getOwnedProject(req, flow.projectId) : undefined;
+      const scan = await submitFlowScan(req.user!.id, flow, project);
+      res.status(201).json(redactScan(scan));
+    } catch (error) {
+      console.error("Error running user flow:", error);
+      res.status(500).json({ error: "Failed to run user flow" });
+    }
+  });
+
+  app.get("/api/alert-rules", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const rules = await storage.getUserAlertRules(req.user!.id);
+      res.json(rules.map(redactAlertRule));
+    } catch (error) {
+      console.error("Error fetching alert rules:", error);
+      res.status(500).json({ error: "Failed to fetch alert rules" });
+    }
+  });
+
+  // The rule's webhook signing secret is generated here and only returned here and when it is rotated
+  app.post("/api/alert-rules", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = insertAlertRuleSchema.parse(req.body);
+      const rule = await storage.createAlertRule(req.user!.id, data, createWebhookSecret());
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else {
+        console.error("Error creating alert rule:", error);
+        res.status(500).json({ error: "Failed to create alert rule" });
+      }
+    }
+  });
+
+  app.put("/api/alert-rules/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const rule = await getOwnedAlertRule(req, req.params.id);
+      if (!rule) {
+        return res.sendStatus(404);
+      }
+
+      const data = insertAlertRuleSchema.parse(req.body);
+      const updated = await storage.updateAlertRule(rule.id, data);
+      res.json(redactAlertRule(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else {
+        console.error("Error updating alert rule:", error);
+        res.status(500).json({ error: "Failed to update alert rule" });
+      }
+    }
+  });
+
+  // Replaces a lost or leaked webhook signing secret and returns the rule with the new one
+  app.post("/api/alert-rules/:id/rotate-secret", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const rule = await getOwnedAlertRule(req, req.params.id);
+      if (!rule) {
+        return res.sendStatus(404);
+      }
+
+      const updated = await storage.updateAlertRuleSecret(rule.id, createWebhookSecret());
+      res.json(updated);
+    } catch (error) {
+      console.error("Error rotating alert rule secret:", error);
+      res.status(500).json({ error: "Failed to rotate signing secret" });
+    }
+  });
+
+  app.delete("/api/alert-rules/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const rule = await getOwnedAlertRule(req, req.params.id);
+      if (!rule) {
+        return res.sendStatus(404);
+      }
+
+      await storage.deleteAlertRule(rule.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting alert rule:", error);
+      res.status(500).json({ error: "Failed to delete alert rule" });
+    }
+  });
+
+  // Sends a sample alert to the rule's webhook and email addresses and reports how each went
+  app.post("/api/alert-rules/:id/test", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const rule = await getOwnedAlertRule(req, req.params.id);
+      if (!rule) {
+        return res.sendStatus(404);
+      }
+
+      const deliveries = await deliverAlert(rule, buildTestNotification(rule));
+      res.json(deliveries);
+    } catch (error) {
+      console.error("Error testing alert rule:", error);
+      res.status(500).json({ error: "Failed to send test alert" });
+    }
+  });
+
+  app.get("/api/webhooks", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const endpoints = await storage.getUserWebhookEndpoints(req.user!.id);
+      res.json(endpoints.map(redactWebhookEndpoint));
+    } catch (error) {
+      console.error("Error fetching webhook endpoints:", error);
+      res.status(500).json({ error: "Failed to fetch webhook endpoints" });
+    }
+  });
+
+  // The endpoint's signing secret is generated here and only returned here and when it is rotated
+  app.post("/api/webhooks", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = insertWebhookEndpointSchema.parse(req.body);
+      const endpoint = await storage.createWebhookEndpoint(req.user!.id, data, createWebhookSecret());
+      res.status(201).json(endpoint);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else {
+        console.error("Error creating webhook endpoint:", error);
+        res.status(500).json({ error: "Failed to create webhook endpoint" });
+      }
+    }
+  });
+
+  app.patch("/api/webhooks/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const endpoint = await getOwnedWebhookEndpoint(req, req.params.id);
+      if (!endpoint) {
+        return res.sendStatus(404);
+      }
+
+      const { disabled, ...changes } = updateWebhookEndpointSchema.parse(req.body);
+      const updated = await storage.updateWebhookEndpoint(endpoint.id, {
+        ...changes,
+        ...(disabled !== undefined && { disabledAt: disabled ? endpoint.disabledAt ?? new Date() : null }),
+      });
+      res.json(redactWebhookEndpoint(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else {
+        console.error("Error updating webhook endpoint:", error);
+        res.status(500).json({ error: "Failed to update webhook endpoint" });
+      }
+    }
+  });
+
+  // Replaces a lost or leaked signing secret and returns the endpoint with the new one; retries still
+  // waiting are signed with the new secret too
+  app.post("/api/webhooks/:id/rotate-secret", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const endpoint = await getOwnedWebhookEndpoint(req, req.params.id);
+      if (!endpoint) {
+        return res.sendStatus(404);
+      }
+
+      const updated = await storage.updateWebhookEndpoint(endpoint.id, { secret: createWebhookSecret() });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error rotating webhook secret:", error);
+      res.status(500).json({ error: "Failed to rotate signing secret" });
+    }
+  });
+
+  // Deleting an endpoint also drops its delivery log and any retries still waiting
+  app.delete("/api/webhooks/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const endpoint = await getOwnedWebhookEndpoint(req, req.params.id);
+      if (!endpoint) {
+        return res.sendStatus(404);
+      }
+
+      await storage.deleteWebhookEndpoint(endpoint.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting webhook endpoint:", error);
+      res.status(500).json({ error: "Failed to delete webhook endpoint" });
+    }
+  });
+
+  // Most recent deliveries first, with the response status of their latest attempt
+  app.get("/api/webhooks/:id/deliveries", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const endpoint = await getOwnedWebhookEndpoint(req, req.params.id);
+      if (!endpoint) {
+        return res.sendStatus(404);
+      }
+
+      const deliveries = await storage.getWebhookDeliveries(endpoint.id);
+      res.json(deliveries);
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  // Sends a webhook.test event right away and returns its logged delivery
+  app.post("/api/webhooks/:id/test", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const endpoint = await getOwnedWebhookEndpoint(req, req.params.id);
+      if (!endpoint) {
+        return res.sendStatus(404);
+      }
+
+      const delivery = await sendTestEvent(endpoint);
+      res.json(delivery);
+    } catch (error) {
+      console.error("Error sending test webhook:", error);
+      res.status(500).json({ error: "Failed to send test event" });
+    }
+  });
+
+  app.get("/api/report-settings", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const settings = await storage.getReportSettings(req.user!.id);
+      res.json(settings || {});
+    } catch (error) {
+      console.error("Error fetching report settings:", error);
+      res.status(500).json({ error: "Failed to fetch report settings" });
+    }
+  });
+  
+  app.post("/api/report-settings", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const data = reportSettingsSchema.parse(req.body);
+      const settings = await storage.saveReportSettings(req.user!.id, data);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else {
+        console.error("Error saving report settings:", error);
+        res.status(500).json({ error: "Failed to save report settings" });
+      }
+    }
+  });
+
+  // API keys are managed from a signed-in session only, so a leaked key can't mint more
+  app.get("/api/api-keys", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const keys = await storage.getUserApiKeys(req.user!.id);
+      res.json(keys);
+    } catch (error) {
+      console.error("Error fetching API keys:", error);
+      res.status(500).json({ error: "Failed to fetch API keys" });
+    }
+  });
+
+  // The full key is only ever returned here
+  app.post("/api/api-keys", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = insertApiKeySchema.parse(req.body);
+      const apiKey = await createApiKey(req.user!.id, data.name);
+      res.status(201).json(apiKey);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else {
+        console.error("Error creating API key:", error);
+        res.status(500).json({ error: "Failed to create API key" });
+      }
+    }
+  });
+
+  app.delete("/api/api-keys/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const revoked = await storage.revokeApiKey(req.user!.id, Number(req.params.id));
+      res.sendStatus(revoked ? 204 : 404);
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      res.status(500).json({ error: "Failed to revoke API key" });
+    }
+  });
+
+  // Versioned REST API for scripts and CI; see server/openapi.ts for its description
+  app.use("/api/v1", authenticateApiKey);
+
+  app.get("/api/v1/openapi.json", (req, res) => {
+    res.json(buildOpenApiSpec(`${req.protocol}://${req.get("host")}`));
+  });
+
+  app.use("/api/v1", requireApiUser);
+
+  app.get("/api/v1/scans", async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+      const projectId = req.query.projectId !== undefined ? Number(req.query.projectId) : undefined;
+      const scans = (await storage.getUserScans(req.user!.id))
+        .filter(scan => scan.parentId === null)
+        .filter(scan => req.query.status === undefined || scan.status === req.query.status)
+        .filter(scan => projectId === undefined || scan.projectId === projectId)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, limit);
+      res.json(scans.map(toApiScan));
+    } catch (error) {
+      console.error("Error listing scans:", error);
+      res.status(500).json({ error: "Failed to list scans" });
+    }
+  });
+
+  app.post("/api/v1/scans", async (req, res) => {
+    try {
+      const data = createApiScanSchema.parse(req.body);
+      const project = await getScanProject(req, data.projectId);
+      if (project === null) {
+        return res.status(400).json({ error: "Project not found" });
+      }
+
+      const userId = req.user!.id;
+      let scan: Scan;
+      switch (data.type) {
+        case "lighthouse":
+          scan = await submitLighthouseScan(userId, { url: data.url!, options: data.options }, project);
+          break;
+        case "crawl":
+          scan = await submitCrawlScan(userId, insertCrawlScanSchema.parse({ url: data.url, options: data.options }), project);
+          break;
+        case "batch": {
+          const batch: InsertBatchScan = { sitemapUrl: data.sitemapUrl, urlList: data.urls?.join("\n"), options: data.options };
+          const urls = batchUrls(batch);
+          if (urls?.length === 0) {
+            return res.status(400).json({ error: "No http(s) URLs found in urls" });
+          }
+          scan = await submitBatchScan(userId, { ...batch, fileName: "URL list" }, urls, project);
+          break;
+        }
+        default:
+          scan = await submitScan(userId, { url: data.url!, options: data.options }, project);
+      }
+
+      res.status(201).location(`/api/v1/scans/${scan.id}`).json(toApiScan(scan));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json(error.errors);
+      } else if (error instanceof ScanCredentialsUnavailableError) {
+        res.status(500).json({ error: error.message });
+      } else {
+        console.error("API scan creation failed:", error);
+        res.status(500).json({ error: "Failed to create scan" });
+      }
+    }
+  });
+
+  app.get("/api/v1/scans/:id", async (req, res) => {
+    try {
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan) {
+        return res.status(404).json({ error: "Scan not found" });
+      }
+      res.json(toApiScan(scan));
+    } catch (error) {
+      console.error("Error fetching scan:", error);
+      res.status(500).json({ error: "Failed to fetch scan" });
+    }
+  });
+
+  app.get("/api/v1/scans/:id/pages", async (req, res) => {
+    try {
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan) {
+        return res.status(404).json({ error: "Scan not found" });
+      }
+
+      const pages = (await storage.getUserScans(req.user!.id))
+        .filter(page => page.parentId === scan.id)
+        .sort((a, b) => a.id - b.id);
+      res.json(pages.map(toApiScan));
+    } catch (error) {
+      console.error("Error fetching scan pages:", error);
+      res.status(500).json({ error: "Failed to fetch scan pages" });
+    }
+  });
+
+  app.get("/api/v1/scans/:id/results", async (req, res) => {
+    const format = String(req.query.format ?? "json");
+    if (!isExportFormat(format)) {
+      return res.status(400).json({ error: "format must be json, csv or sarif" });
+    }
+
+    try {
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan) {
+        return res.status(404).json({ error: "Scan not found" });
+      }
+      if (isInProgress(scan.status)) {
+        return res.status(409).json({ error: "The scan hasn't finished yet" });
+      }
+
+      const results = await storage.getScanResults(scan.id);
+      if (!results) {
+        return res.status(404).json({ error: "This scan has no stored results" });
+      }
+
+      const { extension, contentType } = EXPORT_FORMATS[format];
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="scan-${scan.id}.${extension}"`);
+      res.send(exportScanResults(results, format));
+    } catch (error) {
+      console.error("Error fetching scan results:", error);
+      res.status(500).json({ error: "Failed to fetch scan results" });
+    }
+  });
+
+  app.get("/api/v1/scans/:id/report", async (req, res) => {
+    const format = String(req.query.format ?? "pdf");
+    if (format !== "pdf" && format !== "html") {
+      return res.status(400).json({ error: "format must be pdf or html" });
+    }
+
+    try {
+      const scan = await getOwnedScan(req, req.params.id);
+      if (!scan) {
+        return res.status(404).json({ error: "Scan not found" });
+      }
+      if (isInProgress(scan.status)) {
+        return res.status(409).json({ error: "The scan hasn't finished yet" });
+      }
+
+      const reportUrl = format === "html" ? scan.htmlReportUrl : scan.reportUrl;
+      if (!reportUrl) {
+        return res.status(404).json({ error: `This scan has no ${format.toUpperCase()} report` });
+      }
+      sendReport(res, reportUrl);
+    } catch (error) {
+      console.error("Error fetching scan report:", error);
+      res.status(500).json({ error: "Failed to fetch scan report" });
+    }
+  });
+
+  // Unknown API paths answer in JSON rather than falling through to the web app
+  app.use("/api/v1", (req, res) => {
+    res.status(404).json({ error: "Not found" });
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
\ No newline at end of file
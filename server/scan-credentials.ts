@@ -0,0 +1,102 @@
+/**
+ * Sealing of the credentials scans sign in with
+ * Credentials in scan options are encrypted with AES-256-GCM before the options are stored, next to
+ * a description of what was given (user name, cookie and header names, login steps without values).
+ * Jobs open the options just before scanning; everything sent to clients has the ciphertext removed
+ */
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from "crypto";
+import { scanAuthSchema, type Project, type ScanAuth, type ScanOptions, type ScanSchedule, type StoredScanAuth, type StoredScanOptions, type UserFlow } from "@shared/schema";
+
+// There is deliberately no fallback: a key anyone can read in the source wouldn't protect anything
+const CREDENTIALS_SECRET = process.env.SCAN_CREDENTIALS_SECRET || process.env.SESSION_SECRET;
+const KEY = CREDENTIALS_SECRET ? Buffer.from(hkdfSync("sha256", CREDENTIALS_SECRET, "", "accessscan scan credentials", 32)) : null;
+const VERSION = "v1";
+
+// Scans with credentials are refused rather than stored under a key that isn't secret
+export class ScanCredentialsUnavailableError extends Error {
+  constructor() {
+    super("Scan credentials can't be stored: the server has no SCAN_CREDENTIALS_SECRET or SESSION_SECRET configured");
+  }
+}
+
+function encrypt(plaintext: string) {
+  const iv = randomBytes(12);
+  if (!KEY) throw new ScanCredentialsUnavailableError();
+  const cipher = createCipheriv("aes-256-gcm", KEY, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext].map(part => (typeof part === "string" ? part : part.toString("base64url"))).join(".");
+}
+
+function decrypt(sealed: string) {
+  const [version, iv, tag, ciphertext] = sealed.split(".");
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Stored scan credentials are malformed");
+  }
+  if (!KEY) {
+    throw new Error("Stored scan credentials can't be decrypted: the server has no SCAN_CREDENTIALS_SECRET or SESSION_SECRET configured");
+  }
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", KEY, Buffer.from(iv, "base64url"));
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]).toString("utf8");
+  } catch {
+    // GCM rejects the tag when the key changed or the ciphertext was altered
+    throw new Error("Stored scan credentials can't be decrypted; SCAN_CREDENTIALS_SECRET may have changed since the scan was set up");
+  }
+}
+
+function isSealed(auth: ScanAuth | StoredScanAuth): auth is StoredScanAuth {
+  return typeof (auth as StoredScanAuth).encrypted === "string";
+}
+
+function describeScanAuth(auth: ScanAuth): Omit<StoredScanAuth, "encrypted"> {
+  return {
+    username: auth.basic?.username ?? null,
+    cookies: auth.cookies.map(cookie => cookie.name),
+    headers: auth.headers.map(header => header.name),
+    login: auth.login.map(step => ({ action: step.action, target: step.action === "goto" ? step.url : step.selector })),
+  };
+}
+
+/**
+ * Encrypts the credentials of options about to be stored. Options that were stored before, such as a
+ * project's defaults or a crawl's options copied to its pages, are already sealed and pass through
+ */
+export function sealScanOptions(options: ScanOptions | StoredScanOptions | null | undefined): StoredScanOptions | null {
+  if (!options) return null;
+  const { auth, ...rest } = options;
+  if (!auth) return rest;
+  if (isSealed(auth)) return { ...rest, auth };
+  return { ...rest, auth: { encrypted: encrypt(JSON.stringify(auth)), ...describeScanAuth(auth) } };
+}
+
+// Decrypts stored options for the scanner
+export function openScanOptions(options: StoredScanOptions | null | undefined): ScanOptions {
+  if (!options) return {};
+  const { auth, ...rest } = options;
+  if (!auth?.encrypted) return rest;
+  return { ...rest, auth: scanAuthSchema.parse(JSON.parse(decrypt(auth.encrypted))) };
+}
+
+// Options as clients see them: what the credentials are, without the ciphertext
+export function redactScanOptions<T extends StoredScanOptions | null>(options: T): T {
+  if (!options?.auth) return options;
+  const { encrypted, ...description } = options.auth;
+  return { ...options, auth: description };
+}
+
+export function redactScan<T extends { options: StoredScanOptions | null }>(scan: T): T {
+  return { ...scan, options: redactScanOptions(scan.options) };
+}
+
+export function redactProject<T extends Project>(project: T): T {
+  return { ...project, defaultOptions: redactScanOptions(project.defaultOptions as StoredScanOptions | null) };
+}
+
+export function redactSchedule(schedule: ScanSchedule): ScanSchedule {
+  return { ...schedule, options: redactScanOptions(schedule.options as StoredScanOptions | null) };
+}
+
+export function redactUserFlow(flow: UserFlow): UserFlow {
+  return { ...flow, options: redactScanOptions(flow.options as StoredScanOptions | null) };
+}
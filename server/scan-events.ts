@@ -0,0 +1,67 @@
+/**
+ * In-process broadcast of scan progress
+ * The job worker publishes phase changes here and the SSE endpoint relays them to browsers
+ */
+import { EventEmitter } from "events";
+import type { Scan, ScanPhase, ScanProgress, ScanProgressCallback } from "@shared/schema";
+
+// Progress of finished scans is kept briefly so a client connecting right after completion still sees it
+const FINISHED_PROGRESS_TTL = 5 * 60 * 1000;
+
+const emitter = new EventEmitter();
+// Every open progress stream adds a listener
+emitter.setMaxListeners(0);
+
+const latestProgress = new Map<number, ScanProgress>();
+
+export function isFinalPhase(phase: ScanPhase) {
+  return phase === "done" || phase === "failed" || phase === "cancelled";
+}
+
+export function publishScanProgress(progress: ScanProgress) {
+  // A cancelled scan's job may still be winding down; its late updates shouldn't reach clients
+  if (latestProgress.get(progress.scanId)?.phase === "cancelled") return;
+
+  latestProgress.set(progress.scanId, progress);
+
+  if (isFinalPhase(progress.phase)) {
+    setTimeout(() => {
+      if (latestProgress.get(progress.scanId) === progress) {
+        latestProgress.delete(progress.scanId);
+      }
+    }, FINISHED_PROGRESS_TTL).unref();
+  }
+
+  emitter.emit(`scan:${progress.scanId}`, progress);
+}
+
+// Callback for the scanner and report generators that publishes each phase for one scan
+export function scanProgressReporter(scanId: number, extra?: Pick<ScanProgress, "pagesDone" | "pagesTotal">): ScanProgressCallback {
+  return (phase, message) => publishScanProgress({ scanId, phase, message, ...extra });
+}
+
+export function subscribeToScanProgress(scanId: number, listener: (progress: ScanProgress) => void) {
+  emitter.on(`scan:${scanId}`, listener);
+  return () => {
+    emitter.off(`scan:${scanId}`, listener);
+  };
+}
+
+// Latest published progress, or a snapshot derived from the stored status after a restart
+export function getScanProgress(scan: Scan): ScanProgress {
+  const latest = latestProgress.get(scan.id);
+  if (latest) return latest;
+
+  switch (scan.status) {
+    case "completed":
+      return { scanId: scan.id, phase: "done" };
+    case "failed":
+      return { scanId: scan.id, phase: "failed" };
+    case "cancelled":
+      return { scanId: scan.id, phase: "cancelled" };
+    case "running":
+      return { scanId: scan.id, phase: "fetching" };
+    default:
+      return { scanId: scan.id, phase: "queued" };
+  }
+}
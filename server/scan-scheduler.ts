@@ -0,0 +1,61 @@
+/**
+ * In-process scheduler for recurring scans
+ * Schedules are stored in Postgres, so they carry on after a restart; runs missed while
+ * the server was down happen once at startup rather than once per missed slot
+ */
+import type { ScanSchedule, StoredScanOptions } from "@shared/schema";
+import { nextCronRun } from "@shared/cron";
+import { storage } from "./storage";
+import { submitScan } from "./scan-submission";
+
+const POLL_INTERVAL = Number(process.env.SCAN_SCHEDULER_POLL_INTERVAL_MS) || 60 * 1000;
+
+async function runSchedule(schedule: ScanSchedule) {
+  const now = new Date();
+  const nextRunAt = nextCronRun(schedule.cron, now);
+
+  // The schedule moves on before the scan is created so a failing scan can't fire it on every poll;
+  // if no further run can be found it is paused rather than left due
+  await storage.updateScanSchedule(schedule.id, nextRunAt
+    ? { lastRunAt: now, nextRunAt }
+    : { lastRunAt: now, pausedAt: now });
+
+  const project = schedule.projectId ? await storage.getProject(schedule.projectId) : undefined;
+  const scan = await submitScan(
+    schedule.userId,
+    { url: schedule.url, options: schedule.options as StoredScanOptions | null },
+    project
+  );
+  await storage.updateScanSchedule(schedule.id, { lastScanId: scan.id });
+  console.log(`Schedule ${schedule.id} started scan ID ${scan.id} for ${schedule.url}`);
+}
+
+export async function startScanScheduler() {
+  // Runs are started one after another; the job queue limits how many scans actually run at once
+  let polling = false;
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+
+    try {
+      const due = await storage.getDueScanSchedules(new Date());
+      for (const schedule of due) {
+        try {
+          await runSchedule(schedule);
+        } catch (error) {
+          console.error(`Error running schedule ${schedule.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("Error polling scan schedules:", error);
+    } finally {
+      polling = false;
+    }
+  };
+
+  setInterval(poll, POLL_INTERVAL);
+  await poll();
+
+  console.log(`Scan scheduler started, checking every ${POLL_INTERVAL}ms`);
+}
@@ -0,0 +1,92 @@
+/**
+ * Creating and queueing new scans
+ * Shared by the scan routes and the scheduler so scheduled scans go through the same steps
+ */
+import type { InsertBatchScan, InsertCrawlScan, Project, Scan, ScanOptions, StoredScanOptions, UserFlow } from "@shared/schema";
+import { storage, type NewScan } from "./storage";
+import { enqueueJob, type JobType } from "./job-queue";
+import { queueScanEvent } from "./webhooks";
+import type { BatchJobPayload, FlowJobPayload } from "./scan-jobs";
+import { parseUrlList } from "./services/sitemap";
+
+// Queues the scan's job, marking the scan failed if the job can't be stored
+export async function queueScan(scanId: number, type: JobType, payload?: BatchJobPayload | FlowJobPayload) {
+  try {
+    await enqueueJob(type, scanId, payload);
+  } catch (error) {
+    await storage.updateScanStatus(scanId, "failed");
+    throw error;
+  }
+  queueScanEvent("scan.created", scanId);
+}
+
+// Options given with the scan take precedence over the project's defaults, which are stored sealed
+export function withProjectDefaults(project: Project | undefined, options: NewScan["options"]): NewScan["options"] {
+  const defaults = project?.defaultOptions as StoredScanOptions | null | undefined;
+  return defaults ? { ...defaults, ...options } as ScanOptions | StoredScanOptions : options;
+}
+
+// Creates a single-page axe scan, filed under the project if one is given, and queues it
+export async function submitScan(userId: number, data: NewScan, project?: Project): Promise<Scan> {
+  const scan = await storage.createScan(
+    userId,
+    { ...data, options: withProjectDefaults(project, data.options) },
+    { projectId: project?.id }
+  );
+  await queueScan(scan.id, "axe");
+  return scan;
+}
+
+// Creates a Lighthouse scan of one page and queues it
+export async function submitLighthouseScan(userId: number, data: NewScan, project?: Project): Promise<Scan> {
+  const scan = await storage.createScan(userId, data, { scanType: "lighthouse", projectId: project?.id });
+  await queueScan(scan.id, "lighthouse");
+  return scan;
+}
+
+// Creates the parent scan of a site crawl and queues it; page scans are added as the crawl finds pages
+export async function submitCrawlScan(userId: number, data: InsertCrawlScan, project?: Project): Promise<Scan> {
+  const scan = await storage.createScan(
+    userId,
+    { ...data, options: withProjectDefaults(project, data.options) },
+    { scanType: "crawl", projectId: project?.id }
+  );
+  await queueScan(scan.id, "crawl");
+  return scan;
+}
+
+/**
+ * URLs of an uploaded list, parsed up front so an empty list can be rejected before anything is stored;
+ * undefined for sitemap batches, whose sitemap is only fetched by the job
+ */
+export function batchUrls(data: InsertBatchScan) {
+  return data.urlList !== undefined ? parseUrlList(data.urlList) : undefined;
+}
+
+// Creates the parent scan of a batch and queues it with its sitemap or its already parsed URL list
+export async function submitBatchScan(userId: number, data: InsertBatchScan, urls: string[] | undefined, project?: Project): Promise<Scan> {
+  const scan = await storage.createScan(
+    userId,
+    {
+      url: data.sitemapUrl ?? data.fileName ?? "Uploaded URL list",
+      options: withProjectDefaults(project, data.options),
+    },
+    { scanType: "batch", projectId: project?.id }
+  );
+  // The sitemap itself is fetched by the job so slow or large sitemaps don't hold up the request
+  await queueScan(scan.id, "batch", data.sitemapUrl ? { sitemapUrl: data.sitemapUrl } : { urls: urls ?? [] });
+  return scan;
+}
+
+// Creates a scan of the flow's current steps and queues it; later edits to the flow don't change a queued run.
+// The flow's own sign-in settings, already sealed, take the place of the project's
+export async function submitFlowScan(userId: number, flow: UserFlow, project?: Project): Promise<Scan> {
+  const scan = await storage.createScan(
+    userId,
+    { url: flow.startUrl, options: withProjectDefaults(project, flow.options as StoredScanOptions | null) },
+    { scanType: "flow", projectId: project?.id }
+  );
+  await queueScan(scan.id, "flow", { flowId: flow.id, steps: flow.steps });
+  await storage.markUserFlowRun(flow.id, scan.id, new Date());
+  return scan;
+}
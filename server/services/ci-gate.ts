@@ -0,0 +1,240 @@
+/**
+ * Pass/fail thresholds for running scans as a CI gate
+ * Each threshold becomes one check; the gate passes when every check does, and the checks
+ * are reported as a plain-text summary and as JUnit XML for CI test reporting
+ */
+import type { AxeNodeResult, AxeRuleResult, ComparedIssue, ResultSummary, ScanResults } from "@shared/schema";
+import { compareResults } from "./compare";
+
+export interface GateThresholds {
+  maxCritical?: number;
+  maxSerious?: number;
+  // Lighthouse accessibility score for Lighthouse scans, share of passed rules for axe scans
+  minScore?: number;
+  // Results of an earlier run; any violating element not in it fails the gate
+  baseline?: ScanResults;
+}
+
+export interface GateCheck {
+  name: string;
+  passed: boolean;
+  message: string;
+  // One line per element behind a failure
+  details: string[];
+}
+
+export interface GateOutcome {
+  url: string;
+  scanType: string;
+  // Null when the scan couldn't run at all
+  summary: ResultSummary | null;
+  // Per-element results; Lighthouse scans only have a summary
+  results: ScanResults | null;
+  checks: GateCheck[];
+  passed: boolean;
+  // Why the scan couldn't run or reach the page; no thresholds are checked then, as zero violations means nothing
+  error?: string;
+  durationMs: number;
+}
+
+// Elements listed under a failed check before the rest are only counted
+const MAX_DETAILS = 50;
+
+const describeIssue = (issue: Pick<ComparedIssue, "impact" | "ruleId" | "selector" | "pageUrl">) =>
+  `[${issue.impact ?? "unknown"}] ${issue.ruleId}: ${issue.selector}${issue.pageUrl ? ` (${issue.pageUrl})` : ""}`;
+
+function truncateDetails(lines: string[]) {
+  return lines.length > MAX_DETAILS
+    ? [...lines.slice(0, MAX_DETAILS), `… and ${lines.length - MAX_DETAILS} more`]
+    : lines;
+}
+
+// Violating elements of one impact, for the details of a failed count check
+function elementsWithImpact(results: ScanResults | null, impact: string) {
+  const lines: string[] = [];
+  results?.violations.forEach((rule: AxeRuleResult) => {
+    rule.nodes.forEach((node: AxeNodeResult) => {
+      if ((node.impact ?? rule.impact) === impact) {
+        lines.push(describeIssue({ impact, ruleId: rule.id, selector: node.target.join(" > "), pageUrl: node.pageUrl ?? null }));
+      }
+    });
+  });
+  return truncateDetails(lines);
+}
+
+function countCheck(summary: ResultSummary, results: ScanResults | null, impact: "critical" | "serious", max: number): GateCheck {
+  const count = summary.violations[impact];
+  const passed = count <= max;
+  return {
+    name: `${impact} violations <= ${max}`,
+    passed,
+    message: `${count} ${impact} violation${count === 1 ? "" : "s"} (max ${max})`,
+    details: passed ? [] : elementsWithImpact(results, impact),
+  };
+}
+
+function replaceOrigin(url: string, origin: string) {
+  try {
+    const parsed = new URL(url);
+    return `${origin}${parsed.pathname}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+// Preview deployments rarely share a host with the run the baseline came from, so pages are matched by path
+function rebaseResults(baseline: ScanResults, currentUrl: string): ScanResults {
+  let origin: string;
+  try {
+    origin = new URL(currentUrl).origin;
+  } catch {
+    return baseline;
+  }
+  return {
+    ...baseline,
+    url: replaceOrigin(baseline.url, origin),
+    violations: baseline.violations.map(rule => ({
+      ...rule,
+      nodes: rule.nodes.map(node => (node.pageUrl ? { ...node, pageUrl: replaceOrigin(node.pageUrl, origin) } : node)),
+    })),
+  };
+}
+
+// Runs every configured threshold against a finished scan
+export function evaluateGate(
+  summary: ResultSummary,
+  results: ScanResults | null,
+  thresholds: GateThresholds
+): GateCheck[] {
+  const checks: GateCheck[] = [];
+
+  if (thresholds.maxCritical !== undefined) {
+    checks.push(countCheck(summary, results, "critical", thresholds.maxCritical));
+  }
+  if (thresholds.maxSerious !== undefined) {
+    checks.push(countCheck(summary, results, "serious", thresholds.maxSerious));
+  }
+  if (thresholds.minScore !== undefined) {
+    const { score } = summary;
+    checks.push({
+      name: `score >= ${thresholds.minScore}`,
+      passed: score !== null && score >= thresholds.minScore,
+      message: score === null ? "The scan produced no score" : `Score ${score} (min ${thresholds.minScore})`,
+      details: [],
+    });
+  }
+  if (thresholds.baseline) {
+    if (!results) {
+      checks.push({
+        name: "no new issues",
+        passed: false,
+        message: "Comparing with a baseline needs per-element results, which this scan type doesn't produce",
+        details: [],
+      });
+    } else {
+      const { counts, issues } = compareResults(rebaseResults(thresholds.baseline, results.url), results);
+      const added = counts.new.total;
+      checks.push({
+        name: "no new issues",
+        passed: added === 0,
+        message: `${added} new, ${counts.fixed.total} fixed, ${counts.persisting.total} persisting compared with the baseline`,
+        details: truncateDetails(issues.filter(issue => issue.change === "new").map(describeIssue)),
+      });
+    }
+  }
+
+  return checks;
+}
+
+export function formatGateSummary(outcome: GateOutcome) {
+  const { summary } = outcome;
+  const lines = [`Accessibility ${outcome.scanType} scan of ${outcome.url}`];
+  if (summary) {
+    lines.push(
+      `  Score: ${summary.score ?? "n/a"}`,
+      `  Violations: ${summary.violations.total} (critical ${summary.violations.critical}, serious ${summary.violations.serious}, moderate ${summary.violations.moderate}, minor ${summary.violations.minor})`
+    );
+  }
+  lines.push("");
+
+  if (outcome.error) {
+    lines.push(`ERROR ${outcome.error}`, "", "Accessibility gate errored: the scan couldn't run");
+    return lines.join("\n");
+  }
+  if (outcome.checks.length === 0) {
+    lines.push("No thresholds set; the scan passes whatever it finds.");
+  }
+  outcome.checks.forEach(check => {
+    lines.push(`${check.passed ? "PASS" : "FAIL"}  ${check.name}: ${check.message}`);
+    check.details.forEach(detail => lines.push(`        ${detail}`));
+  });
+
+  lines.push("", outcome.passed ? "Accessibility gate passed" : "Accessibility gate failed");
+  return lines.join("\n");
+}
+
+function escapeXml(value: unknown) {
+  return String(value)
+    // Control characters other than tab and line breaks aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// One test case per threshold, in the JUnit format CI servers read test reports in
+// A scan that couldn't run is reported as a single errored test case in place of the checks
+export function toJUnitXml(outcome: GateOutcome) {
+  const failures = outcome.checks.filter(check => !check.passed).length;
+  const errors = outcome.error ? 1 : 0;
+  const tests = outcome.checks.length + errors;
+  const seconds = (outcome.durationMs / 1000).toFixed(3);
+  const className = `accessibility.${outcome.scanType}`;
+  const { summary } = outcome;
+
+  const properties = [
+    ["url", outcome.url],
+    ["scanType", outcome.scanType],
+    ...(summary
+      ? [
+          ["score", summary.score ?? ""],
+          ...(["critical", "serious", "moderate", "minor", "total"] as const).map(impact => [`violations.${impact}`, summary.violations[impact]]),
+        ]
+      : []),
+  ].map(([name, value]) => `      <property name="${escapeXml(name)}" value="${escapeXml(value)}"/>`);
+
+  const testCases = outcome.checks.map(check => {
+    const open = `    <testcase classname="${escapeXml(className)}" name="${escapeXml(check.name)}" time="0"`;
+    if (check.passed) {
+      return `${open}/>`;
+    }
+    return [
+      `${open}>`,
+      `      <failure message="${escapeXml(check.message)}" type="AccessibilityThreshold">${escapeXml([check.message, ...check.details].join("\n"))}</failure>`,
+      "    </testcase>",
+    ].join("\n");
+  });
+  if (outcome.error) {
+    testCases.push([
+      `    <testcase classname="${escapeXml(className)}" name="scan" time="${seconds}">`,
+      `      <error message="${escapeXml(outcome.error)}" type="ScanError">${escapeXml(outcome.error)}</error>`,
+      "    </testcase>",
+    ].join("\n"));
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="AccessScan" tests="${tests}" failures="${failures}" errors="${errors}" time="${seconds}">`,
+    `  <testsuite name="${escapeXml(`Accessibility: ${outcome.url}`)}" tests="${tests}" failures="${failures}" errors="${errors}" skipped="0" time="${seconds}" timestamp="${new Date().toISOString()}">`,
+    "    <properties>",
+    ...properties,
+    "    </properties>",
+    ...testCases,
+    `    <system-out>${escapeXml(formatGateSummary(outcome))}</system-out>`,
+    "  </testsuite>",
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,138 @@
+/**
+ * Regression diff between two scans of the same URL
+ * Violating elements are matched by rule id, page and normalized selector, so an element
+ * that still fails counts as persisting even if its markup changed
+ */
+import type {
+  AxeNodeResult,
+  AxeRuleResult,
+  ComparedIssue,
+  ComparedScan,
+  ImpactCounts,
+  IssueChange,
+  Scan,
+  ScanComparison,
+  ScanResults,
+} from "@shared/schema";
+import { IMPACT_ORDER } from "@shared/wcag";
+
+// Whitespace and combinator spacing vary between axe versions and page builds
+function normalizeSelector(target: string[]) {
+  return target
+    .map(part => part.trim().replace(/\s*([>+~])\s*/g, " $1 ").replace(/\s+/g, " "))
+    .join(" | ");
+}
+
+// Fragments and trailing slashes don't make a different page
+export function normalizePageUrl(url: string) {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    return parsed.toString().replace(/\/$/, "");
+  } catch {
+    return url.trim().replace(/\/$/, "");
+  }
+}
+
+type IssueDetails = Omit<ComparedIssue, "change">;
+
+// Groups every violating element by its match key; a key can repeat when axe reports an element twice
+function collectIssues(results: ScanResults) {
+  const issues = new Map<string, IssueDetails[]>();
+
+  results.violations.forEach((rule: AxeRuleResult) => {
+    rule.nodes.forEach((node: AxeNodeResult) => {
+      const selector = normalizeSelector(node.target);
+      const page = normalizePageUrl(node.pageUrl || results.url);
+      const key = `${rule.id}\n${page}\n${selector}`;
+
+      const list = issues.get(key) ?? [];
+      list.push({
+        ruleId: rule.id,
+        impact: node.impact ?? rule.impact,
+        help: rule.help,
+        helpUrl: rule.helpUrl,
+        selector: node.target.join(" > "),
+        html: node.html,
+        pageUrl: node.pageUrl ?? null,
+      });
+      issues.set(key, list);
+    });
+  });
+
+  return issues;
+}
+
+const emptyCounts = (): ImpactCounts => ({ critical: 0, serious: 0, moderate: 0, minor: 0, total: 0 });
+
+const impactRank = (impact: string | null) => {
+  const index = IMPACT_ORDER.indexOf(impact as typeof IMPACT_ORDER[number]);
+  return index === -1 ? IMPACT_ORDER.length : index;
+};
+
+const CHANGE_ORDER: IssueChange[] = ["new", "fixed", "persisting"];
+
+function toComparedScan(scan: Scan, results: ScanResults): ComparedScan {
+  return {
+    id: scan.id,
+    url: scan.url,
+    createdAt: new Date(scan.createdAt).toISOString(),
+    scanDateTime: results.scanDateTime ?? null,
+  };
+}
+
+// Lists new, fixed and persisting issues of current relative to base, with counts per impact
+export function compareResults(
+  baseResults: ScanResults,
+  currentResults: ScanResults
+): Pick<ScanComparison, "counts" | "issues"> {
+  const before = collectIssues(baseResults);
+  const after = collectIssues(currentResults);
+  const issues: ComparedIssue[] = [];
+
+  after.forEach((currentIssues, key) => {
+    const matched = before.get(key)?.length ?? 0;
+    currentIssues.forEach((issue, index) => {
+      // Details of persisting issues come from the current scan since that is what remains to fix
+      issues.push({ ...issue, change: index < matched ? "persisting" : "new" });
+    });
+  });
+  before.forEach((baseIssues, key) => {
+    const remaining = after.get(key)?.length ?? 0;
+    baseIssues.slice(remaining).forEach(issue => issues.push({ ...issue, change: "fixed" }));
+  });
+
+  const counts: Record<IssueChange, ImpactCounts> = {
+    new: emptyCounts(),
+    fixed: emptyCounts(),
+    persisting: emptyCounts(),
+  };
+  issues.forEach(issue => {
+    const tally = counts[issue.change];
+    tally.total++;
+    if (issue.impact && issue.impact in tally && issue.impact !== "total") {
+      tally[issue.impact as keyof ImpactCounts]++;
+    }
+  });
+
+  issues.sort((a, b) =>
+    CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change) ||
+    impactRank(a.impact) - impactRank(b.impact) ||
+    a.ruleId.localeCompare(b.ruleId)
+  );
+
+  return { counts, issues };
+}
+
+export function compareScans(
+  base: Scan,
+  baseResults: ScanResults,
+  current: Scan,
+  currentResults: ScanResults
+): ScanComparison {
+  return {
+    base: toComparedScan(base, baseResults),
+    current: toComparedScan(current, currentResults),
+    ...compareResults(baseResults, currentResults),
+  };
+}
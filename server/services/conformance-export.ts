@@ -0,0 +1,286 @@
+/**
+ * Exports of the Accessibility Conformance Report
+ * PDF follows the branded look of the scan reports; the HTML version carries Word's
+ * namespaces so it opens as an editable document in Word and other DOCX editors
+ */
+import PDFDocument from "pdfkit";
+import type { Writable } from "stream";
+import type { ConformanceCriterion, ConformanceLevel, ConformanceReport, ReportSettings } from "@shared/schema";
+import {
+  drawContactBlock,
+  drawFooters,
+  drawLogo,
+  drawPageBackground,
+  getContactLines,
+  loadReportBranding,
+  type ReportBranding,
+} from "./report-branding";
+import { escapeHtml } from "./html-report";
+
+// Definitions of the conformance levels as given in the VPAT template
+const CONFORMANCE_TERMS: [ConformanceLevel, string][] = [
+  ["Supports", "The functionality of the product has at least one method that meets the criterion without known defects or meets with equivalent facilitation."],
+  ["Partially Supports", "Some functionality of the product does not meet the criterion."],
+  ["Does Not Support", "The majority of product functionality does not meet the criterion."],
+  ["Not Applicable", "The criterion is not relevant to the product."],
+  ["Not Evaluated", "The product has not been evaluated against the criterion."],
+];
+
+const CONFORMANCE_COLORS: Record<ConformanceLevel, string> = {
+  "Supports": "#047857",
+  "Partially Supports": "#B45309",
+  "Does Not Support": "#B91C1C",
+  "Not Applicable": "#4B5563",
+  "Not Evaluated": "#4B5563",
+};
+
+const LEVELS = ["A", "AA"] as const;
+
+function formatDate(value: string | null) {
+  return (value ? new Date(value) : new Date()).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function productTitle(report: ConformanceReport) {
+  const name = report.productName?.trim() || report.url;
+  return report.productVersion?.trim() ? `${name} ${report.productVersion.trim()}` : name;
+}
+
+function evaluationMethods(report: ConformanceReport) {
+  return report.evaluationMethods?.trim()
+    || `Automated testing of ${report.url} with axe-core, reviewed against WCAG ${report.wcagVersion} Level A and AA success criteria.`;
+}
+
+// Rows of the product information table, skipping empty optional fields
+function productDetails(report: ConformanceReport, branding: ReportBranding): [string, string][] {
+  const contact = [branding.companyName, ...getContactLines(branding)].join(", ");
+  const rows: [string, string | null][] = [
+    ["Name of Product/Version", productTitle(report)],
+    ["Report Date", formatDate(report.updatedAt)],
+    ["Product Description", report.productDescription?.trim() || null],
+    ["Contact Information", contact],
+    ["Notes", report.notes?.trim() || null],
+    ["Evaluation Methods Used", evaluationMethods(report)],
+    ["Applicable Standards", `Web Content Accessibility Guidelines ${report.wcagVersion}, Level A and Level AA`],
+  ];
+  return rows.filter((row): row is [string, string] => Boolean(row[1]));
+}
+
+function criteriaAt(report: ConformanceReport, level: "A" | "AA") {
+  return report.criteria.filter(criterion => criterion.level === level);
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+}
+
+/**
+ * Draws a bordered table that continues onto new pages, repeating its header row.
+ * cellColor lets callers highlight individual cells such as the conformance level.
+ */
+function drawTable(
+  doc: PDFKit.PDFDocument,
+  branding: ReportBranding,
+  columns: TableColumn[],
+  rows: string[][],
+  cellColor?: (row: number, column: number) => string | undefined
+) {
+  const padding = 5;
+  const left = doc.page.margins.left;
+  const bottom = () => doc.page.height - doc.page.margins.bottom;
+
+  const rowHeight = (cells: string[], font: string) => {
+    doc.font(font).fontSize(9);
+    return Math.max(...cells.map((cell, i) => doc.heightOfString(cell, { width: columns[i].width - padding * 2 }))) + padding * 2;
+  };
+
+  const drawRow = (cells: string[], font: string, header: boolean, rowIndex: number) => {
+    const height = rowHeight(cells, font);
+    const y = doc.y;
+    let x = left;
+
+    cells.forEach((cell, i) => {
+      if (header) {
+        doc.rect(x, y, columns[i].width, height).fill(branding.colors.primary);
+      }
+      doc.rect(x, y, columns[i].width, height).lineWidth(0.5).strokeColor("#9CA3AF").stroke();
+      doc.font(font)
+         .fontSize(9)
+         .fillColor(header ? "#FFFFFF" : cellColor?.(rowIndex, i) ?? branding.colors.textPrimary)
+         .text(cell, x + padding, y + padding, { width: columns[i].width - padding * 2 });
+      x += columns[i].width;
+    });
+
+    doc.x = left;
+    doc.y = y + height;
+  };
+
+  const headers = columns.map(column => column.header);
+  drawRow(headers, "Helvetica-Bold", true, -1);
+
+  rows.forEach((cells, rowIndex) => {
+    if (doc.y + rowHeight(cells, "Helvetica") > bottom()) {
+      doc.addPage();
+      drawRow(headers, "Helvetica-Bold", true, -1);
+    }
+    drawRow(cells, "Helvetica", false, rowIndex);
+  });
+
+  doc.font("Helvetica");
+  doc.moveDown();
+}
+
+const criterionLabel = (criterion: ConformanceCriterion) => `${criterion.number} ${criterion.name} (Level ${criterion.level})`;
+
+// Writes the report as a PDF to the given stream, resolving once it has been written
+export async function writeConformancePdf(
+  report: ConformanceReport,
+  settings: ReportSettings | null | undefined,
+  output: Writable
+): Promise<void> {
+  const branding = await loadReportBranding(settings);
+  const { colors } = branding;
+  const title = productTitle(report);
+
+  const doc = new PDFDocument({
+    size: "letter",
+    margin: 50,
+    bufferPages: true,
+    info: {
+      Title: `Accessibility Conformance Report for ${title}`,
+      Author: branding.companyName,
+      Subject: `WCAG ${report.wcagVersion} Accessibility Conformance Report`,
+      Keywords: "accessibility, VPAT, ACR, WCAG, conformance",
+    },
+  });
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on("finish", resolve);
+    output.on("error", reject);
+  });
+  doc.pipe(output);
+
+  const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const heading = (text: string) => {
+    doc.moveDown();
+    doc.fontSize(16).fillColor(colors.primary).text(text);
+    doc.moveDown(0.5);
+  };
+
+  // Cover page
+  drawPageBackground(doc, branding);
+  drawLogo(doc, branding);
+  doc.fontSize(28).fillColor(colors.primary).text(branding.companyName, { align: "center" });
+  doc.moveDown();
+  doc.fontSize(20).fillColor(colors.textPrimary).text("Accessibility Conformance Report", { align: "center" });
+  doc.fontSize(12).fillColor(colors.secondary).text(`WCAG ${report.wcagVersion} Edition (based on the VPAT 2.x format)`, { align: "center" });
+  doc.moveDown(2);
+  doc.fontSize(14).fillColor(colors.textPrimary).text(title, { align: "center" });
+  doc.fontSize(12).fillColor(colors.secondary).text(`Report date: ${formatDate(report.updatedAt)}`, { align: "center" });
+  doc.moveDown(3);
+  drawContactBlock(doc, branding);
+
+  // Product information and terms
+  doc.addPage();
+  doc.fontSize(22).fillColor(colors.primary).text("Product Information");
+  doc.moveDown(0.5);
+  drawTable(doc, branding, [
+    { header: "Item", width: contentWidth * 0.3 },
+    { header: "Details", width: contentWidth * 0.7 },
+  ], productDetails(report, branding));
+
+  heading("Terms");
+  drawTable(doc, branding, [
+    { header: "Conformance Level", width: contentWidth * 0.3 },
+    { header: "Definition", width: contentWidth * 0.7 },
+  ], CONFORMANCE_TERMS);
+
+  // One conformance table per WCAG level, as in the VPAT template
+  const columns = [
+    { header: "Criteria", width: contentWidth * 0.3 },
+    { header: "Conformance Level", width: contentWidth * 0.2 },
+    { header: "Remarks and Explanations", width: contentWidth * 0.5 },
+  ];
+  LEVELS.forEach((level, index) => {
+    doc.addPage();
+    doc.fontSize(22).fillColor(colors.primary).text(`Table ${index + 1}: Success Criteria, Level ${level}`);
+    doc.moveDown(0.5);
+
+    const criteria = criteriaAt(report, level);
+    drawTable(
+      doc,
+      branding,
+      columns,
+      criteria.map(criterion => [criterionLabel(criterion), criterion.conformance, criterion.remarks]),
+      (row, column) => column === 1 ? CONFORMANCE_COLORS[criteria[row].conformance] : undefined
+    );
+  });
+
+  drawFooters(doc, branding);
+  doc.end();
+  await finished;
+}
+
+// Word-compatible HTML of the report; Word opens it as a document that can be edited and saved as DOCX
+export async function renderConformanceHtml(
+  report: ConformanceReport,
+  settings: ReportSettings | null | undefined
+): Promise<string> {
+  const branding = await loadReportBranding(settings);
+  const { colors } = branding;
+  const title = productTitle(report);
+
+  const table = (headers: string[], rows: string[][], widths: number[]) => `
+<table>
+  <thead><tr>${headers.map((header, i) => `<th style="width:${widths[i]}%">${escapeHtml(header)}</th>`).join("")}</tr></thead>
+  <tbody>
+${rows.map(row => `    <tr>${row.join("")}</tr>`).join("\n")}
+  </tbody>
+</table>`;
+
+  const cell = (value: string, color?: string) =>
+    `<td${color ? ` style="color:${color};font-weight:bold"` : ""}>${escapeHtml(value).replace(/\n/g, "<br>")}</td>`;
+
+  const levelTables = LEVELS.map((level, index) => `
+<h2>Table ${index + 1}: Success Criteria, Level ${level}</h2>
+${table(
+    ["Criteria", "Conformance Level", "Remarks and Explanations"],
+    criteriaAt(report, level).map(criterion => [
+      cell(criterionLabel(criterion)),
+      cell(criterion.conformance, CONFORMANCE_COLORS[criterion.conformance]),
+      cell(criterion.remarks),
+    ]),
+    [30, 20, 50]
+  )}`).join("\n");
+
+  return `<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40" lang="en">
+<head>
+<meta charset="utf-8">
+<title>Accessibility Conformance Report for ${escapeHtml(title)}</title>
+<!--[if gte mso 9]><xml><w:WordDocument><w:View>Print</w:View><w:Zoom>100</w:Zoom></w:WordDocument></xml><![endif]-->
+<style>
+  body { font-family: Calibri, Arial, sans-serif; font-size: 11pt; color: ${colors.textPrimary}; }
+  h1 { color: ${colors.primary}; font-size: 20pt; margin-bottom: 0; }
+  h2 { color: ${colors.primary}; font-size: 14pt; margin-top: 18pt; }
+  .subtitle { color: ${colors.secondary}; margin-top: 4pt; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 12pt; }
+  th { background: ${colors.primary}; color: #FFFFFF; text-align: left; }
+  th, td { border: 1px solid #9CA3AF; padding: 4pt 6pt; vertical-align: top; font-size: 10pt; }
+</style>
+</head>
+<body>
+<p style="color:${colors.primary};font-size:16pt;font-weight:bold">${escapeHtml(branding.companyName)}</p>
+<h1>Accessibility Conformance Report</h1>
+<p class="subtitle">WCAG ${report.wcagVersion} Edition (based on the VPAT 2.x format)</p>
+<h2>Product Information</h2>
+${table(["Item", "Details"], productDetails(report, branding).map(([item, details]) => [cell(item), cell(details)]), [30, 70])}
+<h2>Terms</h2>
+${table(["Conformance Level", "Definition"], CONFORMANCE_TERMS.map(([term, definition]) => [cell(term), cell(definition)]), [30, 70])}
+${levelTables}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,118 @@
+/**
+ * Accessibility Conformance Report (VPAT 2.x, WCAG edition) built from stored scan results
+ * Each success criterion gets a conformance level from the axe rules tagged with it,
+ * which the auditor's saved overrides then replace criterion by criterion
+ */
+import type {
+  AxeRuleResult,
+  ConformanceCriterion,
+  ConformanceLevel,
+  ConformanceOverride,
+  ConformanceReport,
+  ConformanceReportRecord,
+  Scan,
+  ScanResults,
+} from "@shared/schema";
+import { getSuccessCriteria, getWcagCriteria, type WcagVersion } from "@shared/wcag";
+
+// Remarks name this many rules before summarizing the rest
+const RULES_IN_REMARKS = 5;
+
+function describeRules(rules: AxeRuleResult[]) {
+  const named = rules.slice(0, RULES_IN_REMARKS).map(rule => {
+    const elements = rule.nodes.length;
+    return elements > 0
+      ? `${rule.help ?? rule.id} (${elements} element${elements === 1 ? "" : "s"})`
+      : rule.help ?? rule.id;
+  });
+  const more = rules.length - named.length;
+  return more > 0 ? `${named.join("; ")}; and ${more} more` : named.join("; ");
+}
+
+function rulesFor(rules: AxeRuleResult[], criterion: string) {
+  return rules.filter(rule => getWcagCriteria(rule.tags).includes(criterion));
+}
+
+/**
+ * Conformance suggested by automated results alone.
+ * Failures alongside passing checks count as partial support; criteria no rule covers are left
+ * as not evaluated, since automated testing can't show they are met.
+ */
+function evaluateCriterion(results: ScanResults | undefined, criterion: string): { conformance: ConformanceLevel; remarks: string } {
+  if (!results || results.error) {
+    return {
+      conformance: "Not Evaluated",
+      remarks: results?.error
+        ? `Automated testing could not be completed: ${results.error}`
+        : "No automated results are available for this scan.",
+    };
+  }
+
+  const failed = rulesFor(results.violations, criterion);
+  const passed = rulesFor(results.passes, criterion);
+  const review = rulesFor(results.incomplete, criterion);
+  const reviewNote = review.length ? ` Needs manual review: ${describeRules(review)}.` : "";
+
+  if (failed.length > 0) {
+    return {
+      conformance: passed.length > 0 ? "Partially Supports" : "Does Not Support",
+      remarks: `Automated testing found failures: ${describeRules(failed)}.${reviewNote}`,
+    };
+  }
+  if (passed.length > 0) {
+    return {
+      conformance: "Supports",
+      remarks: `Passed automated checks: ${describeRules(passed)}.${reviewNote}`,
+    };
+  }
+  if (review.length > 0) {
+    return {
+      conformance: "Not Evaluated",
+      remarks: `Automated checks were inconclusive and need manual review: ${describeRules(review)}.`,
+    };
+  }
+  return {
+    conformance: "Not Evaluated",
+    remarks: "Not covered by automated testing; requires manual evaluation.",
+  };
+}
+
+// Combines the scan's results with any saved auditor edits into the report to show or export
+export function buildConformanceReport(
+  scan: Scan,
+  results: ScanResults | undefined,
+  saved?: ConformanceReportRecord
+): ConformanceReport {
+  const wcagVersion = (saved?.wcagVersion ?? "2.1") as WcagVersion;
+  const overrides = (saved?.overrides ?? {}) as Record<string, ConformanceOverride>;
+
+  const criteria: ConformanceCriterion[] = getSuccessCriteria(wcagVersion).map(criterion => {
+    const automated = evaluateCriterion(results, criterion.number);
+    const override = overrides[criterion.number] ?? {};
+    const remarks = override.remarks?.trim();
+
+    return {
+      number: criterion.number,
+      name: criterion.name,
+      level: criterion.level,
+      conformance: override.conformance ?? automated.conformance,
+      remarks: remarks || automated.remarks,
+      automated,
+      overridden: Boolean(override.conformance || remarks),
+    };
+  });
+
+  return {
+    scanId: scan.id,
+    url: scan.url,
+    scanDateTime: results?.scanDateTime ?? null,
+    wcagVersion,
+    productName: saved?.productName ?? null,
+    productVersion: saved?.productVersion ?? null,
+    productDescription: saved?.productDescription ?? null,
+    evaluationMethods: saved?.evaluationMethods ?? null,
+    notes: saved?.notes ?? null,
+    updatedAt: saved?.updatedAt?.toISOString() ?? null,
+    criteria,
+  };
+}
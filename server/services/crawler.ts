@@ -0,0 +1,183 @@
+/**
+ * Same-origin site crawler
+ * Audits the start page with scanWebsite, then follows the links it reports
+ * breadth-first until the depth or page limit is reached
+ */
+import type { CrawlOptions, ScanOptions } from '@shared/schema';
+import { scanWebsite, type ScanResult } from './scanner';
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  results?: ScanResult;
+  error?: string;
+}
+
+// Links to these are downloads or media, not pages worth auditing
+const NON_PAGE_EXTENSIONS = /\.(pdf|zip|gz|tar|rar|7z|exe|dmg|docx?|xlsx?|pptx?|csv|xml|json|jpe?g|png|gif|svg|webp|ico|mp3|mp4|mov|avi|webm|woff2?|ttf|css|js)$/i;
+
+// Following these while signed in would end the session the remaining pages are scanned with
+const SIGN_OUT_LINK = /log-?out|log-?off|sign-?out|sign-?off/i;
+
+/**
+ * Converts a glob pattern to a regular expression.
+ * "**" matches across path segments, "*" within one segment and "?" one character.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Checks a URL against include/exclude globs.
+ * Patterns starting with a scheme are matched against the full URL,
+ * all others against the path and query string.
+ */
+export function matchesCrawlPatterns(url: URL, options: CrawlOptions): boolean {
+  const matches = (pattern: string) => {
+    const subject = /^https?:\/\//.test(pattern) ? url.href : url.pathname + url.search;
+    return globToRegExp(pattern).test(subject);
+  };
+
+  if (options.exclude.some(matches)) {
+    return false;
+  }
+  return options.include.length === 0 || options.include.some(matches);
+}
+
+// Strips fragments so "#section" links don't count as separate pages
+function normalizeUrl(url: URL): string {
+  const normalized = new URL(url.href);
+  normalized.hash = '';
+  return normalized.href;
+}
+
+/**
+ * Crawls a site starting from startUrl and audits every page found.
+ * onPage is awaited after each page so callers can persist results as the crawl runs.
+ */
+export async function crawlSite(
+  startUrl: string,
+  options: ScanOptions,
+  crawlOptions: CrawlOptions,
+  onPage?: (page: CrawledPage) => Promise<void>,
+  signal?: AbortSignal
+): Promise<CrawledPage[]> {
+  // Ensure URL has a protocol
+  if (!startUrl.startsWith('http://') && !startUrl.startsWith('https://')) {
+    startUrl = 'https://' + startUrl;
+  }
+
+  const origin = new URL(startUrl).origin;
+  const queue: { url: string; depth: number }[] = [{ url: normalizeUrl(new URL(startUrl)), depth: 0 }];
+  const seen = new Set<string>([queue[0].url]);
+  const pages: CrawledPage[] = [];
+
+  console.log(`Starting crawl of ${origin} (depth ${crawlOptions.maxDepth}, max ${crawlOptions.maxPages} pages)`);
+
+  while (queue.length > 0 && pages.length < crawlOptions.maxPages) {
+    if (signal?.aborted) {
+      throw new Error("Crawl was aborted");
+    }
+
+    const { url, depth } = queue.shift()!;
+    const page: CrawledPage = { url, depth };
+
+    try {
+      console.log(`Crawling page ${pages.length + 1}/${crawlOptions.maxPages} at depth ${depth}: ${url}`);
+      page.results = await scanWebsite(url, options, undefined, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`Failed to scan crawled page ${url}:`, error);
+      page.error = error instanceof Error ? error.message : String(error);
+    }
+
+    pages.push(page);
+    if (onPage) {
+      await onPage(page);
+    }
+
+    if (depth >= crawlOptions.maxDepth || !page.results?.links) {
+      continue;
+    }
+
+    for (const href of page.results.links) {
+      let link: URL;
+      try {
+        link = new URL(href);
+      } catch {
+        continue;
+      }
+
+      if (link.origin !== origin || NON_PAGE_EXTENSIONS.test(link.pathname)) {
+        continue;
+      }
+      if (options.auth && SIGN_OUT_LINK.test(link.pathname + link.search)) {
+        continue;
+      }
+
+      const normalized = normalizeUrl(link);
+      if (seen.has(normalized) || !matchesCrawlPatterns(link, crawlOptions)) {
+        continue;
+      }
+
+      seen.add(normalized);
+      queue.push({ url: normalized, depth: depth + 1 });
+    }
+  }
+
+  console.log(`Crawl finished: ${pages.length} pages scanned, ${queue.length} links left unvisited`);
+  return pages;
+}
+
+/**
+ * Merges per-page results into one site-level result for generateReport.
+ * Rules are combined by id and every node keeps the URL of the page it came from.
+ */
+export function aggregateSiteResults(startUrl: string, pages: CrawledPage[]): ScanResult {
+  const merge = (key: 'violations' | 'passes' | 'incomplete') => {
+    const byRule = new Map<string, any>();
+
+    pages.forEach(page => {
+      (page.results?.[key] || []).forEach(rule => {
+        const nodes = (rule.nodes || []).map((node: any) => ({ ...node, pageUrl: page.url }));
+        const existing = byRule.get(rule.id);
+        if (existing) {
+          existing.nodes.push(...nodes);
+        } else {
+          byRule.set(rule.id, { ...rule, nodes });
+        }
+      });
+    });
+
+    return Array.from(byRule.values());
+  };
+
+  return {
+    violations: merge('violations'),
+    passes: merge('passes'),
+    incomplete: merge('incomplete'),
+    scanDateTime: new Date().toISOString(),
+    url: startUrl,
+    pages: pages.map(page => ({
+      url: page.url,
+      violations: page.results?.violations.length ?? 0,
+      error: page.error ?? page.results?.error
+    })),
+    // Every page is scanned with the same options, so any page audited at several viewports names them
+    viewports: pages.find(page => page.results?.viewports)?.results?.viewports
+  };
+}
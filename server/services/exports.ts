@@ -0,0 +1,155 @@
+/**
+ * Machine-readable exports of stored scan results
+ * JSON keeps axe-core's own result shape, CSV flattens violations to one row per element,
+ * and SARIF 2.1.0 lets code-scanning tools ingest violations as findings
+ */
+import axe from "axe-core";
+import type { AxeNodeResult, AxeRuleResult, ScanResults } from "@shared/schema";
+
+export type ExportFormat = "json" | "csv" | "sarif";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; contentType: string }> = {
+  json: { extension: "json", contentType: "application/json" },
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+  sarif: { extension: "sarif", contentType: "application/sarif+json" },
+};
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, format);
+}
+
+const wcagTags = (rule: AxeRuleResult) => rule.tags.filter(tag => tag.startsWith("wcag"));
+
+const selectorOf = (node: AxeNodeResult) => node.target.join(" ");
+
+// Page scans don't record a page per element; the scanned URL is the page
+const pageOf = (results: ScanResults, node: AxeNodeResult) => node.pageUrl || results.url;
+
+// Same top-level shape as axe.run() output, so existing axe tooling can read it
+export function toAxeJson(results: ScanResults) {
+  return {
+    testEngine: { name: "axe-core", version: axe.version },
+    testRunner: { name: "AccessScan" },
+    timestamp: results.scanDateTime ?? null,
+    url: results.url,
+    violations: results.violations,
+    passes: results.passes,
+    incomplete: results.incomplete,
+    inapplicable: [],
+    ...(results.error ? { error: results.error } : {}),
+    ...(results.pages ? { pages: results.pages } : {}),
+  };
+}
+
+const CSV_COLUMNS = [
+  "url",
+  "rule",
+  "impact",
+  "wcag",
+  "help",
+  "help_url",
+  "selector",
+  "html",
+  "failure_summary",
+];
+
+function csvField(value: string | null | undefined) {
+  let text = value ?? "";
+  // Spreadsheets run cells starting with these as formulas; snippets come from untrusted pages
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per element that violates a rule
+export function toCsv(results: ScanResults) {
+  const rows = results.violations.flatMap(rule =>
+    rule.nodes.map(node => [
+      pageOf(results, node),
+      rule.id,
+      node.impact ?? rule.impact,
+      wcagTags(rule).join(" "),
+      rule.help,
+      rule.helpUrl,
+      selectorOf(node),
+      node.html,
+      node.failureSummary,
+    ])
+  );
+
+  return [CSV_COLUMNS, ...rows]
+    .map(row => row.map(csvField).join(","))
+    .join("\r\n") + "\r\n";
+}
+
+function sarifLevel(impact: string | null) {
+  switch (impact) {
+    case "critical":
+    case "serious":
+      return "error";
+    case "moderate":
+      return "warning";
+    default:
+      return "note";
+  }
+}
+
+// Violations as SARIF 2.1.0 results, located by page URL and CSS selector
+export function toSarif(results: ScanResults) {
+  const rules = results.violations.map(rule => ({
+    id: rule.id,
+    name: rule.id,
+    shortDescription: { text: rule.help ?? rule.id },
+    fullDescription: { text: rule.description ?? rule.help ?? rule.id },
+    ...(rule.helpUrl ? { helpUri: rule.helpUrl } : {}),
+    defaultConfiguration: { level: sarifLevel(rule.impact) },
+    properties: { tags: rule.tags, impact: rule.impact },
+  }));
+
+  const findings = results.violations.flatMap((rule, ruleIndex) =>
+    rule.nodes.map(node => ({
+      ruleId: rule.id,
+      ruleIndex,
+      level: sarifLevel(node.impact ?? rule.impact),
+      message: { text: node.failureSummary || rule.help || rule.id },
+      locations: [{
+        // A region needs a line or offset in the file, which a rendered page's elements don't have
+        physicalLocation: { artifactLocation: { uri: pageOf(results, node) } },
+        logicalLocations: [{ fullyQualifiedName: selectorOf(node), kind: "element" }],
+      }],
+      ...(node.html ? { properties: { html: node.html } } : {}),
+    }))
+  );
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: "AccessScan",
+          rules,
+        },
+      },
+      invocations: [{
+        executionSuccessful: !results.error,
+        ...(results.scanDateTime ? { startTimeUtc: results.scanDateTime } : {}),
+        ...(results.error ? { toolExecutionNotifications: [{ level: "error", message: { text: results.error } }] } : {}),
+      }],
+      results: findings,
+    }],
+  };
+}
+
+// Serializes results in the requested format
+export function exportScanResults(results: ScanResults, format: ExportFormat) {
+  switch (format) {
+    case "json":
+      return JSON.stringify(toAxeJson(results), null, 2);
+    case "csv":
+      return toCsv(results);
+    case "sarif":
+      return JSON.stringify(toSarif(results), null, 2);
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Replaying user flows
+ * A flow's steps run in order in one browser tab. Each audit step screenshots the page and runs axe-core
+ * on it as it is at that point, so dialogs, menus, error messages and later wizard steps get audited
+ * too; the results of all checkpoints are merged into one result with every element tagged by its step
+ */
+import path from "path";
+import { mkdir, writeFile } from "fs/promises";
+import { randomUUID } from "crypto";
+import type { KeyInput, Page } from "puppeteer";
+import type { FlowCheckpoint, FlowStep, ScanOptions, ScanProgressCallback } from "@shared/schema";
+import { auditLoadedPage, launchBrowser, newScanPage, type ScanResult } from "./scanner";
+import { signInPage } from "./page-auth";
+import { captureViolationScreenshots } from "./screenshots";
+
+// How long a step may wait for its element to appear or a navigation to finish
+const STEP_TIMEOUT = 30000;
+// How long an audit waits for requests started by the previous step before auditing anyway
+const AUDIT_IDLE_TIMEOUT = 10000;
+
+const reportsDir = path.join(process.cwd(), "reports");
+
+export function describeFlowStep(step: FlowStep) {
+  switch (step.action) {
+    case "navigate":
+      return `navigate to ${step.url}`;
+    case "click":
+      return `click ${step.selector}`;
+    case "type":
+      return `type into ${step.selector}`;
+    case "press":
+      return `press ${step.key}`;
+    case "wait":
+      return step.selector ? `wait for ${step.selector}` : `wait ${step.ms ?? 0} ms`;
+    case "audit":
+      return step.label ? `audit "${step.label}"` : "audit";
+  }
+}
+
+async function runFlowStep(page: Page, step: Exclude<FlowStep, { action: "audit" }>) {
+  switch (step.action) {
+    case "navigate":
+      await page.goto(step.url, { waitUntil: "networkidle2" });
+      break;
+    case "click":
+      await page.locator(step.selector).setTimeout(STEP_TIMEOUT).click();
+      break;
+    case "type":
+      await page.locator(step.selector).setTimeout(STEP_TIMEOUT).fill(step.text);
+      break;
+    case "press":
+      await page.keyboard.press(step.key as KeyInput);
+      break;
+    case "wait":
+      if (step.selector) {
+        await page.waitForSelector(step.selector, { visible: true, timeout: STEP_TIMEOUT });
+      } else {
+        await new Promise(resolve => setTimeout(resolve, step.ms ?? 0));
+      }
+      break;
+  }
+}
+
+// Screenshots are kept next to the reports under a random name and served through their scan
+async function saveScreenshot(page: Page): Promise<string | null> {
+  try {
+    const screenshot = await page.screenshot({ type: "jpeg", quality: 80, fullPage: false });
+    await mkdir(reportsDir, { recursive: true });
+    const file = `flow_${randomUUID()}.jpg`;
+    await writeFile(path.join(reportsDir, file), screenshot);
+    return file;
+  } catch (error) {
+    console.error("Error capturing flow screenshot:", error);
+    return null;
+  }
+}
+
+/**
+ * Opens startUrl, signed in if the options carry credentials, and replays the steps. A step that fails
+ * ends the flow; the checkpoints reached before it are kept and the failure is reported as the result's error
+ */
+export async function runUserFlow(
+  startUrl: string,
+  steps: FlowStep[],
+  options: ScanOptions = {},
+  onProgress?: ScanProgressCallback,
+  signal?: AbortSignal
+): Promise<ScanResult> {
+  signal?.throwIfAborted();
+  const browser = await launchBrowser();
+
+  const closeOnAbort = () => {
+    console.log("Flow scan aborted, closing browser");
+    browser.close().catch(closeError => console.error("Error closing browser:", closeError));
+  };
+  signal?.addEventListener("abort", closeOnAbort, { once: true });
+
+  const result: ScanResult = {
+    violations: [],
+    passes: [],
+    incomplete: [],
+    url: startUrl,
+    renderMode: "browser",
+    steps: [],
+  };
+  const rules = {
+    violations: new Map<string, any>(),
+    passes: new Map<string, any>(),
+    incomplete: new Map<string, any>(),
+  };
+  const audits = steps.filter(step => step.action === "audit").length;
+
+  try {
+    const page = await newScanPage(browser);
+    if (options.auth) {
+      onProgress?.("fetching", "Signing in");
+      await signInPage(page, startUrl, options.auth);
+    }
+    onProgress?.("fetching", "Loading the flow's start page");
+    await page.goto(startUrl, { waitUntil: "networkidle2" });
+
+    for (let index = 0; index < steps.length; index++) {
+      const step = steps[index];
+      try {
+        if (step.action !== "audit") {
+          onProgress?.("fetching", `Step ${index + 1} of ${steps.length}: ${describeFlowStep(step)}`);
+          await runFlowStep(page, step);
+          continue;
+        }
+
+        const checkpoint: FlowCheckpoint = {
+          stepIndex: index,
+          label: step.label || `Checkpoint ${result.steps!.length + 1}`,
+          url: page.url(),
+          violations: 0,
+          screenshot: null,
+        };
+        onProgress?.("running-axe", `Auditing ${checkpoint.label} (${result.steps!.length + 1} of ${audits})`);
+        // A click or key press may have started a navigation or requests the state being audited depends on
+        await page.waitForNetworkIdle({ idleTime: 500, timeout: AUDIT_IDLE_TIMEOUT }).catch(() => undefined);
+        const audit = await auditLoadedPage(page);
+        checkpoint.url = page.url();
+        checkpoint.screenshot = await saveScreenshot(page);
+        // The checkpoint screenshot stands in for the full page; violating elements still get outlined crops
+        await captureViolationScreenshots(page, audit.violations, false);
+        checkpoint.violations = audit.violations.length;
+
+        const checkpointIndex = result.steps!.length;
+        (Object.keys(rules) as (keyof typeof rules)[]).forEach(key => {
+          audit[key].forEach(rule => {
+            const nodes = rule.nodes.map(node => ({ ...node, pageUrl: checkpoint.url, step: checkpointIndex }));
+            const existing = rules[key].get(rule.id);
+            if (existing) {
+              existing.nodes.push(...nodes);
+            } else {
+              rules[key].set(rule.id, { ...rule, nodes });
+            }
+          });
+        });
+        result.steps!.push(checkpoint);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        // Messages name the step by its selector or URL; typed text never appears in them
+        const reason = error instanceof Error ? error.message.split("\n")[0] : String(error);
+        result.error = `Flow stopped at step ${index + 1} (${describeFlowStep(step)}): ${reason}`;
+        console.error(result.error);
+        break;
+      }
+    }
+  } finally {
+    signal?.removeEventListener("abort", closeOnAbort);
+    try {
+      await browser.close();
+    } catch (closeError) {
+      console.error("Error closing browser:", closeError);
+    }
+  }
+
+  result.violations = Array.from(rules.violations.values());
+  result.passes = Array.from(rules.passes.values());
+  result.incomplete = Array.from(rules.incomplete.values());
+  result.scanDateTime = new Date().toISOString();
+  console.log(`Flow scan finished with ${result.steps!.length} of ${audits} checkpoints audited`);
+  return result;
+}
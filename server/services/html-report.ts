@@ -0,0 +1,457 @@
+/**
+ * Self-contained HTML version of the accessibility report
+ * Built from the same ScanResult as the PDF, with styles, script and logo inlined so the file
+ * can be opened offline or attached to a ticket
+ */
+import { writeFile, mkdir, readFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { AxeNodeResult, AxeRuleResult, ReportSettings, ScanProgressCallback } from "@shared/schema";
+import type { ScanResult } from "./scanner";
+import { getContactLines, loadReportBranding, type ReportBranding } from "./report-branding";
+import { describeViewport, summarizeViewportIssues, VIEWPORT_LABELS } from "./viewports";
+
+type Outcome = "violation" | "incomplete" | "pass";
+
+// Results from older scans and the test page fallback may leave out any of these fields
+type ReportRule = Partial<AxeRuleResult> & { nodes?: Partial<AxeNodeResult>[] };
+
+const IMPACT_ORDER = ["critical", "serious", "moderate", "minor"];
+
+const IMPACT_COLORS: Record<string, string> = {
+  critical: "#B91C1C",
+  serious: "#DC2626",
+  moderate: "#B45309",
+  minor: "#4B5563",
+};
+
+const SECTIONS: { outcome: Outcome; key: "violations" | "incomplete" | "passes"; title: string; anchor: string }[] = [
+  { outcome: "violation", key: "violations", title: "Violations", anchor: "violations" },
+  { outcome: "incomplete", key: "incomplete", title: "Needs review", anchor: "needs-review" },
+  { outcome: "pass", key: "passes", title: "Passed rules", anchor: "passed" },
+];
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Only http(s) links from results are rendered as links
+function safeHref(url: string | null | undefined) {
+  return url && /^https?:\/\//i.test(url) ? escapeHtml(url) : null;
+}
+
+function ruleAnchor(outcome: Outcome, ruleId: string | undefined, index: number) {
+  const slug = (ruleId ?? "").toLowerCase().replace(/[^a-z0-9-]+/g, "-") || String(index);
+  return `${outcome}-${slug}`;
+}
+
+function sortByImpact(rules: ReportRule[]) {
+  const rank = (rule: ReportRule) => {
+    const index = IMPACT_ORDER.indexOf(rule.impact ?? "");
+    return index === -1 ? IMPACT_ORDER.length : index;
+  };
+  return [...rules].sort((a, b) => rank(a) - rank(b));
+}
+
+function logoDataUrl(logo: Buffer) {
+  const mime = logo[0] === 0x89 ? "image/png" : "image/jpeg";
+  return `data:${mime};base64,${logo.toString("base64")}`;
+}
+
+function renderCopyable(label: string, value: string, block: boolean) {
+  const content = block
+    ? `<pre><code>${escapeHtml(value)}</code></pre>`
+    : `<code>${escapeHtml(value)}</code>`;
+  return `
+      <div class="copyable${block ? " copyable-block" : ""}">
+        <span class="label">${label}</span>
+        ${content}
+        <button type="button" class="copy" data-copy="${escapeHtml(value)}" aria-label="Copy ${label}">Copy</button>
+      </div>`;
+}
+
+// Which of the audited viewports an element was found at, when the scan covered more than one
+function describeNodeViewports(node: Partial<AxeNodeResult>, audited?: ScanResult["viewports"]) {
+  if (!audited || audited.length < 2 || !node.viewports) return null;
+  if (node.viewports.length === audited.length) return "All viewports";
+  return `${node.viewports.map(viewport => VIEWPORT_LABELS[viewport]).join(", ")} only`;
+}
+
+function renderNode(node: Partial<AxeNodeResult>, index: number, viewports?: ScanResult["viewports"]) {
+  const selector = node.target?.length ? node.target.join(" ") : null;
+  const pageHref = safeHref(node.pageUrl);
+  const foundAt = describeNodeViewports(node, viewports);
+
+  return `
+    <li class="node">
+      <h4>Element ${index + 1}</h4>
+      ${pageHref ? `<p class="page">Page: <a href="${pageHref}">${escapeHtml(node.pageUrl)}</a></p>` : ""}
+      ${typeof node.step === "number" ? `<p class="page">Found at: <a href="#checkpoint-${node.step + 1}">checkpoint ${node.step + 1}</a></p>` : ""}
+      ${foundAt ? `<p class="page">Viewports: ${foundAt}</p>` : ""}
+      ${selector ? renderCopyable("Selector", selector, false) : ""}
+      ${node.html ? renderCopyable("HTML", node.html, true) : ""}
+      ${node.failureSummary ? `<pre class="summary">${escapeHtml(node.failureSummary)}</pre>` : ""}
+    </li>`;
+}
+
+function renderRule(rule: ReportRule, outcome: Outcome, index: number, viewports?: ScanResult["viewports"]) {
+  const anchor = ruleAnchor(outcome, rule.id, index);
+  const nodes = rule.nodes ?? [];
+  const wcag = (rule.tags ?? []).filter(tag => tag.startsWith("wcag")).map(tag => tag.toUpperCase());
+  const helpHref = safeHref(rule.helpUrl);
+  const impact = rule.impact
+    ? `<span class="impact" style="background:${IMPACT_COLORS[rule.impact] ?? IMPACT_COLORS.minor}">${escapeHtml(rule.impact)}</span>`
+    : "";
+
+  return `
+  <details class="rule" id="${anchor}"${outcome === "violation" ? " open" : ""}>
+    <summary>
+      ${impact}
+      <span class="rule-title">${escapeHtml(rule.help ?? rule.description ?? rule.id)}</span>
+      <span class="rule-meta">${escapeHtml(rule.id)} · ${nodes.length} element${nodes.length === 1 ? "" : "s"}</span>
+    </summary>
+    <div class="rule-body">
+      ${rule.description ? `<p>${escapeHtml(rule.description)}</p>` : ""}
+      <p><strong>WCAG criteria:</strong> ${wcag.length ? escapeHtml(wcag.join(", ")) : "Not specified"}</p>
+      ${helpHref ? `<p><strong>How to fix:</strong> <a href="${helpHref}">${helpHref}</a></p>` : ""}
+      ${outcome !== "pass" && nodes.length ? `<ol class="nodes">${nodes.map((node, nodeIndex) => renderNode(node, nodeIndex, viewports)).join("")}</ol>` : ""}
+      <p><a href="#top" class="back">Back to top</a></p>
+    </div>
+  </details>`;
+}
+
+function renderStyles(branding: ReportBranding) {
+  const { colors } = branding;
+  return `
+  :root {
+    --primary: ${colors.primary};
+    --secondary: ${colors.secondary};
+    --accent: ${colors.accent};
+    --text: ${colors.textPrimary};
+    --text-muted: ${colors.textSecondary};
+    --header-bg: ${colors.background};
+  }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 15px/1.5 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: var(--text); background: #F9FAFB; }
+  header { background: var(--header-bg); border-bottom: 4px solid var(--primary); padding: 24px 32px; }
+  header img { max-height: 64px; max-width: 200px; display: block; margin-bottom: 12px; }
+  header .company { color: var(--primary); font-size: 28px; margin: 0; }
+  header .subtitle { color: var(--secondary); margin: 4px 0 12px; }
+  header .contact { color: var(--secondary); font-size: 13px; }
+  .layout { display: flex; gap: 32px; max-width: 1200px; margin: 0 auto; padding: 24px 32px; }
+  nav { flex: 0 0 240px; position: sticky; top: 16px; align-self: flex-start; max-height: calc(100vh - 32px); overflow-y: auto; font-size: 14px; }
+  nav ul { list-style: none; padding-left: 12px; margin: 4px 0; }
+  nav > ul { padding-left: 0; }
+  nav a { color: var(--accent); text-decoration: none; }
+  nav a:hover, nav a:focus { text-decoration: underline; }
+  main { flex: 1; min-width: 0; }
+  h2 { color: var(--primary); border-bottom: 1px solid #E5E7EB; padding-bottom: 4px; margin-top: 32px; }
+  a { color: var(--accent); }
+  .error { border: 1px solid #DC2626; background: #FEF2F2; color: #991B1B; padding: 12px 16px; border-radius: 6px; }
+  .stats { display: grid; grid-template-columns: repeat(auto-fit, minmax(140px, 1fr)); gap: 12px; }
+  .stat { background: #fff; border: 1px solid #E5E7EB; border-radius: 6px; padding: 12px; }
+  .stat strong { display: block; font-size: 24px; }
+  .stat span { color: var(--text-muted); font-size: 13px; }
+  .toolbar { display: flex; gap: 8px; margin: 8px 0; }
+  button { font: inherit; font-size: 13px; border: 1px solid #D1D5DB; background: #fff; border-radius: 4px; padding: 2px 10px; cursor: pointer; }
+  button:hover, button:focus { border-color: var(--accent); }
+  .rule { background: #fff; border: 1px solid #E5E7EB; border-radius: 6px; margin: 8px 0; }
+  .rule:target { outline: 2px solid var(--accent); }
+  .rule summary { cursor: pointer; padding: 10px 14px; display: flex; flex-wrap: wrap; gap: 8px; align-items: baseline; }
+  .rule-title { font-weight: 600; }
+  .rule-meta { color: var(--text-muted); font-size: 13px; }
+  .rule-body { padding: 0 14px 12px; border-top: 1px solid #F3F4F6; }
+  .impact { color: #fff; border-radius: 999px; padding: 0 8px; font-size: 12px; text-transform: capitalize; }
+  .nodes { padding-left: 20px; }
+  .node h4 { margin: 12px 0 4px; font-size: 14px; }
+  .page { margin: 0 0 4px; font-size: 13px; word-break: break-all; }
+  .copyable { display: flex; gap: 8px; align-items: flex-start; margin: 4px 0; }
+  .copyable .label { flex: 0 0 60px; color: var(--text-muted); font-size: 13px; }
+  .copyable code { word-break: break-all; }
+  .copyable pre { flex: 1; min-width: 0; margin: 0; }
+  pre { background: #F3F4F6; border-radius: 4px; padding: 8px; overflow-x: auto; font-size: 13px; white-space: pre-wrap; word-break: break-word; }
+  .summary { background: #FFFBEB; }
+  table { border-collapse: collapse; width: 100%; background: #fff; }
+  .checkpoint { margin: 0 0 24px; background: #fff; border: 1px solid #E5E7EB; border-radius: 8px; padding: 12px; }
+  .checkpoint figcaption { display: flex; flex-direction: column; margin-bottom: 8px; }
+  .checkpoint img { max-width: 100%; border: 1px solid #E5E7EB; }
+  th, td { text-align: left; padding: 6px 10px; border-bottom: 1px solid #E5E7EB; font-size: 14px; word-break: break-all; }
+  footer { color: var(--text-muted); font-size: 13px; text-align: center; padding: 24px; }
+  @media (max-width: 800px) { .layout { flex-direction: column; } nav { position: static; max-height: none; } }
+  @media print { nav, .toolbar, .copy, .back { display: none; } .layout { display: block; } }`;
+}
+
+// Copy buttons, expand/collapse all, and opening a collapsed rule when it is linked to
+const SCRIPT = `
+  document.addEventListener("click", function (event) {
+    var button = event.target.closest && event.target.closest("button.copy");
+    if (!button) return;
+    var text = button.getAttribute("data-copy");
+    var done = function () {
+      button.textContent = "Copied";
+      setTimeout(function () { button.textContent = "Copy"; }, 1500);
+    };
+    if (navigator.clipboard && navigator.clipboard.writeText) {
+      navigator.clipboard.writeText(text).then(done, function () { fallbackCopy(text); done(); });
+    } else {
+      fallbackCopy(text);
+      done();
+    }
+  });
+  function fallbackCopy(text) {
+    var area = document.createElement("textarea");
+    area.value = text;
+    document.body.appendChild(area);
+    area.select();
+    try { document.execCommand("copy"); } catch (e) {}
+    document.body.removeChild(area);
+  }
+  function setAll(open) {
+    document.querySelectorAll("details.rule").forEach(function (details) { details.open = open; });
+  }
+  document.getElementById("expand-all").addEventListener("click", function () { setAll(true); });
+  document.getElementById("collapse-all").addEventListener("click", function () { setAll(false); });
+  function openTarget() {
+    var id = decodeURIComponent(location.hash.slice(1));
+    var target = id && document.getElementById(id);
+    if (target && target.tagName === "DETAILS") {
+      target.open = true;
+      target.scrollIntoView();
+    }
+  }
+  window.addEventListener("hashchange", openTarget);
+  openTarget();
+`;
+
+function renderNav(results: ScanResult) {
+  const sections = SECTIONS.map(section => {
+    const rules = sortByImpact(results[section.key] as ReportRule[]);
+    // Passed rules are many and uninteresting, so only the section is linked
+    const items = section.outcome === "pass" ? "" : rules
+      .map((rule, index) => `<li><a href="#${ruleAnchor(section.outcome, rule.id, index)}">${escapeHtml(rule.id)}</a></li>`)
+      .join("");
+    return `<li><a href="#${section.anchor}">${section.title} (${rules.length})</a>${items ? `<ul>${items}</ul>` : ""}</li>`;
+  }).join("");
+
+  return `
+  <nav aria-label="Report contents">
+    <ul>
+      <li><a href="#summary">Summary</a></li>
+      ${results.pages ? `<li><a href="#pages">Pages scanned (${results.pages.length})</a></li>` : ""}
+      ${results.viewports ? `<li><a href="#viewports">Viewports (${results.viewports.length})</a></li>` : ""}
+      ${results.keyboard ? `<li><a href="#keyboard">Keyboard navigation</a></li>` : ""}
+      ${results.steps ? `<li><a href="#checkpoints">Flow checkpoints (${results.steps.length})</a></li>` : ""}
+      ${sections}
+    </ul>
+  </nav>`;
+}
+
+function renderSummary(results: ScanResult) {
+  const violations = results.violations as ReportRule[];
+  const countImpact = (impact: string) => violations.filter(rule => rule.impact === impact).length;
+  const affected = violations.reduce((total, rule) => total + (rule.nodes?.length ?? 0), 0);
+
+  const stats = [
+    { label: "Violated rules", value: violations.length },
+    { label: "Affected elements", value: affected },
+    ...IMPACT_ORDER.map(impact => ({ label: `${impact[0].toUpperCase()}${impact.slice(1)}`, value: countImpact(impact) })),
+    { label: "Needs review", value: results.incomplete.length },
+    { label: "Passed rules", value: results.passes.length },
+  ];
+
+  return `
+  <section id="summary">
+    <h2>Summary</h2>
+    ${results.error ? `<p class="error" role="alert">${escapeHtml(results.error)}</p>` : ""}
+    <div class="stats">
+      ${stats.map(stat => `<div class="stat"><strong>${stat.value}</strong><span>${stat.label}</span></div>`).join("")}
+    </div>
+  </section>`;
+}
+
+function renderPages(results: ScanResult) {
+  if (!results.pages) return "";
+
+  const rows = results.pages.map(page => {
+    const href = safeHref(page.url);
+    const link = href ? `<a href="${href}">${escapeHtml(page.url)}</a>` : escapeHtml(page.url);
+    return `<tr><td>${link}</td><td>${page.error ? `Scan failed: ${escapeHtml(page.error)}` : page.violations}</td></tr>`;
+  }).join("");
+
+  return `
+  <section id="pages">
+    <h2>Pages scanned</h2>
+    <table>
+      <thead><tr><th scope="col">Page</th><th scope="col">Violated rules</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+  </section>`;
+}
+
+function renderViewports(results: ScanResult) {
+  if (!results.viewports) return "";
+
+  const { shared, byViewport } = summarizeViewportIssues(results.viewports, results.violations as ReportRule[]);
+  const rows = byViewport.map(summary => `
+        <tr><td>${escapeHtml(describeViewport(summary.viewport))}</td><td>${summary.elements}</td><td>${summary.specific}</td></tr>`).join("");
+
+  return `
+  <section id="viewports">
+    <h2>Viewports</h2>
+    ${results.viewports.length > 1 ? `<p>${shared} affected element${shared === 1 ? " fails" : "s fail"} at every viewport; the rest depend on the screen size.</p>` : ""}
+    <table>
+      <thead><tr><th scope="col">Viewport</th><th scope="col">Affected elements</th><th scope="col">Only at this viewport</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+  </section>`;
+}
+
+function renderKeyboard(results: ScanResult) {
+  if (!results.keyboard) return "";
+
+  const { focusOrder, completed, trapped } = results.keyboard;
+  const notes = [
+    trapped ? `<p class="error">Keyboard focus gets trapped; see the keyboard-trap violation for where.</p>` : "",
+    !completed && !trapped ? `<p>Tabbing stopped before getting round the whole page, so elements after the last stop weren't checked.</p>` : "",
+  ].join("");
+  const stops = focusOrder
+    .map(stop => `<li><code>${escapeHtml(stop.selector)}</code>${stop.indicator === false ? " <strong>(no visible focus)</strong>" : ""}</li>`)
+    .join("");
+
+  return `
+  <section id="keyboard">
+    <h2>Keyboard navigation</h2>
+    ${notes}
+    <p>${focusOrder.length} element${focusOrder.length === 1 ? " is" : "s are"} focused by pressing Tab from the top of the page, in this order:</p>
+    ${stops ? `<ol>${stops}</ol>` : ""}
+  </section>`;
+}
+
+// Screenshots of a flow's checkpoints as data URLs, by checkpoint index, so the report stays self-contained
+async function loadCheckpointScreenshots(results: ScanResult) {
+  const screenshots = new Map<number, string>();
+  const steps = results.steps ?? [];
+  for (let index = 0; index < steps.length; index++) {
+    const step = steps[index];
+    if (!step.screenshot) continue;
+    try {
+      const image = await readFile(path.join(process.cwd(), "reports", path.basename(step.screenshot)));
+      screenshots.set(index, `data:image/jpeg;base64,${image.toString("base64")}`);
+    } catch (error) {
+      console.error(`Error reading screenshot of checkpoint ${index + 1}:`, error);
+    }
+  }
+  return screenshots;
+}
+
+function renderCheckpoints(results: ScanResult, screenshots: Map<number, string>) {
+  if (!results.steps) return "";
+
+  const checkpoints = results.steps.map((step, index) => {
+    const href = safeHref(step.url);
+    const screenshot = screenshots.get(index);
+    return `
+    <figure class="checkpoint" id="checkpoint-${index + 1}">
+      <figcaption>
+        <strong>${index + 1}. ${escapeHtml(step.label)}</strong>
+        <span>${href ? `<a href="${href}">${escapeHtml(step.url)}</a>` : escapeHtml(step.url)} · ${step.violations} violated rule${step.violations === 1 ? "" : "s"}</span>
+      </figcaption>
+      ${screenshot ? `<img src="${screenshot}" alt="The page at checkpoint ${index + 1}, ${escapeHtml(step.label)}">` : ""}
+    </figure>`;
+  }).join("");
+
+  return `
+  <section id="checkpoints">
+    <h2>Flow checkpoints</h2>
+    ${checkpoints}
+  </section>`;
+}
+
+function renderSections(results: ScanResult) {
+  return SECTIONS.map(section => {
+    const rules = sortByImpact(results[section.key] as ReportRule[]);
+    const body = rules.length
+      ? rules.map((rule, index) => renderRule(rule, section.outcome, index, results.viewports)).join("")
+      : `<p>None.</p>`;
+    return `
+  <section id="${section.anchor}">
+    <h2>${section.title}</h2>
+    ${body}
+  </section>`;
+  }).join("");
+}
+
+/**
+ * Writes the HTML report to the reports directory and returns its path.
+ * Everything quoted from the scanned page is escaped so the report can't run the page's markup.
+ */
+export async function generateHtmlReport(
+  url: string,
+  results: ScanResult,
+  settings?: ReportSettings | null,
+  onProgress?: ScanProgressCallback
+): Promise<string> {
+  onProgress?.("generating-report", "Generating HTML report");
+
+  const branding = await loadReportBranding(settings);
+  const scanDate = new Date(results.scanDateTime ?? Date.now()).toLocaleString();
+  const contact = getContactLines(branding);
+  const screenshots = await loadCheckpointScreenshots(results);
+  const safeResults: ScanResult = {
+    ...results,
+    violations: results.violations ?? [],
+    incomplete: results.incomplete ?? [],
+    passes: results.passes ?? [],
+  };
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Accessibility Report for ${escapeHtml(url)}</title>
+<style>${renderStyles(branding)}
+</style>
+</head>
+<body>
+<header id="top">
+  ${branding.logo ? `<img src="${logoDataUrl(branding.logo)}" alt="${escapeHtml(branding.companyName)} logo">` : ""}
+  <h1 class="company">${escapeHtml(branding.companyName)}</h1>
+  <p class="subtitle">Web Accessibility Audit Report</p>
+  <p><strong>Website:</strong> ${escapeHtml(url)}<br><strong>Scan date:</strong> ${escapeHtml(scanDate)}</p>
+  ${contact.length ? `<p class="contact">${contact.map(escapeHtml).join(" · ")}</p>` : ""}
+</header>
+<div class="layout">
+  ${renderNav(safeResults)}
+  <main>
+    <div class="toolbar">
+      <button type="button" id="expand-all">Expand all</button>
+      <button type="button" id="collapse-all">Collapse all</button>
+    </div>
+    ${renderSummary(safeResults)}
+    ${renderPages(safeResults)}
+    ${renderViewports(safeResults)}
+    ${renderKeyboard(safeResults)}
+    ${renderCheckpoints(safeResults, screenshots)}
+    ${renderSections(safeResults)}
+  </main>
+</div>
+<footer>Generated by ${escapeHtml(branding.companyName)} on ${escapeHtml(new Date().toLocaleString())}</footer>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+
+  const reportsDir = path.join(process.cwd(), "reports");
+  await mkdir(reportsDir, { recursive: true });
+
+  // Random filename so reports can't be found by guessing
+  const reportPath = path.join(reportsDir, `scan_${randomUUID()}.html`);
+  await writeFile(reportPath, html, "utf8");
+  return reportPath;
+}
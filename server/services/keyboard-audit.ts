@@ -0,0 +1,443 @@
+/**
+ * Keyboard operability audit
+ * axe-core only inspects the DOM, so it can't tell whether a page works without a mouse. This drives the
+ * loaded page with Tab and Shift+Tab the way a keyboard user would, records where focus goes, and reports
+ * what it finds as axe-style rule results tagged with the WCAG criteria they test, so they show up in
+ * reports, comparisons and conformance reports next to the axe rules
+ */
+import type { ElementHandle, Page } from "puppeteer";
+import type { KeyboardAuditSummary } from "@shared/schema";
+
+// Most Tab presses per page; long pages are audited up to here and the rest is left unchecked
+const MAX_TAB_STOPS = 150;
+// Tab presses spent inside one iframe, whose own elements can't be followed from the page
+const MAX_FRAME_TABS = 30;
+// Wall-clock budget for the whole audit of one page
+const AUDIT_TIME_LIMIT = 30000;
+// Focused elements whose styles don't change get a screenshot comparison instead; each costs two screenshots
+const MAX_SCREENSHOT_CHECKS = 40;
+// Shift+Tab presses compared against the forward order, counted back from the last stop
+const MAX_REVERSE_STEPS = 30;
+
+// Installed into the page as a string: tsx rewrites named functions in code passed to page.evaluate with a
+// helper that only exists in Node. Styles are recorded before anything is focused, so a focused element's
+// styles can be compared with its own unfocused ones, including :focus-within styles on its parent
+const PAGE_HELPERS = `(() => {
+  if (window.__accessscanKeyboard) return;
+
+  var INTERACTIVE = 'a[href], area[href], button, input:not([type="hidden"]), select, textarea, summary, iframe, ' +
+    '[contenteditable=""], [contenteditable="true"], [onclick], [role="button"], [role="link"], [role="checkbox"], ' +
+    '[role="switch"], [role="tab"], [role="menuitem"], [role="option"], [role="radio"], [role="slider"], ' +
+    '[role="combobox"], [role="textbox"], [role="spinbutton"], [role="treeitem"]';
+  // Widgets whose items are moved between with arrow keys, so only one of them is in the tab order
+  var COMPOSITE = '[role="tablist"], [role="menu"], [role="menubar"], [role="listbox"], [role="radiogroup"], ' +
+    '[role="tree"], [role="treegrid"], [role="grid"], [role="toolbar"]';
+  var STYLE_PROPS = ['outline-style', 'outline-width', 'outline-color', 'outline-offset', 'box-shadow',
+    'border-top-color', 'border-right-color', 'border-bottom-color', 'border-left-color', 'border-top-width',
+    'border-bottom-width', 'background-color', 'background-image', 'color', 'text-decoration-line', 'transform'];
+
+  var escapeId = function (id) { return window.CSS && CSS.escape ? CSS.escape(id) : id; };
+
+  var cssPath = function (el) {
+    var path = [];
+    while (el && el.nodeType === 1 && el !== document.documentElement) {
+      if (el.id && document.querySelectorAll('#' + escapeId(el.id)).length === 1) {
+        path.unshift('#' + escapeId(el.id));
+        break;
+      }
+      var part = el.tagName.toLowerCase();
+      var parent = el.parentElement;
+      if (parent) {
+        var same = Array.prototype.filter.call(parent.children, function (child) { return child.tagName === el.tagName; });
+        if (same.length > 1) part += ':nth-of-type(' + (same.indexOf(el) + 1) + ')';
+      }
+      path.unshift(part);
+      el = parent;
+    }
+    return path.join(' > ');
+  };
+
+  var snippet = function (el) {
+    var html = el.outerHTML;
+    return html.length > 250 ? html.slice(0, 250) + '...' : html;
+  };
+
+  var snapshot = function (el) {
+    return [[el, null], [el, '::before'], [el, '::after'], [el.parentElement, null]]
+      .filter(function (pair) { return pair[0]; })
+      .map(function (pair) {
+        var style = getComputedStyle(pair[0], pair[1]);
+        return STYLE_PROPS.map(function (prop) { return style.getPropertyValue(prop); }).join('|');
+      })
+      .join('||');
+  };
+
+  // On screen or scrolled to, but not hidden, collapsed or parked off the page like a skip link
+  var isShown = function (el) {
+    var rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return false;
+    var style = getComputedStyle(el);
+    if (style.visibility === 'hidden' || style.opacity === '0') return false;
+    return rect.right + window.scrollX > 0 && rect.bottom + window.scrollY > 0;
+  };
+
+  var isDisabled = function (el) {
+    return el.matches(':disabled') || el.closest('[aria-disabled="true"], [inert]') !== null;
+  };
+
+  var describe = function (el) { return { selector: cssPath(el), html: snippet(el) }; };
+
+  var elements = Array.prototype.slice.call(document.querySelectorAll(INTERACTIVE + ', [tabindex]'))
+    .filter(function (el) { return !isDisabled(el) && isShown(el); });
+  var baselines = new Map();
+  elements.forEach(function (el) { baselines.set(el, snapshot(el)); });
+  var reached = new Set();
+
+  var activeElement = function () {
+    var el = document.activeElement;
+    while (el && el.shadowRoot && el.shadowRoot.activeElement) el = el.shadowRoot.activeElement;
+    return el && el !== document.body && el !== document.documentElement ? el : null;
+  };
+
+  window.__accessscanKeyboard = {
+    activeElement: activeElement,
+    reset: function () {
+      var el = activeElement();
+      if (el && el.blur) el.blur();
+      window.scrollTo(0, 0);
+    },
+    readFocus: function () {
+      var el = activeElement();
+      if (!el) return null;
+      reached.add(el);
+      var baseline = baselines.get(el);
+      var focus = describe(el);
+      focus.frame = el.tagName === 'IFRAME';
+      focus.shown = isShown(el);
+      focus.styleChanged = baseline === undefined ? null : baseline !== snapshot(el);
+      return focus;
+    },
+    positiveTabindex: function () {
+      return elements.filter(function (el) { return el.tabIndex > 0; }).map(describe);
+    },
+    // Interactive elements Tab never reached. Arrow-key widget items and duplicates of a reached link are left out
+    unreachable: function () {
+      var reachedHrefs = new Set();
+      reached.forEach(function (el) { if (el.href) reachedHrefs.add(el.href); });
+      return elements
+        .filter(function (el) {
+          return el.matches(INTERACTIVE) && !reached.has(el) && !el.closest(COMPOSITE) &&
+            !(el.href && reachedHrefs.has(el.href));
+        })
+        .map(function (el) {
+          var found = describe(el);
+          found.focusable = el.tabIndex >= 0;
+          return found;
+        });
+    }
+  };
+})()`;
+
+interface FocusedElement {
+  selector: string;
+  html: string;
+  frame: boolean;
+  shown: boolean;
+  // Whether the element's or its parent's styles differ from before anything was focused; null for elements added later
+  styleChanged: boolean | null;
+}
+
+interface FoundElement {
+  selector: string;
+  html: string;
+}
+
+export interface KeyboardRuleResult {
+  id: string;
+  impact: string;
+  tags: string[];
+  description: string;
+  help: string;
+  helpUrl: string;
+  nodes: { target: string[]; html: string; impact: string | null; failureSummary?: string; any: []; all: []; none: [] }[];
+}
+
+export interface KeyboardAuditResult {
+  violations: KeyboardRuleResult[];
+  passes: KeyboardRuleResult[];
+  incomplete: KeyboardRuleResult[];
+  summary: KeyboardAuditSummary;
+}
+
+const RULES = {
+  "keyboard-reachable": {
+    impact: "serious",
+    tags: ["cat.keyboard", "wcag2a", "wcag211"],
+    description: "Ensures every interactive element can be reached by pressing Tab",
+    help: "Interactive elements must be reachable with the keyboard",
+    helpUrl: "https://www.w3.org/WAI/WCAG21/Understanding/keyboard.html",
+  },
+  "keyboard-trap": {
+    impact: "critical",
+    tags: ["cat.keyboard", "wcag2a", "wcag212"],
+    description: "Ensures keyboard focus can always be moved away from any part of the page",
+    help: "Keyboard focus must not be trapped",
+    helpUrl: "https://www.w3.org/WAI/WCAG21/Understanding/no-keyboard-trap.html",
+  },
+  "keyboard-focus-order": {
+    impact: "moderate",
+    tags: ["cat.keyboard", "wcag2a", "wcag243"],
+    description: "Ensures Tab and Shift+Tab move through the page in a consistent order that follows its structure",
+    help: "Focus order must be predictable",
+    helpUrl: "https://www.w3.org/WAI/WCAG21/Understanding/focus-order.html",
+  },
+  "keyboard-focus-visible": {
+    impact: "serious",
+    tags: ["cat.keyboard", "wcag2aa", "wcag247"],
+    description: "Ensures elements show a visible change when they receive keyboard focus",
+    help: "Focused elements must have a visible focus indicator",
+    helpUrl: "https://www.w3.org/WAI/WCAG21/Understanding/focus-visible.html",
+  },
+};
+
+type KeyboardRuleId = keyof typeof RULES;
+
+const toNode = (element: FoundElement, failureSummary?: string, impact: string | null = null) => ({
+  target: [element.selector],
+  html: element.html,
+  impact,
+  ...(failureSummary ? { failureSummary } : {}),
+  any: [] as [],
+  all: [] as [],
+  none: [] as [],
+});
+
+async function readFocus(page: Page): Promise<FocusedElement | null> {
+  return page.evaluate(() => (window as any).__accessscanKeyboard.readFocus());
+}
+
+/**
+ * Compares screenshots of the focused element and the area around it with and without focus, for
+ * indicators drawn in ways computed styles don't show. Focus is put back so tabbing carries on from it
+ */
+async function changesWhenBlurred(page: Page): Promise<boolean | null> {
+  const handle = await page.evaluateHandle(() => (window as any).__accessscanKeyboard.activeElement());
+  const element = handle.asElement() as ElementHandle<HTMLElement> | null;
+  if (!element) return null;
+
+  try {
+    const box = await element.boundingBox();
+    if (!box || box.width === 0 || box.height === 0) return null;
+    const padding = 6;
+    const clip = {
+      x: Math.max(0, box.x - padding),
+      y: Math.max(0, box.y - padding),
+      width: box.width + padding * 2,
+      height: box.height + padding * 2,
+    };
+
+    const focused = await page.screenshot({ clip, type: "png" });
+    await element.evaluate(el => el.blur());
+    const blurred = await page.screenshot({ clip, type: "png" });
+    await element.evaluate(el => el.focus({ preventScroll: true }));
+    return !Buffer.from(focused).equals(Buffer.from(blurred));
+  } finally {
+    await handle.dispose();
+  }
+}
+
+/**
+ * Focus went round the same few elements instead of on through the page. Tries Escape, which is how
+ * modal dialogs let go of focus, then Shift+Tab; true when focus still can't get out
+ */
+async function isTrapped(page: Page, cycle: FocusedElement[]): Promise<{ trapped: boolean; escapedWith?: string }> {
+  const inCycle = new Set(cycle.map(stop => stop.selector));
+  const escaped = async () => {
+    const focus = await readFocus(page);
+    return !focus || !inCycle.has(focus.selector);
+  };
+
+  await page.keyboard.press("Escape");
+  await page.keyboard.press("Tab");
+  if (await escaped()) return { trapped: false, escapedWith: "Escape" };
+
+  for (let index = 0; index <= cycle.length; index++) {
+    await page.keyboard.down("Shift");
+    await page.keyboard.press("Tab");
+    await page.keyboard.up("Shift");
+    if (await escaped()) return { trapped: false, escapedWith: "Shift+Tab" };
+  }
+  return { trapped: true };
+}
+
+/**
+ * Tabs through the page from the top, then checks the stops it found. Run after axe-core, since
+ * focusing elements can open menus and change the page. Focus order and unreachable elements are
+ * only judged when tabbing got all the way round the page
+ */
+export async function auditKeyboard(page: Page): Promise<KeyboardAuditResult> {
+  const deadline = Date.now() + AUDIT_TIME_LIMIT;
+  await page.evaluate(PAGE_HELPERS);
+  await page.evaluate(() => (window as any).__accessscanKeyboard.reset());
+
+  const failures: Record<KeyboardRuleId, ReturnType<typeof toNode>[]> = {
+    "keyboard-reachable": [],
+    "keyboard-trap": [],
+    "keyboard-focus-order": [],
+    "keyboard-focus-visible": [],
+  };
+  const passed: Record<KeyboardRuleId, ReturnType<typeof toNode>[]> = {
+    "keyboard-reachable": [],
+    "keyboard-trap": [],
+    "keyboard-focus-order": [],
+    "keyboard-focus-visible": [],
+  };
+  const review: Partial<Record<KeyboardRuleId, ReturnType<typeof toNode>[]>> = {};
+  const needsReview = (rule: KeyboardRuleId, node: ReturnType<typeof toNode>) => {
+    (review[rule] ??= []).push(node);
+  };
+
+  const stops: FocusedElement[] = [];
+  const indicators: (boolean | null)[] = [];
+  const positions = new Map<string, number>();
+  let completed = false;
+  let trapped = false;
+  let frameTabs = 0;
+  let screenshotChecks = 0;
+
+  while (stops.length < MAX_TAB_STOPS && Date.now() < deadline) {
+    await page.keyboard.press("Tab");
+    const focus = await readFocus(page);
+
+    // Focus left the page, so the next Tab would start again from the top
+    if (!focus) {
+      completed = true;
+      break;
+    }
+
+    const previous = positions.get(focus.selector);
+    if (previous !== undefined) {
+      if (previous === 0) {
+        completed = true;
+        break;
+      }
+      // Tabbing through a frame's own elements keeps the frame focused in this document
+      if (focus.frame && previous === stops.length - 1 && frameTabs < MAX_FRAME_TABS) {
+        frameTabs++;
+        continue;
+      }
+      if (focus.frame && previous === stops.length - 1) {
+        needsReview("keyboard-trap", toNode(focus,
+          `Tab was pressed ${MAX_FRAME_TABS} times without leaving this frame; check that focus can move out of it`));
+        break;
+      }
+
+      const cycle = stops.slice(previous);
+      const outcome = await isTrapped(page, cycle);
+      if (outcome.trapped) {
+        trapped = true;
+        cycle.forEach(stop => failures["keyboard-trap"].push(toNode(stop,
+          `Focus keeps cycling through ${cycle.length} element${cycle.length === 1 ? "" : "s"} starting at ${cycle[0].selector}; neither Tab, Shift+Tab nor Escape moves it out`,
+          RULES["keyboard-trap"].impact)));
+      } else {
+        needsReview("keyboard-trap", toNode(cycle[0],
+          `Focus stays within ${cycle.length} element${cycle.length === 1 ? "" : "s"} starting here until ${outcome.escapedWith} is pressed; check this is a dialog that is meant to hold focus`));
+      }
+      break;
+    }
+
+    positions.set(focus.selector, stops.length);
+    stops.push(focus);
+
+    // Whatever is in a frame draws its own focus styles, which can't be checked from the page
+    let indicator: boolean | null = null;
+    if (focus.frame) {
+      indicator = null;
+    } else if (!focus.shown) {
+      indicator = false;
+      failures["keyboard-focus-visible"].push(toNode(focus,
+        "Receives focus while hidden, collapsed or off screen, so keyboard users can't see where focus is",
+        RULES["keyboard-focus-visible"].impact));
+    } else if (focus.styleChanged) {
+      indicator = true;
+    } else if (screenshotChecks < MAX_SCREENSHOT_CHECKS) {
+      screenshotChecks++;
+      indicator = await changesWhenBlurred(page);
+      if (indicator === false) {
+        failures["keyboard-focus-visible"].push(toNode(focus,
+          "Looks the same focused and unfocused: no outline, border, background or other change shows it has focus",
+          RULES["keyboard-focus-visible"].impact));
+      }
+    }
+    if (indicator) {
+      passed["keyboard-focus-visible"].push(toNode(focus));
+    } else if (indicator === null && !focus.frame && focus.shown) {
+      needsReview("keyboard-focus-visible", toNode(focus, "Whether focus is visible here wasn't checked; check it by tabbing to it"));
+    }
+    indicators.push(indicator);
+  }
+
+  if (!trapped && stops.length > 0) {
+    passed["keyboard-trap"].push(...stops.map(stop => toNode(stop)));
+  }
+
+  const positive: FoundElement[] = await page.evaluate(() => (window as any).__accessscanKeyboard.positiveTabindex());
+  positive.forEach(element => failures["keyboard-focus-order"].push(toNode(element,
+    "Has a tabindex above 0, which moves it ahead of the page's own order for keyboard users",
+    RULES["keyboard-focus-order"].impact)));
+
+  if (completed) {
+    const unreachable: (FoundElement & { focusable: boolean })[] =
+      await page.evaluate(() => (window as any).__accessscanKeyboard.unreachable());
+    unreachable.forEach(element => failures["keyboard-reachable"].push(toNode(element,
+      element.focusable
+        ? "Can be focused but was never reached by pressing Tab through the page"
+        : "Looks interactive but can't receive keyboard focus; use a native control or add tabindex=\"0\" and key handlers",
+      RULES["keyboard-reachable"].impact)));
+    passed["keyboard-reachable"].push(...stops.map(stop => toNode(stop)));
+
+    // Shift+Tab from the last stop should retrace the forward order exactly
+    const last = stops[stops.length - 1];
+    const expected = stops.slice(-MAX_REVERSE_STEPS - 1, -1).reverse();
+    const focusedLast = last !== undefined && await page.evaluate((selector: string) => {
+      const element = document.querySelector<HTMLElement>(selector);
+      element?.focus({ preventScroll: true });
+      return document.activeElement === element;
+    }, last.selector);
+    for (const stop of focusedLast ? expected : []) {
+      if (Date.now() >= deadline) break;
+      await page.keyboard.down("Shift");
+      await page.keyboard.press("Tab");
+      await page.keyboard.up("Shift");
+      const focus = await readFocus(page);
+      if (focus?.selector !== stop.selector) {
+        needsReview("keyboard-focus-order", toNode(stop,
+          `Shift+Tab moved focus to ${focus ? focus.selector : "outside the page"} instead of back to this element, which Tab reached from the other side`));
+        break;
+      }
+    }
+    if (focusedLast && !review["keyboard-focus-order"]) {
+      passed["keyboard-focus-order"].push(...stops.map(stop => toNode(stop)));
+    }
+  } else if (!trapped && !review["keyboard-trap"]) {
+    needsReview("keyboard-reachable", toNode({ selector: "html", html: "<html>" },
+      `Stopped after ${stops.length} Tab stops without getting round the page; elements after the last one weren't checked`));
+  }
+
+  const ruleResult = (id: KeyboardRuleId, nodes: ReturnType<typeof toNode>[]): KeyboardRuleResult => ({ id, ...RULES[id], nodes });
+  const ruleIds = Object.keys(RULES) as KeyboardRuleId[];
+
+  return {
+    violations: ruleIds.filter(id => failures[id].length > 0).map(id => ruleResult(id, failures[id])),
+    // A rule that found nothing wrong but checked nothing either is left out rather than passed
+    passes: ruleIds
+      .filter(id => failures[id].length === 0 && !review[id] && passed[id].length > 0)
+      .map(id => ruleResult(id, passed[id])),
+    incomplete: ruleIds.filter(id => review[id]).map(id => ruleResult(id, review[id]!)),
+    summary: {
+      focusOrder: stops.map((stop, index) => ({ selector: stop.selector, indicator: indicators[index] ?? null })),
+      completed,
+      trapped,
+    },
+  };
+}
@@ -2,15 +2,67 @@
  * Simplified Lighthouse integration using the CLI approach
  * This is more reliable in restricted environments like Replit
  */
-import { exec } from 'child_process';
+import { spawn } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
-import { promisify } from 'util';
+import { randomUUID } from 'crypto';
 import PDFDocument from 'pdfkit';
 import { Writable } from 'stream';
 import { mkdir } from 'fs/promises';
+import type { ImpactCounts, ReportSettings, ResultSummary, ScanAuth, ScanProgressCallback } from '@shared/schema';
+import {
+  loadReportBranding,
+  drawContactBlock,
+  drawFooters,
+  drawLogo,
+  drawPageBackground,
+} from './report-branding';
+import { authenticatedRequestHeaders } from './page-auth';
+import { launchBrowser } from './scanner';
 
-const execPromise = promisify(exec);
+/**
+ * Runs a command in its own process group so aborting it kills
+ * the whole process tree, including the Chrome instance Lighthouse launches.
+ * Arguments are passed as they are, without a shell, so URLs can't inject commands
+ */
+function runCommand(command: string, args: string[], signal?: AbortSignal): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Lighthouse scan was aborted'));
+      return;
+    }
+
+    const child = spawn(command, args, { detached: true });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+
+    const killTree = () => {
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch (killError) {
+        console.error('Error stopping Lighthouse process:', killError);
+      }
+    };
+    signal?.addEventListener('abort', killTree, { once: true });
+
+    child.on('error', error => {
+      signal?.removeEventListener('abort', killTree);
+      reject(error);
+    });
+    child.on('close', code => {
+      signal?.removeEventListener('abort', killTree);
+      if (signal?.aborted) {
+        reject(new Error('Lighthouse scan was aborted'));
+      } else if (code !== 0) {
+        reject(new Error(`Command failed with exit code ${code}: ${stderr}`));
+      } else {
+        resolve({ stdout, stderr });
+      }
+    });
+  });
+}
 
 // Interface for scan results
 export interface LighthouseScanResult {
@@ -25,15 +77,24 @@ export interface LighthouseScanResult {
  * Run a Lighthouse scan on the specified URL using the CLI
  * 
  * @param url URL to scan
+ * @param onProgress Optional callback notified as the scan moves through its phases
+ * @param signal Optional signal that stops the Lighthouse process when aborted
+ * @param auth Optional credentials; Lighthouse can only send them as headers on every request it makes
  * @returns Promise with the scan result
  */
-export async function runLighthouseScan(url: string): Promise<LighthouseScanResult> {
+export async function runLighthouseScan(
+  url: string,
+  onProgress?: ScanProgressCallback,
+  signal?: AbortSignal,
+  auth?: ScanAuth
+): Promise<LighthouseScanResult> {
   // Ensure URL has a protocol
   if (!url.startsWith('http://') && !url.startsWith('https://')) {
     url = 'https://' + url;
   }
 
   console.log(`Starting Lighthouse CLI scan for: ${url}`);
+  let headersPath: string | undefined;
   
   try {
     // Create directory for temporary files
@@ -44,11 +105,36 @@ export async function runLighthouseScan(url: string): Promise<LighthouseScanResu
     const timestamp = Date.now();
     const jsonOutputPath = path.join(tempDir, `lighthouse_${timestamp}.json`);
     
+    // Credentials go through a file only the server can read, so they never show up in the
+    // command line or the log
+    const headersArgs: string[] = [];
+    if (auth) {
+      onProgress?.('fetching', 'Signing in');
+      headersPath = path.join(tempDir, `lighthouse_headers_${randomUUID()}.json`);
+      fs.writeFileSync(headersPath, JSON.stringify(await authenticatedRequestHeaders(url, auth, launchBrowser)), { mode: 0o600 });
+      headersArgs.push(`--extra-headers=${headersPath}`);
+    }
+    
+    // Lighthouse would read a URL starting with a dash as one of its options
+    if (url.startsWith('-')) {
+      throw new Error(`Not a URL Lighthouse can scan: ${url}`);
+    }
+    
     // Run Lighthouse CLI
-    const cmd = `npx lighthouse "${url}" --output=json --output-path="${jsonOutputPath}" --chrome-flags="--headless --disable-gpu --no-sandbox" --only-categories=accessibility --quiet`;
+    const args = [
+      'lighthouse',
+      url,
+      '--output=json',
+      `--output-path=${jsonOutputPath}`,
+      '--chrome-flags=--headless --disable-gpu --no-sandbox',
+      '--only-categories=accessibility',
+      '--quiet',
+      ...headersArgs,
+    ];
     
-    console.log(`Executing Lighthouse CLI: ${cmd}`);
-    const { stdout, stderr } = await execPromise(cmd);
+    console.log(`Executing Lighthouse CLI: npx ${args.join(' ')}`);
+    onProgress?.('running-axe', 'Lighthouse is loading and auditing the page');
+    const { stdout, stderr } = await runCommand('npx', args, signal);
     
     if (stderr && !stderr.includes('DevTools listening')) {
       console.error('Lighthouse CLI stderr:', stderr);
@@ -61,6 +147,8 @@ export async function runLighthouseScan(url: string): Promise<LighthouseScanResu
     
     // Read and parse the JSON result
     const jsonResult = JSON.parse(fs.readFileSync(jsonOutputPath, 'utf8'));
+    // Lighthouse echoes its settings into the report, including any extra headers
+    delete jsonResult.configSettings?.extraHeaders;
     
     console.log('Lighthouse scan completed successfully');
     
@@ -79,67 +167,128 @@ export async function runLighthouseScan(url: string): Promise<LighthouseScanResu
       scanDateTime: new Date().toISOString(),
       error: error instanceof Error ? error.message : String(error)
     };
+  } finally {
+    if (headersPath) {
+      fs.rmSync(headersPath, { force: true });
+    }
   }
 }
 
+// Severity of a failing audit as shown in the PDF report; unscored failures count as critical
+function auditImpact(score: number | null): keyof ImpactCounts {
+  if (score === null || score === 0) return 'critical';
+  if (score <= 0.33) return 'serious';
+  if (score <= 0.66) return 'moderate';
+  return 'minor';
+}
+
+/**
+ * Headline numbers of a Lighthouse run in the same shape as axe scans use,
+ * counting the elements listed by each failing audit
+ */
+export function summarizeLighthouseResult(scanResult: LighthouseScanResult): ResultSummary {
+  const violations: ImpactCounts = { critical: 0, serious: 0, moderate: 0, minor: 0, total: 0 };
+  const report = scanResult.reportJson;
+  if (!report || scanResult.error) {
+    return { score: null, violations };
+  }
+
+  (report.categories.accessibility.auditRefs || []).forEach((ref: { id: string }) => {
+    const audit = report.audits[ref.id];
+    if (!audit || audit.score === undefined || audit.score === 1 || audit.scoreDisplayMode === 'notApplicable' || audit.scoreDisplayMode === 'manual') {
+      return;
+    }
+    const elements = Math.max(audit.details?.items?.length ?? 0, 1);
+    violations[auditImpact(audit.score)] += elements;
+    violations.total += elements;
+  });
+
+  const score = report.categories.accessibility.score;
+  return { score: typeof score === 'number' ? Math.round(score * 100) : null, violations };
+}
+
 /**
  * Generate a PDF report from the Lighthouse results
  * 
  * @param scanResult The Lighthouse scan result
+ * @param settings Report branding of the user who requested the scan
+ * @param onProgress Optional callback notified when report generation starts
  * @returns Path to the generated PDF file
  */
-export async function generateLighthouseReport(scanResult: LighthouseScanResult): Promise<string> {
+export async function generateLighthouseReport(
+  scanResult: LighthouseScanResult,
+  settings?: ReportSettings | null,
+  onProgress?: ScanProgressCallback
+): Promise<string> {
+  onProgress?.('generating-report', 'Generating PDF report');
+
+  const branding = await loadReportBranding(settings);
+  const { colors } = branding;
+
   const reportsDir = path.join(process.cwd(), 'reports');
   
   // Ensure reports directory exists
   await mkdir(reportsDir, { recursive: true });
   
-  const reportPath = path.join(reportsDir, `lighthouse_scan_${Date.now()}.pdf`);
-  const doc = new PDFDocument({ margin: 50, size: 'A4' });
+  const reportPath = path.join(reportsDir, `lighthouse_scan_${randomUUID()}.pdf`);
+  // Pages are buffered so footers can be added once the page count is known
+  const doc = new PDFDocument({ margin: 50, size: 'A4', bufferPages: true, info: { Author: branding.companyName } });
   
-  doc.pipe(fs.createWriteStream(reportPath));
+  const writeStream = fs.createWriteStream(reportPath);
+  doc.pipe(writeStream);
+
+  // Adds footers, ends the document and waits for it to be written
+  const finishReport = async () => {
+    drawFooters(doc, branding);
+    doc.end();
+    await new Promise((resolve) => writeStream.on('finish', resolve));
+    return reportPath;
+  };
   
   // Helper functions for consistent styling
   const addHeading = (text: string, options = {}) => {
     doc.fontSize(24)
-       .fillColor('#1E40AF') // Blue heading color
+       .fillColor(colors.primary)
        .text(text, { underline: false, ...options });
     doc.moveDown();
   };
   
   const addSubheading = (text: string, options = {}) => {
     doc.fontSize(18)
-       .fillColor('#1F2937') // Dark gray text
+       .fillColor(colors.textPrimary)
        .text(text, { ...options });
     doc.moveDown();
   };
   
   const addParagraph = (text: string, options = {}) => {
     doc.fontSize(12)
-       .fillColor('#374151') // Gray text
+       .fillColor(colors.textSecondary)
        .text(text, { ...options });
     doc.moveDown(0.5);
   };
 
   try {
     // Cover page
+    drawPageBackground(doc, branding);
+    drawLogo(doc, branding);
+
     doc.fontSize(32)
-       .fillColor('#2563EB')
-       .text('Lighthouse', { align: 'center' });
+       .fillColor(colors.primary)
+       .text(branding.companyName, { align: 'center' });
        
     doc.fontSize(16)
-       .fillColor('#6B7280')
-       .text('Accessibility Audit Report', { align: 'center' });
+       .fillColor(colors.secondary)
+       .text('Lighthouse Accessibility Audit Report', { align: 'center' });
        
     doc.moveDown(2);
     
     // URL and date information
     doc.fontSize(14)
-       .fillColor('#000000')
+       .fillColor(colors.textPrimary)
        .text(`Website: ${scanResult.url}`, { align: 'center' });
     
     doc.fontSize(12)
-       .fillColor('#6B7280')
+       .fillColor(colors.secondary)
        .text(`Scan Date: ${new Date(scanResult.scanDateTime).toLocaleString()}`, { align: 'center' });
   
     // If there was an error, show it
@@ -159,15 +308,17 @@ export async function generateLighthouseReport(scanResult: LighthouseScanResult)
          
       doc.moveDown(0.5);
       doc.fontSize(12)
-         .fillColor('#6B7280')
+         .fillColor(colors.secondary)
          .text('Try scanning the website in a different environment or contact support for assistance.', { 
            align: 'center',
            width: 400
          });
          
+      doc.moveDown(2);
+      drawContactBlock(doc, branding);
+
       // Finalize and save PDF
-      doc.end();
-      return reportPath;
+      return await finishReport();
     }
 
     // Executive Summary page
@@ -236,13 +387,13 @@ export async function generateLighthouseReport(scanResult: LighthouseScanResult)
           if (Array.isArray(audits) && audits.length > 0) {
             const groupName = group.charAt(0).toUpperCase() + group.slice(1).replace('-', ' ');
             doc.fontSize(14)
-               .fillColor('#000000')
+               .fillColor(colors.textPrimary)
                .text(`${groupName} Issues: ${audits.length}`, { continued: false });
                
             // Show top 3 issues from this group
             audits.slice(0, 3).forEach(audit => {
               doc.fontSize(12)
-                 .fillColor('#4B5563')
+                 .fillColor(colors.textSecondary)
                  .text(`• ${audit.title}`, { 
                    indent: 20,
                    continued: false 
@@ -251,7 +402,7 @@ export async function generateLighthouseReport(scanResult: LighthouseScanResult)
             
             if (audits.length > 3) {
               doc.fontSize(10)
-                 .fillColor('#6B7280')
+                 .fillColor(colors.secondary)
                  .text(`...and ${audits.length - 3} more ${groupName.toLowerCase()} issues.`, {
                    indent: 20,
                    continued: false
@@ -302,14 +453,14 @@ export async function generateLighthouseReport(scanResult: LighthouseScanResult)
           // Issue description
           doc.moveDown(0.5);
           doc.fontSize(12)
-             .fillColor('#4B5563')
+             .fillColor(colors.textSecondary)
              .text(audit.description);
           
           // Failure details if available
           if (audit.details && audit.details.items && audit.details.items.length > 0) {
             doc.moveDown(0.5);
             doc.fontSize(12)
-               .fillColor('#000000')
+               .fillColor(colors.textPrimary)
                .text('Examples:');
             
             // Show up to 3 examples
@@ -332,14 +483,14 @@ export async function generateLighthouseReport(scanResult: LighthouseScanResult)
               }
               
               doc.fontSize(11)
-                 .fillColor('#4B5563')
+                 .fillColor(colors.textSecondary)
                  .text(`Example ${itemIndex + 1}: ${itemText}`, { indent: 20 });
             });
             
             // Note if there are more examples
             if (audit.details.items.length > 3) {
               doc.fontSize(10)
-                 .fillColor('#6B7280')
+                 .fillColor(colors.secondary)
                  .text(`...and ${audit.details.items.length - 3} more examples.`, { indent: 20 });
             }
           }
@@ -347,11 +498,11 @@ export async function generateLighthouseReport(scanResult: LighthouseScanResult)
           // How to fix
           doc.moveDown(0.5);
           doc.fontSize(12)
-             .fillColor('#000000')
+             .fillColor(colors.textPrimary)
              .text('How to fix:');
           
           doc.fontSize(12)
-             .fillColor('#4B5563')
+             .fillColor(colors.textSecondary)
              .text(audit.helpText || 'Follow WCAG guidelines to address this issue.', { indent: 20 });
           
           doc.moveDown(1);
@@ -405,9 +556,11 @@ export async function generateLighthouseReport(scanResult: LighthouseScanResult)
     addParagraph('WebAIM: https://webaim.org/');
     addParagraph('A11Y Project: https://www.a11yproject.com/');
     
+    doc.moveDown(2);
+    drawContactBlock(doc, branding);
+    
     // Finalize PDF
-    doc.end();
-    return reportPath;
+    return await finishReport();
   } catch (error) {
     console.error('Error creating Lighthouse report:', error);
     
@@ -416,7 +569,6 @@ export async function generateLighthouseReport(scanResult: LighthouseScanResult)
     addHeading('Error Creating Report', { align: 'left' });
     addParagraph(`An error occurred while generating this report: ${error instanceof Error ? error.message : String(error)}`);
     
-    doc.end();
-    return reportPath;
+    return finishReport();
   }
 }
\ No newline at end of file
@@ -2,6 +2,7 @@ import * as lighthouse from 'lighthouse';
 import * as chromeLauncher from 'chrome-launcher';
 import * as fs from 'fs';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 import * as util from 'util';
 import PDFDocument from 'pdfkit';
 import { Writable } from 'stream';
@@ -79,7 +80,7 @@ export async function generateLighthouseReport(scanResult: LighthouseScanResult)
   // Ensure reports directory exists
   await mkdir(reportsDir, { recursive: true });
   
-  const reportPath = path.join(reportsDir, `lighthouse_scan_${Date.now()}.pdf`);
+  const reportPath = path.join(reportsDir, `lighthouse_scan_${randomUUID()}.pdf`);
   const doc = new PDFDocument({ margin: 50, size: 'A4' });
   
   // Use a writable stream to create the PDF
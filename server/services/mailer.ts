@@ -0,0 +1,259 @@
+/**
+ * Minimal SMTP client for notification emails
+ * Speaks SMTP with optional STARTTLS or implicit TLS and AUTH PLAIN, configured through
+ * SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_REQUIRE_TLS, SMTP_USER, SMTP_PASSWORD and SMTP_FROM
+ */
+import net from "net";
+import tls from "tls";
+import os from "os";
+import { randomUUID } from "crypto";
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS from the first byte, usually port 465
+  requireTls: boolean; // Refuse to send credentials over a connection that isn't encrypted
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+const SMTP_TIMEOUT = 30 * 1000;
+
+// SMTP settings from the environment, or null when email isn't configured
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    return null;
+  }
+
+  const secure = process.env.SMTP_SECURE === "true";
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    // Only worth turning off for a local test server without TLS
+    requireTls: process.env.SMTP_REQUIRE_TLS !== "false",
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from: process.env.SMTP_FROM || `AccessScan <accessscan@${os.hostname()}>`,
+  };
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// One SMTP session; replies are read in order, multi-line replies ("250-...") joined into one
+class SmtpConnection {
+  private buffer = "";
+  private replies: SmtpReply[] = [];
+  private pending: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setTimeout(SMTP_TIMEOUT);
+    socket.on("data", chunk => this.receive(chunk.toString("utf8")));
+    socket.on("timeout", () => this.fail(new Error("SMTP server timed out")));
+    socket.on("error", error => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private receive(data: string) {
+    this.buffer += data;
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newline + 1);
+      this.pending.push(line);
+
+      // "250 OK" ends a reply, "250-..." continues it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.pending.map(l => l.slice(4)) });
+        this.pending = [];
+      }
+    }
+    this.deliver();
+  }
+
+  private deliver() {
+    if (this.waiting && this.replies.length > 0) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(this.replies.shift()!);
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.replies.length > 0) {
+      return Promise.resolve(this.replies.shift()!);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  // Sends a command and checks the reply code, naming the command in any error
+  async command(line: string, expected: number[], label = line.split(" ")[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  }
+
+  // Switches the session to TLS after STARTTLS has been accepted
+  async startTls(host: string) {
+    this.socket.removeAllListeners();
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once("secureConnect", () => resolve());
+      secured.once("error", reject);
+    });
+    this.attach(secured);
+  }
+
+  close() {
+    this.socket.removeAllListeners();
+    this.socket.on("error", () => {});
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    socket.setTimeout(SMTP_TIMEOUT, () => socket.destroy(new Error("Timed out connecting to the SMTP server")));
+    socket.once(config.secure ? "secureConnect" : "connect", () => {
+      socket.removeAllListeners("error");
+      socket.removeAllListeners("timeout");
+      resolve(socket);
+    });
+    socket.once("error", reject);
+  });
+}
+
+// RFC 2047 encoding for header values that aren't plain ASCII
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+// Base64 keeps body lines short and free of leading dots whatever the content
+function encodeBody(content: string) {
+  return Buffer.from(content, "utf8").toString("base64").replace(/.{76}/g, "$&\r\n");
+}
+
+function addressOf(mailbox: string) {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+function buildMessage(message: MailMessage, from: string) {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${addressOf(from).split("@")[1] ?? "accessscan"}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  const part = (type: string, content: string) => [
+    `Content-Type: ${type}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(content),
+  ].join("\r\n");
+
+  if (!message.html) {
+    return [...headers, part("text/plain", message.text)].join("\r\n");
+  }
+
+  const boundary = `accessscan-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    part("text/plain", message.text),
+    `--${boundary}`,
+    part("text/html", message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+// Sends one email, throwing if the server rejects any step or email isn't configured
+export async function sendMail(message: MailMessage, config = getSmtpConfig()): Promise<void> {
+  if (!config) {
+    throw new Error("Email is not configured; set SMTP_HOST to send email");
+  }
+  if (message.to.length === 0) {
+    throw new Error("Email has no recipients");
+  }
+
+  const connection = new SmtpConnection(await connect(config));
+  try {
+    await connection.expect([220], "greeting");
+    const hostname = os.hostname();
+    const hello = await connection.command(`EHLO ${hostname}`, [250]);
+
+    let encrypted = config.secure;
+    if (!encrypted && hello.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await connection.command("STARTTLS", [220]);
+      await connection.startTls(config.host);
+      await connection.command(`EHLO ${hostname}`, [250]);
+      encrypted = true;
+    }
+
+    if (config.user && config.password) {
+      // A server that doesn't offer STARTTLS, or someone stripping it from the reply, would get the password
+      if (!encrypted && config.requireTls) {
+        throw new Error(`SMTP server ${config.host} doesn't offer TLS, so the password wasn't sent; set SMTP_REQUIRE_TLS=false to allow this`);
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.password}`, "utf8").toString("base64");
+      await connection.command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+    }
+
+    await connection.command(`MAIL FROM:<${addressOf(config.from)}>`, [250], "MAIL FROM");
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${addressOf(recipient)}>`, [250, 251], "RCPT TO");
+    }
+    await connection.command("DATA", [354]);
+    await connection.command(`${buildMessage(message, config.from)}\r\n.`, [250], "message delivery");
+    await connection.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
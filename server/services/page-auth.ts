@@ -0,0 +1,138 @@
+/**
+ * Signing in before a page is audited
+ * Browser scans add the credentials to the Puppeteer page and run the login recipe in it. Scans that
+ * fetch without a browser (static HTML, Lighthouse) send the same credentials as request headers,
+ * with the cookies a login recipe ends up with added to the Cookie header
+ */
+import type { Browser, Cookie, HTTPRequest, Page } from "puppeteer";
+import type { LoginStep, ScanAuth } from "@shared/schema";
+
+// How long each login step may take, e.g. for a selector to appear
+const LOGIN_STEP_TIMEOUT = 30000;
+
+function describeStep(step: LoginStep) {
+  return step.action === "goto" ? `goto ${step.url}` : `${step.action} ${step.selector}`;
+}
+
+async function runLoginStep(page: Page, step: LoginStep) {
+  switch (step.action) {
+    case "goto":
+      await page.goto(step.url, { waitUntil: "networkidle2" });
+      break;
+    case "fill":
+      await page.locator(step.selector).setTimeout(LOGIN_STEP_TIMEOUT).fill(step.value);
+      break;
+    case "click":
+      await page.locator(step.selector).setTimeout(LOGIN_STEP_TIMEOUT).click();
+      break;
+    case "waitFor":
+      await page.waitForSelector(step.selector, { visible: true, timeout: LOGIN_STEP_TIMEOUT });
+      break;
+  }
+}
+
+// Basic credentials and custom headers as sent with each request to the scanned site
+export function authRequestHeaders(auth: ScanAuth): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (auth.basic) {
+    headers.Authorization = `Basic ${Buffer.from(`${auth.basic.username}:${auth.basic.password}`).toString("base64")}`;
+  }
+  auth.headers.forEach(header => {
+    headers[header.name] = header.value;
+  });
+  return headers;
+}
+
+/**
+ * Adds the credentials to a fresh page and runs the login recipe, starting from url unless
+ * the recipe opens with a goto. Headers are only added to requests to url's origin so
+ * third-party scripts and trackers never see them
+ */
+export async function signInPage(page: Page, url: string, auth: ScanAuth) {
+  const { origin, hostname } = new URL(url);
+  const headers = authRequestHeaders(auth);
+
+  if (Object.keys(headers).length > 0) {
+    await page.setRequestInterception(true);
+    page.on("request", (request: HTTPRequest) => {
+      if (request.isInterceptResolutionHandled()) return;
+      let sameOrigin = false;
+      try {
+        sameOrigin = new URL(request.url()).origin === origin;
+      } catch {
+        // data: and blob: URLs have no origin to match
+      }
+      request.continue(sameOrigin ? { headers: { ...request.headers(), ...headers } } : undefined);
+    });
+  }
+
+  if (auth.cookies.length > 0) {
+    await page.browser().setCookie(...auth.cookies.map(cookie => ({
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain ?? hostname,
+      path: cookie.path ?? "/",
+    })));
+  }
+
+  if (auth.login.length === 0) return;
+  if (auth.login[0].action !== "goto") {
+    await page.goto(url, { waitUntil: "networkidle2" });
+  }
+  for (let index = 0; index < auth.login.length; index++) {
+    const step = auth.login[index];
+    try {
+      await runLoginStep(page, step);
+    } catch (error) {
+      // Messages name the step by its selector or URL; filled-in values never appear in them
+      const reason = error instanceof Error ? error.message.split("\n")[0] : String(error);
+      throw new Error(`Login step ${index + 1} (${describeStep(step)}) failed: ${reason}`);
+    }
+  }
+}
+
+// Whether the browser would send the cookie with a request to url
+function cookieApplies(cookie: Pick<Cookie, "domain" | "path" | "secure">, url: URL) {
+  const domain = cookie.domain.replace(/^\./, "");
+  const domainMatches = url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+  const pathMatches = url.pathname.startsWith(cookie.path || "/");
+  return domainMatches && pathMatches && (!cookie.secure || url.protocol === "https:");
+}
+
+/**
+ * Request headers that carry the credentials for clients other than the browser. A login recipe
+ * is run in a browser first, and the session cookies it leaves behind go in the Cookie header
+ */
+export async function authenticatedRequestHeaders(
+  url: string,
+  auth: ScanAuth,
+  launchBrowser: () => Promise<Browser>
+): Promise<Record<string, string>> {
+  const headers = authRequestHeaders(auth);
+  const target = new URL(url);
+  let cookies = auth.cookies
+    .filter(cookie => !cookie.domain || cookieApplies({ domain: cookie.domain, path: cookie.path ?? "/", secure: false }, target))
+    .map(cookie => `${cookie.name}=${cookie.value}`);
+
+  if (auth.login.length > 0) {
+    const browser = await launchBrowser();
+    try {
+      const page = await browser.newPage();
+      await signInPage(page, url, auth);
+      // Cookies set by the login replace any given cookie of the same name
+      const sessionCookies = (await browser.cookies()).filter(cookie => cookieApplies(cookie, target));
+      const names = new Set(sessionCookies.map(cookie => cookie.name));
+      cookies = [
+        ...cookies.filter(cookie => !names.has(cookie.slice(0, cookie.indexOf("=")))),
+        ...sessionCookies.map(cookie => `${cookie.name}=${cookie.value}`),
+      ];
+    } finally {
+      await browser.close().catch(closeError => console.error("Error closing browser:", closeError));
+    }
+  }
+
+  if (cookies.length > 0) {
+    headers.Cookie = cookies.join("; ");
+  }
+  return headers;
+}
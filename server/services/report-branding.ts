@@ -0,0 +1,198 @@
+/**
+ * Report branding taken from a user's saved ReportSettings
+ * Shared by the axe and Lighthouse PDF generators so resold reports carry the reseller's identity
+ */
+import fetch from "node-fetch";
+import type { ReportSettings } from "@shared/schema";
+
+export interface ReportColors {
+  primary: string;       // Company name, headings and accents on the cover
+  secondary: string;     // Subtitles and muted text
+  accent: string;        // Links and rules
+  textPrimary: string;   // Labels and emphasized text
+  textSecondary: string; // Body text
+  background: string;    // Cover page background
+}
+
+export interface ReportBranding {
+  companyName: string;
+  logo: Buffer | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  websiteUrl: string | null;
+  colors: ReportColors;
+}
+
+export const DEFAULT_BRANDING: ReportBranding = {
+  companyName: "AccessScan",
+  logo: null,
+  contactEmail: null,
+  contactPhone: null,
+  websiteUrl: null,
+  colors: {
+    primary: "#2563EB",
+    secondary: "#6B7280",
+    accent: "#1E40AF",
+    textPrimary: "#000000",
+    textSecondary: "#4B5563",
+    background: "#FFFFFF",
+  },
+};
+
+// Logos larger than this are skipped rather than bloating every report
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+const LOGO_FETCH_TIMEOUT = 10000;
+
+// Height reserved at the bottom of each page for the contact footer
+const FOOTER_HEIGHT = 30;
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// PDFKit can only embed PNG and JPEG images
+function isSupportedImage(data: Buffer) {
+  const isPng = data.length > 8 && data.readUInt32BE(0) === 0x89504e47;
+  const isJpeg = data.length > 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff;
+  return isPng || isJpeg;
+}
+
+// Loads a logo given as a data URL or an http(s) URL
+async function loadLogo(source: string): Promise<Buffer | null> {
+  try {
+    let data: Buffer;
+
+    const dataUrl = source.match(/^data:image\/[\w.+-]+;base64,([\s\S]*)$/);
+    if (dataUrl) {
+      data = Buffer.from(dataUrl[1], "base64");
+    } else if (/^https?:\/\//i.test(source)) {
+      const response = await fetch(source, { signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT) });
+      if (!response.ok) {
+        throw new Error(`HTTP error! Status: ${response.status} ${response.statusText}`);
+      }
+      data = Buffer.from(await response.arrayBuffer());
+    } else {
+      console.warn("Report logo is neither a data URL nor an http(s) URL, skipping it");
+      return null;
+    }
+
+    if (data.length > MAX_LOGO_BYTES) {
+      console.warn(`Report logo is ${data.length} bytes, over the ${MAX_LOGO_BYTES} byte limit, skipping it`);
+      return null;
+    }
+    if (!isSupportedImage(data)) {
+      console.warn("Report logo is not a PNG or JPEG image, skipping it");
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Error loading report logo:", error);
+    return null;
+  }
+}
+
+/**
+ * Resolves saved settings into branding for a report.
+ * Missing or invalid values fall back to the AccessScan defaults so a bad setting never breaks a report.
+ */
+export async function loadReportBranding(settings?: ReportSettings | null): Promise<ReportBranding> {
+  if (!settings) {
+    return DEFAULT_BRANDING;
+  }
+
+  const savedColors = (settings.colors ?? {}) as Partial<Record<keyof ReportColors, string>>;
+  const colors = { ...DEFAULT_BRANDING.colors };
+  for (const key of Object.keys(colors) as (keyof ReportColors)[]) {
+    const value = savedColors[key];
+    if (value && HEX_COLOR.test(value)) {
+      colors[key] = value;
+    }
+  }
+
+  return {
+    companyName: settings.companyName?.trim() || DEFAULT_BRANDING.companyName,
+    logo: settings.companyLogo ? await loadLogo(settings.companyLogo) : null,
+    contactEmail: settings.contactEmail || null,
+    contactPhone: settings.contactPhone || null,
+    websiteUrl: settings.websiteUrl || null,
+    colors,
+  };
+}
+
+export function getContactLines(branding: ReportBranding): string[] {
+  return [branding.contactEmail, branding.contactPhone, branding.websiteUrl]
+    .filter((line): line is string => Boolean(line));
+}
+
+// Fills the current page with the brand background, used on cover pages
+export function drawPageBackground(doc: PDFKit.PDFDocument, branding: ReportBranding) {
+  if (branding.colors.background.toUpperCase() === "#FFFFFF") return;
+
+  doc.save()
+     .rect(0, 0, doc.page.width, doc.page.height)
+     .fill(branding.colors.background)
+     .restore();
+}
+
+// Draws the logo centered at the current position and moves below it
+export function drawLogo(doc: PDFKit.PDFDocument, branding: ReportBranding, maxHeight = 80) {
+  if (!branding.logo) return;
+
+  const maxWidth = 200;
+  try {
+    doc.image(branding.logo, (doc.page.width - maxWidth) / 2, doc.y, {
+      fit: [maxWidth, maxHeight],
+      align: "center",
+    });
+    doc.y += maxHeight;
+    doc.moveDown();
+  } catch (error) {
+    console.error("Error drawing report logo:", error);
+  }
+}
+
+// Closing block with the company name and contact details
+export function drawContactBlock(doc: PDFKit.PDFDocument, branding: ReportBranding) {
+  doc.fontSize(14)
+     .fillColor(branding.colors.primary)
+     .text(branding.companyName, { align: "center" });
+
+  getContactLines(branding).forEach(line => {
+    doc.fontSize(12)
+       .fillColor(branding.colors.secondary)
+       .text(line, { align: "center" });
+  });
+}
+
+/**
+ * Writes the company, contact details and page number at the foot of every page after the cover.
+ * The document must be created with bufferPages so earlier pages can be revisited.
+ */
+export function drawFooters(doc: PDFKit.PDFDocument, branding: ReportBranding) {
+  const range = doc.bufferedPageRange();
+  const contact = [branding.companyName, ...getContactLines(branding)].join("  •  ");
+
+  for (let i = range.start + 1; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+
+    // Writing inside the bottom margin would otherwise make PDFKit start a new page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+
+    const y = doc.page.height - bottomMargin + (bottomMargin - FOOTER_HEIGHT) / 2;
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    doc.moveTo(left, y - 6)
+       .lineTo(left + width, y - 6)
+       .lineWidth(0.5)
+       .strokeColor(branding.colors.accent)
+       .stroke();
+
+    doc.fontSize(9)
+       .fillColor(branding.colors.secondary)
+       .text(contact, left, y, { width: width - 80, lineBreak: false, ellipsis: true });
+    doc.text(`Page ${i + 1} of ${range.count}`, left + width - 80, y, { width: 80, align: "right", lineBreak: false });
+
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
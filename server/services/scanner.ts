@@ -4,18 +4,49 @@ import PDFDocument from "pdfkit";
 import fs from "fs";
 import { mkdir, readFile } from "fs/promises";
 import path from "path";
+import { randomUUID } from "crypto";
+import type { Writable } from "stream";
 import fetch from "node-fetch";
 // Using Node's built-in setTimeout
 import { createCanvas, Image, loadImage } from "canvas";
-import puppeteer from "puppeteer";
+import puppeteer, { type Browser, type Page } from "puppeteer";
+import type { ComparedIssue, FlowCheckpoint, ImpactCounts, IssueChange, KeyboardAuditSummary, ReportSettings, ResultSummary, ScanAuth, ScanComparison, ScanOptions, ScanProgressCallback, ViewportName } from "@shared/schema";
+import {
+  loadReportBranding,
+  drawContactBlock,
+  drawFooters,
+  drawLogo,
+  drawPageBackground,
+} from "./report-branding";
+import { authenticatedRequestHeaders, signInPage } from "./page-auth";
+import { auditKeyboard, type KeyboardAuditResult } from "./keyboard-audit";
+import { captureViolationScreenshots } from "./screenshots";
+import { describeViewport, emulateViewport, summarizeViewportIssues, VIEWPORT_LABELS } from "./viewports";
+
+// Rule tags audited by every scan, whether run in JSDOM or a real browser
+const axeRunOptions: axe.RunOptions = {
+  runOnly: {
+    type: 'tag',
+    values: ['wcag2a', 'wcag2aa', 'best-practice']
+  }
+};
+
+// How long a rendered page may keep mutating the DOM before we audit it anyway
+const PAGE_SETTLE_TIMEOUT = 10000;
+// How long the DOM must stay unchanged for the page to count as settled
+const PAGE_SETTLE_QUIET_PERIOD = 500;
+
+// Largest width and height of an outlined element in the PDF report, in points
+const ELEMENT_SCREENSHOT_SIZE: [number, number] = [400, 180];
 
 /**
  * Scans a local test page instead of fetching an external website
  * This is used for testing when external network access is restricted
  */
-async function scanTestPage(testPagePath: string): Promise<ScanResult> {
+async function scanTestPage(testPagePath: string, onProgress?: ScanProgressCallback): Promise<ScanResult> {
   try {
     console.log(`Loading test page: ${testPagePath}`);
+    onProgress?.('parsing', 'Loading test page');
     
     // Get the absolute path to the test page
     const fullPath = path.join(process.cwd(), 'server', testPagePath.replace(/^\//, ''));
@@ -37,20 +68,12 @@ async function scanTestPage(testPagePath: string): Promise<ScanResult> {
     const { document } = window;
     
     console.log('Test page loaded in virtual DOM');
-    
-    // Configure axe-core
-    // @ts-ignore - Ignoring typing issue with axe configuration
-    const axeConfig = {
-      runOnly: {
-        type: 'tag',
-        values: ['wcag2a', 'wcag2aa', 'best-practice']
-      }
-    };
+    onProgress?.('running-axe', 'Running axe-core accessibility checks');
     
     // Run axe-core for accessibility testing
     return new Promise<ScanResult>((resolve, reject) => {
       try {
-        axe.run(document.documentElement, axeConfig, (err, results) => {
+        axe.run(document.documentElement, axeRunOptions, (err, results) => {
           if (err) {
             console.error('Axe-core error:', err);
             reject(new Error('Failed to run accessibility scan: ' + err.message));
@@ -62,14 +85,11 @@ async function scanTestPage(testPagePath: string): Promise<ScanResult> {
             results.passes.length, 'passes, and',
             results.incomplete.length, 'incomplete tests');
           
-          // Create a static test screenshot
-          const testScreenshot = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAASwAAAEsCAIAAAD2HxkiAAAAGXRFWHRTb2Z0d2FyZQBBZG9iZSBJbWFnZVJlYWR5ccllPAAAAyJpVFh0WE1MOmNvbS5hZG9iZS54bXAAAAAAADw/eHBhY2tldCBiZWdpbj0i77u/IiBpZD0iVzVNME1wQ2VoaUh6cmVTek5UY3prYzlkIj8+IDx4OnhtcG1ldGEgeG1sbnM6eD0iYWRvYmU6bnM6bWV0YS8iIHg6eG1wdGs9IkFkb2JlIFhNUCBDb3JlIDUuMy1jMDExIDY2LjE0NTY2MSwgMjAxMi8wMi8wNi0xNDo1NjoyNyAgICAgICAgIj4gPHJkZjpSREYgeG1sbnM6cmRmPSJodHRwOi8vd3d3LnczLm9yZy8xOTk5LzAyLzIyLXJkZi1zeW50YXgtbnMjIj4gPHJkZjpEZXNjcmlwdGlvbiByZGY6YWJvdXQ9IiIgeG1sbnM6eG1wPSJodHRwOi8vbnMuYWRvYmUuY29tL3hhcC8xLjAvIiB4bWxuczp4bXBNTT0iaHR0cDovL25zLmFkb2JlLmNvbS94YXAvMS4wL21tLyIgeG1sbnM6c3RSZWY9Imh0dHA6Ly9ucy5hZG9iZS5jb20veGFwLzEuMC9zVHlwZS9SZXNvdXJjZVJlZiMiIHhtcDpDcmVhdG9yVG9vbD0iQWRvYmUgUGhvdG9zaG9wIENTNiAoV2luZG93cykiIHhtcE1NOkluc3RhbmNlSUQ9InhtcC5paWQ6QTFCN0Y1OTZCMjUzMTFFQTlDN0JDMjI3NzkwMkM4RDQiIHhtcE1NOkRvY3VtZW50SUQ9InhtcC5kaWQ6QTFCN0Y1OTdCMjUzMTFFQTlDN0JDMjI3NzkwMkM4RDQiPiA8eG1wTU06RGVyaXZlZEZyb20gc3RSZWY6aW5zdGFuY2VJRD0ieG1wLmlpZDpBMUI3RjU5NEIyNTMxMUVBOUM3QkMyMjc3OTAyQzhENCIgc3RSZWY6ZG9jdW1lbnRJRD0ieG1wLmRpZDpBMUI3RjU5NUIyNTMxMUVBOUM3QkMyMjc3OTAyQzhENCIvPiA8L3JkZjpEZXNjcmlwdGlvbj4gPC9yZGY6UkRGPiA8L3g6eG1wbWV0YT4gPD94cGFja2V0IGVuZD0iciI/Ppjt6T0AAAAGYktHRAD/AP8A/6C9p5MAAAAJcEhZcwAACxMAAAsTAQCanBgAAAFZaVRYdFhNTDpjb20uYWRvYmUueG1wAAAAAAA8eDp4bXBtZXRhIHhtbG5zOng9ImFkb2JlOm5zOm1ldGEvIiB4OnhtcHRrPSJYTVAgQ29yZSA1LjQuMCI+CiAgIDxyZGY6UkRGIHhtbG5zOnJkZj0iaHR0cDovL3d3dy53My5vcmcvMTk5OS8wMi8yMi1yZGYtc3ludGF4LW5zIyI+CiAgICAgIDxyZGY6RGVzY3JpcHRpb24gcmRmOmFib3V0PSIiCiAgICAgICAgICAgIHhtbG5zOnRpZmY9Imh0dHA6Ly9ucy5hZG9iZS5jb20vdGlmZi8xLjAvIj4KICAgICAgICAgPHRpZmY6T3JpZW50YXRpb24+MTwvdGlmZjpPcmllbnRhdGlvbj4KICAgICAgPC9yZGY6RGVzY3JpcHRpb24+CiAgIDwvcmRmOlJERj4KPC94OnhtcG1ldGE+CkzCJ1kAAAwhSURBVHja7N1NiBxXGcDxd2ZnZ2d2dndmZ5Nsspusd9fVXYNZNdmNiV/ZJBrRKAYRBRUP6l0UQRQvevCgHgQPFryoeBAEEcWLBz+i5hIVvyJqYoxuvifTM9szs9+7M53Mzuvu9PR0VXdXdf95fj0Y0qR3a6bq36/eevtV5bsG/98dMgZA4yYwhAC0CYQQgDaBEALQJhBCANoEQghAm0AIAWgTCCEAbQIhBKBNIIQAtAmEEIA2gRAC0CYQQgDaBEIIQJtACAFoEwghAG0CIQSgTSCEALQJhBCANoEQAtAmEEIA2gRCCECbQAgBaBMIIQBtAiEEoE0ghAC0CYQQgDaBEALQJhBCANqEThv/tZQchpTR8fQwpsQWYwA1NjlQe/rG9j/9dILPk8oZUwBqbHqYbm4Pz38rXtwpP/98gs8jnQJUd0K41D84exouXSnHPjhJCHFsgmpbGg4OXxlLJ18XU+O8xbZeXG/8z0GnANW2Nl5eHpXz4wQfdvWdhZ9+tXrqsEcIQXWGLy2tDFK6L9+QhT8m+LDLG+6tM4PTE1PeE8eSndDjgGrJNLkwP3jqxsZ//3P5Fx+/7gdd2Cq+/+epez40jDGFhhdvBKDyA8LRqP/42fjKzvDXn7vuB33zzeL+j88QQlCdGrqUbh0NH7sy/tdPX/chF7aLBz45c/rQMMgUQlCd4bNLK9PRJ9J/f/fpa3Z0L26XDzww0+9R5o4PqsnnhBK+cWX89Ssbv/vMNdvoha3BV+6euXm5H5FtdChBtVy9JLI6Gj56Jf7pJ6/+8ee2iu9+aP7MoZlBD22DEOqOrlxkLyQ8cCU+evXq47Xzt8tH3j+/PNsLCTOEEFRH3xRPWBv1v/Jm/N3nrnru/uJ28dB75958aLrXQ6AQgmqJuXd67uZ0+OQ/x3+4OiK8sF08+NHF03P9iJmvEoLqCZqiA1f6vcc34p9/9Mq5++c2i4c/uHhjfySAEILqyTe9Ps+O+t9+K/7p+1deoH/zcvnIBxdvWO4TQlClA8I0/fN2f3Xa+8ab8a/fv7x3/sJ28dBHF08v9kOWvwIhBNUaMlV64NJ08MS1y9fPbBTf+/DC6aU+GxmEEFRrwC5MR53b7K1Meo9dS3//3vTMZvHQJ5buvGkxVVrxIRCCatW74YFrvdVR/9tvxT9+p/f2dvnwfcunD8/0el1+DwghrVZLI/ZMpFw0h5AQglrViZAFCCGoXolYqgPVQwih+ymhtRCC6rGU0FoIQfVYSmgthPqLTmkEV74nJQ9sQA3YlNBaCHVHY8tOrJTDX6IWL9hXQwgBaJsPfE6/7wNoPkIIQJtACAFoEwghAG0CIQSgTSCEALQJhBCANoEQAtAmEEIA2gRCCECbQAgBaBMIIQBtAiEEoE0ghAC0CYQQgDaBEALQJhBCANoEQohDBxqEEMamHvhSCqDfCKHuAHjDQ6gzbmLvpARCS0IIqokiZ4RQd3S3nzEGoDmYbxBCHdLh/SxAyAoaQmg3TA9hAB3Cn5cKIQBtAiEEoE0ghAC0CYQQgDaBEALQJhBCANoEQghAm0AIAWgTCCEAbQIhBKBNIIRaLTMGaDZCiD3HIhACEEIA2gRCCECbQAgBaBMIIQBtAiEEoE0ghAC0CYQQgDaBEALQJhBCHcYiYmg2QqhDOVRmDNBge3fv6mxmGqXIHvXAm1JqPEJMg2lOCUH16MkXezeqfpgdXk0oE34kw1tKrTuhZJnPsKfNjrXQj+8nFKVkc8RjKyIhhUhhW/FmpDxDSHoZh+PcRnmiZnmlI3vuOxz4jGdpx60XJd0aQkVJP+OTu0P3lIpMTpZYmL+Xm/kacQtP4VxJmcoQzC6tBpfVDa9PnC93UEzWwcUUrvHzNCKEykgIdYjKucHMUr5cJW9ZMmOKm07qS9LrTYzSo/1WYjRLKdnMdFjfF8eUfJG/xD8C4TFKgwCq1K9d2KbgX7vQhQHV9mZCKXjRQhWXu/XcHnuxw3C7IjveSsyQIp3UL5MXXf9rKuMW3y1a3lkIRSaEuuMAxezSXmhXjWQfZoePJVUa8kS80sA1kqplG4MHRrX7vK2TrLsVK/gI75kzN4QbsdT5JRPzrGwZnqf1p9zGcHRLhc2YTurXe1+8hRrOEJN8DF+a0Oa+1hq4VCt8ZV47R8zy1X27lbwPR53mfE7oPudjHW1ej0vJ7Z4TFqlJYmLELi5k15FpR2/nXMPFzFrvk+jZmSRw5v4ZZvpVu/KlOZPWU8rAQKtgDKn0EHfHHLvrRm7FxkajCJ2lObclzCK/aDpnCSKrhpXjcm5/uT/KJhwQuo752J6oPdFOpQ0VBbqrdQZGZcddDDk3bVdNp/sQDyxrFnKuXufKyZjqbSG/DjwDY26zXfmIzeWS13nrzkj3H67WpZTbSgjrCOiYmO1Yx9pdcNS94yL2FslYN/UOwHbFVoNbZS93hc9+QW+dNl/UyVrmNDKV83QbOsKuRU55yJwnC0m6d0JoPlA7XLq4Fd+XO5cMHrCEbsUMvOtXGELmTnONkm5tCJngc1vp7vmE0BQnKCpCuD3cDvSk0LTcfJa9s5XL0hQnhJCdK0Ju10o4GEKu1U5PU05v7RH6DgVdr6wFnhO6VsLJW/YnRUo4SQh9dR4+8TpOYZMnv0/o7pL3JGXl1T1wThjcQYE3H6E7TH0uZ4fmPOB9LJZxYEyYWpZSbgshz/M855W2IELWV6z8Bct5nX3bPbQh5rnVtvK4HUUaWkl3F7zJA3jqPP0yB2yRhZbSTlNKq63UCKHqCLGfA5pC3eXKPtx5AMRM3eGEsCKg3cVWtBLChqpW2xgBqEbnvgB1q9K+N0BoUPW9Aag9oXO7g9AVp+6TZvdJ2HEVz3VY7t7Hia2E9gUZmHvs96J23YGl6/A81b3znNeB2wj+LRSBNYR2O+sQDmySBr4HyR5C1m1cP1Vgh1UWOu50b3kF3kDt2rJ2vw8weJBdp/BzQhP0Xrc9S5D6Xq7rGjXNe4Cmc+mh7eTOXD7tCqRgCJn5E15YZB4UB5+WuQYoHEJa77iKrJxxHbznVQFpbwiFvNnMtcECF1JqCiHXoWLwVGnfWKfgQefejZY7F7HvF9r3SJNrP4ebT903H3AXPPvNa9VRZAq7Oq1ZbQXO7Q6hHWf8rmvNnGC4Ti/dRdp5HWFiCLn2UWA2aM+6HaG28xYqdl5KFTkndEeReXToatrhh2XcSth5CTIhhDzPPYwKqGLHVeScMPTQ0LWnXaWoXPkJVNHbETB6DWFgw3jP/YSuU1p3OPq2kQVv5Qj+TMEb9K7+uDZdvVfx7Jy+eA7aI++c0LOFAq8Rdr+r0HMrNT2EdN4c4qrHjlXlwAsofZ8y2fzOHBNG1/s4A2+/d20GQ8hBbWBe7nQWXFy84kGrTLtb1o41X0zfj6vNZgbNaGAI7by9xsaVYQj1bNjIsMOZi44rmKBcLF17J7CuQHbYhQ25cYHY0RLOgM9dIOrW814ZR663qOu9/2B31s6UbWYI6V5FCHldmPG3x34gGPIhgu+T2/Hl3KoKnBxqJwV2mH2PzLU1glLgEHLnLUMIee0LS9tZ9sNV57WT+cHbLHSa5dq2vkMh+5I9exMEV6V27Tz3IA41HXftW91rzRzvY/Tc5BVcLex+3gztrhgFLovtS61dP1ToOyDzGxQYQl6LHPdmELdlkl7HEvcdUe4tG3jmH9gfe2p0B1pgX9RYCe2xRJHpdx/Cw3fnoaEWGkKuOndf1xJyFOcqK3A7uh2ue+fldtsxIAyc+rr20mHOuXUL9NyTgVPBnW8sDBwoB/ZfFljK7AeC+8Y+Z+BgbTZCqOm0fmsRqAT7q4RQty6WYb0ZVFOXlwJCqM0n5AGnZwC1WA8JIQBtAiEEoE0ghAC0CYQQgDaBEALQJhBCANoEQghAm0AIAWgTCCEAbQIhBKBNIIQAtAmEEIA2gRAC0CYQQgDaBEIIQJtACAFoEwghAG0CIQSgTSCEALQJhBCANoEQAtAmEEIA2gRCCECbQAgBaBMIIQBtAiEEoE0ghAC0CYQQgDb5nwADAG72dGsqqL8cAAAAAElFTkSuQmCC';
           
           resolve({
             violations: results.violations || [],
             passes: results.passes || [],
-            incomplete: results.incomplete || [],
-            screenshot: testScreenshot
+            incomplete: results.incomplete || []
           });
         });
       } catch (error) {
@@ -83,36 +103,72 @@ async function scanTestPage(testPagePath: string): Promise<ScanResult> {
   }
 }
 
-interface ScanResult {
+export interface ScanResult {
   violations: any[];
   passes: any[];
   incomplete: any[];
-  screenshot?: string; // Base64 encoded screenshot (deprecated)
+  screenshot?: string; // File name of the full-page screenshot of a browser scan, at the first viewport
   error?: string;      // Error message if scan failed
   scanDateTime?: string; // ISO timestamp of when scan was performed
   url?: string;        // URL that was scanned
+  renderMode?: 'browser' | 'static'; // How the page was loaded before auditing
+  links?: string[];    // Absolute hrefs of links on the page, used for crawling
+  pages?: PageSummary[]; // Per-page breakdown when results cover a whole site
+  steps?: FlowCheckpoint[]; // Audit checkpoints when results come from a user flow
+  viewports?: ViewportName[]; // Viewports audited when the scan covered more than the default desktop one
+  keyboard?: KeyboardAuditSummary; // Tab order found by the keyboard audit, at the first viewport
+}
+
+export interface PageSummary {
+  url: string;
+  violations: number;
+  error?: string;
+}
+
+// Score and violation counts stored with a scan's results for project and history lists
+export function summarizeScanResult(results: ScanResult): ResultSummary {
+  const violations: ImpactCounts = { critical: 0, serious: 0, moderate: 0, minor: 0, total: 0 };
+  (results.violations || []).forEach(rule => {
+    (rule.nodes || []).forEach((node: any) => {
+      const impact = node.impact ?? rule.impact;
+      violations.total++;
+      if (impact && impact !== "total" && impact in violations) {
+        violations[impact as keyof ImpactCounts]++;
+      }
+    });
+  });
+
+  // Failed scans audited nothing, so they get no score rather than a perfect one
+  const audited = (results.passes?.length ?? 0) + (results.violations?.length ?? 0);
+  const score = results.error || audited === 0
+    ? null
+    : Math.round(((results.passes?.length ?? 0) / audited) * 100);
+
+  return { score, violations };
 }
 
 // Fallback function to generate a basic report when the scan fails
-export async function generateBasicReport(url: string): Promise<string> {
+export async function generateBasicReport(url: string, settings?: ReportSettings | null): Promise<string> {
   console.log(`Creating fallback basic report for ${url}`);
+  const branding = await loadReportBranding(settings);
+  const { colors } = branding;
   
   // Create the reports directory if it doesn't exist
   const reportsDir = path.join(process.cwd(), 'reports');
   await mkdir(reportsDir, { recursive: true });
   
-  // Generate filename
-  const timestamp = Date.now();
-  const filename = `basic_report_${timestamp}.pdf`;
+  // Random filename so reports can't be found by guessing
+  const filename = `basic_report_${randomUUID()}.pdf`;
   const outputPath = path.join(reportsDir, filename);
   
   // Create a new PDF document
   const doc = new PDFDocument({
     size: 'letter',
     margin: 50,
+    bufferPages: true,
     info: {
       Title: `Basic Accessibility Report for ${url}`,
-      Author: 'AccessScan',
+      Author: branding.companyName,
       Subject: 'Web Accessibility Audit',
       Keywords: 'accessibility, WCAG, audit, web'
     }
@@ -123,37 +179,40 @@ export async function generateBasicReport(url: string): Promise<string> {
   doc.pipe(writeStream);
   
   // Cover page
+  drawPageBackground(doc, branding);
+  drawLogo(doc, branding);
+
   doc.fontSize(30)
-     .fillColor('#2563EB')
-     .text('AccessScan', { align: 'center' });
+     .fillColor(colors.primary)
+     .text(branding.companyName, { align: 'center' });
   
   doc.moveDown(1);
   
   doc.fontSize(24)
-     .fillColor('#000000')
+     .fillColor(colors.textPrimary)
      .text('Basic Accessibility Report', { align: 'center' });
   
   doc.moveDown(1);
   
   doc.fontSize(16)
-     .fillColor('#444444')
+     .fillColor(colors.textSecondary)
      .text(`URL: ${url}`, { align: 'center' });
   
   doc.fontSize(12)
-     .fillColor('#6B7280')
+     .fillColor(colors.secondary)
      .text(`Generated on: ${new Date().toLocaleString()}`, { align: 'center' });
   
   doc.moveDown(3);
   
   doc.fontSize(14)
-     .fillColor('#111111')
+     .fillColor(colors.textPrimary)
      .text('Limited Report Information', { align: 'center' });
   
   doc.moveDown(1);
   
   // Explanation message
   doc.fontSize(12)
-     .fillColor('#333333')
+     .fillColor(colors.textSecondary)
      .text(
        'This is a limited report generated because the full accessibility scan could not be completed. ' +
        'This may be due to network restrictions, issues with the scanning engine, or problems accessing the website.',
@@ -180,7 +239,11 @@ export async function generateBasicReport(url: string): Promise<string> {
     { align: 'left', width: 450 }
   );
   
+  doc.moveDown(2);
+  drawContactBlock(doc, branding);
+  
   // Finalize the PDF
+  drawFooters(doc, branding);
   doc.end();
   
   return new Promise((resolve, reject) => {
@@ -196,110 +259,261 @@ export async function generateBasicReport(url: string): Promise<string> {
   });
 }
 
-// Get the test page content
-const TEST_PAGE = fs.readFileSync(path.join(process.cwd(), 'server/test-pages/index.html'), 'utf8');
+/**
+ * Launches headless Chromium with flags that work in containerised hosts.
+ * Honours PUPPETEER_EXECUTABLE_PATH when a system browser should be used.
+ */
+export async function launchBrowser(): Promise<Browser> {
+  const launchOptions: any = { 
+    headless: true,
+    args: [
+      '--no-sandbox', 
+      '--disable-setuid-sandbox',
+      '--disable-gpu',
+      '--disable-dev-shm-usage',
+      '--single-process'
+    ]
+  };
+  
+  // If we have a specific path to Chromium/Chrome, use it
+  if (process.env.PUPPETEER_EXECUTABLE_PATH) {
+    console.log(`Using Chromium at: ${process.env.PUPPETEER_EXECUTABLE_PATH}`);
+    launchOptions.executablePath = process.env.PUPPETEER_EXECUTABLE_PATH;
+  }
+  
+  return puppeteer.launch(launchOptions);
+}
+
+/**
+ * Waits for a client-rendered page to finish building its DOM.
+ * Resolves once no mutations have happened for PAGE_SETTLE_QUIET_PERIOD,
+ * or after PAGE_SETTLE_TIMEOUT for pages that never stop updating.
+ */
+async function waitForPageToSettle(page: Page): Promise<void> {
+  await page.evaluate((quietPeriod: number, timeout: number) => {
+    return new Promise<void>(resolve => {
+      let quietTimer: ReturnType<typeof setTimeout>;
+      const observer = new MutationObserver(() => {
+        clearTimeout(quietTimer);
+        quietTimer = setTimeout(finish, quietPeriod);
+      });
+      const hardTimer = setTimeout(finish, timeout);
 
-// Function to capture screenshot using Puppeteer
-async function captureScreenshot(url: string): Promise<string | null> {
-  let browser = null;
+      function finish() {
+        observer.disconnect();
+        clearTimeout(quietTimer);
+        clearTimeout(hardTimer);
+        resolve();
+      }
+
+      observer.observe(document, { childList: true, subtree: true, attributes: true, characterData: true });
+      quietTimer = setTimeout(finish, quietPeriod);
+    });
+  }, PAGE_SETTLE_QUIET_PERIOD, PAGE_SETTLE_TIMEOUT);
+
+  // Web fonts change text metrics, which matters for contrast and target-size rules
+  await page.evaluate(() => document.fonts.ready.then(() => undefined));
+}
+
+// Opens a tab set up the way every browser scan audits pages, sized and emulated for the viewport
+export async function newScanPage(browser: Browser, viewport: ViewportName = 'desktop'): Promise<Page> {
+  const page = await browser.newPage();
+  await emulateViewport(page, viewport);
+  page.setDefaultNavigationTimeout(30000);
+  
+  // Some sites forbid inline scripts, which would block injecting axe-core
+  await page.setBypassCSP(true);
+  return page;
+}
+
+/**
+ * Audits the page as it is now: waits for it to settle, then runs axe-core in it.
+ * axe-core is only injected once per document, so a page can be audited again after it changes.
+ */
+export async function auditLoadedPage(page: Page, onProgress?: ScanProgressCallback): Promise<axe.AxeResults> {
+  onProgress?.('parsing', 'Waiting for the page to finish rendering');
+  await waitForPageToSettle(page);
+  
+  onProgress?.('running-axe', 'Running axe-core accessibility checks');
+  if (!(await page.evaluate(() => Boolean((window as any).axe)))) {
+    await page.addScriptTag({ content: axe.source });
+  }
+  
+  return await page.evaluate((runOptions) => {
+    // axe is attached to the page's window by the injected script
+    return (window as any).axe.run(document, runOptions);
+  }, axeRunOptions as any) as axe.AxeResults;
+}
+
+/**
+ * Merges the audits of one page at several viewports. An element that fails or passes a rule at more
+ * than one viewport is kept once, listing every viewport it was found at
+ */
+type RuleResults = Pick<ScanResult, 'violations' | 'passes' | 'incomplete'>;
+
+function mergeViewportAudits(audits: { viewport: ViewportName; results: RuleResults }[]) {
+  const merge = (key: 'violations' | 'passes' | 'incomplete') => {
+    const byRule = new Map<string, any>();
+
+    audits.forEach(({ viewport, results }) => {
+      (results[key] || []).forEach((rule: any) => {
+        let merged = byRule.get(rule.id);
+        if (!merged) {
+          merged = { ...rule, nodes: [], nodesBySelector: new Map<string, any>() };
+          byRule.set(rule.id, merged);
+        }
+        rule.nodes.forEach((node: any) => {
+          const selector = node.target.join(' > ');
+          const existing = merged.nodesBySelector.get(selector);
+          if (existing) {
+            existing.viewports.push(viewport);
+          } else {
+            const tagged = { ...node, viewports: [viewport] };
+            merged.nodesBySelector.set(selector, tagged);
+            merged.nodes.push(tagged);
+          }
+        });
+      });
+    });
+
+    return Array.from(byRule.values()).map(({ nodesBySelector, ...rule }) => rule);
+  };
+
+  return {
+    violations: merge('violations'),
+    passes: merge('passes'),
+    incomplete: merge('incomplete'),
+  };
+}
+
+/**
+ * Loads the page in headless Chromium, lets scripts and stylesheets run,
+ * then injects axe-core into the live page and audits the rendered DOM.
+ * With viewports, the page is loaded and audited once per viewport in the same browser
+ * and every element is tagged with the viewports it was found at.
+ * Each load also gets a keyboard audit, whose rules are added to axe-core's.
+ * Violating elements are outlined on screenshots of the page; see ./screenshots.
+ */
+async function scanRenderedPage(
+  url: string,
+  onProgress?: ScanProgressCallback,
+  signal?: AbortSignal,
+  auth?: ScanAuth,
+  viewports?: ViewportName[]
+): Promise<ScanResult> {
+  signal?.throwIfAborted();
+  console.log('Launching browser for rendered scan...');
+  const browser = await launchBrowser();
+  
+  // Closing the browser makes any pending navigation or evaluation reject
+  const closeOnAbort = () => {
+    console.log('Scan aborted, closing browser');
+    browser.close().catch(closeError => console.error('Error closing browser:', closeError));
+  };
+  signal?.addEventListener('abort', closeOnAbort, { once: true });
+  
   try {
-    console.log('Launching browser for screenshot...');
+    const audits: { viewport: ViewportName; results: RuleResults }[] = [];
+    const links = new Set<string>();
+    let keyboard: KeyboardAuditSummary | undefined;
+    let screenshot: string | undefined;
     
-    // Check if we're in a production environment where we can launch a browser
-    // In some environments, this might fail due to restrictions
-    try {
-      // Try to detect if we're in a Replit environment with limitations
-      const isReplitDev = process.env.REPL_ID && !process.env.REPL_SLUG;
+    const audited: ViewportName[] = viewports ?? ['desktop'];
+    for (let index = 0; index < audited.length; index++) {
+      const viewport = audited[index];
+      // Progress messages only name the viewport when there is more than one
+      const at = viewports ? ` at ${VIEWPORT_LABELS[viewport]} (${index + 1} of ${audited.length})` : '';
+      const page = await newScanPage(browser, viewport);
       
-      if (isReplitDev) {
-        console.log('Detected Replit development environment - skipping screenshot for compatibility');
-        return null;
+      if (auth) {
+        onProgress?.('fetching', `Signing in${at}`);
+        await signInPage(page, url, auth);
       }
       
-      // Use the environment variable for Chromium if available
-      const launchOptions: any = { 
-        headless: true,
-        args: [
-          '--no-sandbox', 
-          '--disable-setuid-sandbox',
-          '--disable-gpu',
-          '--disable-dev-shm-usage',
-          '--single-process'
-        ]
-      };
+      console.log(`Navigating to ${url} in headless browser${at}...`);
+      onProgress?.('fetching', `Loading page in headless browser${at}`);
+      await page.goto(url, { waitUntil: 'networkidle2' });
+      const results = await auditLoadedPage(page, onProgress);
       
-      // If we have a specific path to Chromium/Chrome, use it
-      if (process.env.PUPPETEER_EXECUTABLE_PATH) {
-        console.log(`Using Chromium at: ${process.env.PUPPETEER_EXECUTABLE_PATH}`);
-        launchOptions.executablePath = process.env.PUPPETEER_EXECUTABLE_PATH;
-      }
+      // Taken before tabbing moves focus and opens menus; other viewports only add crops of their own elements
+      onProgress?.('running-axe', `Capturing screenshots${at}`);
+      const pageScreenshot = await captureViolationScreenshots(page, results.violations, index === 0);
+      if (pageScreenshot) screenshot = pageScreenshot;
       
-      browser = await puppeteer.launch(launchOptions);
-    } catch (launchError) {
-      console.error('Failed to launch browser for screenshot:', launchError);
-      // Continue with the scan, just without screenshots
-      return null;
-    }
-    
-    const page = await browser.newPage();
-    await page.setViewport({ width: 1280, height: 800 });
-    
-    // Set a reasonable timeout
-    page.setDefaultNavigationTimeout(30000);
-    
-    console.log(`Navigating to ${url} for screenshot...`);
-    
-    try {
-      await page.goto(url, { waitUntil: 'networkidle0', timeout: 20000 });
+      // Mobile layouts can link to pages the desktop navigation doesn't, so crawls follow both
+      const pageLinks = await page.$$eval('a[href]', anchors =>
+        anchors.map(anchor => (anchor as HTMLAnchorElement).href)
+      );
+      pageLinks.forEach(link => links.add(link));
       
-      // Wait a moment for any final rendering
-      await new Promise<void>(resolve => {
-        setTimeout(resolve, 2000);
-      });
+      // Tabbing moves focus and can open menus, so it only starts once axe-core and the links are done
+      let keyboardResults: KeyboardAuditResult | undefined;
+      try {
+        onProgress?.('running-axe', `Checking keyboard navigation${at}`);
+        keyboardResults = await auditKeyboard(page);
+        keyboard ??= keyboardResults.summary;
+      } catch (keyboardError) {
+        if (signal?.aborted) throw keyboardError;
+        console.error(`Keyboard audit${at} failed, keeping the axe-core results:`, keyboardError);
+      }
+      await page.close();
       
-      // Take the screenshot
-      console.log('Taking screenshot...');
-      const screenshot = await page.screenshot({ 
-        type: 'jpeg',
-        quality: 80,
-        fullPage: false
+      audits.push({
+        viewport,
+        results: {
+          violations: [...results.violations, ...(keyboardResults?.violations ?? [])],
+          passes: [...results.passes, ...(keyboardResults?.passes ?? [])],
+          incomplete: [...results.incomplete, ...(keyboardResults?.incomplete ?? [])],
+        },
       });
       
-      // Convert to base64
-      const base64Screenshot = Buffer.from(screenshot).toString('base64');
-      console.log('Screenshot captured successfully');
-      return base64Screenshot;
-    } catch (navigationError) {
-      console.error('Navigation error during screenshot:', navigationError);
-      return null;
+      console.log(`Rendered scan${at} completed with`, 
+        results.violations.length, 'violations,',
+        results.passes.length, 'passes, and',
+        results.incomplete.length, 'incomplete tests');
     }
     
-  } catch (error) {
-    console.error('Error capturing screenshot:', error);
-    // Don't fail the entire scan if screenshot fails
-    return null;
+    const results = viewports
+      ? mergeViewportAudits(audits)
+      : audits[0].results;
+    
+    return {
+      violations: results.violations || [],
+      passes: results.passes || [],
+      incomplete: results.incomplete || [],
+      scanDateTime: new Date().toISOString(),
+      url: url,
+      renderMode: 'browser',
+      links: Array.from(links),
+      viewports,
+      keyboard,
+      screenshot
+    };
   } finally {
-    if (browser) {
-      try {
-        await browser.close();
-        console.log('Browser closed');
-      } catch (closeError) {
-        console.error('Error closing browser:', closeError);
-      }
+    signal?.removeEventListener('abort', closeOnAbort);
+    try {
+      await browser.close();
+    } catch (closeError) {
+      console.error('Error closing browser:', closeError);
     }
   }
 }
 
-export async function scanWebsite(url: string): Promise<ScanResult> {
+export async function scanWebsite(
+  url: string,
+  options: ScanOptions = {},
+  onProgress?: ScanProgressCallback,
+  signal?: AbortSignal
+): Promise<ScanResult> {
   try {
     // Special case for test pages
     // This allows us to test the scanner without external network access
     if (url === 'test-sample' || url === 'test') {
       console.log('Using test sample page instead of external website');
-      return scanTestPage('/test-pages/sample.html');
+      return scanTestPage('/test-pages/sample.html', onProgress);
     } else if (url === 'test-accessible') {
       console.log('Using accessible test page instead of external website');
-      return scanTestPage('/test-pages/accessible.html');
+      return scanTestPage('/test-pages/accessible.html', onProgress);
     }
     
     // Ensure URL has a protocol
@@ -309,278 +523,309 @@ export async function scanWebsite(url: string): Promise<ScanResult> {
 
     console.log('Scanning real website:', url);
     
-    // Try multiple approaches to fetch the website
-    let htmlContent = '';
-    let fetchAttempts = 0;
-    const maxFetchAttempts = 5; // Increased retry attempts
-    let lastError = '';
-    
-    while (fetchAttempts < maxFetchAttempts) {
+    // Render the page in a real browser so client-side apps and stylesheets
+    // are evaluated; the static JSDOM scan is only used if the browser fails
+    if (options.renderMode !== 'static') {
       try {
-        console.log(`Fetch attempt ${fetchAttempts + 1} for ${url}`);
-        
-        // Add cache-busting parameter to avoid cached responses
-        const fetchUrl = `${url}${url.includes('?') ? '&' : '?'}_cb=${Date.now()}`;
-        
-        // Use different fetch options on each attempt with varying user agents
-        const userAgents = [
-          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/98.0.4758.102 Safari/537.36',
-          'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/15.4 Safari/605.1.15',
-          'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/100.0.4896.75 Safari/537.36',
-          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/99.0.4844.51 Safari/537.36 Edg/99.0.1150.30',
-          'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:98.0) Gecko/20100101 Firefox/98.0'
-        ];
-        
-        const fetchOptions = {
-          headers: {
-            'User-Agent': userAgents[fetchAttempts % userAgents.length],
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-            'Accept-Language': 'en-US,en;q=0.5',
-            'Cache-Control': 'no-cache',
-            'Pragma': 'no-cache'
-          },
-          timeout: 20000, // Increased timeout
-          follow: 10,     // Increased redirect follows
-        };
-        
-        console.log(`Using User-Agent: ${fetchOptions.headers['User-Agent']}`);
-        
-        const response = await fetch(fetchUrl, fetchOptions);
+        return await scanRenderedPage(url, onProgress, signal, options.auth, options.viewports);
+      } catch (browserError) {
+        // An aborted scan must stop here rather than start the static fallback
+        if (signal?.aborted) throw browserError;
+        // Login recipes need the browser too, so falling back would only fail again or scan signed out
+        if (options.auth?.login.length) throw browserError;
+        console.error('Browser-rendered scan failed, falling back to static HTML scan:', browserError);
+      }
+    }
+
+    return await scanStaticHtml(url, onProgress, signal, options.auth);
+  } catch (error) {
+    console.error('Scan error:', error);
+    throw new Error('Accessibility scan failed: ' + (error instanceof Error ? error.message : String(error)));
+  }
+}
+
+/**
+ * Fetches the raw HTML and runs axe-core inside JSDOM.
+ * Scripts, iframes and stylesheets are stripped, so this is only a fallback
+ * for environments where a headless browser cannot be launched.
+ */
+async function scanStaticHtml(
+  url: string,
+  onProgress?: ScanProgressCallback,
+  signal?: AbortSignal,
+  auth?: ScanAuth
+): Promise<ScanResult> {
+  if (auth) {
+    onProgress?.('fetching', 'Signing in');
+  }
+  const authHeaders = auth ? await authenticatedRequestHeaders(url, auth, launchBrowser) : {};
+  
+  // Try multiple approaches to fetch the website
+  let htmlContent = '';
+  let fetchAttempts = 0;
+  const maxFetchAttempts = 5; // Increased retry attempts
+  let lastError = '';
+  
+  while (fetchAttempts < maxFetchAttempts) {
+    try {
+      console.log(`Fetch attempt ${fetchAttempts + 1} for ${url}`);
+      onProgress?.('fetching', `Fetching page HTML (attempt ${fetchAttempts + 1} of ${maxFetchAttempts})`);
+      
+      // Add cache-busting parameter to avoid cached responses
+      const fetchUrl = `${url}${url.includes('?') ? '&' : '?'}_cb=${Date.now()}`;
+      
+      // Use different fetch options on each attempt with varying user agents
+      const userAgents = [
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/98.0.4758.102 Safari/537.36',
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/15.4 Safari/605.1.15',
+        'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/100.0.4896.75 Safari/537.36',
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/99.0.4844.51 Safari/537.36 Edg/99.0.1150.30',
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:98.0) Gecko/20100101 Firefox/98.0'
+      ];
+      
+      const fetchOptions = {
+        headers: {
+          'User-Agent': userAgents[fetchAttempts % userAgents.length],
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+          'Accept-Language': 'en-US,en;q=0.5',
+          'Cache-Control': 'no-cache',
+          'Pragma': 'no-cache',
+          ...authHeaders
+        } as Record<string, string>,
+        timeout: 20000, // Increased timeout
+        follow: 10,     // Increased redirect follows
+        signal,
+      };
+      
+      console.log(`Using User-Agent: ${fetchOptions.headers['User-Agent']}`);
+      
+      const response = await fetch(fetchUrl, fetchOptions);
+      
+      // Handle different HTTP statuses
+      if (!response.ok) {
+        const statusText = `HTTP error! Status: ${response.status} ${response.statusText}`;
+        console.error(statusText);
         
-        // Handle different HTTP statuses
-        if (!response.ok) {
-          const statusText = `HTTP error! Status: ${response.status} ${response.statusText}`;
-          console.error(statusText);
-          
-          // Special handling for specific status codes
-          if (response.status === 403) {
-            // Try to get content even with 403 status
-            const forbiddenContent = await response.text();
-            if (forbiddenContent && forbiddenContent.length > 1000) {
-              console.log('Got content despite 403 status, will attempt to process it');
-              htmlContent = forbiddenContent;
-              break;
-            }
-            throw new Error(`Access forbidden (403) - The website may be blocking our requests`);
-          } else if (response.status === 429) {
-            throw new Error('Rate limited (429) - Too many requests to the website');
-          } else {
-            throw new Error(statusText);
+        // Special handling for specific status codes
+        if (response.status === 403) {
+          // Try to get content even with 403 status
+          const forbiddenContent = await response.text();
+          if (forbiddenContent && forbiddenContent.length > 1000) {
+            console.log('Got content despite 403 status, will attempt to process it');
+            htmlContent = forbiddenContent;
+            break;
           }
+          throw new Error(`Access forbidden (403) - The website may be blocking our requests`);
+        } else if (response.status === 429) {
+          throw new Error('Rate limited (429) - Too many requests to the website');
+        } else {
+          throw new Error(statusText);
         }
+      }
+      
+      htmlContent = await response.text();
+      
+      if (htmlContent && htmlContent.length > 0) {
+        console.log(`Successfully fetched ${url} (${htmlContent.length} bytes)`);
         
-        htmlContent = await response.text();
-        
-        if (htmlContent && htmlContent.length > 0) {
-          console.log(`Successfully fetched ${url} (${htmlContent.length} bytes)`);
+        // Check if we actually got HTML and not some other response like JSON
+        if (!htmlContent.includes('<html') && !htmlContent.includes('<body')) {
+          const contentPreview = htmlContent.substring(0, 200);
+          console.warn(`Warning: Response may not be HTML: ${contentPreview}...`);
           
-          // Check if we actually got HTML and not some other response like JSON
-          if (!htmlContent.includes('<html') && !htmlContent.includes('<body')) {
-            const contentPreview = htmlContent.substring(0, 200);
-            console.warn(`Warning: Response may not be HTML: ${contentPreview}...`);
-            
-            // If it looks like JSON, try to extract a meaningful error message
-            if (contentPreview.includes('{') && contentPreview.includes('}')) {
-              try {
-                const jsonResponse = JSON.parse(htmlContent);
-                console.log('Received JSON response:', jsonResponse);
-                if (jsonResponse.error) {
-                  throw new Error(`API error: ${jsonResponse.error}`);
-                }
-              } catch (jsonError) {
-                // Not valid JSON or no error property
+          // If it looks like JSON, try to extract a meaningful error message
+          if (contentPreview.includes('{') && contentPreview.includes('}')) {
+            try {
+              const jsonResponse = JSON.parse(htmlContent);
+              console.log('Received JSON response:', jsonResponse);
+              if (jsonResponse.error) {
+                throw new Error(`API error: ${jsonResponse.error}`);
               }
+            } catch (jsonError) {
+              // Not valid JSON or no error property
             }
-            
-            // If HTML tags are not found but content is substantial, we'll try to continue
-            if (htmlContent.length > 5000) {
-              console.log('Content is substantial, will attempt to process it');
-              break;
-            }
-            
-            throw new Error('Received response does not appear to be HTML');
           }
           
-          break; // Success, exit the loop
-        } else {
-          throw new Error('Received empty response');
-        }
-      } catch (fetchError) {
-        fetchAttempts++;
-        const errorMessage = fetchError instanceof Error ? fetchError.message : String(fetchError);
-        lastError = errorMessage;
-        console.error(`Fetch attempt ${fetchAttempts} failed:`, errorMessage);
-        
-        if (fetchAttempts >= maxFetchAttempts) {
-          throw new Error(`Failed to fetch ${url} after ${maxFetchAttempts} attempts: ${lastError}`);
+          // If HTML tags are not found but content is substantial, we'll try to continue
+          if (htmlContent.length > 5000) {
+            console.log('Content is substantial, will attempt to process it');
+            break;
+          }
+          
+          throw new Error('Received response does not appear to be HTML');
         }
         
-        // Progressively longer waits between retries
-        const waitTime = 2000 * fetchAttempts;
-        console.log(`Waiting ${waitTime}ms before retry...`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-      }
-    }
-    
-    // Launch screenshot capture in parallel with the scan
-    const screenshotPromise = captureScreenshot(url);
-
-    // Create a virtual DOM with the fetched content
-    let dom;
-    try {
-      // First attempt basic sanitization if needed
-      if (htmlContent.includes('<script') || htmlContent.includes('<iframe')) {
-        console.log('Content contains scripts or iframes, applying basic sanitization');
-        // Basic sanitization to prevent common issues
-        htmlContent = htmlContent
-          .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '') // Remove script tags
-          .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '') // Remove iframe tags
-          .replace(/<link[^>]*>/gi, ''); // Remove external resource links
+        break; // Success, exit the loop
+      } else {
+        throw new Error('Received empty response');
       }
+    } catch (fetchError) {
+      if (signal?.aborted) throw fetchError;
+      fetchAttempts++;
+      const errorMessage = fetchError instanceof Error ? fetchError.message : String(fetchError);
+      lastError = errorMessage;
+      console.error(`Fetch attempt ${fetchAttempts} failed:`, errorMessage);
       
-      // Try to ensure we have a proper HTML structure
-      if (!htmlContent.includes('<html')) {
-        console.log('Adding HTML wrapper to content');
-        htmlContent = `<!DOCTYPE html><html><head><title>Scanned Page</title></head><body>${htmlContent}</body></html>`;
+      if (fetchAttempts >= maxFetchAttempts) {
+        throw new Error(`Failed to fetch ${url} after ${maxFetchAttempts} attempts: ${lastError}`);
       }
       
-      dom = new JSDOM(htmlContent, {
-        url: url, // Use the actual URL for relative paths
-        runScripts: "outside-only", // Don't run scripts for safety
-        resources: "usable", // Allow loading resources
-        pretendToBeVisual: true // This helps with some visual-specific tests
+      // Progressively longer waits between retries
+      const waitTime = 2000 * fetchAttempts;
+      console.log(`Waiting ${waitTime}ms before retry...`);
+      await new Promise(resolve => setTimeout(resolve, waitTime));
+    }
+  }
+  
+  // Create a virtual DOM with the fetched content
+  onProgress?.('parsing', 'Parsing page HTML');
+  let dom;
+  try {
+    // First attempt basic sanitization if needed
+    if (htmlContent.includes('<script') || htmlContent.includes('<iframe')) {
+      console.log('Content contains scripts or iframes, applying basic sanitization');
+      // Basic sanitization to prevent common issues
+      htmlContent = htmlContent
+        .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '') // Remove script tags
+        .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '') // Remove iframe tags
+        .replace(/<link[^>]*>/gi, ''); // Remove external resource links
+    }
+    
+    // Try to ensure we have a proper HTML structure
+    if (!htmlContent.includes('<html')) {
+      console.log('Adding HTML wrapper to content');
+      htmlContent = `<!DOCTYPE html><html><head><title>Scanned Page</title></head><body>${htmlContent}</body></html>`;
+    }
+    
+    dom = new JSDOM(htmlContent, {
+      url: url, // Use the actual URL for relative paths
+      runScripts: "outside-only", // Don't run scripts for safety
+      resources: "usable", // Allow loading resources
+      pretendToBeVisual: true // This helps with some visual-specific tests
+    });
+    
+    // Basic validation that we have a usable DOM
+    if (!dom.window.document.body) {
+      throw new Error('Created DOM does not have a body element');
+    }
+  } catch (error) {
+    console.error('Error creating JSDOM:', error);
+    
+    // Try a more minimal approach as fallback
+    try {
+      console.log('Attempting fallback minimal DOM creation');
+      dom = new JSDOM(`<!DOCTYPE html><html><head><title>Fallback</title></head><body>
+        <div id="content">${htmlContent}</div>
+      </body></html>`, {
+        url: url,
+        runScripts: "outside-only"
       });
-      
-      // Basic validation that we have a usable DOM
-      if (!dom.window.document.body) {
-        throw new Error('Created DOM does not have a body element');
-      }
-    } catch (error) {
-      console.error('Error creating JSDOM:', error);
-      
-      // Try a more minimal approach as fallback
-      try {
-        console.log('Attempting fallback minimal DOM creation');
-        dom = new JSDOM(`<!DOCTYPE html><html><head><title>Fallback</title></head><body>
-          <div id="content">${htmlContent}</div>
-        </body></html>`, {
-          url: url,
-          runScripts: "outside-only"
-        });
-      } catch (fallbackError) {
-        console.error('Fallback DOM creation also failed:', fallbackError);
-        throw new Error('Failed to parse website HTML: ' + 
-          (error instanceof Error ? error.message : String(error)));
-      }
+    } catch (fallbackError) {
+      console.error('Fallback DOM creation also failed:', fallbackError);
+      throw new Error('Failed to parse website HTML: ' + 
+        (error instanceof Error ? error.message : String(error)));
     }
+  }
 
-    const { window } = dom;
-    const { document } = window;
+  const { window } = dom;
+  const { document } = window;
 
-    console.log('Website loaded in virtual DOM successfully');
+  console.log('Website loaded in virtual DOM successfully');
 
-    // Configure axe-core with correct type
-    // @ts-ignore - Ignoring typing issue with axe configuration
-    const axeConfig = {
-      runOnly: {
-        type: 'tag',
-        values: ['wcag2a', 'wcag2aa', 'best-practice']
-      }
-    };
+  // JSDOM resolves hrefs against the page URL, so these are already absolute
+  const links = Array.from(document.querySelectorAll('a[href]'))
+    .map(anchor => (anchor as HTMLAnchorElement).href);
 
-    // Run axe-core
-    const scanResultPromise = new Promise<ScanResult>((resolve, reject) => {
-      try {
-        axe.run(document.documentElement, axeConfig, (err, results) => {
-          if (err) {
-            console.error('Axe-core error:', err);
-            reject(new Error('Failed to run accessibility scan: ' + err.message));
-            return;
-          }
+  // Run axe-core
+  onProgress?.('running-axe', 'Running axe-core accessibility checks');
+  const scanResultPromise = new Promise<ScanResult>((resolve, reject) => {
+    try {
+      axe.run(document.documentElement, axeRunOptions, (err, results) => {
+        if (err) {
+          console.error('Axe-core error:', err);
+          reject(new Error('Failed to run accessibility scan: ' + err.message));
+          return;
+        }
 
-          console.log('Scan completed successfully with', 
-            results.violations.length, 'violations,',
-            results.passes.length, 'passes, and',
-            results.incomplete.length, 'incomplete tests');
-            
-          resolve({
-            violations: results.violations || [],
-            passes: results.passes || [],
-            incomplete: results.incomplete || []
-          });
+        console.log('Scan completed successfully with', 
+          results.violations.length, 'violations,',
+          results.passes.length, 'passes, and',
+          results.incomplete.length, 'incomplete tests');
+          
+        resolve({
+          violations: results.violations || [],
+          passes: results.passes || [],
+          incomplete: results.incomplete || []
         });
-      } catch (error) {
-        console.error('Axe-core exception:', error);
-        reject(new Error('Failed to execute accessibility scan'));
-      }
-    });
-    
-    // Run the scan first, then try to get the screenshot if available
-    // This prevents issues with Promise.allSettled causing timing problems
-    try {
-      // First make sure we have a valid scan result
-      const scanResult = await scanResultPromise;
-      
-      // We'll skip the screenshot functionality completely
-      // This is because Replit's environment often blocks headless browser functionality
-      console.log('Skipping screenshot capture, using enhanced text descriptions instead');
-      
-      // Return scan result with metadata about the scan
-      return {
-        ...scanResult,
-        scanDateTime: new Date().toISOString(),
-        url: url
-      };
-    } catch (scanError) {
-      console.error('Scan failed:', scanError);
-      
-      // Instead of throwing an error, return a partial result with error information
-      // This allows us to still generate a report with details about what went wrong
-      return {
-        violations: [],
-        passes: [],
-        incomplete: [],
-        error: scanError instanceof Error ? scanError.message : String(scanError),
-        scanDateTime: new Date().toISOString(),
-        url: url
-      };
+      });
+    } catch (error) {
+      console.error('Axe-core exception:', error);
+      reject(new Error('Failed to execute accessibility scan'));
     }
+  });
+  
+  try {
+    // Nothing was rendered, so static scans have no screenshots; issues are described in text only
+    const scanResult = await scanResultPromise;
     
-    // This code is never reached, but kept for reference
-    /* 
+    // Return scan result with metadata about the scan
     return {
       ...scanResult,
-      screenshot: screenshot || undefined
+      scanDateTime: new Date().toISOString(),
+      url: url,
+      renderMode: 'static',
+      links
+    };
+  } catch (scanError) {
+    console.error('Scan failed:', scanError);
+    
+    // Instead of throwing an error, return a partial result with error information
+    // This allows us to still generate a report with details about what went wrong
+    return {
+      violations: [],
+      passes: [],
+      incomplete: [],
+      error: scanError instanceof Error ? scanError.message : String(scanError),
+      scanDateTime: new Date().toISOString(),
+      url: url,
+      renderMode: 'static'
     };
-    */
-
-  } catch (error) {
-    console.error('Scan error:', error);
-    throw new Error('Accessibility scan failed: ' + (error instanceof Error ? error.message : String(error)));
   }
 }
 
-export async function generateReport(url: string, results: ScanResult): Promise<string> {
+export async function generateReport(
+  url: string,
+  results: ScanResult,
+  settings?: ReportSettings | null,
+  onProgress?: ScanProgressCallback
+): Promise<string> {
+  onProgress?.('generating-report', 'Generating PDF report');
+
   // Ensure we have valid results
   if (!results || !results.violations || !results.passes) {
     console.log("Creating basic report due to missing scan results data");
-    return generateBasicReport(url);
+    return generateBasicReport(url, settings);
   }
 
+  const branding = await loadReportBranding(settings);
+  const { colors } = branding;
+
   // Create document with slightly larger pages for better readability
+  // Pages are buffered so footers can be added once the page count is known
   const doc = new PDFDocument({
     size: 'letter',
     margin: 50,
+    bufferPages: true,
     info: {
       Title: `Accessibility Report for ${url}`,
-      Author: 'AccessScan',
+      Author: branding.companyName,
       Subject: 'Web Accessibility Audit',
       Keywords: 'accessibility, WCAG, audit, web'
     }
   });
   
   const reportsDir = path.join(process.cwd(), "reports");
-  const reportPath = path.join(reportsDir, `scan_${Date.now()}.pdf`);
+  const reportPath = path.join(reportsDir, `scan_${randomUUID()}.pdf`);
 
   // Ensure reports directory exists
   await mkdir(reportsDir, { recursive: true });
@@ -591,46 +836,47 @@ export async function generateReport(url: string, results: ScanResult): Promise<
   // Helper functions for consistent styling
   const addHeading = (text, options = {}) => {
     doc.fontSize(24)
-       .fillColor('#1E40AF') // Blue heading color
+       .fillColor(colors.primary)
        .text(text, { underline: false, ...options });
     doc.moveDown();
   };
   
   const addSubheading = (text, options = {}) => {
     doc.fontSize(18)
-       .fillColor('#1F2937') // Dark gray text
+       .fillColor(colors.textPrimary)
        .text(text, { ...options });
     doc.moveDown();
   };
   
   const addParagraph = (text, options = {}) => {
     doc.fontSize(12)
-       .fillColor('#374151') // Gray text
+       .fillColor(colors.textSecondary)
        .text(text, { ...options });
     doc.moveDown(0.5);
   };
 
   // Cover page with branding elements
   try {
-    // This is a placeholder for a company logo
-    // In a real implementation, this would be configurable
+    drawPageBackground(doc, branding);
+    drawLogo(doc, branding);
+
     doc.fontSize(32)
-       .fillColor('#2563EB')
-       .text('AccessScan', { align: 'center' });
+       .fillColor(colors.primary)
+       .text(branding.companyName, { align: 'center' });
        
     doc.fontSize(16)
-       .fillColor('#6B7280')
+       .fillColor(colors.secondary)
        .text('Web Accessibility Audit Report', { align: 'center' });
        
     doc.moveDown(2);
     
     // URL and date information
     doc.fontSize(14)
-       .fillColor('#000000')
+       .fillColor(colors.textPrimary)
        .text(`Website: ${url}`, { align: 'center' });
     
     doc.fontSize(12)
-       .fillColor('#6B7280')
+       .fillColor(colors.secondary)
        .text(`Scan Date: ${new Date().toLocaleString()}`, { align: 'center' });
        
     // If we have an error, display it prominently
@@ -650,7 +896,7 @@ export async function generateReport(url: string, results: ScanResult): Promise<
          
       doc.moveDown(0.5);
       doc.fontSize(12)
-         .fillColor('#6B7280')
+         .fillColor(colors.secondary)
          .text('The website may have restrictions that prevent automated scanning, or there might be network connectivity issues. The report will contain limited information.', { 
            align: 'center',
            width: 400
@@ -660,25 +906,64 @@ export async function generateReport(url: string, results: ScanResult): Promise<
     // Add page information section instead of screenshots
     doc.moveDown(1);
     doc.fontSize(14)
-       .fillColor('#000000')
+       .fillColor(colors.textPrimary)
        .text('Scan Information', { align: 'left' });
     
     doc.moveDown(0.5);
     doc.fontSize(12)
-       .fillColor('#333333')
+       .fillColor(colors.textSecondary)
        .text(`• URL: ${url}`, { align: 'left' });
     
     doc.fontSize(12)
-       .fillColor('#333333')
+       .fillColor(colors.textSecondary)
        .text(`• Scan Date: ${new Date().toLocaleString()}`, { align: 'left' });
     
     doc.fontSize(12)
-       .fillColor('#333333')
+       .fillColor(colors.textSecondary)
        .text(`• Total Issues Found: ${results.violations.length}`, { align: 'left' });
     
+    if (results.pages) {
+      doc.fontSize(12)
+         .fillColor(colors.textSecondary)
+         .text(`• Pages Scanned: ${results.pages.length}`, { align: 'left' });
+    }
+    
+    if (results.steps) {
+      doc.fontSize(12)
+         .fillColor(colors.textSecondary)
+         .text(`• Flow Checkpoints Audited: ${results.steps.length}`, { align: 'left' });
+    }
+    
+    if (results.keyboard) {
+      doc.fontSize(12)
+         .fillColor(colors.textSecondary)
+         .text(`• Keyboard Tab Stops: ${results.keyboard.focusOrder.length}${results.keyboard.completed ? '' : ' (page not fully tabbed through)'}`, { align: 'left' });
+      doc.fontSize(12)
+         .fillColor(colors.textSecondary)
+         .text(`• Keyboard Trap Found: ${results.keyboard.trapped ? 'Yes' : 'No'}`, { align: 'left' });
+    }
+    
+    if (results.viewports) {
+      doc.fontSize(12)
+         .fillColor(colors.textSecondary)
+         .text(`• Viewports: ${results.viewports.map(describeViewport).join(', ')}`, { align: 'left' });
+      
+      if (results.viewports.length > 1) {
+        const { shared, byViewport } = summarizeViewportIssues(results.viewports, results.violations);
+        doc.fontSize(12)
+           .fillColor(colors.textSecondary)
+           .text(`• Affected Elements at Every Viewport: ${shared}`, { align: 'left' });
+        byViewport.forEach(summary => {
+          doc.fontSize(12)
+             .fillColor(colors.textSecondary)
+             .text(`• Only at ${VIEWPORT_LABELS[summary.viewport]}: ${summary.specific}`, { align: 'left' });
+        });
+      }
+    }
+    
     doc.fontSize(12)
-       .fillColor('#333333')
-       .text(`• Standards Tested: WCAG 2.1 A, AA, and Best Practices`, { align: 'left' });
+       .fillColor(colors.textSecondary)
+       .text(`• Standards Tested: WCAG 2.1 A, AA, and Best Practices${results.keyboard ? ', plus keyboard navigation' : ''}`, { align: 'left' });
     
     doc.moveDown(0.5);
     
@@ -686,37 +971,15 @@ export async function generateReport(url: string, results: ScanResult): Promise<
     
     // Add WCAG compliance explanation
     doc.fontSize(12)
-       .fillColor('#4B5563')
+       .fillColor(colors.textSecondary)
        .text('This report evaluates website compliance with Web Content Accessibility Guidelines (WCAG) 2.1. The assessment includes automated tests that identify potential barriers for users with disabilities.', {
          align: 'center',
          width: 400
        });
-    
-    // Add page numbers after we finish generating the report
-    // This avoids page range errors
-    let pageNumbers = false;
-    
-    doc.on('pageAdded', () => {
-      if (pageNumbers) {
-        const pages = doc.bufferedPageRange().count;
-        // We start with page 2 after cover page
-        doc.switchToPage(pages - 1);
-        doc.fontSize(10)
-           .fillColor('#6B7280')
-           .text(`Page ${pages}`, 0.5 * (doc.page.width - 100), doc.page.height - 50, {
-             width: 100,
-             align: 'center'
-           });
-      }
-    });
-    
   } catch (error) {
     console.error('Error creating cover page:', error);
   }
   
-  // Enable page numbering now that we're past the cover page
-  let pageNumbers = true;
-  
   // Executive Summary page
   doc.addPage();
   addHeading('Executive Summary', { align: 'left' });
@@ -730,7 +993,7 @@ export async function generateReport(url: string, results: ScanResult): Promise<
     
     doc.moveDown(0.5);
     doc.fontSize(12)
-       .fillColor('#4B5563')
+       .fillColor(colors.textSecondary)
        .text(`We encountered the following issue while attempting to scan ${url}:`);
     
     doc.moveDown(0.5);
@@ -740,7 +1003,7 @@ export async function generateReport(url: string, results: ScanResult): Promise<
     
     doc.moveDown(1);
     doc.fontSize(12)
-       .fillColor('#4B5563')
+       .fillColor(colors.textSecondary)
        .text(`This may be due to one or more of the following reasons:
 1. The website blocks automated scanning tools
 2. Network connectivity issues or firewalls
@@ -750,18 +1013,25 @@ export async function generateReport(url: string, results: ScanResult): Promise<
     
     doc.moveDown(1);
     doc.fontSize(14)
-       .fillColor('#000000')
+       .fillColor(colors.textPrimary)
        .text('Recommendations');
     
     doc.moveDown(0.5);
     doc.fontSize(12)
-       .fillColor('#4B5563')
+       .fillColor(colors.textSecondary)
        .text(`• Consider scanning the website in a different environment with fewer network restrictions
 • Try scanning the website after authenticating (if applicable)
 • Perform a manual accessibility audit to supplement automated testing
 • Contact the website administrator to request permission for automated scanning`);
     
-    return; // Skip the regular metrics display
+    doc.moveDown(2);
+    drawContactBlock(doc, branding);
+    
+    // Skip the regular metrics display
+    drawFooters(doc, branding);
+    doc.end();
+    await new Promise((resolve) => writeStream.on('finish', resolve));
+    return reportPath;
   }
   
   // Calculate compliance metrics for normal scan results
@@ -796,6 +1066,46 @@ export async function generateReport(url: string, results: ScanResult): Promise<
   doc.moveDown();
   addParagraph('This report contains actionable recommendations to improve the accessibility of your website and ensure compliance with WCAG 2.1 standards.');
 
+  // Site-level reports list every page that was audited
+  if (results.pages) {
+    doc.addPage();
+    addHeading('Pages Scanned', { align: 'left' });
+    addParagraph(`${results.pages.length} pages were audited. Issues on each page are listed below.`);
+    doc.moveDown(0.5);
+    
+    results.pages.forEach((page, index) => {
+      doc.fontSize(11)
+         .fillColor(colors.textPrimary)
+         .text(`${index + 1}. ${page.url}`, { width: 450 });
+      
+      doc.fontSize(10)
+         .fillColor(page.error ? '#DC2626' : '#4B5563')
+         .text(page.error ? `Scan failed: ${page.error}` : `${page.violations} issue types found`, { indent: 20 });
+      doc.moveDown(0.25);
+    });
+  }
+
+  // Flow reports show each audited state as it looked, one checkpoint per page
+  if (results.steps) {
+    results.steps.forEach((step, index) => {
+      doc.addPage();
+      if (index === 0) {
+        addHeading('User Flow Checkpoints', { align: 'left' });
+      }
+      addSubheading(`${index + 1}. ${step.label}`);
+      addParagraph(step.url);
+      addParagraph(`${step.violations} issue types found at this point of the flow`);
+      
+      if (step.screenshot) {
+        try {
+          doc.image(path.join(reportsDir, path.basename(step.screenshot)), { fit: [500, 320] });
+        } catch (imageError) {
+          console.error(`Error adding screenshot of checkpoint ${index + 1}:`, imageError);
+        }
+      }
+    });
+  }
+
   // Detailed Issues Page
   doc.addPage();
   addHeading('Accessibility Issues', { align: 'left' });
@@ -825,7 +1135,7 @@ export async function generateReport(url: string, results: ScanResult): Promise<
       violations.forEach((violation, index) => {
         // Issue title and metadata
         doc.fontSize(14)
-           .fillColor('#000000')
+           .fillColor(colors.textPrimary)
            .text(`${index + 1}. ${violation.help}`);
         
         // WCAG reference
@@ -835,34 +1145,35 @@ export async function generateReport(url: string, results: ScanResult): Promise<
           .join(', ');
         
         doc.fontSize(12)
-           .fillColor('#4B5563')
+           .fillColor(colors.textSecondary)
            .text(`WCAG Criteria: ${wcagCriteria || 'Not specified'}`);
         
         // Problem description
         doc.moveDown(0.5);
         doc.fontSize(12)
-           .fillColor('#000000')
+           .fillColor(colors.textPrimary)
            .text('Problem:');
         
         doc.fontSize(12)
-           .fillColor('#4B5563')
+           .fillColor(colors.textSecondary)
            .text(violation.description, { indent: 20 });
         
         // Solution section with actionable advice
         doc.moveDown(0.5);
         doc.fontSize(12)
-           .fillColor('#000000')
+           .fillColor(colors.textPrimary)
            .text('How to fix:');
         
         doc.fontSize(12)
-           .fillColor('#4B5563')
+           .fillColor(colors.accent)
            .text(violation.helpUrl, { indent: 20, link: violation.helpUrl });
+        doc.fillColor(colors.textSecondary);
         
         // Enhanced location details with more context
         if (violation.nodes && violation.nodes.length > 0) {
           doc.moveDown(0.5);
           doc.fontSize(12)
-             .fillColor('#000000')
+             .fillColor(colors.textPrimary)
              .text('Location Details:');
           
           // Loop through up to 3 examples with detailed location information
@@ -903,18 +1214,39 @@ export async function generateReport(url: string, results: ScanResult): Promise<
             }
             
             doc.fontSize(11)
-               .fillColor('#000000')
+               .fillColor(colors.textPrimary)
                .text(`Element ${nodeIndex + 1}:`);
             
+            if (node.pageUrl) {
+              doc.fontSize(10)
+                 .fillColor(colors.textSecondary)
+                 .text(`Page: ${node.pageUrl}`, { 
+                   indent: 20,
+                   width: 450
+                 });
+            }
+            
+            if (results.viewports && results.viewports.length > 1 && node.viewports) {
+              const foundAt = node.viewports.length === results.viewports.length
+                ? 'All viewports'
+                : `${node.viewports.map((viewport: ViewportName) => VIEWPORT_LABELS[viewport]).join(', ')} only`;
+              doc.fontSize(10)
+                 .fillColor(colors.textSecondary)
+                 .text(`Viewports: ${foundAt}`, { 
+                   indent: 20,
+                   width: 450
+                 });
+            }
+            
             doc.fontSize(10)
-               .fillColor('#4B5563')
+               .fillColor(colors.textSecondary)
                .text(`Location: ${selector}`, { 
                  indent: 20,
                  width: 450
                });
             
             doc.fontSize(10)
-               .fillColor('#4B5563')
+               .fillColor(colors.textSecondary)
                .text(`HTML: ${htmlSnippet.substring(0, 150)}${htmlSnippet.length > 150 ? '...' : ''}`, { 
                  indent: 20,
                  width: 450
@@ -922,18 +1254,33 @@ export async function generateReport(url: string, results: ScanResult): Promise<
             
             if (extraData) {
               doc.fontSize(10)
-                 .fillColor('#4B5563')
+                 .fillColor(colors.textSecondary)
                  .text(`Details: ${extraData}`, { 
                    indent: 20,
                    width: 450
                  });
             }
+            
+            // Crop of the page with the element outlined, kept together on one page
+            if (node.screenshot) {
+              try {
+                doc.moveDown(0.25);
+                if (doc.y + ELEMENT_SCREENSHOT_SIZE[1] > doc.page.height - doc.page.margins.bottom) {
+                  doc.addPage();
+                }
+                doc.image(path.join(reportsDir, path.basename(node.screenshot)), doc.page.margins.left + 20, doc.y, {
+                  fit: ELEMENT_SCREENSHOT_SIZE
+                });
+              } catch (imageError) {
+                console.error(`Error adding screenshot of ${selector}:`, imageError);
+              }
+            }
           });
           
           // Total count of affected elements
           doc.moveDown(0.5);
           doc.fontSize(10)
-             .fillColor('#4B5563')
+             .fillColor(colors.textSecondary)
              .text(`Total affected elements: ${violation.nodes.length}${violation.nodes.length > 3 ? ` (${violation.nodes.length - 3} more not shown)` : ''}`);
         }
         
@@ -969,7 +1316,7 @@ export async function generateReport(url: string, results: ScanResult): Promise<
       doc.moveDown(0.5);
       passes.forEach(pass => {
         doc.fontSize(12)
-           .fillColor('#374151')
+           .fillColor(colors.textSecondary)
            .text(`✓ ${pass.help}`, { indent: 10 });
       });
       doc.moveDown();
@@ -985,18 +1332,18 @@ export async function generateReport(url: string, results: ScanResult): Promise<
     
     results.incomplete.forEach((item, index) => {
       doc.fontSize(14)
-         .fillColor('#6B7280')
+         .fillColor(colors.secondary)
          .text(`${index + 1}. ${item.help}`);
       
       doc.fontSize(12)
-         .fillColor('#4B5563')
+         .fillColor(colors.textSecondary)
          .text(item.description, { indent: 10 });
       
       doc.moveDown();
     });
   }
 
-  // Contact information (placeholder)
+  // Closing page with the contact details of whoever issued the report
   doc.addPage();
   addHeading('Next Steps', { align: 'center' });
   doc.moveDown(2);
@@ -1009,22 +1356,161 @@ export async function generateReport(url: string, results: ScanResult): Promise<
   
   doc.moveDown(2);
   
-  // Contact info (customizable placeholder)
-  doc.fontSize(14)
-     .fillColor('#2563EB')
-     .text('AccessScan Support', { align: 'center' });
-  
-  doc.fontSize(12)
-     .fillColor('#6B7280')
-     .text('contact@accessscan.example.com', { align: 'center' });
+  drawContactBlock(doc, branding);
   
   doc.moveDown();
   doc.fontSize(12)
-     .fillColor('#6B7280')
+     .fillColor(colors.secondary)
      .text('For questions or assistance with implementing these recommendations', { align: 'center' });
   
+  drawFooters(doc, branding);
   doc.end();
 
   await new Promise((resolve) => writeStream.on('finish', resolve));
   return reportPath;
-}
\ No newline at end of file
+}
+
+/**
+ * Progress report for a comparison between two scans of the same URL, written to the given stream.
+ * Issues are grouped by rule under new, fixed and persisting so the client sees what changed.
+ */
+export async function generateProgressReport(
+  comparison: ScanComparison,
+  settings: ReportSettings | null | undefined,
+  output: Writable
+): Promise<void> {
+  const branding = await loadReportBranding(settings);
+  const { colors } = branding;
+  const { base, current, counts } = comparison;
+
+  const doc = new PDFDocument({
+    size: 'letter',
+    margin: 50,
+    bufferPages: true,
+    info: {
+      Title: `Accessibility Progress Report for ${current.url}`,
+      Author: branding.companyName,
+      Subject: 'Web Accessibility Progress Report',
+      Keywords: 'accessibility, WCAG, audit, regression, progress'
+    }
+  });
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on('finish', resolve);
+    output.on('error', reject);
+  });
+  doc.pipe(output);
+
+  const scanDate = (scan: typeof base) => new Date(scan.scanDateTime ?? scan.createdAt).toLocaleString();
+  const changeColors: Record<IssueChange, string> = {
+    new: '#DC2626',
+    fixed: '#10B981',
+    persisting: '#F59E0B',
+  };
+  const changeTitles: Record<IssueChange, string> = {
+    new: 'New Issues',
+    fixed: 'Fixed Issues',
+    persisting: 'Persisting Issues',
+  };
+
+  const addHeading = (text: string, options = {}) => {
+    doc.fontSize(24)
+       .fillColor(colors.primary)
+       .text(text, { underline: false, ...options });
+    doc.moveDown();
+  };
+
+  const addParagraph = (text: string, options = {}) => {
+    doc.fontSize(12)
+       .fillColor(colors.textSecondary)
+       .text(text, { ...options });
+    doc.moveDown(0.5);
+  };
+
+  // Cover page with branding elements
+  drawPageBackground(doc, branding);
+  drawLogo(doc, branding);
+
+  doc.fontSize(32)
+     .fillColor(colors.primary)
+     .text(branding.companyName, { align: 'center' });
+
+  doc.fontSize(16)
+     .fillColor(colors.secondary)
+     .text('Web Accessibility Progress Report', { align: 'center' });
+
+  doc.moveDown(2);
+  doc.fontSize(14)
+     .fillColor(colors.textPrimary)
+     .text(`Website: ${current.url}`, { align: 'center' });
+
+  doc.fontSize(12)
+     .fillColor(colors.secondary)
+     .text(`Baseline scan: ${scanDate(base)}`, { align: 'center' })
+     .text(`Current scan: ${scanDate(current)}`, { align: 'center' });
+
+  // Summary of what changed
+  doc.addPage();
+  addHeading('Summary', { align: 'left' });
+
+  const before = counts.fixed.total + counts.persisting.total;
+  const after = counts.new.total + counts.persisting.total;
+  const difference = after - before;
+  addParagraph(`Violating elements went from ${before} in the baseline scan to ${after} in the current scan` +
+    (difference === 0 ? ', no overall change.' : ` (${difference > 0 ? '+' : ''}${difference}).`));
+  doc.moveDown(0.5);
+
+  (['new', 'fixed', 'persisting'] as IssueChange[]).forEach(change => {
+    const tally = counts[change];
+    doc.fontSize(14)
+       .fillColor(changeColors[change])
+       .text(`${changeTitles[change]}: ${tally.total}`);
+    doc.fontSize(11)
+       .fillColor(colors.textSecondary)
+       .text(`Critical ${tally.critical}  •  Serious ${tally.serious}  •  Moderate ${tally.moderate}  •  Minor ${tally.minor}`, { indent: 20 });
+    doc.moveDown(0.5);
+  });
+
+  // Issues for each kind of change, grouped by rule
+  (['new', 'fixed', 'persisting'] as IssueChange[]).forEach(change => {
+    const issues = comparison.issues.filter(issue => issue.change === change);
+    if (issues.length === 0) return;
+
+    doc.addPage();
+    addHeading(changeTitles[change], { align: 'left' });
+
+    const byRule = new Map<string, ComparedIssue[]>();
+    issues.forEach(issue => {
+      byRule.set(issue.ruleId, [...(byRule.get(issue.ruleId) ?? []), issue]);
+    });
+
+    Array.from(byRule.values()).forEach(ruleIssues => {
+      const [first] = ruleIssues;
+      doc.fontSize(13)
+         .fillColor(colors.textPrimary)
+         .text(`${first.help ?? first.ruleId} (${first.ruleId})`);
+      doc.fontSize(10)
+         .fillColor(changeColors[change])
+         .text(`${first.impact ?? 'unknown'} impact  •  ${ruleIssues.length} element${ruleIssues.length === 1 ? '' : 's'}`);
+
+      // A few examples per rule keep long lists readable
+      ruleIssues.slice(0, 5).forEach(issue => {
+        doc.fontSize(10)
+           .fillColor(colors.textSecondary)
+           .text(`• ${issue.selector}${issue.pageUrl ? ` on ${issue.pageUrl}` : ''}`, { indent: 20, width: 450 });
+      });
+      if (ruleIssues.length > 5) {
+        doc.fontSize(10)
+           .fillColor(colors.textSecondary)
+           .text(`…and ${ruleIssues.length - 5} more`, { indent: 20 });
+      }
+      doc.moveDown();
+    });
+  });
+
+  doc.moveDown(2);
+  drawContactBlock(doc, branding);
+
+  drawFooters(doc, branding);
+  doc.end();
+  await finished;
+}
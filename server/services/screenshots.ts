@@ -0,0 +1,145 @@
+/**
+ * Screenshots of scanned pages
+ * A browser scan keeps one full-page screenshot, and each violating element gets a crop of it with the
+ * element outlined, so a report shows where an issue is on the page rather than only its selector.
+ * Images are kept next to the reports under random names and served through their scan
+ */
+import path from "path";
+import { mkdir, writeFile } from "fs/promises";
+import { randomUUID } from "crypto";
+import { createCanvas, loadImage, type Image } from "canvas";
+import type { Page } from "puppeteer";
+
+// Very long pages are cut off here, in CSS pixels, so their screenshots stay a sensible size
+const MAX_PAGE_HEIGHT = 10000;
+const MAX_PAGE_WIDTH = 2000;
+// Elements outlined per audited page; later ones are still reported, just without an image
+const MAX_ELEMENT_SCREENSHOTS = 50;
+// Page shown around an element, and the largest crop, so big elements don't produce huge images
+const CROP_PADDING = 32;
+const MAX_CROP_WIDTH = 900;
+const MAX_CROP_HEIGHT = 600;
+const OUTLINE_COLOR = "#e11d48";
+const OUTLINE_WIDTH = 3;
+
+const reportsDir = path.join(process.cwd(), "reports");
+
+interface ElementBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+async function saveImage(prefix: string, image: Buffer): Promise<string> {
+  await mkdir(reportsDir, { recursive: true });
+  const file = `${prefix}_${randomUUID()}.jpg`;
+  await writeFile(path.join(reportsDir, file), image);
+  return file;
+}
+
+// The whole page, or its top MAX_PAGE_HEIGHT pixels, at one image pixel per CSS pixel whatever the device
+async function captureFullPage(page: Page): Promise<Buffer> {
+  const { width, height, pixelRatio } = await page.evaluate(() => ({
+    width: document.documentElement.scrollWidth,
+    height: document.documentElement.scrollHeight,
+    pixelRatio: window.devicePixelRatio || 1,
+  }));
+  const screenshot = await page.screenshot({
+    type: "jpeg",
+    quality: 80,
+    captureBeyondViewport: true,
+    clip: {
+      x: 0,
+      y: 0,
+      width: Math.max(1, Math.min(width, MAX_PAGE_WIDTH)),
+      height: Math.max(1, Math.min(height, MAX_PAGE_HEIGHT)),
+      scale: 1 / pixelRatio,
+    },
+  });
+  return Buffer.from(screenshot);
+}
+
+// Where each selector's element is on the page, or null for hidden elements and ones that can't be found
+async function locateElements(page: Page, selectors: string[]): Promise<(ElementBox | null)[]> {
+  return page.evaluate((selectors) => selectors.map(selector => {
+    let element: Element | null = null;
+    try {
+      element = document.querySelector(selector);
+    } catch {
+      return null;
+    }
+    const rect = element?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) {
+      return null;
+    }
+    return { x: rect.left + window.scrollX, y: rect.top + window.scrollY, width: rect.width, height: rect.height };
+  }), selectors);
+}
+
+// Crops the screenshot around the element and outlines it; null when the element is outside the screenshot
+function outlineElement(screenshot: Image, box: ElementBox): Buffer | null {
+  const left = Math.max(0, Math.floor(box.x - CROP_PADDING));
+  const top = Math.max(0, Math.floor(box.y - CROP_PADDING));
+  const width = Math.min(Math.ceil(box.width + CROP_PADDING * 2), MAX_CROP_WIDTH, screenshot.width - left);
+  const height = Math.min(Math.ceil(box.height + CROP_PADDING * 2), MAX_CROP_HEIGHT, screenshot.height - top);
+  if (width <= 0 || height <= 0) {
+    return null;
+  }
+
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext("2d");
+  context.drawImage(screenshot, left, top, width, height, 0, 0, width, height);
+  context.strokeStyle = OUTLINE_COLOR;
+  context.lineWidth = OUTLINE_WIDTH;
+  // Drawn just outside the element so the outline doesn't cover its edges
+  context.strokeRect(
+    box.x - left - OUTLINE_WIDTH / 2,
+    box.y - top - OUTLINE_WIDTH / 2,
+    box.width + OUTLINE_WIDTH,
+    box.height + OUTLINE_WIDTH
+  );
+  return canvas.toBuffer("image/jpeg", { quality: 0.85 });
+}
+
+/**
+ * Screenshots the page as it was audited and outlines each violating element, setting the file name of its
+ * crop as the node's screenshot. Elements inside frames or shadow roots, hidden ones and those below the
+ * cut-off aren't outlined. Returns the file name of the full-page screenshot, unless keepPage is false
+ */
+export async function captureViolationScreenshots(
+  page: Page,
+  violations: { nodes: { target: unknown[]; screenshot?: string | null }[] }[],
+  keepPage = true
+): Promise<string | null> {
+  try {
+    const fullPage = await captureFullPage(page);
+    const screenshot = await loadImage(fullPage);
+
+    // The same element often fails several rules, and gets one image for all of them
+    const nodes = violations.flatMap(rule => rule.nodes)
+      .filter(node => node.target.length === 1 && typeof node.target[0] === "string");
+    const selectors = Array.from(new Set(nodes.map(node => node.target[0] as string)))
+      .slice(0, MAX_ELEMENT_SCREENSHOTS);
+    const boxes = await locateElements(page, selectors);
+
+    const crops = new Map<string, string>();
+    for (let index = 0; index < selectors.length; index++) {
+      const box = boxes[index];
+      const crop = box && outlineElement(screenshot, box);
+      if (crop) {
+        crops.set(selectors[index], await saveImage("element", crop));
+      }
+    }
+    nodes.forEach(node => {
+      const crop = crops.get(node.target[0] as string);
+      if (crop) node.screenshot = crop;
+    });
+
+    return keepPage ? await saveImage("page", fullPage) : null;
+  } catch (error) {
+    // The audit results are still good without pictures
+    console.error("Error capturing violation screenshots:", error);
+    return null;
+  }
+}
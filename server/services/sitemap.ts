@@ -0,0 +1,91 @@
+/**
+ * Resolves the page list for batch scans
+ * from a sitemap.xml (including sitemap indexes and gzipped sitemaps)
+ * or from an uploaded plain-text/CSV list of URLs
+ */
+import { JSDOM } from 'jsdom';
+import fetch from 'node-fetch';
+import { gunzipSync } from 'zlib';
+
+// Upper bound on pages in one batch, however large the sitemap is
+export const MAX_BATCH_URLS = 500;
+
+// Sitemap indexes may point at further indexes; stop following them after this many levels
+const MAX_SITEMAP_DEPTH = 3;
+
+async function fetchSitemapXml(sitemapUrl: string): Promise<string> {
+  const response = await fetch(sitemapUrl, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; AccessScan/1.0; +https://accessscan.example.com)',
+      'Accept': 'application/xml,text/xml;q=0.9,*/*;q=0.8'
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sitemap ${sitemapUrl}: ${response.status} ${response.statusText}`);
+  }
+
+  const body = Buffer.from(await response.arrayBuffer());
+
+  // .xml.gz files are served as binary rather than with Content-Encoding, so check the gzip magic bytes
+  if (body[0] === 0x1f && body[1] === 0x8b) {
+    return gunzipSync(body).toString('utf8');
+  }
+  return body.toString('utf8');
+}
+
+/**
+ * Collects page URLs from a sitemap, following sitemap index files.
+ * Stops once MAX_BATCH_URLS pages have been found.
+ */
+export async function fetchSitemapUrls(sitemapUrl: string, depth = 0): Promise<string[]> {
+  console.log(`Reading sitemap: ${sitemapUrl}`);
+
+  const xml = await fetchSitemapXml(sitemapUrl);
+  const { document } = new JSDOM(xml, { contentType: 'text/xml' }).window;
+
+  const locs = Array.from(document.getElementsByTagNameNS('*', 'loc'))
+    .map(loc => loc.textContent?.trim())
+    .filter((loc): loc is string => !!loc);
+
+  if (document.documentElement.localName !== 'sitemapindex') {
+    return locs.slice(0, MAX_BATCH_URLS);
+  }
+
+  if (depth >= MAX_SITEMAP_DEPTH) {
+    console.warn(`Sitemap index nesting deeper than ${MAX_SITEMAP_DEPTH} levels, ignoring ${sitemapUrl}`);
+    return [];
+  }
+
+  const urls: string[] = [];
+  for (const childSitemap of locs) {
+    if (urls.length >= MAX_BATCH_URLS) break;
+
+    try {
+      urls.push(...await fetchSitemapUrls(childSitemap, depth + 1));
+    } catch (error) {
+      // One broken child sitemap shouldn't sink the whole batch
+      console.error(`Skipping unreadable sitemap ${childSitemap}:`, error);
+    }
+  }
+
+  return Array.from(new Set(urls)).slice(0, MAX_BATCH_URLS);
+}
+
+/**
+ * Extracts URLs from an uploaded list.
+ * Accepts one URL per line or CSV rows, taking the first cell that looks like a URL;
+ * header rows and anything else are ignored.
+ */
+export function parseUrlList(content: string): string[] {
+  const urls = content
+    .split(/\r?\n/)
+    .map(line => line
+      .split(/[,;\t]/)
+      .map(cell => cell.trim().replace(/^"(.*)"$/, '$1'))
+      .find(cell => /^https?:\/\/\S+$/i.test(cell))
+    )
+    .filter((url): url is string => !!url);
+
+  return Array.from(new Set(urls)).slice(0, MAX_BATCH_URLS);
+}
@@ -0,0 +1,67 @@
+/**
+ * Viewport profiles for browser scans
+ * Responsive layouts hide, move and resize content, so a page can fail different checks on a phone
+ * than on a desktop. Tablet and mobile emulate the whole device: screen size, pixel ratio, touch
+ * and user agent, so sites that serve a different layout to mobile browsers are audited as users see them
+ */
+import { KnownDevices, type Page } from "puppeteer";
+import type { ViewportName } from "@shared/schema";
+
+export const VIEWPORT_LABELS: Record<ViewportName, string> = {
+  desktop: "Desktop",
+  tablet: "Tablet",
+  mobile: "Mobile",
+};
+
+const DESKTOP_VIEWPORT = { width: 1280, height: 800 };
+
+const EMULATED_DEVICES = {
+  tablet: KnownDevices["iPad (gen 7)"],
+  mobile: KnownDevices["iPhone 13"],
+};
+
+// Sets up a fresh page, before anything is loaded in it, to look like the viewport's device
+export async function emulateViewport(page: Page, viewport: ViewportName) {
+  if (viewport === "desktop") {
+    await page.setViewport(DESKTOP_VIEWPORT);
+  } else {
+    await page.emulate(EMULATED_DEVICES[viewport]);
+  }
+}
+
+export function describeViewport(viewport: ViewportName) {
+  if (viewport === "desktop") {
+    return `${VIEWPORT_LABELS.desktop} (${DESKTOP_VIEWPORT.width}×${DESKTOP_VIEWPORT.height})`;
+  }
+  const { width, height } = EMULATED_DEVICES[viewport].viewport;
+  return `${VIEWPORT_LABELS[viewport]} (${width}×${height}, touch)`;
+}
+
+export interface ViewportIssueSummary {
+  viewport: ViewportName;
+  // Violating elements found at the viewport
+  elements: number;
+  // Of those, the ones no other audited viewport has
+  specific: number;
+}
+
+// How many violating elements each viewport has, and how many of them only show up at that viewport
+export function summarizeViewportIssues(
+  viewports: ViewportName[],
+  violations: { nodes?: { viewports?: ViewportName[] | null }[] }[]
+): { shared: number; byViewport: ViewportIssueSummary[] } {
+  const nodes = violations.flatMap(rule => rule.nodes ?? []);
+  const foundAt = (node: { viewports?: ViewportName[] | null }) => node.viewports ?? viewports;
+
+  return {
+    shared: nodes.filter(node => foundAt(node).length === viewports.length).length,
+    byViewport: viewports.map(viewport => {
+      const atViewport = nodes.filter(node => foundAt(node).includes(viewport));
+      return {
+        viewport,
+        elements: atViewport.length,
+        specific: viewports.length > 1 ? atViewport.filter(node => foundAt(node).length === 1).length : 0,
+      };
+    }),
+  };
+}
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+
+// Runs against a migrated database, like the server; skipped where there is none
+const databaseUrl = process.env.POSTGRES_URL || process.env.DATABASE_URL;
+
+test("deleting a page scan keeps the element crops its crawl still shows", { skip: !databaseUrl && "no DATABASE_URL set" }, async (t) => {
+  // Imported here because the database module throws without a connection string
+  const { storage } = await import("./storage");
+  const { db, pool } = await import("./db");
+  const { aggregateSiteResults } = await import("./services/crawler");
+  const { users } = await import("@shared/schema");
+  const { eq } = await import("drizzle-orm");
+
+  const user = await storage.createUser({ username: `storage-test-${randomUUID()}`, password: "unused" });
+  t.after(async () => {
+    await db.delete(users).where(eq(users.id, user.id));
+    await pool.end();
+  });
+
+  const crawl = await storage.createScan(user.id, { url: "https://example.com" }, { scanType: "crawl" });
+  const page = await storage.createScan(user.id, { url: "https://example.com/about" }, { parentId: crawl.id });
+  const crop = `element_${randomUUID()}.jpg`;
+  const results = {
+    violations: [{
+      id: "image-alt",
+      impact: "critical",
+      tags: ["wcag2a"],
+      nodes: [{ target: ["img"], html: "<img src=\"logo.png\">", impact: "critical", failureSummary: null, screenshot: crop }],
+    }],
+    passes: [],
+    incomplete: [],
+  };
+  await storage.saveScanResults(page.id, results);
+  await storage.saveScanResults(crawl.id, aggregateSiteResults(crawl.url, [{ url: page.url, depth: 1, results }]));
+
+  const removedWithPage = await storage.deleteScan(page.id);
+  assert.ok(!removedWithPage.includes(crop), "the crawl's crop was handed out for deletion with its page scan");
+  assert.equal(await storage.hasElementScreenshot(crawl.id, crop), true);
+
+  const removedWithCrawl = await storage.deleteScan(crawl.id);
+  assert.ok(removedWithCrawl.includes(crop), "the crop wasn't deleted once nothing showed it");
+});
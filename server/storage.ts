@@ -1,24 +1,184 @@
-import { users, scans, reportSettings, type User, type InsertUser, type Scan, type InsertScan, type ReportSettings, type InsertReportSettings } from "@shared/schema";
+import { users, scans, projects, scanSchedules, type ScanSchedule, type InsertScanSchedule, userFlows, type UserFlow, type InsertUserFlow, alertRules, type AlertRule, type InsertAlertRule, apiKeys, type ApiKey, webhookEndpoints, webhookDeliveries, type WebhookEndpoint, type InsertWebhookEndpoint, type WebhookDelivery, type WebhookPayload, reportSettings, reportShares, conformanceReports, type Project, type InsertProject, type ProjectBranding, type ProjectSummary, type ConformanceReportRecord, type InsertConformanceReport, scanRuleResults, scanResultNodes, scanJobs, type ScanJob, type ReportShare, type User, type InsertUser, type Scan, type InsertScan, type ScanOptions, type StoredScanOptions, type ReportSettings, type InsertReportSettings, type ScanResults, type ScanResultMeta, type AxeRuleResult, type AxeNodeResult, type AxeCheckResult, type ViewportName } from "@shared/schema";
+import { summarizeScanResult, type ScanResult } from "./services/scanner";
+import { sealScanOptions } from "./scan-credentials";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { eq, ne, or, asc, desc, and, gt, lt, lte, inArray, isNull, isNotNull, sql } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 
 const PostgresSessionStore = connectPg(session);
 
+// Explicitly select columns to avoid issues with schema differences
+const scanColumns = {
+  id: scans.id,
+  userId: scans.userId,
+  url: scans.url,
+  status: scans.status,
+  reportUrl: scans.reportUrl,
+  htmlReportUrl: scans.htmlReportUrl,
+  options: scans.options,
+  scanType: scans.scanType,
+  parentId: scans.parentId,
+  projectId: scans.projectId,
+  resultMeta: scans.resultMeta,
+  screenshot: scans.screenshot,
+  createdAt: scans.createdAt
+};
+
+// API key columns without the hash, which never leaves storage
+const apiKeyColumns = {
+  id: apiKeys.id,
+  userId: apiKeys.userId,
+  name: apiKeys.name,
+  prefix: apiKeys.prefix,
+  lastUsedAt: apiKeys.lastUsedAt,
+  revokedAt: apiKeys.revokedAt,
+  createdAt: apiKeys.createdAt,
+};
+
+// Stored outcome name for each ScanResult list
+const resultOutcomes = {
+  violations: "violation",
+  passes: "pass",
+  incomplete: "incomplete",
+} as const;
+
+// Keeps node inserts well under Postgres' limit on bind parameters per statement
+const NODE_INSERT_BATCH_SIZE = 500;
+
+// The attempt of a queued job that a write is made for; see server/job-queue.ts
+export interface JobLease {
+  jobId: number;
+  attempt: number;
+}
+
+// A write was made for a job attempt that has since timed out, been retried or ended, and was dropped
+export class StaleJobError extends Error {
+  constructor(lease: JobLease) {
+    super(`Attempt ${lease.attempt} of job ${lease.jobId} no longer holds the job`);
+    this.name = "StaleJobError";
+  }
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Locks the job's row until the transaction ends, so the queue can't retry or end it while the write is made
+async function assertJobLease(tx: Transaction, lease: JobLease) {
+  const [job] = await tx
+    .select({ id: scanJobs.id })
+    .from(scanJobs)
+    .where(and(eq(scanJobs.id, lease.jobId), eq(scanJobs.attempts, lease.attempt), eq(scanJobs.status, "running")))
+    .for("update");
+  if (!job) {
+    throw new StaleJobError(lease);
+  }
+}
+
+// Attributes set by the server rather than the submitting client
+export interface ScanAttributes {
+  scanType?: string;
+  parentId?: number;
+  projectId?: number;
+}
+
+// A scan about to be created; its options come from a request or are copied from a stored scan
+export type NewScan = Omit<InsertScan, "options"> & { options?: ScanOptions | StoredScanOptions | null };
+
+// Fields of a schedule that change after it is created
+export type ScanScheduleChanges = Partial<Pick<ScanSchedule, "cron" | "nextRunAt" | "lastRunAt" | "lastScanId" | "pausedAt">>;
+
+// Fields of a webhook endpoint the owner can change
+export type WebhookEndpointChanges = Partial<Pick<WebhookEndpoint, "url" | "description" | "events" | "secret" | "disabledAt">>;
+
+// Fields of a delivery recorded after each attempt
+export type WebhookDeliveryChanges = Partial<Pick<WebhookDelivery, "status" | "attempts" | "nextAttemptAt" | "responseStatus" | "lastError" | "deliveredAt">>;
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  createScan(userId: number, scan: InsertScan): Promise<Scan>;
+  createScan(userId: number, scan: NewScan, attributes?: ScanAttributes): Promise<Scan>;
+  getScan(scanId: number): Promise<Scan | undefined>;
+  getScanByReportUrl(reportUrl: string): Promise<Scan | undefined>;
   getUserScans(userId: number): Promise<Scan[]>;
-  updateScanStatus(scanId: number, status: string, reportUrl?: string): Promise<void>;
+  getEarlierCompletedScans(scan: Scan, limit?: number): Promise<Scan[]>;
+  updateScanStatus(scanId: number, status: string, reportUrl?: string, htmlReportUrl?: string, lease?: JobLease): Promise<void>;
+  cancelScan(scanId: number): Promise<void>;
+  deleteScan(scanId: number): Promise<string[]>;
+  saveScanResults(scanId: number, results: ScanResult, lease?: JobLease): Promise<void>;
+  saveResultMeta(scanId: number, resultMeta: ScanResultMeta, lease?: JobLease): Promise<void>;
+  getScanResults(scanId: number): Promise<ScanResults | undefined>;
+  hasElementScreenshot(scanId: number, file: string): Promise<boolean>;
+  enqueueJob(scanId: number, type: string, maxAttempts: number, payload?: unknown): Promise<ScanJob>;
+  claimNextJob(): Promise<ScanJob | undefined>;
+  getRunningJobs(): Promise<ScanJob[]>;
+  completeJob(jobId: number): Promise<void>;
+  retryJob(jobId: number, error: string, runAt: Date): Promise<void>;
+  failJob(jobId: number, error: string): Promise<void>;
+  cancelJob(jobId: number): Promise<void>;
+  createReportShare(scanId: number, userId: number, expiresAt: Date): Promise<ReportShare>;
+  getReportShare(shareId: number): Promise<ReportShare | undefined>;
+  getActiveReportShares(scanId: number): Promise<ReportShare[]>;
+  revokeReportShare(scanId: number, shareId: number): Promise<boolean>;
+  getUserProjects(userId: number): Promise<ProjectSummary[]>;
+  getProject(projectId: number): Promise<Project | undefined>;
+  getProjectScans(projectId: number): Promise<Scan[]>;
+  createProject(userId: number, project: InsertProject): Promise<Project>;
+  updateProject(projectId: number, project: InsertProject): Promise<Project>;
+  deleteProject(projectId: number): Promise<void>;
+  getUserScanSchedules(userId: number): Promise<ScanSchedule[]>;
+  getScanSchedule(scheduleId: number): Promise<ScanSchedule | undefined>;
+  getDueScanSchedules(now: Date): Promise<ScanSchedule[]>;
+  createScanSchedule(userId: number, schedule: InsertScanSchedule, nextRunAt: Date): Promise<ScanSchedule>;
+  updateScanSchedule(scheduleId: number, changes: ScanScheduleChanges): Promise<ScanSchedule>;
+  deleteScanSchedule(scheduleId: number): Promise<void>;
+  getUserFlows(userId: number): Promise<UserFlow[]>;
+  getUserFlow(flowId: number): Promise<UserFlow | undefined>;
+  createUserFlow(userId: number, flow: InsertUserFlow): Promise<UserFlow>;
+  updateUserFlow(flowId: number, flow: InsertUserFlow): Promise<UserFlow>;
+  markUserFlowRun(flowId: number, scanId: number, ranAt: Date): Promise<void>;
+  deleteUserFlow(flowId: number): Promise<void>;
+  getUserAlertRules(userId: number): Promise<AlertRule[]>;
+  getAlertRule(ruleId: number): Promise<AlertRule | undefined>;
+  createAlertRule(userId: number, rule: InsertAlertRule, webhookSecret: string): Promise<AlertRule>;
+  updateAlertRule(ruleId: number, rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRuleSecret(ruleId: number, webhookSecret: string): Promise<AlertRule>;
+  markAlertRuleTriggered(ruleId: number, triggeredAt: Date): Promise<void>;
+  deleteAlertRule(ruleId: number): Promise<void>;
+  getUserApiKeys(userId: number): Promise<ApiKey[]>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(userId: number, name: string, prefix: string, keyHash: string): Promise<ApiKey>;
+  markApiKeyUsed(keyId: number, usedAt: Date): Promise<void>;
+  revokeApiKey(userId: number, keyId: number): Promise<boolean>;
+  getUserWebhookEndpoints(userId: number): Promise<WebhookEndpoint[]>;
+  getWebhookEndpoint(endpointId: number): Promise<WebhookEndpoint | undefined>;
+  getSubscribedWebhookEndpoints(userId: number, event: string): Promise<WebhookEndpoint[]>;
+  createWebhookEndpoint(userId: number, endpoint: InsertWebhookEndpoint, secret: string): Promise<WebhookEndpoint>;
+  updateWebhookEndpoint(endpointId: number, changes: WebhookEndpointChanges): Promise<WebhookEndpoint>;
+  deleteWebhookEndpoint(endpointId: number): Promise<void>;
+  createWebhookDelivery(endpointId: number, payload: WebhookPayload, maxAttempts: number, nextAttemptAt: Date | null): Promise<WebhookDelivery>;
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  getWebhookDeliveries(endpointId: number, limit?: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(deliveryId: number, changes: WebhookDeliveryChanges): Promise<WebhookDelivery>;
+  getScanReportSettings(scan: Scan): Promise<ReportSettings | undefined>;
+  getConformanceReport(scanId: number): Promise<ConformanceReportRecord | undefined>;
+  saveConformanceReport(scanId: number, userId: number, report: InsertConformanceReport): Promise<ConformanceReportRecord>;
   getReportSettings(userId: number): Promise<ReportSettings | undefined>;
   saveReportSettings(userId: number, settings: InsertReportSettings): Promise<ReportSettings>;
   sessionStore: session.Store;
 }
 
+// Keeps what reports need from each axe check while dropping relatedNodes and other bulk
+function summarizeChecks(checks?: any[]): AxeCheckResult[] {
+  return (checks || []).map(check => ({
+    id: check.id,
+    impact: check.impact ?? null,
+    message: check.message,
+    data: check.data ?? null,
+  }));
+}
+
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
 
@@ -44,61 +204,829 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createScan(userId: number, scan: InsertScan): Promise<Scan> {
+  async createScan(userId: number, scan: NewScan, attributes: ScanAttributes = {}): Promise<Scan> {
     try {
-      // Explicitly define what columns to insert to avoid schema mismatch
-      // Do NOT include screenshot column here since it might not exist in all environments
       const [newScan] = await db
         .insert(scans)
         .values({
           url: scan.url,
           userId,
           status: "pending",
+          // Credentials are only ever stored encrypted
+          options: sealScanOptions(scan.options),
+          scanType: attributes.scanType ?? "axe",
+          parentId: attributes.parentId ?? null,
+          projectId: attributes.projectId ?? null,
         })
-        .returning({
-          id: scans.id,
-          userId: scans.userId,
-          url: scans.url,
-          status: scans.status,
-          reportUrl: scans.reportUrl,
-          createdAt: scans.createdAt
-        });
+        .returning(scanColumns);
         
       // Return the scan without screenshot property
-      return newScan;
+      return newScan as Scan;
     } catch (error) {
       console.error('Error creating scan:', error);
       throw error;
     }
   }
 
+  async getScan(scanId: number): Promise<Scan | undefined> {
+    const [scan] = await db.select(scanColumns).from(scans).where(eq(scans.id, scanId));
+    return scan as Scan | undefined;
+  }
+
+  async getScanByReportUrl(reportUrl: string): Promise<Scan | undefined> {
+    const [scan] = await db
+      .select(scanColumns)
+      .from(scans)
+      .where(or(eq(scans.reportUrl, reportUrl), eq(scans.htmlReportUrl, reportUrl)));
+    return scan as Scan | undefined;
+  }
+
   async getUserScans(userId: number): Promise<Scan[]> {
     try {
-      // Explicitly select columns to avoid issues with schema differences
-      const results = await db.select({
-        id: scans.id,
-        userId: scans.userId,
-        url: scans.url,
-        status: scans.status,
-        reportUrl: scans.reportUrl,
-        createdAt: scans.createdAt
-      }).from(scans).where(eq(scans.userId, userId));
+      const results = await db.select(scanColumns).from(scans).where(eq(scans.userId, userId));
       
       // Return the results without screenshot property
-      return results;
+      return results as Scan[];
     } catch (error) {
       console.error('Error fetching scans:', error);
       throw error;
     }
   }
 
-  async updateScanStatus(scanId: number, status: string, reportUrl?: string): Promise<void> {
+  // Completed top-level scans of the same type that the user ran before this one, newest first
+  async getEarlierCompletedScans(scan: Scan, limit = 50): Promise<Scan[]> {
+    const results = await db
+      .select(scanColumns)
+      .from(scans)
+      .where(and(
+        eq(scans.userId, scan.userId),
+        eq(scans.scanType, scan.scanType),
+        eq(scans.status, "completed"),
+        isNull(scans.parentId),
+        lt(scans.id, scan.id)
+      ))
+      .orderBy(desc(scans.id))
+      .limit(limit);
+    return results as Scan[];
+  }
+
+  // With a lease, only the job attempt that currently holds the job can change the scan
+  async updateScanStatus(scanId: number, status: string, reportUrl?: string, htmlReportUrl?: string, lease?: JobLease): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (lease) await assertJobLease(tx, lease);
+      // Cancellation is final, so work still winding down can't mark the scan completed or failed
+      await tx
+        .update(scans)
+        .set({ status, reportUrl, htmlReportUrl })
+        .where(and(eq(scans.id, scanId), ne(scans.status, "cancelled")));
+    });
+  }
+
+  async cancelScan(scanId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Page scans of a crawl or batch that haven't finished are cancelled with their parent
+      await tx
+        .update(scans)
+        .set({ status: "cancelled" })
+        .where(and(
+          or(eq(scans.id, scanId), eq(scans.parentId, scanId)),
+          inArray(scans.status, ["pending", "running"])
+        ));
+
+      await tx
+        .update(scanJobs)
+        .set({ status: "cancelled", lockedAt: null, updatedAt: new Date() })
+        .where(and(eq(scanJobs.scanId, scanId), eq(scanJobs.status, "queued")));
+    });
+  }
+
+  // Removes a scan with its page scans, results and jobs, returning the report URLs that are no longer referenced
+  async deleteScan(scanId: number): Promise<string[]> {
+    return db.transaction(async (tx) => {
+      const rows = await tx
+        .select({ id: scans.id, reportUrl: scans.reportUrl, htmlReportUrl: scans.htmlReportUrl, resultMeta: scans.resultMeta, screenshot: scans.screenshot })
+        .from(scans)
+        .where(or(eq(scans.id, scanId), eq(scans.parentId, scanId)));
+      const scanIds = rows.map(row => row.id);
+
+      if (scanIds.length === 0) {
+        return [];
+      }
+
+      // Site-level scans repeat their pages' elements, so crops can be listed more than once
+      const outlined = await tx
+        .selectDistinct({ screenshot: scanResultNodes.screenshot })
+        .from(scanResultNodes)
+        .where(and(inArray(scanResultNodes.scanId, scanIds), isNotNull(scanResultNodes.screenshot)));
+
+      await tx.delete(scanResultNodes).where(inArray(scanResultNodes.scanId, scanIds));
+      await tx.delete(scanRuleResults).where(inArray(scanRuleResults.scanId, scanIds));
+      await tx.delete(scanJobs).where(inArray(scanJobs.scanId, scanIds));
+      await tx.delete(reportShares).where(inArray(reportShares.scanId, scanIds));
+      await tx.delete(conformanceReports).where(inArray(conformanceReports.scanId, scanIds));
+      await tx.delete(scans).where(eq(scans.parentId, scanId));
+      await tx.delete(scans).where(eq(scans.id, scanId));
+
+      // A crawl or batch shows its pages' crops too, so deleting one page scan must leave the images
+      // that a remaining scan still shows
+      const images = [...rows.map(row => row.screenshot), ...outlined.map(node => node.screenshot)]
+        .filter((file): file is string => Boolean(file));
+      const stillShown = new Set<string | null>();
+      if (images.length > 0) {
+        const nodes = await tx
+          .selectDistinct({ screenshot: scanResultNodes.screenshot })
+          .from(scanResultNodes)
+          .where(inArray(scanResultNodes.screenshot, images));
+        const pages = await tx
+          .select({ screenshot: scans.screenshot })
+          .from(scans)
+          .where(inArray(scans.screenshot, images));
+        [...nodes, ...pages].forEach(row => stillShown.add(row.screenshot));
+      }
+
+      // Browser scans keep their screenshots next to the reports, flow scans one per checkpoint too
+      return [
+        ...rows.flatMap(row => [
+          row.reportUrl,
+          row.htmlReportUrl,
+          ...((row.resultMeta as ScanResultMeta | null)?.steps ?? []).map(step => step.screenshot),
+        ]),
+        ...images.filter(image => !stillShown.has(image)),
+      ].filter((url): url is string => Boolean(url));
+    });
+  }
+  
+  async saveScanResults(scanId: number, results: ScanResult, lease?: JobLease): Promise<void> {
+    const resultMeta: ScanResultMeta = {
+      scanDateTime: results.scanDateTime,
+      renderMode: results.renderMode,
+      error: results.error,
+      pages: results.pages,
+      steps: results.steps,
+      viewports: results.viewports,
+      keyboard: results.keyboard,
+      summary: summarizeScanResult(results),
+    };
+
+    await db.transaction(async (tx) => {
+      if (lease) await assertJobLease(tx, lease);
+      // Replace any earlier results so a re-run scan doesn't accumulate duplicates
+      await tx.delete(scanResultNodes).where(eq(scanResultNodes.scanId, scanId));
+      await tx.delete(scanRuleResults).where(eq(scanRuleResults.scanId, scanId));
+
+      for (const [key, outcome] of Object.entries(resultOutcomes)) {
+        const rules: any[] = results[key as keyof typeof resultOutcomes] || [];
+        if (rules.length === 0) continue;
+
+        const inserted = await tx
+          .insert(scanRuleResults)
+          .values(rules.map(rule => ({
+            scanId,
+            ruleId: rule.id,
+            outcome,
+            impact: rule.impact ?? null,
+            description: rule.description ?? null,
+            help: rule.help ?? null,
+            helpUrl: rule.helpUrl ?? null,
+            tags: rule.tags || [],
+          })))
+          .returning({ id: scanRuleResults.id, ruleId: scanRuleResults.ruleId });
+
+        // Rule ids are unique within one outcome, so they identify the inserted rows
+        const rowIds = new Map(inserted.map(row => [row.ruleId, row.id]));
+        const nodes = rules.flatMap(rule => (rule.nodes || []).map((node: any) => {
+          const target: string[] = node.target || [];
+          return {
+            scanId,
+            ruleResultId: rowIds.get(rule.id)!,
+            selector: target.join(' > '),
+            target,
+            html: node.html ?? null,
+            impact: node.impact ?? null,
+            failureSummary: node.failureSummary ?? null,
+            pageUrl: node.pageUrl ?? null,
+            step: node.step ?? null,
+            viewports: node.viewports ?? null,
+            screenshot: node.screenshot ?? null,
+            checks: {
+              any: summarizeChecks(node.any),
+              all: summarizeChecks(node.all),
+              none: summarizeChecks(node.none),
+            },
+          };
+        }));
+
+        for (let i = 0; i < nodes.length; i += NODE_INSERT_BATCH_SIZE) {
+          await tx.insert(scanResultNodes).values(nodes.slice(i, i + NODE_INSERT_BATCH_SIZE));
+        }
+      }
+
+      await tx
+        .update(scans)
+        .set({ resultMeta, screenshot: results.screenshot ?? null })
+        .where(eq(scans.id, scanId));
+    });
+  }
+
+  // Lighthouse scans keep only this summary; their audits are in the PDF report
+  async saveResultMeta(scanId: number, resultMeta: ScanResultMeta, lease?: JobLease): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (lease) await assertJobLease(tx, lease);
+      await tx.update(scans).set({ resultMeta }).where(eq(scans.id, scanId));
+    });
+  }
+
+  async getScanResults(scanId: number): Promise<ScanResults | undefined> {
+    const scan = await this.getScan(scanId);
+    if (!scan || !scan.resultMeta || scan.scanType === "lighthouse") {
+      return undefined;
+    }
+
+    const rules = await db
+      .select()
+      .from(scanRuleResults)
+      .where(eq(scanRuleResults.scanId, scanId))
+      .orderBy(asc(scanRuleResults.id));
+    const nodes = await db
+      .select()
+      .from(scanResultNodes)
+      .where(eq(scanResultNodes.scanId, scanId))
+      .orderBy(asc(scanResultNodes.id));
+
+    const results: ScanResults = {
+      ...scan.resultMeta,
+      url: scan.url,
+      violations: [],
+      passes: [],
+      incomplete: [],
+    };
+
+    const rulesById = new Map<number, AxeRuleResult>();
+    rules.forEach(rule => {
+      const ruleResult: AxeRuleResult = {
+        id: rule.ruleId,
+        impact: rule.impact,
+        description: rule.description,
+        help: rule.help,
+        helpUrl: rule.helpUrl,
+        tags: rule.tags as string[],
+        nodes: [],
+      };
+      rulesById.set(rule.id, ruleResult);
+
+      const key = (Object.keys(resultOutcomes) as (keyof typeof resultOutcomes)[])
+        .find(key => resultOutcomes[key] === rule.outcome);
+      if (key) {
+        results[key].push(ruleResult);
+      }
+    });
+
+    nodes.forEach(node => {
+      const checks = (node.checks || {}) as Pick<AxeNodeResult, 'any' | 'all' | 'none'>;
+      rulesById.get(node.ruleResultId)?.nodes.push({
+        target: node.target as string[],
+        html: node.html,
+        impact: node.impact,
+        failureSummary: node.failureSummary,
+        pageUrl: node.pageUrl,
+        ...(node.step !== null ? { step: node.step } : {}),
+        ...(node.viewports !== null ? { viewports: node.viewports as ViewportName[] } : {}),
+        ...(node.screenshot !== null ? { screenshot: node.screenshot } : {}),
+        ...checks,
+      });
+    });
+
+    return results;
+  }
+
+  // Whether one of the scan's elements was outlined in the given image
+  async hasElementScreenshot(scanId: number, file: string): Promise<boolean> {
+    const [node] = await db
+      .select({ id: scanResultNodes.id })
+      .from(scanResultNodes)
+      .where(and(eq(scanResultNodes.scanId, scanId), eq(scanResultNodes.screenshot, file)))
+      .limit(1);
+    return Boolean(node);
+  }
+  
+  async enqueueJob(scanId: number, type: string, maxAttempts: number, payload?: unknown): Promise<ScanJob> {
+    const [job] = await db
+      .insert(scanJobs)
+      .values({ scanId, type, maxAttempts, payload: payload ?? null })
+      .returning();
+    return job;
+  }
+
+  async claimNextJob(): Promise<ScanJob | undefined> {
+    // SKIP LOCKED lets several workers poll the same table without claiming a job twice
+    const nextJob = db
+      .select({ id: scanJobs.id })
+      .from(scanJobs)
+      .where(and(eq(scanJobs.status, "queued"), lte(scanJobs.runAt, new Date())))
+      .orderBy(asc(scanJobs.runAt), asc(scanJobs.id))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [job] = await db
+      .update(scanJobs)
+      .set({
+        status: "running",
+        attempts: sql`${scanJobs.attempts} + 1`,
+        lockedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(inArray(scanJobs.id, nextJob))
+      .returning();
+    return job;
+  }
+
+  async getRunningJobs(): Promise<ScanJob[]> {
+    return db.select().from(scanJobs).where(eq(scanJobs.status, "running"));
+  }
+
+  async completeJob(jobId: number): Promise<void> {
+    await db
+      .update(scanJobs)
+      .set({ status: "completed", lockedAt: null, updatedAt: new Date() })
+      .where(eq(scanJobs.id, jobId));
+  }
+
+  async retryJob(jobId: number, error: string, runAt: Date): Promise<void> {
+    await db
+      .update(scanJobs)
+      .set({ status: "queued", lastError: error, runAt, lockedAt: null, updatedAt: new Date() })
+      .where(eq(scanJobs.id, jobId));
+  }
+
+  async failJob(jobId: number, error: string): Promise<void> {
+    await db
+      .update(scanJobs)
+      .set({ status: "failed", lastError: error, lockedAt: null, updatedAt: new Date() })
+      .where(eq(scanJobs.id, jobId));
+  }
+
+  async cancelJob(jobId: number): Promise<void> {
     await db
-      .update(scans)
-      .set({ status, reportUrl })
-      .where(eq(scans.id, scanId));
+      .update(scanJobs)
+      .set({ status: "cancelled", lockedAt: null, updatedAt: new Date() })
+      .where(eq(scanJobs.id, jobId));
+  }
+  
+  async createReportShare(scanId: number, userId: number, expiresAt: Date): Promise<ReportShare> {
+    const [share] = await db
+      .insert(reportShares)
+      .values({ scanId, userId, expiresAt })
+      .returning();
+    return share;
+  }
+
+  async getReportShare(shareId: number): Promise<ReportShare | undefined> {
+    const [share] = await db.select().from(reportShares).where(eq(reportShares.id, shareId));
+    return share;
+  }
+
+  async getActiveReportShares(scanId: number): Promise<ReportShare[]> {
+    return db
+      .select()
+      .from(reportShares)
+      .where(and(
+        eq(reportShares.scanId, scanId),
+        isNull(reportShares.revokedAt),
+        gt(reportShares.expiresAt, new Date())
+      ))
+      .orderBy(desc(reportShares.createdAt));
+  }
+
+  async revokeReportShare(scanId: number, shareId: number): Promise<boolean> {
+    const revoked = await db
+      .update(reportShares)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(reportShares.id, shareId),
+        eq(reportShares.scanId, scanId),
+        isNull(reportShares.revokedAt)
+      ))
+      .returning({ id: reportShares.id });
+    return revoked.length > 0;
   }
   
+  async getUserProjects(userId: number): Promise<ProjectSummary[]> {
+    const userProjects = await db
+      .select()
+      .from(projects)
+      .where(eq(projects.userId, userId))
+      .orderBy(asc(projects.name));
+    if (userProjects.length === 0) {
+      return [];
+    }
+
+    // Only top-level scans count; pages of a crawl or batch belong to their parent
+    const projectScans = await db
+      .select(scanColumns)
+      .from(scans)
+      .where(and(
+        inArray(scans.projectId, userProjects.map(project => project.id)),
+        isNull(scans.parentId)
+      ))
+      .orderBy(desc(scans.createdAt));
+
+    return userProjects.map(project => {
+      const ownScans = projectScans.filter(scan => scan.projectId === project.id) as Scan[];
+      return {
+        ...project,
+        scanCount: ownScans.length,
+        latestScan: ownScans[0] ?? null,
+      };
+    });
+  }
+
+  async getProject(projectId: number): Promise<Project | undefined> {
+    const [project] = await db.select().from(projects).where(eq(projects.id, projectId));
+    return project;
+  }
+
+  async getProjectScans(projectId: number): Promise<Scan[]> {
+    const results = await db
+      .select(scanColumns)
+      .from(scans)
+      .where(and(eq(scans.projectId, projectId), isNull(scans.parentId)))
+      .orderBy(desc(scans.createdAt));
+    return results as Scan[];
+  }
+
+  async createProject(userId: number, project: InsertProject): Promise<Project> {
+    const [created] = await db
+      .insert(projects)
+      .values({ ...project, defaultOptions: sealScanOptions(project.defaultOptions), userId })
+      .returning();
+    return created;
+  }
+
+  async updateProject(projectId: number, project: InsertProject): Promise<Project> {
+    const [updated] = await db
+      .update(projects)
+      .set({
+        ...project,
+        ...(project.defaultOptions !== undefined ? { defaultOptions: sealScanOptions(project.defaultOptions) } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(projects.id, projectId))
+      .returning();
+    return updated;
+  }
+
+  async deleteProject(projectId: number): Promise<void> {
+    // Scans and schedules outlive their project and go back to the unfiled history
+    await db.transaction(async (tx) => {
+      await tx.update(scans).set({ projectId: null }).where(eq(scans.projectId, projectId));
+      await tx.update(scanSchedules).set({ projectId: null }).where(eq(scanSchedules.projectId, projectId));
+      await tx.update(userFlows).set({ projectId: null }).where(eq(userFlows.projectId, projectId));
+      await tx.delete(projects).where(eq(projects.id, projectId));
+    });
+  }
+
+  async getUserScanSchedules(userId: number): Promise<ScanSchedule[]> {
+    return db
+      .select()
+      .from(scanSchedules)
+      .where(eq(scanSchedules.userId, userId))
+      .orderBy(asc(scanSchedules.nextRunAt));
+  }
+
+  async getScanSchedule(scheduleId: number): Promise<ScanSchedule | undefined> {
+    const [schedule] = await db.select().from(scanSchedules).where(eq(scanSchedules.id, scheduleId));
+    return schedule;
+  }
+
+  async getDueScanSchedules(now: Date): Promise<ScanSchedule[]> {
+    return db
+      .select()
+      .from(scanSchedules)
+      .where(and(isNull(scanSchedules.pausedAt), lte(scanSchedules.nextRunAt, now)))
+      .orderBy(asc(scanSchedules.nextRunAt));
+  }
+
+  async createScanSchedule(userId: number, schedule: InsertScanSchedule, nextRunAt: Date): Promise<ScanSchedule> {
+    const [created] = await db
+      .insert(scanSchedules)
+      .values({
+        userId,
+        projectId: schedule.projectId ?? null,
+        url: schedule.url,
+        options: sealScanOptions(schedule.options),
+        cron: schedule.cron,
+        nextRunAt,
+      })
+      .returning();
+    return created;
+  }
+
+  async updateScanSchedule(scheduleId: number, changes: ScanScheduleChanges): Promise<ScanSchedule> {
+    const [updated] = await db
+      .update(scanSchedules)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(scanSchedules.id, scheduleId))
+      .returning();
+    return updated;
+  }
+
+  async deleteScanSchedule(scheduleId: number): Promise<void> {
+    await db.delete(scanSchedules).where(eq(scanSchedules.id, scheduleId));
+  }
+
+  async getUserFlows(userId: number): Promise<UserFlow[]> {
+    const flows = await db
+      .select()
+      .from(userFlows)
+      .where(eq(userFlows.userId, userId))
+      .orderBy(asc(userFlows.name));
+    return flows as UserFlow[];
+  }
+
+  async getUserFlow(flowId: number): Promise<UserFlow | undefined> {
+    const [flow] = await db.select().from(userFlows).where(eq(userFlows.id, flowId));
+    return flow as UserFlow | undefined;
+  }
+
+  async createUserFlow(userId: number, flow: InsertUserFlow): Promise<UserFlow> {
+    const [created] = await db
+      .insert(userFlows)
+      .values({
+        userId,
+        projectId: flow.projectId ?? null,
+        name: flow.name,
+        startUrl: flow.startUrl,
+        steps: flow.steps,
+        options: sealScanOptions(flow.options),
+      })
+      .returning();
+    return created as UserFlow;
+  }
+
+  async updateUserFlow(flowId: number, flow: InsertUserFlow): Promise<UserFlow> {
+    const [updated] = await db
+      .update(userFlows)
+      .set({
+        projectId: flow.projectId ?? null,
+        name: flow.name,
+        startUrl: flow.startUrl,
+        steps: flow.steps,
+        ...(flow.options !== undefined ? { options: sealScanOptions(flow.options) } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(userFlows.id, flowId))
+      .returning();
+    return updated as UserFlow;
+  }
+
+  async markUserFlowRun(flowId: number, scanId: number, ranAt: Date): Promise<void> {
+    await db.update(userFlows).set({ lastRunAt: ranAt, lastScanId: scanId }).where(eq(userFlows.id, flowId));
+  }
+
+  async deleteUserFlow(flowId: number): Promise<void> {
+    await db.delete(userFlows).where(eq(userFlows.id, flowId));
+  }
+
+  async getUserAlertRules(userId: number): Promise<AlertRule[]> {
+    return db
+      .select()
+      .from(alertRules)
+      .where(eq(alertRules.userId, userId))
+      .orderBy(asc(alertRules.createdAt));
+  }
+
+  async getAlertRule(ruleId: number): Promise<AlertRule | undefined> {
+    const [rule] = await db.select().from(alertRules).where(eq(alertRules.id, ruleId));
+    return rule;
+  }
+
+  async createAlertRule(userId: number, rule: InsertAlertRule, webhookSecret: string): Promise<AlertRule> {
+    const [created] = await db
+      .insert(alertRules)
+      .values({
+        userId,
+        url: rule.url,
+        type: rule.type,
+        threshold: rule.threshold ?? null,
+        webhookUrl: rule.webhookUrl || null,
+        webhookSecret,
+        emails: rule.emails,
+      })
+      .returning();
+    return created;
+  }
+
+  async updateAlertRule(ruleId: number, rule: InsertAlertRule): Promise<AlertRule> {
+    const [updated] = await db
+      .update(alertRules)
+      .set({
+        url: rule.url,
+        type: rule.type,
+        threshold: rule.threshold ?? null,
+        webhookUrl: rule.webhookUrl || null,
+        emails: rule.emails,
+        updatedAt: new Date(),
+      })
+      .where(eq(alertRules.id, ruleId))
+      .returning();
+    return updated;
+  }
+
+  async updateAlertRuleSecret(ruleId: number, webhookSecret: string): Promise<AlertRule> {
+    const [updated] = await db
+      .update(alertRules)
+      .set({ webhookSecret, updatedAt: new Date() })
+      .where(eq(alertRules.id, ruleId))
+      .returning();
+    return updated;
+  }
+
+  async markAlertRuleTriggered(ruleId: number, triggeredAt: Date): Promise<void> {
+    await db.update(alertRules).set({ lastTriggeredAt: triggeredAt }).where(eq(alertRules.id, ruleId));
+  }
+
+  async deleteAlertRule(ruleId: number): Promise<void> {
+    await db.delete(alertRules).where(eq(alertRules.id, ruleId));
+  }
+
+  async getUserApiKeys(userId: number): Promise<ApiKey[]> {
+    return db
+      .select(apiKeyColumns)
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await db.select(apiKeyColumns).from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return key;
+  }
+
+  async createApiKey(userId: number, name: string, prefix: string, keyHash: string): Promise<ApiKey> {
+    const [created] = await db
+      .insert(apiKeys)
+      .values({ userId, name, prefix, keyHash })
+      .returning(apiKeyColumns);
+    return created;
+  }
+
+  async markApiKeyUsed(keyId: number, usedAt: Date): Promise<void> {
+    await db.update(apiKeys).set({ lastUsedAt: usedAt }).where(eq(apiKeys.id, keyId));
+  }
+
+  // Revoked keys are kept so their name and last use stay visible
+  async revokeApiKey(userId: number, keyId: number): Promise<boolean> {
+    const revoked = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(apiKeys.id, keyId),
+        eq(apiKeys.userId, userId),
+        isNull(apiKeys.revokedAt)
+      ))
+      .returning({ id: apiKeys.id });
+    return revoked.length > 0;
+  }
+
+  async getUserWebhookEndpoints(userId: number): Promise<WebhookEndpoint[]> {
+    return db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.userId, userId))
+      .orderBy(asc(webhookEndpoints.createdAt));
+  }
+
+  async getWebhookEndpoint(endpointId: number): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, endpointId));
+    return endpoint;
+  }
+
+  // Enabled endpoints of the user whose event list includes the event
+  async getSubscribedWebhookEndpoints(userId: number, event: string): Promise<WebhookEndpoint[]> {
+    return db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(
+        eq(webhookEndpoints.userId, userId),
+        isNull(webhookEndpoints.disabledAt),
+        sql`${webhookEndpoints.events} @> ${JSON.stringify([event])}::jsonb`
+      ));
+  }
+
+  async createWebhookEndpoint(userId: number, endpoint: InsertWebhookEndpoint, secret: string): Promise<WebhookEndpoint> {
+    const [created] = await db
+      .insert(webhookEndpoints)
+      .values({
+        userId,
+        url: endpoint.url,
+        description: endpoint.description || null,
+        events: endpoint.events,
+        secret,
+      })
+      .returning();
+    return created;
+  }
+
+  async updateWebhookEndpoint(endpointId: number, changes: WebhookEndpointChanges): Promise<WebhookEndpoint> {
+    const [updated] = await db
+      .update(webhookEndpoints)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(webhookEndpoints.id, endpointId))
+      .returning();
+    return updated;
+  }
+
+  async deleteWebhookEndpoint(endpointId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(webhookDeliveries).where(eq(webhookDeliveries.endpointId, endpointId));
+      await tx.delete(webhookEndpoints).where(eq(webhookEndpoints.id, endpointId));
+    });
+  }
+
+  // Deliveries without a next attempt time are sent by the caller rather than the dispatcher
+  async createWebhookDelivery(endpointId: number, payload: WebhookPayload, maxAttempts: number, nextAttemptAt: Date | null): Promise<WebhookDelivery> {
+    const [created] = await db
+      .insert(webhookDeliveries)
+      .values({ endpointId, event: payload.event, payload, maxAttempts, nextAttemptAt })
+      .returning();
+    return created;
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt), asc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async getWebhookDeliveries(endpointId: number, limit = 50): Promise<WebhookDelivery[]> {
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.endpointId, endpointId))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async updateWebhookDelivery(deliveryId: number, changes: WebhookDeliveryChanges): Promise<WebhookDelivery> {
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(webhookDeliveries.id, deliveryId))
+      .returning();
+    return updated;
+  }
+
+  async getScanReportSettings(scan: Scan): Promise<ReportSettings | undefined> {
+    const settings = await this.getReportSettings(scan.userId);
+    const project = scan.projectId ? await this.getProject(scan.projectId) : undefined;
+    const branding = project?.branding as ProjectBranding | null | undefined;
+    if (!branding) {
+      return settings;
+    }
+
+    // Project values win where set; colors are merged one by one
+    const base: ReportSettings = settings ?? {
+      id: 0,
+      userId: scan.userId,
+      companyName: null,
+      companyLogo: null,
+      contactEmail: null,
+      contactPhone: null,
+      websiteUrl: null,
+      colors: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const setValues = (values: object) => Object.fromEntries(Object.entries(values).filter(([, value]) => value));
+    const { colors, ...fields } = branding;
+
+    return {
+      ...base,
+      ...setValues(fields),
+      colors: { ...((base.colors ?? {}) as object), ...setValues(colors ?? {}) },
+    };
+  }
+
+  async getConformanceReport(scanId: number): Promise<ConformanceReportRecord | undefined> {
+    const [report] = await db.select().from(conformanceReports).where(eq(conformanceReports.scanId, scanId));
+    return report;
+  }
+
+  async saveConformanceReport(scanId: number, userId: number, report: InsertConformanceReport): Promise<ConformanceReportRecord> {
+    const [saved] = await db
+      .insert(conformanceReports)
+      .values({ ...report, scanId, userId })
+      .onConflictDoUpdate({
+        target: conformanceReports.scanId,
+        set: { ...report, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
   async getReportSettings(userId: number): Promise<ReportSettings | undefined> {
     const [settings] = await db
       .select()
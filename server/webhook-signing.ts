@@ -0,0 +1,43 @@
+/**
+ * Signed webhook requests
+ * Lifecycle webhooks and alert rules both POST JSON signed with a per-endpoint secret, so
+ * receivers can check a request came from AccessScan and wasn't replayed much later
+ */
+import { createHmac, randomBytes } from "crypto";
+
+const WEBHOOK_TIMEOUT = 10 * 1000;
+
+export const SIGNATURE_HEADER = "X-AccessScan-Signature";
+export const TIMESTAMP_HEADER = "X-AccessScan-Timestamp";
+
+export function createWebhookSecret() {
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Signature receivers recompute to check a webhook: HMAC-SHA256 over "<timestamp>.<raw body>"
+ * with the secret, sent as "sha256=<hex>" next to the timestamp header
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string) {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// POSTs a JSON body with its signature; the caller decides what counts as success
+export async function postSignedWebhook(url: string, secret: string, body: string, headers: Record<string, string> = {}) {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "AccessScan-Webhooks",
+      ...headers,
+      [TIMESTAMP_HEADER]: timestamp,
+      [SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+  });
+  // Only the status matters; dropping the body frees the connection
+  await response.body?.cancel();
+  return response;
+}
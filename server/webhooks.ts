@@ -0,0 +1,205 @@
+/**
+ * Outbound webhooks for scan lifecycle events
+ * Each event becomes one delivery per subscribed endpoint, stored in Postgres and sent by an
+ * in-process dispatcher that retries failed attempts with exponential backoff; the stored
+ * deliveries double as the endpoint's delivery log
+ */
+import { randomUUID } from "crypto";
+import type { RedactedWebhookEndpoint, Scan, ScanResultMeta, WebhookDelivery, WebhookEndpoint, WebhookEventType, WebhookPayload } from "@shared/schema";
+import { storage } from "./storage";
+import { postSignedWebhook } from "./webhook-signing";
+
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6;
+// Delay before the first retry, doubled for every further attempt
+const RETRY_BASE_DELAY = Number(process.env.WEBHOOK_RETRY_DELAY_MS) || 60 * 1000;
+const POLL_INTERVAL = Number(process.env.WEBHOOK_POLL_INTERVAL_MS) || 5000;
+// Deliveries sent at once; they usually go to different endpoints
+const BATCH_SIZE = 10;
+
+export const EVENT_HEADER = "X-AccessScan-Event";
+export const DELIVERY_HEADER = "X-AccessScan-Delivery";
+
+// Status a scan must have for a completion event to be sent, so cancelled or deleted scans stay quiet
+const EVENT_SCAN_STATUS: Partial<Record<WebhookEventType, string>> = {
+  "scan.completed": "completed",
+  "scan.failed": "failed",
+};
+
+// Set once the dispatcher is running so new deliveries go out without waiting for the next poll
+let wakeDispatcher: (() => void) | null = null;
+
+export function redactWebhookEndpoint({ secret, ...endpoint }: WebhookEndpoint): RedactedWebhookEndpoint {
+  return endpoint;
+}
+
+// fetch reports network problems as "fetch failed" with the reason in its cause
+function describeError(error: unknown) {
+  if (!(error instanceof Error)) return String(error);
+  const cause = (error as Error & { cause?: unknown }).cause;
+  return cause instanceof Error ? `${error.message}: ${cause.message}` : error.message;
+}
+
+function buildPayload(event: WebhookPayload["event"], scan: Scan | undefined): WebhookPayload {
+  return {
+    id: randomUUID(),
+    event,
+    createdAt: new Date().toISOString(),
+    data: {
+      scan: scan
+        ? {
+          id: scan.id,
+          url: scan.url,
+          scanType: scan.scanType,
+          status: scan.status,
+          projectId: scan.projectId,
+          parentId: scan.parentId,
+          createdAt: new Date(scan.createdAt).toISOString(),
+          reportUrl: scan.reportUrl,
+          htmlReportUrl: scan.htmlReportUrl,
+          summary: (scan.resultMeta as ScanResultMeta | null)?.summary ?? null,
+        }
+        : null,
+    },
+  };
+}
+
+async function createDeliveries(event: WebhookEventType, scanId: number) {
+  const scan = await storage.getScan(scanId);
+  // Page scans of crawls and batches are reported through their parent scan
+  if (!scan || scan.parentId !== null) return;
+
+  const requiredStatus = EVENT_SCAN_STATUS[event];
+  if (requiredStatus && scan.status !== requiredStatus) return;
+
+  const endpoints = await storage.getSubscribedWebhookEndpoints(scan.userId, event);
+  if (endpoints.length === 0) return;
+
+  // Every endpoint receives the same payload, so receivers can use its id to drop duplicates
+  const payload = buildPayload(event, scan);
+  for (const endpoint of endpoints) {
+    await storage.createWebhookDelivery(endpoint.id, payload, MAX_ATTEMPTS, new Date());
+  }
+  wakeDispatcher?.();
+}
+
+// Queues the event for the scan owner's endpoints; webhook problems never affect the scan itself
+export function queueScanEvent(event: WebhookEventType, scanId: number) {
+  createDeliveries(event, scanId).catch(error => {
+    console.error(`Error queueing ${event} webhooks for scan ID ${scanId}:`, error);
+  });
+}
+
+// Makes one attempt and records it, scheduling a retry with backoff while attempts remain
+async function attemptDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string;
+
+  try {
+    const response = await postSignedWebhook(endpoint.url, endpoint.secret, JSON.stringify(delivery.payload), {
+      [EVENT_HEADER]: delivery.event,
+      [DELIVERY_HEADER]: String(delivery.id),
+    });
+    responseStatus = response.status;
+    if (response.ok) {
+      return storage.updateWebhookDelivery(delivery.id, {
+        status: "succeeded",
+        attempts,
+        responseStatus,
+        lastError: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      });
+    }
+    error = `Endpoint responded with ${response.status} ${response.statusText}`.trim();
+  } catch (attemptError) {
+    error = describeError(attemptError);
+  }
+
+  if (attempts < delivery.maxAttempts) {
+    const delay = RETRY_BASE_DELAY * 2 ** (attempts - 1);
+    console.log(`Webhook delivery ${delivery.id} to ${endpoint.url} will retry in ${delay}ms: ${error}`);
+    return storage.updateWebhookDelivery(delivery.id, {
+      attempts,
+      responseStatus,
+      lastError: error,
+      nextAttemptAt: new Date(Date.now() + delay),
+    });
+  }
+
+  console.error(`Webhook delivery ${delivery.id} to ${endpoint.url} failed after ${attempts} attempts: ${error}`);
+  return storage.updateWebhookDelivery(delivery.id, {
+    status: "failed",
+    attempts,
+    responseStatus,
+    lastError: error,
+    nextAttemptAt: null,
+  });
+}
+
+async function sendDueDelivery(delivery: WebhookDelivery) {
+  const endpoint = await storage.getWebhookEndpoint(delivery.endpointId);
+  if (!endpoint || endpoint.disabledAt) {
+    // Deliveries still waiting when their endpoint is switched off are dropped rather than sent later
+    await storage.updateWebhookDelivery(delivery.id, {
+      status: "failed",
+      lastError: "Endpoint was disabled",
+      nextAttemptAt: null,
+    });
+    return;
+  }
+  await attemptDelivery(delivery, endpoint);
+}
+
+/**
+ * Sends a webhook.test event straight away, outside the retry queue, and returns the logged
+ * delivery; the most recent scan, if there is one, stands in as sample data
+ */
+export async function sendTestEvent(endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  const [latestScan] = (await storage.getUserScans(endpoint.userId))
+    .filter(scan => scan.parentId === null)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const delivery = await storage.createWebhookDelivery(endpoint.id, buildPayload("webhook.test", latestScan), 1, null);
+  return attemptDelivery(delivery, endpoint);
+}
+
+export async function startWebhookDispatcher() {
+  let polling = false;
+  let pollAgain = false;
+
+  const poll = async () => {
+    // A wake-up during a poll is remembered so deliveries queued meanwhile aren't left for the next interval
+    if (polling) {
+      pollAgain = true;
+      return;
+    }
+    polling = true;
+
+    try {
+      const due = await storage.getDueWebhookDeliveries(new Date(), BATCH_SIZE);
+      const results = await Promise.all(due.map(delivery => sendDueDelivery(delivery).then(() => true, error => {
+        console.error(`Error sending webhook delivery ${delivery.id}:`, error);
+        return false;
+      })));
+      // A full batch may mean more are waiting; after an error they wait for the next interval instead
+      if (due.length === BATCH_SIZE && results.every(Boolean)) {
+        pollAgain = true;
+      }
+    } catch (error) {
+      console.error("Error polling webhook deliveries:", error);
+    } finally {
+      polling = false;
+    }
+
+    if (pollAgain) {
+      pollAgain = false;
+      void poll();
+    }
+  };
+
+  wakeDispatcher = () => void poll();
+  setInterval(poll, POLL_INTERVAL);
+  await poll();
+
+  console.log(`Webhook dispatcher started, checking every ${POLL_INTERVAL}ms`);
+}
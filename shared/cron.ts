@@ -0,0 +1,182 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC
+ * Supports lists, ranges, steps, month and weekday names and the @hourly, @daily, @weekly
+ * and @monthly shortcuts
+ */
+
+export const CRON_SHORTCUTS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const MONTH_ALIASES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAY_ALIASES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: string[];
+  aliasOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, aliases: MONTH_ALIASES, aliasOffset: 1 },
+  // 7 is accepted as Sunday too and folded onto 0 once parsed
+  { name: "day of week", min: 0, max: 7, aliases: WEEKDAY_ALIASES, aliasOffset: 0 },
+];
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // A "*" day field doesn't restrict; when both day fields are restricted either may match
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+function parseValue(value: string, spec: FieldSpec) {
+  const alias = spec.aliases?.indexOf(value.toLowerCase()) ?? -1;
+  const number = alias >= 0 ? alias + (spec.aliasOffset ?? 0) : Number(value);
+  if (!/^\d+$/.test(value) && alias < 0) {
+    throw new Error(`Invalid ${spec.name} value "${value}"`);
+  }
+  if (number < spec.min || number > spec.max) {
+    throw new Error(`${spec.name} must be between ${spec.min} and ${spec.max}`);
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec) {
+  const values = new Set<number>();
+
+  field.split(",").forEach(part => {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${spec.name} field "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+
+  return values;
+}
+
+function parseCron(expression: string): CronSchedule {
+  const normalized = CRON_SHORTCUTS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("A cron expression needs five fields: minute hour day-of-month month day-of-week");
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === "*",
+    anyWeekday: fields[4] === "*",
+  };
+}
+
+// Reason the expression can't be used, or null when it is valid
+export function validateCron(expression: string): string | null {
+  try {
+    return nextCronRun(expression, new Date()) ? null : "The expression never matches a date";
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export const isValidCron = (expression: string) => validateCron(expression) === null;
+
+function matchesDay(schedule: CronSchedule, date: Date) {
+  const day = schedule.days.has(date.getUTCDate());
+  const weekday = schedule.weekdays.has(date.getUTCDay());
+  if (schedule.anyDay) return weekday;
+  if (schedule.anyWeekday) return day;
+  return day || weekday;
+}
+
+// First time after the given moment that the expression fires, or null if it never does (e.g. 31 February)
+export function nextCronRun(expression: string, after: Date): Date | null {
+  const schedule = parseCron(expression);
+  const time = new Date(after.getTime());
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+  // Whole days are skipped when the date doesn't match, so a few years of days is a cheap search
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (time.getTime() <= limit) {
+    if (!schedule.months.has(time.getUTCMonth() + 1) || !matchesDay(schedule, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return time;
+  }
+
+  return null;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Readable description of the daily, weekly and monthly forms; other expressions are shown as written
+export function describeCron(expression: string): string {
+  const normalized = CRON_SHORTCUTS[expression.trim().toLowerCase()] ?? expression.trim();
+  const match = normalized.match(/^(\d+) (\d+) (\*|\d+) \* (\*|\d)$/);
+  if (!match || !isValidCron(normalized)) {
+    return expression;
+  }
+
+  const [, minute, hour, day, weekday] = match;
+  const time = `${pad(Number(hour))}:${pad(Number(minute))} UTC`;
+  if (day === "*" && weekday === "*") return `Daily at ${time}`;
+  if (day === "*") return `Weekly on ${WEEKDAY_NAMES[Number(weekday) % 7]} at ${time}`;
+  if (weekday === "*") return `Monthly on day ${day} at ${time}`;
+  return expression;
+}
@@ -1,6 +1,7 @@
 import { pgTable, text, serial, integer, timestamp, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { validateCron } from "./cron";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -12,10 +13,188 @@ export const scans = pgTable("scans", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   url: text("url").notNull(),
-  status: text("status").notNull(), // pending, completed, failed
+  status: text("status").notNull(), // pending, running, completed, failed, cancelled
   reportUrl: text("report_url"),
+  htmlReportUrl: text("html_report_url"), // Self-contained HTML version of the report
+  options: jsonb("options"), // ScanOptions chosen when the scan was submitted
+  scanType: text("scan_type").notNull().default("axe"), // axe, lighthouse, crawl, batch, flow
+  parentId: integer("parent_id"), // Site-level scan this page belongs to
+  projectId: integer("project_id"), // Project the scan was run for
+  resultMeta: jsonb("result_meta"), // ScanResultMeta recorded when results are saved
+  screenshot: text("screenshot"), // File name of the full-page screenshot of a browser scan, in reports/
   createdAt: timestamp("created_at").notNull().defaultNow(),
-  // Screenshot is handled in the code, not in the database schema
+});
+
+// A client site whose scans are grouped together, with its own scan defaults and branding
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  baseUrl: text("base_url").notNull(),
+  defaultOptions: jsonb("default_options"), // ScanOptions for scans started in the project
+  branding: jsonb("branding"), // ProjectBranding overriding the user's report settings
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Recurring scans of a URL; see server/scan-scheduler.ts
+export const scanSchedules = pgTable("scan_schedules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  projectId: integer("project_id"), // Project the scheduled scans are filed under
+  url: text("url").notNull(),
+  options: jsonb("options"), // ScanOptions for every scheduled scan
+  cron: text("cron").notNull(), // Five-field cron expression or shortcut, in UTC; see shared/cron.ts
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastScanId: integer("last_scan_id"),
+  pausedAt: timestamp("paused_at"), // Set while the schedule is paused
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Regression checks run when a scan of the URL completes; see server/alerts.ts
+export const alertRules = pgTable("alert_rules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  url: text("url").notNull(),
+  type: text("type").notNull(), // new-critical, violations-increase, lighthouse-score-below
+  threshold: integer("threshold"), // Violation increase or Lighthouse score, depending on type
+  webhookUrl: text("webhook_url"),
+  webhookSecret: text("webhook_secret").notNull(), // Signs webhook payloads with HMAC-SHA256
+  emails: jsonb("emails").notNull().default([]), // Addresses notified by email
+  lastTriggeredAt: timestamp("last_triggered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Endpoints notified of scan lifecycle events; see server/webhooks.ts
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  url: text("url").notNull(),
+  description: text("description"),
+  events: jsonb("events").notNull(), // WebhookEventType values the endpoint subscribes to
+  secret: text("secret").notNull(), // Signs payloads with HMAC-SHA256
+  disabledAt: timestamp("disabled_at"), // Set while deliveries to the endpoint are switched off
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// One event sent to one endpoint, retried with backoff until it succeeds or runs out of attempts
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  endpointId: integer("endpoint_id").notNull(),
+  event: text("event").notNull(), // scan.created, scan.completed, scan.failed, webhook.test
+  payload: jsonb("payload").notNull(), // WebhookPayload sent as the request body
+  status: text("status").notNull().default("pending"), // pending, succeeded, failed
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull(),
+  nextAttemptAt: timestamp("next_attempt_at"), // Null once the delivery has succeeded or failed
+  responseStatus: integer("response_status"), // HTTP status of the latest attempt
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Keys for the /api/v1 REST API; only a hash of each key is stored
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(), // Start of the key, shown so keys can be told apart
+  keyHash: text("key_hash").notNull().unique(), // SHA-256 of the full key
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Scripted journeys through a site, audited at each checkpoint; see server/services/flow-runner.ts
+export const userFlows = pgTable("user_flows", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  projectId: integer("project_id"), // Project the flow's scans are filed under
+  name: text("name").notNull(),
+  startUrl: text("start_url").notNull(),
+  steps: jsonb("steps").notNull(), // FlowStep list replayed in order
+  options: jsonb("options"), // StoredScanOptions carrying the flow's own sealed sign-in settings
+  lastRunAt: timestamp("last_run_at"),
+  lastScanId: integer("last_scan_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// One row per axe rule outcome of a scan
+export const scanRuleResults = pgTable("scan_rule_results", {
+  id: serial("id").primaryKey(),
+  scanId: integer("scan_id").notNull(),
+  ruleId: text("rule_id").notNull(),
+  outcome: text("outcome").notNull(), // violation, pass, incomplete
+  impact: text("impact"), // critical, serious, moderate, minor
+  description: text("description"),
+  help: text("help"),
+  helpUrl: text("help_url"),
+  tags: jsonb("tags").notNull(), // axe tags, including WCAG ones such as wcag2aa and wcag143
+});
+
+// Elements a rule result applies to
+export const scanResultNodes = pgTable("scan_result_nodes", {
+  id: serial("id").primaryKey(),
+  scanId: integer("scan_id").notNull(),
+  ruleResultId: integer("rule_result_id").notNull(),
+  selector: text("selector").notNull(), // axe target joined with " > "
+  target: jsonb("target").notNull(), // axe target as returned
+  html: text("html"),
+  impact: text("impact"),
+  failureSummary: text("failure_summary"),
+  pageUrl: text("page_url"), // Page the element is on, for site-level scans
+  step: integer("step"), // Index into the flow scan's checkpoints the element was found at
+  viewports: jsonb("viewports"), // Viewport names the element failed at, for multi-viewport scans
+  screenshot: text("screenshot"), // File name of the outlined crop of the element, in reports/
+  checks: jsonb("checks"), // axe any/all/none check results with their data
+});
+
+// Durable queue of scan work; see server/job-queue.ts
+export const scanJobs = pgTable("scan_jobs", {
+  id: serial("id").primaryKey(),
+  scanId: integer("scan_id").notNull(),
+  type: text("type").notNull(), // axe, lighthouse, crawl, batch, flow
+  payload: jsonb("payload"), // Extra input the scan row doesn't hold, e.g. an uploaded URL list
+  status: text("status").notNull().default("queued"), // queued, running, completed, failed, cancelled
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull(),
+  runAt: timestamp("run_at").notNull().defaultNow(), // Earliest time the job may start, pushed back on retry
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Signed links that let someone without an account download one scan's report
+export const reportShares = pgTable("report_shares", {
+  id: serial("id").primaryKey(),
+  scanId: integer("scan_id").notNull(),
+  userId: integer("user_id").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Auditor's edits to the Accessibility Conformance Report (VPAT) of a scan
+export const conformanceReports = pgTable("conformance_reports", {
+  id: serial("id").primaryKey(),
+  scanId: integer("scan_id").notNull().unique(),
+  userId: integer("user_id").notNull(),
+  wcagVersion: text("wcag_version").notNull().default("2.1"), // 2.1, 2.2
+  productName: text("product_name"),
+  productVersion: text("product_version"),
+  productDescription: text("product_description"),
+  evaluationMethods: text("evaluation_methods"),
+  notes: text("notes"),
+  overrides: jsonb("overrides").notNull().default({}), // Success criterion number to ConformanceOverride
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 // New table for report settings
@@ -37,8 +216,87 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// Limits for a site crawl; include/exclude are glob patterns matched against
+// the URL path ("*" stays within one path segment, "**" spans segments)
+export const crawlOptionsSchema = z.object({
+  maxDepth: z.number().int().min(0).max(5).default(2),
+  maxPages: z.number().int().min(1).max(200).default(25),
+  include: z.array(z.string().min(1)).default([]),
+  exclude: z.array(z.string().min(1)).default([]),
+});
+
+// One step of a login recipe, run in the headless browser before the page is scanned;
+// clicks don't wait for anything, so follow a submit with a waitFor step
+export const loginStepSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("goto"), url: z.string().url() }),
+  z.object({ action: z.literal("fill"), selector: z.string().trim().min(1), value: z.string().max(1000) }),
+  z.object({ action: z.literal("click"), selector: z.string().trim().min(1) }),
+  z.object({ action: z.literal("waitFor"), selector: z.string().trim().min(1) }),
+]);
+
+// Credentials for pages behind a login. They are encrypted before scan options are stored
+// and only ever come back as the StoredScanAuth description
+export const scanAuthSchema = z.object({
+  basic: z.object({
+    username: z.string().min(1).max(200),
+    password: z.string().max(1000),
+  }).optional(),
+  cookies: z.array(z.object({
+    name: z.string().trim().min(1).max(200),
+    value: z.string().max(4096),
+    // Defaults to the host of the scanned page
+    domain: z.string().trim().min(1).optional(),
+    path: z.string().trim().min(1).optional(),
+  })).max(50).default([]),
+  headers: z.array(z.object({
+    name: z.string().trim().regex(/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/, "Not a valid header name"),
+    value: z.string().max(8192),
+  })).max(50).default([]),
+  login: z.array(loginStepSchema).max(30).default([]),
+});
+
+// Screen sizes a browser scan can audit at; tablet and mobile emulate a touch device.
+// Their dimensions and user agents are in server/services/viewports.ts
+export const VIEWPORT_NAMES = ["desktop", "tablet", "mobile"] as const;
+
+// Per-scan settings; "browser" renders the page in headless Chromium before
+// auditing, "static" audits the raw HTML in JSDOM. Viewports only apply to browser scans
+export const scanOptionsSchema = z.object({
+  renderMode: z.enum(["browser", "static"]).optional(),
+  crawl: crawlOptionsSchema.optional(),
+  auth: scanAuthSchema.optional(),
+  viewports: z.array(z.enum(VIEWPORT_NAMES)).min(1).max(VIEWPORT_NAMES.length)
+    .refine(viewports => new Set(viewports).size === viewports.length, "Each viewport can only be chosen once")
+    .optional(),
+});
+
 export const insertScanSchema = createInsertSchema(scans).pick({
   url: true,
+}).extend({
+  options: scanOptionsSchema.optional(),
+  projectId: z.number().int().optional(),
+});
+
+export const insertCrawlScanSchema = insertScanSchema.extend({
+  options: scanOptionsSchema.extend({
+    crawl: crawlOptionsSchema.default({}),
+  }).default({}),
+});
+
+// Batch scans take their page list from a sitemap or from an uploaded
+// plain-text/CSV file whose contents are sent as urlList
+// Largest uploaded list, and so request body, the batch endpoints accept; CSV exports with extra columns
+// are far bigger than the URLs they hold
+export const MAX_URL_LIST_BYTES = 5 * 1024 * 1024;
+
+export const insertBatchScanSchema = z.object({
+  sitemapUrl: z.string().url().optional(),
+  urlList: z.string().optional(),
+  fileName: z.string().optional(),
+  options: scanOptionsSchema.optional(),
+  projectId: z.number().int().optional(),
+}).refine(data => !!data.sitemapUrl !== !!data.urlList, {
+  message: "Provide either a sitemap URL or a list of URLs",
 });
 
 export const reportSettingsSchema = createInsertSchema(reportSettings)
@@ -54,6 +312,154 @@ export const reportSettingsSchema = createInsertSchema(reportSettings)
     }).optional(),
   });
 
+// Any report setting can be overridden per project; unset fields fall back to the user's settings
+export const projectBrandingSchema = reportSettingsSchema.partial();
+
+export const insertProjectSchema = z.object({
+  name: z.string().trim().min(1, "Project name is required").max(100),
+  baseUrl: z.string().url(),
+  defaultOptions: scanOptionsSchema.optional().nullable(),
+  branding: projectBrandingSchema.optional().nullable(),
+});
+
+const cronSchema = z.string().trim().superRefine((cron, ctx) => {
+  const problem = validateCron(cron);
+  if (problem) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+  }
+});
+
+export const insertScanScheduleSchema = z.object({
+  url: z.string().url(),
+  cron: cronSchema,
+  options: scanOptionsSchema.optional(),
+  projectId: z.number().int().optional(),
+});
+
+// Schedules are paused and resumed, or moved to another time, without recreating them
+export const updateScanScheduleSchema = z.object({
+  cron: cronSchema.optional(),
+  paused: z.boolean().optional(),
+});
+
+export const alertRuleTypes = ["new-critical", "violations-increase", "lighthouse-score-below"] as const;
+
+export const insertAlertRuleSchema = z.object({
+  url: z.string().url(),
+  type: z.enum(alertRuleTypes),
+  threshold: z.number().int().min(0).max(100000).optional().nullable(),
+  webhookUrl: z.string().url().optional().nullable(),
+  emails: z.array(z.string().email()).max(10).default([]),
+}).superRefine((rule, ctx) => {
+  if (rule.type === "violations-increase" && !(rule.threshold && rule.threshold >= 1)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Set by how many violations the total must increase", path: ["threshold"] });
+  }
+  if (rule.type === "lighthouse-score-below" && (rule.threshold == null || rule.threshold > 100)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Set a Lighthouse score between 0 and 100", path: ["threshold"] });
+  }
+  if (!rule.webhookUrl && rule.emails.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Add a webhook URL or at least one email address", path: ["webhookUrl"] });
+  }
+});
+
+export const webhookEventTypes = ["scan.created", "scan.completed", "scan.failed"] as const;
+
+export const insertWebhookEndpointSchema = z.object({
+  url: z.string().url(),
+  description: z.string().trim().max(200).optional().nullable(),
+  events: z.array(z.enum(webhookEventTypes)).min(1, "Choose at least one event"),
+});
+
+// Endpoints can be switched off without losing their secret or delivery log
+export const updateWebhookEndpointSchema = insertWebhookEndpointSchema.partial().extend({
+  disabled: z.boolean().optional(),
+});
+
+// What a user flow does, one step at a time; an audit step runs axe on the page as it is at that point
+export const flowStepSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("navigate"), url: z.string().url() }),
+  z.object({ action: z.literal("click"), selector: z.string().trim().min(1).max(500) }),
+  z.object({ action: z.literal("type"), selector: z.string().trim().min(1).max(500), text: z.string().max(1000) }),
+  // Key names as Puppeteer knows them, e.g. Enter, Escape, Tab or ArrowDown
+  z.object({ action: z.literal("press"), key: z.string().trim().min(1).max(50) }),
+  // Waits for a selector to become visible, or for a fixed time when no selector is given
+  z.object({
+    action: z.literal("wait"),
+    selector: z.string().trim().min(1).max(500).optional(),
+    ms: z.number().int().min(0).max(30000).optional(),
+  }),
+  z.object({ action: z.literal("audit"), label: z.string().trim().max(100).optional() }),
+]);
+
+export const insertUserFlowSchema = z.object({
+  name: z.string().trim().min(1, "Name the flow").max(100),
+  startUrl: z.string().url(),
+  steps: z.array(flowStepSchema).min(1).max(100),
+  projectId: z.number().int().optional().nullable(),
+  // Sign-in settings used instead of the project's; left out on an edit, the stored ones are kept
+  options: z.object({ auth: scanAuthSchema.optional() }).optional().nullable(),
+}).superRefine((flow, ctx) => {
+  if (!flow.steps.some(step => step.action === "audit")) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Add at least one audit step", path: ["steps"] });
+  }
+  flow.steps.forEach((step, index) => {
+    if (step.action === "wait" && !step.selector && step.ms === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Wait for a selector or a number of milliseconds", path: ["steps", index] });
+    }
+  });
+});
+
+export const insertApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name the key after where it will be used").max(100),
+});
+
+export const apiScanTypes = ["axe", "lighthouse", "crawl", "batch"] as const;
+
+// Body of POST /api/v1/scans; batches take a sitemap or a URL list, every other type a URL
+export const createApiScanSchema = z.object({
+  type: z.enum(apiScanTypes).default("axe"),
+  url: z.string().url().optional(),
+  sitemapUrl: z.string().url().optional(),
+  urls: z.array(z.string().url()).min(1).optional(),
+  options: scanOptionsSchema.optional(),
+  projectId: z.number().int().optional(),
+}).superRefine((scan, ctx) => {
+  if (scan.type === "batch") {
+    if (!!scan.sitemapUrl === !!scan.urls) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Batch scans need either sitemapUrl or urls", path: ["sitemapUrl"] });
+    }
+  } else if (!scan.url) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "url is required", path: ["url"] });
+  }
+});
+
+export const insertReportShareSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(90).default(7),
+});
+
+export const conformanceLevels = [
+  "Supports",
+  "Partially Supports",
+  "Does Not Support",
+  "Not Applicable",
+  "Not Evaluated",
+] as const;
+
+export const conformanceOverrideSchema = z.object({
+  conformance: z.enum(conformanceLevels).optional(),
+  remarks: z.string().max(5000).optional(),
+});
+
+export const conformanceReportSchema = z.object({
+  wcagVersion: z.enum(["2.1", "2.2"]).default("2.1"),
+  productName: z.string().max(200).optional().nullable(),
+  productVersion: z.string().max(100).optional().nullable(),
+  productDescription: z.string().max(5000).optional().nullable(),
+  evaluationMethods: z.string().max(5000).optional().nullable(),
+  notes: z.string().max(10000).optional().nullable(),
+  overrides: z.record(z.string().regex(/^\d\.\d\.\d{1,2}$/), conformanceOverrideSchema).default({}),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 // Define custom Scan type to handle schema changes
@@ -63,9 +469,292 @@ export interface Scan {
   url: string;
   status: string;
   reportUrl: string | null;
+  htmlReportUrl: string | null;
+  options: StoredScanOptions | null;
+  scanType: string;
+  parentId: number | null;
+  projectId: number | null;
+  resultMeta: ScanResultMeta | null;
+  // File name of the full-page screenshot, served by /api/scans/:id/screenshot
+  screenshot: string | null;
   createdAt: Date;
-  // Screenshot is handled outside the database
 }
 export type InsertScan = z.infer<typeof insertScanSchema>;
+export type ScanRuleResult = typeof scanRuleResults.$inferSelect;
+export type ScanResultNode = typeof scanResultNodes.$inferSelect;
+
+// Stored results are returned in the same shape axe-core produces them
+export interface AxeCheckResult {
+  id: string;
+  impact?: string | null;
+  message?: string;
+  data?: any;
+}
+
+export interface AxeNodeResult {
+  target: string[];
+  html: string | null;
+  impact: string | null;
+  failureSummary: string | null;
+  pageUrl?: string | null;
+  // Checkpoint of a flow scan the element was found at, as an index into ScanResultMeta.steps
+  step?: number | null;
+  // Viewports of a multi-viewport scan the element failed at; fewer than all makes it viewport-specific
+  viewports?: ViewportName[] | null;
+  // File name of a crop of the page with the element outlined, served by /api/scans/:id/screenshots/:file
+  screenshot?: string | null;
+  any?: AxeCheckResult[];
+  all?: AxeCheckResult[];
+  none?: AxeCheckResult[];
+}
+
+export interface AxeRuleResult {
+  id: string;
+  impact: string | null;
+  description: string | null;
+  help: string | null;
+  helpUrl: string | null;
+  tags: string[];
+  nodes: AxeNodeResult[];
+}
+
+export interface ScanResultMeta {
+  scanDateTime?: string;
+  renderMode?: "browser" | "static";
+  error?: string;
+  pages?: { url: string; violations: number; error?: string }[];
+  steps?: FlowCheckpoint[];
+  viewports?: ViewportName[];
+  keyboard?: KeyboardAuditSummary;
+  summary?: ResultSummary;
+}
+
+// Where Tab took focus in a browser scan's keyboard audit; its findings are stored as rule results
+export interface KeyboardAuditSummary {
+  // Elements in the order Tab focused them; indicator is whether focusing them visibly changed the page,
+  // null where that couldn't be checked
+  focusOrder: { selector: string; indicator: boolean | null }[];
+  // Tab got all the way round the page, so every element that can be reached was
+  completed: boolean;
+  trapped: boolean;
+}
+
+// One audit step of a flow scan, in the order the flow reached them
+export interface FlowCheckpoint {
+  // Position of the audit step in the flow's steps
+  stepIndex: number;
+  label: string;
+  url: string;
+  violations: number;
+  // File name of the screenshot taken before auditing, served by /api/scans/:id/steps/:index/screenshot
+  screenshot: string | null;
+}
+
+// Headline numbers of a scan, kept with its results so lists don't need to load every rule
+export interface ResultSummary {
+  // Share of audited rules that passed, 0-100
+  score: number | null;
+  // Violating elements per impact
+  violations: ImpactCounts;
+}
+
+export interface ScanResults extends ScanResultMeta {
+  url: string;
+  violations: AxeRuleResult[];
+  passes: AxeRuleResult[];
+  incomplete: AxeRuleResult[];
+}
+
+export type ScanWithResults = Scan & { results: ScanResults | null };
+
+// How an issue changed between a baseline scan and a later scan of the same URL
+export type IssueChange = "new" | "fixed" | "persisting";
+
+export type ImpactCounts = Record<"critical" | "serious" | "moderate" | "minor" | "total", number>;
+
+// A violating element, matched across scans by rule id, page and normalized selector
+export interface ComparedIssue {
+  change: IssueChange;
+  ruleId: string;
+  impact: string | null;
+  help: string | null;
+  helpUrl: string | null;
+  selector: string;
+  html: string | null;
+  pageUrl: string | null;
+}
+
+export interface ComparedScan {
+  id: number;
+  url: string;
+  createdAt: string;
+  scanDateTime: string | null;
+}
+
+export interface ScanComparison {
+  base: ComparedScan;
+  current: ComparedScan;
+  counts: Record<IssueChange, ImpactCounts>;
+  issues: ComparedIssue[];
+}
+
+// Phases a scan moves through while it runs, streamed to the browser as progress events
+export type ScanPhase =
+  | "queued"
+  | "fetching"
+  | "parsing"
+  | "running-axe"
+  | "generating-report"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface ScanProgress {
+  scanId: number;
+  phase: ScanPhase;
+  message?: string;
+  // Set on crawls and batches, which report progress across their pages
+  pagesDone?: number;
+  pagesTotal?: number;
+}
+
+export type ScanProgressCallback = (phase: ScanPhase, message?: string) => void;
+export type ScanOptions = z.infer<typeof scanOptionsSchema>;
+export type ViewportName = typeof VIEWPORT_NAMES[number];
+export type ScanAuth = z.infer<typeof scanAuthSchema>;
+export type LoginStep = z.infer<typeof loginStepSchema>;
+
+// What stored scan options keep of their credentials: the secrets sealed, and names that are safe to show
+export interface StoredScanAuth {
+  // Encrypted ScanAuth; removed before options are sent to a client
+  encrypted?: string;
+  username: string | null;
+  cookies: string[];
+  headers: string[];
+  // The selector or URL of each step, never the values filled in
+  login: { action: LoginStep["action"]; target: string }[];
+}
+
+export type StoredScanOptions = Omit<ScanOptions, "auth"> & { auth?: StoredScanAuth };
+export type CrawlOptions = z.infer<typeof crawlOptionsSchema>;
+export type InsertCrawlScan = z.infer<typeof insertCrawlScanSchema>;
+export type InsertBatchScan = z.infer<typeof insertBatchScanSchema>;
+export type ScanJob = typeof scanJobs.$inferSelect;
+export type Project = typeof projects.$inferSelect;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type ProjectBranding = z.infer<typeof projectBrandingSchema>;
+// Project as listed on the dashboard, with its most recent top-level scan
+export type ProjectSummary = Project & { scanCount: number; latestScan: Scan | null };
+export type ProjectWithScans = Project & { scans: Scan[] };
+export type ScanSchedule = typeof scanSchedules.$inferSelect;
+export type InsertScanSchedule = z.infer<typeof insertScanScheduleSchema>;
+export type UpdateScanSchedule = z.infer<typeof updateScanScheduleSchema>;
+export type AlertRuleType = typeof alertRuleTypes[number];
+export type AlertRule = typeof alertRules.$inferSelect;
+// Rules as listed; like an endpoint's, the webhook secret is only returned when created or rotated
+export type RedactedAlertRule = Omit<AlertRule, "webhookSecret">;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type WebhookEventType = typeof webhookEventTypes[number];
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+// Endpoints as listed; the secret is only returned when it is created or rotated
+export type RedactedWebhookEndpoint = Omit<WebhookEndpoint, "secret">;
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
+export type UpdateWebhookEndpoint = z.infer<typeof updateWebhookEndpointSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type FlowStep = z.infer<typeof flowStepSchema>;
+export type UserFlow = Omit<typeof userFlows.$inferSelect, "steps"> & { steps: FlowStep[] };
+export type InsertUserFlow = z.infer<typeof insertUserFlowSchema>;
+export type ApiKey = Omit<typeof apiKeys.$inferSelect, "keyHash">;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+// Returned only when a key is created; the full key can't be shown again
+export type NewApiKey = ApiKey & { key: string };
+export type ApiScanType = typeof apiScanTypes[number];
+export type CreateApiScan = z.infer<typeof createApiScanSchema>;
+export type ReportShare = typeof reportShares.$inferSelect;
+export type InsertReportShare = z.infer<typeof insertReportShareSchema>;
+export type ConformanceLevel = typeof conformanceLevels[number];
+export type ConformanceOverride = z.infer<typeof conformanceOverrideSchema>;
+export type ConformanceReportRecord = typeof conformanceReports.$inferSelect;
+export type InsertConformanceReport = z.infer<typeof conformanceReportSchema>;
+
+// One row of the ACR table; automated holds what the scan results alone suggest
+export interface ConformanceCriterion {
+  number: string;
+  name: string;
+  level: "A" | "AA";
+  conformance: ConformanceLevel;
+  remarks: string;
+  automated: { conformance: ConformanceLevel; remarks: string };
+  overridden: boolean;
+}
+
+// Accessibility Conformance Report as edited and exported
+export interface ConformanceReport {
+  scanId: number;
+  url: string;
+  scanDateTime: string | null;
+  wcagVersion: "2.1" | "2.2";
+  productName: string | null;
+  productVersion: string | null;
+  productDescription: string | null;
+  evaluationMethods: string | null;
+  notes: string | null;
+  updatedAt: string | null;
+  criteria: ConformanceCriterion[];
+}
+
+// Outcome of sending an alert to one of its channels
+export interface AlertDelivery {
+  channel: "webhook" | "email";
+  target: string;
+  ok: boolean;
+  error?: string;
+}
+
+// Body of lifecycle webhooks; test deliveries carry the most recent scan, if any, as sample data
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEventType | "webhook.test";
+  createdAt: string;
+  data: {
+    scan: {
+      id: number;
+      url: string;
+      scanType: string;
+      status: string;
+      projectId: number | null;
+      parentId: number | null;
+      createdAt: string;
+      reportUrl: string | null;
+      htmlReportUrl: string | null;
+      summary: ResultSummary | null;
+    } | null;
+  };
+}
+
+// A scan as represented by the /api/v1 REST API; links are paths on the same server
+export interface ApiScan {
+  id: number;
+  type: string;
+  status: string;
+  url: string;
+  projectId: number | null;
+  parentId: number | null;
+  createdAt: string;
+  progress: ScanProgress;
+  summary: ResultSummary | null;
+  // Why a completed scan couldn't reach or audit the page; its summary then counts nothing
+  error: string | null;
+  links: {
+    self: string;
+    pages: string | null;
+    results: string | null;
+    report: string | null;
+    htmlReport: string | null;
+  };
+}
+
+// Share as returned to its owner, with the signed link to hand out
+export type ReportShareWithUrl = ReportShare & { url: string };
 export type ReportSettings = typeof reportSettings.$inferSelect;
 export type InsertReportSettings = z.infer<typeof reportSettingsSchema>;
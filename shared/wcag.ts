@@ -0,0 +1,108 @@
+// Helpers for reading WCAG information out of axe-core rule tags
+
+export type WcagLevel = "A" | "AA" | "AAA" | "Best Practice";
+
+/**
+ * Converts success criterion tags to their dotted numbers,
+ * e.g. "wcag143" becomes "1.4.3" and "wcag1410" becomes "1.4.10"
+ */
+export function getWcagCriteria(tags: string[]): string[] {
+  return tags
+    .filter(tag => /^wcag\d{3,}$/.test(tag))
+    .map(tag => {
+      const digits = tag.slice(4);
+      return `${digits[0]}.${digits[1]}.${digits.slice(2)}`;
+    });
+}
+
+/**
+ * Conformance level a rule tests, from tags such as "wcag2a", "wcag21aa" or "wcag22aaa".
+ * Rules without a level tag are axe best practices rather than WCAG requirements.
+ */
+export function getWcagLevel(tags: string[]): WcagLevel {
+  if (tags.some(tag => /^wcag2\d?aaa$/.test(tag))) return "AAA";
+  if (tags.some(tag => /^wcag2\d?aa$/.test(tag))) return "AA";
+  if (tags.some(tag => /^wcag2\d?a$/.test(tag))) return "A";
+  return "Best Practice";
+}
+
+// axe impact levels from most to least severe
+export const IMPACT_ORDER = ["critical", "serious", "moderate", "minor"] as const;
+
+export type WcagVersion = "2.1" | "2.2";
+
+export interface WcagSuccessCriterion {
+  number: string;
+  name: string;
+  level: "A" | "AA";
+  // WCAG version that introduced the criterion and, for 4.1.1, the one that removed it
+  since: "2.0" | "2.1" | "2.2";
+  removedIn?: WcagVersion;
+}
+
+// Level A and AA success criteria, the ones an ACR reports conformance against
+export const WCAG_SUCCESS_CRITERIA: WcagSuccessCriterion[] = [
+  { number: "1.1.1", name: "Non-text Content", level: "A", since: "2.0" },
+  { number: "1.2.1", name: "Audio-only and Video-only (Prerecorded)", level: "A", since: "2.0" },
+  { number: "1.2.2", name: "Captions (Prerecorded)", level: "A", since: "2.0" },
+  { number: "1.2.3", name: "Audio Description or Media Alternative (Prerecorded)", level: "A", since: "2.0" },
+  { number: "1.2.4", name: "Captions (Live)", level: "AA", since: "2.0" },
+  { number: "1.2.5", name: "Audio Description (Prerecorded)", level: "AA", since: "2.0" },
+  { number: "1.3.1", name: "Info and Relationships", level: "A", since: "2.0" },
+  { number: "1.3.2", name: "Meaningful Sequence", level: "A", since: "2.0" },
+  { number: "1.3.3", name: "Sensory Characteristics", level: "A", since: "2.0" },
+  { number: "1.3.4", name: "Orientation", level: "AA", since: "2.1" },
+  { number: "1.3.5", name: "Identify Input Purpose", level: "AA", since: "2.1" },
+  { number: "1.4.1", name: "Use of Color", level: "A", since: "2.0" },
+  { number: "1.4.2", name: "Audio Control", level: "A", since: "2.0" },
+  { number: "1.4.3", name: "Contrast (Minimum)", level: "AA", since: "2.0" },
+  { number: "1.4.4", name: "Resize Text", level: "AA", since: "2.0" },
+  { number: "1.4.5", name: "Images of Text", level: "AA", since: "2.0" },
+  { number: "1.4.10", name: "Reflow", level: "AA", since: "2.1" },
+  { number: "1.4.11", name: "Non-text Contrast", level: "AA", since: "2.1" },
+  { number: "1.4.12", name: "Text Spacing", level: "AA", since: "2.1" },
+  { number: "1.4.13", name: "Content on Hover or Focus", level: "AA", since: "2.1" },
+  { number: "2.1.1", name: "Keyboard", level: "A", since: "2.0" },
+  { number: "2.1.2", name: "No Keyboard Trap", level: "A", since: "2.0" },
+  { number: "2.1.4", name: "Character Key Shortcuts", level: "A", since: "2.1" },
+  { number: "2.2.1", name: "Timing Adjustable", level: "A", since: "2.0" },
+  { number: "2.2.2", name: "Pause, Stop, Hide", level: "A", since: "2.0" },
+  { number: "2.3.1", name: "Three Flashes or Below Threshold", level: "A", since: "2.0" },
+  { number: "2.4.1", name: "Bypass Blocks", level: "A", since: "2.0" },
+  { number: "2.4.2", name: "Page Titled", level: "A", since: "2.0" },
+  { number: "2.4.3", name: "Focus Order", level: "A", since: "2.0" },
+  { number: "2.4.4", name: "Link Purpose (In Context)", level: "A", since: "2.0" },
+  { number: "2.4.5", name: "Multiple Ways", level: "AA", since: "2.0" },
+  { number: "2.4.6", name: "Headings and Labels", level: "AA", since: "2.0" },
+  { number: "2.4.7", name: "Focus Visible", level: "AA", since: "2.0" },
+  { number: "2.4.11", name: "Focus Not Obscured (Minimum)", level: "AA", since: "2.2" },
+  { number: "2.5.1", name: "Pointer Gestures", level: "A", since: "2.1" },
+  { number: "2.5.2", name: "Pointer Cancellation", level: "A", since: "2.1" },
+  { number: "2.5.3", name: "Label in Name", level: "A", since: "2.1" },
+  { number: "2.5.4", name: "Motion Actuation", level: "A", since: "2.1" },
+  { number: "2.5.7", name: "Dragging Movements", level: "AA", since: "2.2" },
+  { number: "2.5.8", name: "Target Size (Minimum)", level: "AA", since: "2.2" },
+  { number: "3.1.1", name: "Language of Page", level: "A", since: "2.0" },
+  { number: "3.1.2", name: "Language of Parts", level: "AA", since: "2.0" },
+  { number: "3.2.1", name: "On Focus", level: "A", since: "2.0" },
+  { number: "3.2.2", name: "On Input", level: "A", since: "2.0" },
+  { number: "3.2.3", name: "Consistent Navigation", level: "AA", since: "2.0" },
+  { number: "3.2.4", name: "Consistent Identification", level: "AA", since: "2.0" },
+  { number: "3.2.6", name: "Consistent Help", level: "A", since: "2.2" },
+  { number: "3.3.1", name: "Error Identification", level: "A", since: "2.0" },
+  { number: "3.3.2", name: "Labels or Instructions", level: "A", since: "2.0" },
+  { number: "3.3.3", name: "Error Suggestion", level: "AA", since: "2.0" },
+  { number: "3.3.4", name: "Error Prevention (Legal, Financial, Data)", level: "AA", since: "2.0" },
+  { number: "3.3.7", name: "Redundant Entry", level: "A", since: "2.2" },
+  { number: "3.3.8", name: "Accessible Authentication (Minimum)", level: "AA", since: "2.2" },
+  { number: "4.1.1", name: "Parsing", level: "A", since: "2.0", removedIn: "2.2" },
+  { number: "4.1.2", name: "Name, Role, Value", level: "A", since: "2.0" },
+  { number: "4.1.3", name: "Status Messages", level: "AA", since: "2.1" },
+];
+
+// Success criteria that are part of the given WCAG version
+export function getSuccessCriteria(version: WcagVersion): WcagSuccessCriterion[] {
+  return WCAG_SUCCESS_CRITERIA.filter(criterion =>
+    criterion.since <= version && !(criterion.removedIn && criterion.removedIn <= version)
+  );
+}